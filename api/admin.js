@@ -0,0 +1,91 @@
+// Vercel serverless function for admin order intervention
+//
+// GET  /api/admin                          -> audit log
+// POST /api/admin { action, target, reason } -> run an admin action
+//
+// Requires Authorization: Bearer $ADMIN_API_TOKEN
+const { FulfillmentProcessor } = require('../dist/services/fulfillment');
+const { OrderMaintenanceService } = require('../dist/services/order-maintenance');
+const { AdminService, ADMIN_ACTIONS, isAdminAuthorized } = require('../dist/services/admin');
+const { createSigner } = require('../dist/services/signer');
+
+module.exports = async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (!process.env.ADMIN_API_TOKEN) {
+    return res.status(503).json({
+      success: false,
+      error: 'Admin API disabled (set ADMIN_API_TOKEN)'
+    });
+  }
+
+  if (!isAdminAuthorized(req.headers.authorization)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized'
+    });
+  }
+
+  try {
+    const network = process.env.NETWORK || 'mainnet';
+    const dryRun = process.env.DRY_RUN === 'true';
+    const signer = createSigner(network);
+
+    const processor = new FulfillmentProcessor({
+      xcpfolioAddress: process.env.XCPFOLIO_ADDRESS,
+      signer,
+      network,
+      dryRun,
+      maxMempoolTxs: parseInt(process.env.MAX_MEMPOOL_TXS || '25'),
+      rbfEnabled: process.env.RBF_ENABLED !== 'false'
+    });
+
+    const maintenance = new OrderMaintenanceService({
+      xcpfolioAddress: process.env.XCPFOLIO_ADDRESS,
+      signer,
+      network,
+      dryRun,
+      maxMempoolTxs: parseInt(process.env.MAX_MEMPOOL_TXS || '25')
+    });
+
+    const admin = new AdminService(processor, maintenance);
+
+    if (req.method === 'GET') {
+      const limit = parseInt(req.query.limit) || 100;
+      const entries = await admin.getAuditLog(limit);
+      return res.status(200).json({
+        success: true,
+        entries,
+        total: entries.length
+      });
+    }
+
+    if (req.method === 'POST') {
+      const { action, target, reason } = req.body || {};
+
+      if (!ADMIN_ACTIONS.includes(action) || !target) {
+        return res.status(400).json({
+          success: false,
+          error: `Expected { action, target } with action one of: ${ADMIN_ACTIONS.join(', ')}`
+        });
+      }
+
+      const actor = req.headers['x-admin-actor'] || 'admin';
+      const result = await admin.execute(action, target, actor, reason);
+      return res.status(result.success ? 200 : 400).json(result);
+    }
+
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  } catch (error) {
+    console.error('Error in admin API:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+};
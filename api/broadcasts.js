@@ -0,0 +1,72 @@
+// Vercel serverless function for the broadcast audit log
+//
+// GET /api/broadcasts?kind=transfer&since=2024-01-01&limit=100
+// GET /api/broadcasts?offset=100  -> next page (nextOffset, or X-Next-Offset for CSV)
+// GET /api/broadcasts?format=csv  -> CSV export for accounting
+//
+// Requires Authorization: Bearer $ADMIN_API_TOKEN
+const { BroadcastLogService, broadcastLogToCsv, broadcastLogPageSize } = require('../dist/services/broadcast-log');
+const { isAdminAuthorized } = require('../dist/services/admin');
+
+function parseTime(value) {
+  if (!value) return undefined;
+  const time = /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+  return isNaN(time) ? undefined : time;
+}
+
+module.exports = async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  if (!process.env.ADMIN_API_TOKEN) {
+    return res.status(503).json({
+      success: false,
+      error: 'Admin API disabled (set ADMIN_API_TOKEN)'
+    });
+  }
+
+  if (!isAdminAuthorized(req.headers.authorization)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized'
+    });
+  }
+
+  try {
+    const { entries, nextOffset } = await new BroadcastLogService().getPage({
+      limit: broadcastLogPageSize(req.query.limit),
+      offset: parseInt(req.query.offset) || 0,
+      kind: req.query.kind,
+      since: parseTime(req.query.since),
+      until: parseTime(req.query.until)
+    });
+
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename="broadcasts.csv"');
+      if (nextOffset !== undefined) res.setHeader('X-Next-Offset', String(nextOffset));
+      return res.status(200).send(broadcastLogToCsv(entries));
+    }
+
+    return res.status(200).json({
+      success: true,
+      entries,
+      total: entries.length,
+      nextOffset
+    });
+  } catch (error) {
+    console.error('Error fetching broadcast log:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+};
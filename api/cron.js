@@ -4,15 +4,25 @@ const { ConfirmationMonitor } = require('../dist/services/confirmation-monitor')
 const { OrderMaintenanceService } = require('../dist/services/order-maintenance');
 const { NotificationService } = require('../dist/services/notifications');
 const { loadPrices } = require('../dist/services/prices');
+const { createPricingEngine } = require('../dist/services/pricing-rules');
+const { createSigner } = require('../dist/services/signer');
+const { getCounterpartyNodes } = require('../dist/services/counterparty-nodes');
 
 module.exports = async (req, res) => {
   console.log('Cron job triggered:', new Date().toISOString());
 
   try {
+    // Fails the run on an unsupported Counterparty version or with no node reachable
+    await getCounterpartyNodes().check();
+
+    // SIGNER selects the in-process WIF key (default), a PSBT signing daemon
+    // or the manual approval queue
+    const signer = createSigner(process.env.NETWORK || 'mainnet');
+
     // Build config from environment variables
     const config = {
       xcpfolioAddress: process.env.XCPFOLIO_ADDRESS,
-      privateKey: process.env.XCPFOLIO_PRIVATE_KEY,
+      signer,
       network: process.env.NETWORK || 'mainnet',
       dryRun: process.env.DRY_RUN === 'true',
       maxMempoolTxs: parseInt(process.env.MAX_MEMPOOL_TXS || '25'),
@@ -21,7 +31,10 @@ module.exports = async (req, res) => {
       rbfEnabled: process.env.RBF_ENABLED !== 'false',
       stuckTxThreshold: parseInt(process.env.STUCK_TX_THRESHOLD || '3'),
       maxTotalFeeSats: parseInt(process.env.MAX_TOTAL_FEE_SATS || '10000'),
-      maxFeeRateForNewTx: parseInt(process.env.MAX_FEE_RATE_FOR_NEW_TX || '100')
+      maxFeeRateForNewTx: parseInt(process.env.MAX_FEE_RATE_FOR_NEW_TX || '100'),
+      hourlyFeeBudgetSats: parseInt(process.env.HOURLY_FEE_BUDGET_SATS || '100000'),
+      dailyFeeBudgetSats: parseInt(process.env.DAILY_FEE_BUDGET_SATS || '500000'),
+      fullRescanIntervalHours: parseFloat(process.env.FULL_RESCAN_INTERVAL_HOURS || '6')
     };
 
     const processor = new FulfillmentProcessor(config);
@@ -45,18 +58,37 @@ module.exports = async (req, res) => {
       if (prices.size > 0) {
         const maintenanceConfig = {
           xcpfolioAddress: process.env.XCPFOLIO_ADDRESS,
-          privateKey: process.env.XCPFOLIO_PRIVATE_KEY,
+          signer,
           network: process.env.NETWORK || 'mainnet',
           dryRun: process.env.DRY_RUN === 'true',
           maxMempoolTxs: parseInt(process.env.MAX_MEMPOOL_TXS || '25'),
           orderExpiration: parseInt(process.env.ORDER_EXPIRATION || '0'), // 0 = indefinite
-          waitAfterBroadcast: parseInt(process.env.WAIT_AFTER_BROADCAST || '2000')
+          waitAfterBroadcast: parseInt(process.env.WAIT_AFTER_BROADCAST || '2000'),
+          repriceEnabled: process.env.REPRICE_ENABLED !== 'false',
+          maxRepricesPerRun: parseInt(process.env.MAX_REPRICES_PER_RUN || '5'),
+          delistEnabled: process.env.DELIST_ENABLED !== 'false',
+          maxDelistsPerRun: parseInt(process.env.MAX_DELISTS_PER_RUN || '5'),
+          hourlyFeeBudgetSats: config.hourlyFeeBudgetSats,
+          dailyFeeBudgetSats: config.dailyFeeBudgetSats,
+          utxoSplitCount: parseInt(process.env.UTXO_SPLIT_COUNT || '10'),
+          minSplitOutputSats: parseInt(process.env.MIN_SPLIT_OUTPUT_SATS || '10000'),
+          dustThresholdSats: parseInt(process.env.DUST_THRESHOLD_SATS || '2000'),
+          consolidateMaxFeeRate: parseFloat(process.env.CONSOLIDATE_MAX_FEE_RATE || '2'),
+          listingTargetFeeRate: parseFloat(process.env.LISTING_TARGET_FEE_RATE || '0'),
+          listingMaxDeferHours: parseFloat(process.env.LISTING_MAX_DEFER_HOURS || '24')
         };
 
         const maintenance = new OrderMaintenanceService(maintenanceConfig);
         maintenance.setPrices(prices);
+        const pricingEngine = createPricingEngine(prices);
+        if (pricingEngine) {
+          maintenance.setPricingEngine(pricingEngine);
+        }
         maintenanceResults = await maintenance.run();
-        console.log(`Order maintenance: ${maintenanceResults.filter(r => r.success).length} orders created`);
+        const created = maintenanceResults.filter(r => r.success && r.action === 'list').length;
+        const repriced = maintenanceResults.filter(r => r.success && r.action === 'reprice').length;
+        const delisted = maintenanceResults.filter(r => r.success && r.action === 'delist').length;
+        console.log(`Order maintenance: ${created} orders created, ${repriced} re-priced, ${delisted} delisted`);
       } else {
         console.log('No prices loaded, skipping order maintenance');
       }
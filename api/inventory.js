@@ -0,0 +1,79 @@
+// Vercel serverless function for asset inventory reconciliation
+//
+// GET /api/inventory                -> latest report
+// GET /api/inventory?refresh=true   -> run a new reconciliation
+// GET /api/inventory?format=csv     -> issues as CSV
+//
+// Requires Authorization: Bearer $ADMIN_API_TOKEN. The scheduled Vercel cron
+// authenticates with Bearer $CRON_SECRET and always runs a new reconciliation.
+const { InventoryReconciler, inventoryReportToCsv } = require('../dist/services/inventory');
+const { isAdminAuthorized } = require('../dist/services/admin');
+const { loadPrices } = require('../dist/services/prices');
+const { createPricingEngine } = require('../dist/services/pricing-rules');
+
+module.exports = async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  }
+
+  const isCron = !!process.env.CRON_SECRET &&
+    req.headers.authorization === `Bearer ${process.env.CRON_SECRET}`;
+
+  if (!isCron && !process.env.ADMIN_API_TOKEN) {
+    return res.status(503).json({
+      success: false,
+      error: 'Admin API disabled (set ADMIN_API_TOKEN)'
+    });
+  }
+
+  if (!isCron && !isAdminAuthorized(req.headers.authorization)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized'
+    });
+  }
+
+  try {
+    const prices = loadPrices();
+    const pricingEngine = createPricingEngine(prices);
+    const inventory = new InventoryReconciler(process.env.XCPFOLIO_ADDRESS, prices);
+    if (pricingEngine) {
+      inventory.setPricingEngine(pricingEngine);
+    }
+
+    const report = isCron || req.query.refresh === 'true'
+      ? await inventory.run()
+      : await inventory.getLatestReport();
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: 'No inventory report yet (use ?refresh=true)'
+      });
+    }
+
+    if (req.query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename="inventory.csv"');
+      return res.status(200).send(inventoryReportToCsv(report));
+    }
+
+    return res.status(200).json({
+      success: true,
+      report
+    });
+  } catch (error) {
+    console.error('Error in inventory reconciliation:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,91 @@
+// Vercel serverless function for the manual signing queue (SIGNER=manual)
+//
+// GET    /api/signing?status=pending  -> queued signing requests
+// POST   /api/signing { key, psbt }   -> submit a signed PSBT (base64)
+// DELETE /api/signing?key=...         -> discard a request
+//
+// Requires Authorization: Bearer $ADMIN_API_TOKEN
+const { SigningQueue } = require('../dist/services/signer');
+const { BitcoinService } = require('../dist/services/bitcoin');
+const { isAdminAuthorized } = require('../dist/services/admin');
+
+module.exports = async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (!process.env.ADMIN_API_TOKEN) {
+    return res.status(503).json({
+      success: false,
+      error: 'Admin API disabled (set ADMIN_API_TOKEN)'
+    });
+  }
+
+  if (!isAdminAuthorized(req.headers.authorization)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Unauthorized'
+    });
+  }
+
+  try {
+    const queue = new SigningQueue(undefined, new BitcoinService(process.env.NETWORK || 'mainnet'));
+
+    if (req.method === 'GET') {
+      const requests = await queue.list(req.query.status);
+      return res.status(200).json({
+        success: true,
+        requests,
+        total: requests.length
+      });
+    }
+
+    if (req.method === 'POST') {
+      const { key, psbt } = req.body || {};
+
+      if (!key || !psbt) {
+        return res.status(400).json({
+          success: false,
+          error: 'Expected { key, psbt } with psbt base64'
+        });
+      }
+
+      try {
+        const request = await queue.submit(key, psbt);
+        return res.status(200).json({
+          success: true,
+          key: request.key,
+          txid: request.signed.txid
+        });
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          error: error.message
+        });
+      }
+    }
+
+    if (req.method === 'DELETE') {
+      if (!req.query.key) {
+        return res.status(400).json({
+          success: false,
+          error: 'Expected ?key='
+        });
+      }
+
+      await queue.remove(req.query.key);
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed'
+    });
+  } catch (error) {
+    console.error('Error in signing API:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+};
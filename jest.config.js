@@ -1,24 +1,8 @@
-/** @type {import('jest').Config} */
-module.exports = {
+// Shared by both projects; only the crypto mapping differs
+const project = {
   preset: 'ts-jest',
   testEnvironment: 'node',
-  roots: ['<rootDir>/src', '<rootDir>/tests'],
-  testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
-  collectCoverageFrom: [
-    'src/**/*.ts',
-    '!src/**/*.d.ts',
-    '!src/types.ts',
-    '!src/constants.ts'
-  ],
-  coverageDirectory: 'coverage',
-  coverageReporters: ['text', 'lcov', 'html'],
   setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
-  moduleNameMapper: {
-    '^@/(.*)$': '<rootDir>/src/$1',
-    '^@noble/secp256k1$': '<rootDir>/tests/mocks/crypto-mocks.ts',
-    '^@scure/btc-signer$': '<rootDir>/tests/mocks/crypto-mocks.ts',
-    '^@scure/base$': '<rootDir>/tests/mocks/crypto-mocks.ts'
-  },
   transformIgnorePatterns: [
     'node_modules/(?!(@noble|@scure)/)'
   ],
@@ -31,7 +15,46 @@ module.exports = {
         allowSyntheticDefaultImports: true
       }
     }
-  },
+  }
+};
+
+// *.signing.test.ts files sign with the real crypto libraries
+const SIGNING_TESTS = '\\.signing\\.test\\.ts$';
+
+/** @type {import('jest').Config} */
+module.exports = {
+  collectCoverageFrom: [
+    'src/**/*.ts',
+    '!src/**/*.d.ts',
+    '!src/types.ts',
+    '!src/constants.ts'
+  ],
+  coverageDirectory: 'coverage',
+  coverageReporters: ['text', 'lcov', 'html'],
   testTimeout: 10000,
-  verbose: true
-};
\ No newline at end of file
+  verbose: true,
+  projects: [
+    {
+      ...project,
+      displayName: 'tests',
+      roots: ['<rootDir>/src', '<rootDir>/tests'],
+      testMatch: ['**/__tests__/**/*.ts', '**/?(*.)+(spec|test).ts'],
+      testPathIgnorePatterns: ['/node_modules/', SIGNING_TESTS],
+      moduleNameMapper: {
+        '^@/(.*)$': '<rootDir>/src/$1',
+        '^@noble/secp256k1$': '<rootDir>/tests/mocks/crypto-mocks.ts',
+        '^@scure/btc-signer$': '<rootDir>/tests/mocks/crypto-mocks.ts',
+        '^@scure/base$': '<rootDir>/tests/mocks/crypto-mocks.ts'
+      }
+    },
+    {
+      ...project,
+      displayName: 'signing',
+      roots: ['<rootDir>/tests'],
+      testRegex: SIGNING_TESTS,
+      moduleNameMapper: {
+        '^@/(.*)$': '<rootDir>/src/$1'
+      }
+    }
+  ]
+};
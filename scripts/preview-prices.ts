@@ -0,0 +1,113 @@
+import 'dotenv/config';
+import { CounterpartyService } from '../src/services/counterparty';
+import { MaintenanceStateManager } from '../src/services/maintenance-state';
+import { loadPrices } from '../src/services/prices';
+import { createPricingEngine, PriceQuote } from '../src/services/pricing-rules';
+
+/**
+ * Preview what order maintenance would do with the current prices
+ *
+ * Read-only: compares open orders and balances against the configured prices
+ * (pricing-rules.json when present, fixed prices otherwise). Nothing is
+ * broadcast and maintenance state is not modified.
+ *
+ * Usage: npm run preview-prices [-- --days N]
+ *   --days N  Preview markdowns N days from now
+ */
+async function previewPrices() {
+  const xcpfolioAddress = process.env.XCPFOLIO_ADDRESS || '1BotpWeW4cWRZ26rLvBCRHTeWtaH5fUYPX';
+  const daysArg = process.argv.indexOf('--days');
+  const days = daysArg > -1 ? parseFloat(process.argv[daysArg + 1]) || 0 : 0;
+  const now = Date.now() + days * 24 * 60 * 60 * 1000;
+
+  console.log('='.repeat(60));
+  console.log('XCPFOLIO Price Preview');
+  console.log('='.repeat(60));
+  console.log(`Address: ${xcpfolioAddress}`);
+  if (days > 0) {
+    console.log(`As of: ${new Date(now).toISOString()} (+${days} days)`);
+  }
+
+  const fixedPrices = loadPrices();
+  const engine = createPricingEngine(fixedPrices);
+  console.log(`Prices: ${engine ? 'pricing rules' : 'fixed price list'}`);
+  console.log();
+
+  const counterparty = new CounterpartyService();
+  const stateManager = new MaintenanceStateManager();
+
+  try {
+    const openOrders = await counterparty.getOpenXcpfolioOrders(xcpfolioAddress);
+    const balances = await counterparty.getXcpfolioBalances(xcpfolioAddress);
+    const listedSince = await stateManager.getListedSince();
+
+    // Open orders not yet tracked would start their listing age now
+    const ages: Record<string, number> = { ...listedSince };
+    for (const asset of openOrders.keys()) {
+      ages[asset] = ages[asset] || Date.now();
+    }
+
+    const quotes = new Map<string, PriceQuote>();
+    if (engine) {
+      for (const quote of engine.quoteAll(ages, now)) {
+        quotes.set(quote.asset, quote);
+      }
+    } else {
+      for (const [asset, price] of fixedPrices) {
+        quotes.set(asset, { asset, price, basePrice: price, source: 'fixed', markdownPercent: 0 });
+      }
+    }
+
+    const describe = (quote: PriceQuote) => {
+      const markdown = quote.markdownPercent > 0 ? `, -${quote.markdownPercent}% after ${Math.floor(quote.listedDays || 0)}d` : '';
+      return `${quote.source}${markdown}`;
+    };
+
+    let unchanged = 0;
+    const reprices: string[] = [];
+    const delists: string[] = [];
+    const listings: string[] = [];
+
+    for (const [asset, order] of openOrders) {
+      const listedPrice = order.get_quantity / 100000000;
+      const quote = quotes.get(asset);
+
+      if (!quote || quote.price <= 0) {
+        delists.push(`  ${asset}: ${listedPrice} XCP (${quote ? 'withdrawn' : 'no price'})`);
+      } else if (Math.round(quote.price * 100000000) !== order.get_quantity) {
+        reprices.push(`  ${asset}: ${listedPrice} -> ${quote.price} XCP (${describe(quote)})`);
+      } else {
+        unchanged++;
+      }
+    }
+
+    for (const asset of balances.keys()) {
+      if (openOrders.has(asset)) continue;
+      const quote = quotes.get(asset);
+      if (quote && quote.price > 0) {
+        listings.push(`  ${asset} @ ${quote.price} XCP (${describe(quote)})`);
+      }
+    }
+
+    const section = (title: string, lines: string[]) => {
+      console.log(`${title}: ${lines.length}`);
+      console.log('-'.repeat(60));
+      lines.forEach(line => console.log(line));
+      console.log();
+    };
+
+    section('Re-price', reprices);
+    section('Delist', delists);
+    section('List', listings);
+
+    console.log('Summary:');
+    console.log(`  Open orders: ${openOrders.size} (${unchanged} unchanged)`);
+    console.log(`  Re-price: ${reprices.length}`);
+    console.log(`  Delist: ${delists.length}`);
+    console.log(`  List: ${listings.length}`);
+  } catch (error) {
+    console.error('Error:', error);
+  }
+}
+
+previewPrices().catch(console.error);
@@ -1,15 +1,32 @@
 /**
- * Read-only API server for order status
+ * API server for order status, plus token-protected admin endpoints
  */
 
 import express from 'express';
 import cors from 'cors';
 import { OrderHistoryService } from './services/order-history';
+import { AdminService, AdminAction, isAdminAuthorized } from './services/admin';
+import { BroadcastLogService, BroadcastKind, broadcastLogToCsv, broadcastLogPageSize } from './services/broadcast-log';
+import { InventoryReconciler, inventoryReportToCsv } from './services/inventory';
+import { SigningQueue, QueuedSigningStatus } from './services/signer';
 
 const PORT = process.env.API_PORT || 3001;
 const CORS_ORIGIN = process.env.CORS_ORIGIN || 'http://localhost:3000';
 
-export function startApiServer(orderHistory: OrderHistoryService) {
+/**
+ * Parse a query time as epoch ms or an ISO date (e.g. 2024-01-31)
+ */
+function parseTime(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value === '') return undefined;
+  const time = /^\d+$/.test(value) ? parseInt(value) : Date.parse(value);
+  return isNaN(time) ? undefined : time;
+}
+
+export function startApiServer(
+  orderHistory: OrderHistoryService,
+  admin?: AdminService,
+  inventory?: InventoryReconciler
+) {
   const app = express();
 
   // Enable CORS for the frontend
@@ -17,6 +34,7 @@ export function startApiServer(orderHistory: OrderHistoryService) {
     origin: CORS_ORIGIN,
     credentials: true
   }));
+  app.use(express.json());
 
   // Health check
   app.get('/health', (req, res) => {
@@ -170,6 +188,205 @@ export function startApiServer(orderHistory: OrderHistoryService) {
     }
   });
 
+  // Admin endpoints (require Authorization: Bearer $ADMIN_API_TOKEN)
+  const requireAdmin: express.RequestHandler = (req, res, next) => {
+    if (!admin || !process.env.ADMIN_API_TOKEN) {
+      res.status(503).json({
+        success: false,
+        error: 'Admin API disabled (set ADMIN_API_TOKEN)'
+      });
+      return;
+    }
+    if (!isAdminAuthorized(req.headers.authorization)) {
+      res.status(401).json({
+        success: false,
+        error: 'Unauthorized'
+      });
+      return;
+    }
+    next();
+  };
+
+  const adminAction = (action: AdminAction, param: 'hash' | 'asset'): express.RequestHandler =>
+    async (req, res) => {
+      try {
+        const actor = (req.headers['x-admin-actor'] as string) || req.ip || 'admin';
+        const result = await admin!.execute(action, req.params[param] as string, actor, req.body?.reason);
+        res.status(result.success ? 200 : 400).json(result);
+      } catch (error) {
+        console.error(`Error running admin action ${action}:`, error);
+        res.status(500).json({
+          success: false,
+          error: 'Admin action failed'
+        });
+      }
+    };
+
+  app.post('/api/admin/orders/:hash/retry', requireAdmin, adminAction('retry-order', 'hash'));
+  app.post('/api/admin/orders/:hash/processed', requireAdmin, adminAction('mark-processed', 'hash'));
+  app.delete('/api/admin/orders/:hash/processed', requireAdmin, adminAction('mark-unprocessed', 'hash'));
+  app.post('/api/admin/orders/:hash/rbf', requireAdmin, adminAction('force-rbf', 'hash'));
+  app.post('/api/admin/listings/:asset/cancel', requireAdmin, adminAction('cancel-listing', 'asset'));
+  app.delete('/api/admin/maintenance/failures/:asset', requireAdmin, adminAction('clear-maintenance-failure', 'asset'));
+
+  // Get admin audit log
+  app.get('/api/admin/audit', requireAdmin, async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 100;
+      const entries = await admin!.getAuditLog(limit);
+
+      res.json({
+        success: true,
+        entries,
+        total: entries.length
+      });
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch audit log'
+      });
+    }
+  });
+
+  // Get broadcast audit log, a page at a time (?format=csv for accounting export)
+  const broadcastLog = new BroadcastLogService();
+  app.get('/api/admin/broadcasts', requireAdmin, async (req, res) => {
+    try {
+      const { entries, nextOffset } = await broadcastLog.getPage({
+        limit: broadcastLogPageSize(req.query.limit),
+        offset: parseInt(req.query.offset as string) || 0,
+        kind: req.query.kind as BroadcastKind | undefined,
+        since: parseTime(req.query.since),
+        until: parseTime(req.query.until)
+      });
+
+      if (req.query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', 'attachment; filename="broadcasts.csv"');
+        if (nextOffset !== undefined) res.setHeader('X-Next-Offset', String(nextOffset));
+        res.send(broadcastLogToCsv(entries));
+        return;
+      }
+
+      res.json({
+        success: true,
+        entries,
+        total: entries.length,
+        nextOffset
+      });
+    } catch (error) {
+      console.error('Error fetching broadcast log:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch broadcast log'
+      });
+    }
+  });
+
+  // Get the latest inventory reconciliation report
+  // ?refresh=true runs a new reconciliation, ?format=csv exports the issues
+  app.get('/api/admin/inventory', requireAdmin, async (req, res) => {
+    if (!inventory) {
+      res.status(503).json({
+        success: false,
+        error: 'Inventory reconciliation not configured'
+      });
+      return;
+    }
+
+    try {
+      const report = req.query.refresh === 'true'
+        ? await inventory.run()
+        : await inventory.getLatestReport();
+
+      if (!report) {
+        res.status(404).json({
+          success: false,
+          error: 'No inventory report yet (use ?refresh=true)'
+        });
+        return;
+      }
+
+      if (req.query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', 'attachment; filename="inventory.csv"');
+        res.send(inventoryReportToCsv(report));
+        return;
+      }
+
+      res.json({
+        success: true,
+        report
+      });
+    } catch (error) {
+      console.error('Error fetching inventory report:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch inventory report'
+      });
+    }
+  });
+
+  // Manual signing queue (SIGNER=manual)
+  const signingQueue = new SigningQueue();
+  app.get('/api/admin/signing', requireAdmin, async (req, res) => {
+    try {
+      const requests = await signingQueue.list(req.query.status as QueuedSigningStatus | undefined);
+
+      res.json({
+        success: true,
+        requests,
+        total: requests.length
+      });
+    } catch (error) {
+      console.error('Error fetching signing requests:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch signing requests'
+      });
+    }
+  });
+
+  // Submit a signed PSBT { psbt } for a pending request
+  app.post('/api/admin/signing/:key', requireAdmin, async (req, res) => {
+    if (!req.body?.psbt) {
+      res.status(400).json({
+        success: false,
+        error: 'Expected { psbt } (base64)'
+      });
+      return;
+    }
+
+    try {
+      const request = await signingQueue.submit(req.params.key, req.body.psbt);
+      res.json({
+        success: true,
+        key: request.key,
+        txid: request.signed!.txid
+      });
+    } catch (error) {
+      res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Discard a request; if still needed, the next run queues a fresh one
+  app.delete('/api/admin/signing/:key', requireAdmin, async (req, res) => {
+    try {
+      await signingQueue.remove(req.params.key);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error removing signing request:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to remove signing request'
+      });
+    }
+  });
+
   const server = app.listen(PORT, () => {
     console.log(`API server listening on port ${PORT}`);
     console.log(`CORS enabled for: ${CORS_ORIGIN}`);
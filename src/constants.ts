@@ -93,6 +93,11 @@ export const RETRY_STRATEGY = {
     SEQUENCE_RBF_ENABLED: 0xfffffffd,  // Signals RBF-enabled (BIP-125)
     SEQUENCE_FINAL: 0xffffffff,        // Signals finalized (no RBF)
   },
+
+  // CPFP: spend the stuck transaction's change with a high-fee child
+  CPFP: {
+    MAX_DESCENDANTS: 24,            // Bitcoin Core's descendant limit is 25 including the parent
+  },
 } as const;
 
 // Transaction limits
@@ -106,6 +111,65 @@ export const TX_LIMITS = {
   MAX_FEE_RATE_FOR_NEW_TX: 100,    // Max 100 sat/vB for new transactions (wait if higher)
   ESTIMATED_TX_VSIZE: 250,          // Estimated vsize for fee calculations (~250 vbytes for typical transfer)
   MIN_FEE_RATE_FLOOR: 0.1,         // Hard floor for maintenance orders (sat/vB) - sub-1 OK when mempool empty
+
+  // Fee budgets across all transactions (transfers, RBF, listings, cancels)
+  HOURLY_FEE_BUDGET_SATS: 100000,  // 0.001 BTC per rolling hour
+  DAILY_FEE_BUDGET_SATS: 500000,   // 0.005 BTC per rolling 24 hours
+} as const;
+
+// Filled-order scanning (fulfillment)
+export const ORDER_SCAN = {
+  REORG_OVERLAP_BLOCKS: 6,          // Each incremental scan starts this far below the cursor, so reorged fills are seen again
+  FULL_RESCAN_INTERVAL_HOURS: 6,    // Page through the whole filled history this often
+  STOP_AFTER_CONSECUTIVE: 10,       // A full rescan stops after this many already-processed orders in a row
+} as const;
+
+// Event-driven fulfillment (long-running worker, see fulfillment-events.ts)
+export const FULFILLMENT_EVENTS = {
+  POLL_INTERVAL_MS: 5000,           // How often the Counterparty tip is checked for a new block
+  DEBOUNCE_MS: 3000,                // Events closer together than this trigger one run
+  FALLBACK_CHECK_INTERVAL: '*/5 * * * *', // Polling schedule while events drive fulfillment
+} as const;
+
+// Deferred listing broadcasts (order maintenance only - transfers to buyers never wait)
+export const LISTING_DEFERRAL = {
+  TARGET_FEE_RATE: 0,               // Broadcast listings once the projected next block's median is at or below this (sat/vB; 0 = never defer)
+  MAX_DEFER_MS: 24 * 60 * 60 * 1000, // 24 hours - broadcast anyway once a listing has waited this long
+} as const;
+
+// Broadcast audit log (see BroadcastLogService)
+export const BROADCAST_LOG = {
+  MAX_ENTRIES: 10000,               // Older entries are trimmed; export the CSV to keep a permanent record
+  READ_CHUNK: 200,                  // Entries fetched per storage read while paging back through the log
+  DEFAULT_PAGE_SIZE: 100,           // Entries per API response when no limit is given
+  MAX_PAGE_SIZE: 1000,              // Largest limit the API accepts
+} as const;
+
+// UTXO management (see UtxoManager)
+export const UTXO_CONFIG = {
+  RESERVATION_TTL: 10 * 60 * 1000,   // 10 minutes - a reserved input not spent by then is free again
+  SPENT_TTL: 2 * 60 * 60 * 1000,     // 2 hours - stop hiding a spent input if its tx never showed up
+  SIGNING_TTL: 7 * 24 * 60 * 60 * 1000, // 7 days - inputs of a queued PSBT, as long as its signing request lives
+  SPLIT_COUNT: 10,                   // Split when fewer spendable UTXOs than this
+  MIN_SPLIT_OUTPUT_SATS: 10000,      // Smallest output a split may create
+  DUST_THRESHOLD_SATS: 2000,         // UTXOs below this get consolidated
+  CONSOLIDATE_MAX_FEE_RATE: 2,       // Only consolidate at or below this fee rate (sat/vB)
+  CONSOLIDATE_MIN_INPUTS: 5,         // Fewer dust UTXOs than this aren't worth a transaction
+  CONSOLIDATE_MAX_INPUTS: 50,
+  DUST_LIMIT_SATS: 546,              // Smallest standard output
+} as const;
+
+// Bitcoin chain data providers (see bitcoin-providers.ts)
+export const BITCOIN_PROVIDERS = {
+  TIMEOUT_MS: 10000,            // Per call
+  FAILURE_THRESHOLD: 3,         // Consecutive failures that open a provider's circuit
+  COOLDOWN_MS: 60 * 1000,       // 1 minute with the circuit open before a trial call
+  ERROR_PENALTY_MS: 5000,       // Score added per unit of error rate (score = latency + penalty)
+  ERROR_MEMORY_MS: 10 * 60 * 1000, // 10 minutes - the penalty fades out over this long after the last error
+  SCORE_SMOOTHING: 0.2,         // Weight of the latest call in the latency and error averages
+  BLOCK_VSIZE: 1000000,         // Projected block size when a node builds mempool blocks itself
+  PROJECTED_BLOCKS: 8,          // Projected blocks kept; the last one holds the rest of the mempool
+  WALLET_HISTORY: 1000,         // Wallet transactions checked for unconfirmed ones
 } as const;
 
 // API retry configuration (for transient HTTP errors: 502, 503, 504, 429)
@@ -116,6 +180,14 @@ export const API_RETRY = {
   RETRYABLE_STATUS_CODES: [502, 503, 504, 429],
 } as const;
 
+export const COUNTERPARTY_NODES = {
+  MIN_VERSION: '10.0.0',        // First release with the v2 API
+  SUPPORTED_MAJOR_VERSIONS: [10, 11], // Releases whose responses the normalization layer handles
+  TIMEOUT_MS: 30000,            // Per request (composes can be slow)
+  HEALTH_CHECK_INTERVAL_MS: 60 * 1000, // Each node is re-probed this often
+  MAX_BLOCKS_BEHIND: 2,         // Unhealthy when its ledger lags its Bitcoin backend by more
+} as const;
+
 // API configuration
 export const API_CONFIG = {
   COUNTERPARTY: {
@@ -136,13 +208,6 @@ export const ASSET_CONFIG = {
   XCP: 'XCP',
 } as const;
 
-// P2PKH transaction size estimates (in bytes)
-export const TX_SIZE = {
-  INPUT: 148,      // ~148 bytes per P2PKH input
-  OUTPUT: 34,      // ~34 bytes per P2PKH output
-  OVERHEAD: 10,    // ~10 bytes overhead
-} as const;
-
 // Notification levels
 export const NOTIFICATION_LEVEL = {
   INFO: 'info',
@@ -17,11 +17,19 @@ import { FulfillmentProcessor } from './services/fulfillment';
 import { OrderHistoryService } from './services/order-history';
 import { ConfirmationMonitor } from './services/confirmation-monitor';
 import { OrderMaintenanceService } from './services/order-maintenance';
+import { AdminService } from './services/admin';
 import { loadPrices } from './services/prices';
+import { createPricingEngine } from './services/pricing-rules';
+import { InventoryReconciler } from './services/inventory';
+import { Signer, createSigner } from './services/signer';
+import { getProviderPool } from './services/bitcoin-providers';
+import { CounterpartyVersionError, getCounterpartyNodes } from './services/counterparty-nodes';
+import { FulfillmentEventWatcher } from './services/fulfillment-events';
+import { FULFILLMENT_EVENTS } from './constants';
 import { startApiServer } from './api-server';
 
 // Validate environment variables
-const requiredEnvVars = ['XCPFOLIO_ADDRESS', 'XCPFOLIO_PRIVATE_KEY'];
+const requiredEnvVars = ['XCPFOLIO_ADDRESS'];
 for (const envVar of requiredEnvVars) {
   if (!process.env[envVar]) {
     console.error(`Missing required environment variable: ${envVar}`);
@@ -29,10 +37,20 @@ for (const envVar of requiredEnvVars) {
   }
 }
 
+// Signer: in-process WIF key (default), PSBT signing daemon or manual approval queue
+let signer: Signer;
+try {
+  signer = createSigner((process.env.NETWORK as 'mainnet' | 'testnet') || 'mainnet');
+  console.log(`Signer: ${signer.type}`);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+
 // Initialize processor
 const processor = new FulfillmentProcessor({
   xcpfolioAddress: process.env.XCPFOLIO_ADDRESS!,
-  privateKey: process.env.XCPFOLIO_PRIVATE_KEY!,
+  signer,
   network: (process.env.NETWORK as 'mainnet' | 'testnet') || 'mainnet',
   dryRun: process.env.DRY_RUN === 'true',
   maxMempoolTxs: process.env.MAX_MEMPOOL_TXS ? parseInt(process.env.MAX_MEMPOOL_TXS) : 25,
@@ -42,18 +60,33 @@ const processor = new FulfillmentProcessor({
   stuckTxThreshold: process.env.STUCK_TX_THRESHOLD ? parseInt(process.env.STUCK_TX_THRESHOLD) : 3,
   maxTotalFeeSats: process.env.MAX_TOTAL_FEE_SATS ? parseInt(process.env.MAX_TOTAL_FEE_SATS) : 10000,
   maxFeeRateForNewTx: process.env.MAX_FEE_RATE_FOR_NEW_TX ? parseInt(process.env.MAX_FEE_RATE_FOR_NEW_TX) : 100,
+  hourlyFeeBudgetSats: process.env.HOURLY_FEE_BUDGET_SATS ? parseInt(process.env.HOURLY_FEE_BUDGET_SATS) : undefined,
+  dailyFeeBudgetSats: process.env.DAILY_FEE_BUDGET_SATS ? parseInt(process.env.DAILY_FEE_BUDGET_SATS) : undefined,
+  fullRescanIntervalHours: process.env.FULL_RESCAN_INTERVAL_HOURS ? parseFloat(process.env.FULL_RESCAN_INTERVAL_HOURS) : undefined,
   orderHistoryPath: process.env.VERCEL ? '/tmp/.order-history.json' : '.order-history.json',
 });
 
 // Initialize order maintenance service
 const orderMaintenance = new OrderMaintenanceService({
   xcpfolioAddress: process.env.XCPFOLIO_ADDRESS!,
-  privateKey: process.env.XCPFOLIO_PRIVATE_KEY!,
+  signer,
   network: (process.env.NETWORK as 'mainnet' | 'testnet') || 'mainnet',
   dryRun: process.env.DRY_RUN === 'true',
   maxMempoolTxs: process.env.MAX_MEMPOOL_TXS ? parseInt(process.env.MAX_MEMPOOL_TXS) : 25,
   orderExpiration: process.env.ORDER_EXPIRATION ? parseInt(process.env.ORDER_EXPIRATION) : 0, // 0 = indefinite
   waitAfterBroadcast: process.env.WAIT_AFTER_BROADCAST ? parseInt(process.env.WAIT_AFTER_BROADCAST) : 2000,
+  repriceEnabled: process.env.REPRICE_ENABLED !== 'false',
+  maxRepricesPerRun: process.env.MAX_REPRICES_PER_RUN ? parseInt(process.env.MAX_REPRICES_PER_RUN) : 5,
+  delistEnabled: process.env.DELIST_ENABLED !== 'false',
+  maxDelistsPerRun: process.env.MAX_DELISTS_PER_RUN ? parseInt(process.env.MAX_DELISTS_PER_RUN) : 5,
+  hourlyFeeBudgetSats: process.env.HOURLY_FEE_BUDGET_SATS ? parseInt(process.env.HOURLY_FEE_BUDGET_SATS) : undefined,
+  dailyFeeBudgetSats: process.env.DAILY_FEE_BUDGET_SATS ? parseInt(process.env.DAILY_FEE_BUDGET_SATS) : undefined,
+  utxoSplitCount: process.env.UTXO_SPLIT_COUNT ? parseInt(process.env.UTXO_SPLIT_COUNT) : undefined,
+  minSplitOutputSats: process.env.MIN_SPLIT_OUTPUT_SATS ? parseInt(process.env.MIN_SPLIT_OUTPUT_SATS) : undefined,
+  dustThresholdSats: process.env.DUST_THRESHOLD_SATS ? parseInt(process.env.DUST_THRESHOLD_SATS) : undefined,
+  consolidateMaxFeeRate: process.env.CONSOLIDATE_MAX_FEE_RATE ? parseFloat(process.env.CONSOLIDATE_MAX_FEE_RATE) : undefined,
+  listingTargetFeeRate: process.env.LISTING_TARGET_FEE_RATE ? parseFloat(process.env.LISTING_TARGET_FEE_RATE) : undefined,
+  listingMaxDeferHours: process.env.LISTING_MAX_DEFER_HOURS ? parseFloat(process.env.LISTING_MAX_DEFER_HOURS) : undefined,
 });
 
 // Load prices for order maintenance
@@ -65,9 +98,30 @@ if (prices.size > 0) {
   console.warn('No prices loaded - order maintenance will be disabled');
 }
 
+// Pricing rules (pricing-rules.json) add overrides, markdowns and prices for unpriced assets when present
+const pricingEngine = createPricingEngine(prices);
+if (pricingEngine) {
+  orderMaintenance.setPricingEngine(pricingEngine);
+}
+
 // Order maintenance enabled flag
 const orderMaintenanceEnabled = process.env.ORDER_MAINTENANCE_ENABLED !== 'false' && prices.size > 0;
 
+// Inventory reconciliation checks listings against rule-based prices when configured
+const inventory = new InventoryReconciler(process.env.XCPFOLIO_ADDRESS!, prices);
+if (pricingEngine) {
+  inventory.setPricingEngine(pricingEngine);
+}
+const inventoryEnabled = process.env.INVENTORY_CHECK_ENABLED !== 'false';
+
+// Event-driven fulfillment: run on new blocks and order events, polling becomes the fallback
+const eventWatcher = process.env.FULFILLMENT_EVENTS === 'true'
+  ? new FulfillmentEventWatcher(process.env.XCPFOLIO_ADDRESS!, runFulfillmentWhenIdle, {
+      pollIntervalMs: process.env.EVENT_POLL_INTERVAL_MS ? parseInt(process.env.EVENT_POLL_INTERVAL_MS) : undefined,
+      debounceMs: process.env.EVENT_DEBOUNCE_MS ? parseInt(process.env.EVENT_DEBOUNCE_MS) : undefined,
+    })
+  : null;
+
 // Statistics
 let stats = {
   runs: 0,
@@ -111,6 +165,14 @@ async function runFulfillment() {
   }
 }
 
+// Run fulfillment for an event, after any scheduled run in progress (which may have missed it)
+async function runFulfillmentWhenIdle() {
+  while ((await processor.getState()).isProcessing) {
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+  await runFulfillment();
+}
+
 // Run order maintenance
 async function runOrderMaintenance() {
   if (!orderMaintenanceEnabled) {
@@ -244,6 +306,10 @@ async function startHealthCheck() {
         failures: state.failures,
         lastBlock: state.lastBlock,
         processedOrders: state.processedOrders.length,
+        utxos: await orderMaintenance.getUtxoStatus().catch(error => ({ error: error.message })),
+        bitcoinProviders: getProviderPool().getStatus(),
+        counterpartyNodes: getCounterpartyNodes().getStatus(),
+        events: eventWatcher ? eventWatcher.getStatus() : null,
       };
       
       res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -271,11 +337,26 @@ async function main() {
   console.log(`Max Fee: ${process.env.MAX_TOTAL_FEE_SATS || 10000} sats (${(parseInt(process.env.MAX_TOTAL_FEE_SATS || '10000') / 100000000).toFixed(6)} BTC)`);
   console.log(`Max Rate (New): ${process.env.MAX_FEE_RATE_FOR_NEW_TX || 100} sat/vB`);
   console.log(`Order Maintenance: ${orderMaintenanceEnabled ? 'ENABLED' : 'DISABLED'} (${prices.size} prices)`);
+  console.log(`Inventory Check: ${inventoryEnabled ? 'ENABLED' : 'DISABLED'}`);
+  console.log(`Event Triggers: ${eventWatcher ? 'ENABLED' : 'DISABLED'}`);
   console.log('='.repeat(70));
 
+  // Probe the Counterparty nodes: exit on an unsupported version, keep going if one is just down
+  try {
+    await getCounterpartyNodes().check();
+  } catch (error) {
+    if (error instanceof CounterpartyVersionError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    console.warn(`Counterparty node check failed, will retry on first request: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
   // Start API server for order status (using processor's orderHistory)
-  const apiServer = startApiServer(processor.orderHistory);
+  // Admin endpoints share the running processor so changes apply to its in-memory state
+  const apiServer = startApiServer(processor.orderHistory, new AdminService(processor, orderMaintenance), inventory);
   console.log(`API server: http://localhost:${process.env.API_PORT || 3001}`);
+  console.log(`Admin API: ${process.env.ADMIN_API_TOKEN ? 'ENABLED' : 'DISABLED'}`);
 
   // Initialize confirmation monitor
   const confirmationMonitor = new ConfirmationMonitor(processor.orderHistory);
@@ -296,8 +377,14 @@ async function main() {
     await runOrderMaintenance();
   }
 
-  // Schedule fulfillment based on CHECK_INTERVAL
-  const checkInterval = process.env.CHECK_INTERVAL || '* * * * *';
+  // Watch for new blocks and order events (fulfillment runs right away)
+  if (eventWatcher) {
+    eventWatcher.start();
+  }
+
+  // Schedule fulfillment based on CHECK_INTERVAL (a slower fallback when events drive it)
+  const checkInterval = process.env.CHECK_INTERVAL ||
+    (eventWatcher ? FULFILLMENT_EVENTS.FALLBACK_CHECK_INTERVAL : '* * * * *');
   cron.schedule(checkInterval, async () => {
     // Only run if not already processing
     const state = await processor.getState();
@@ -328,7 +415,21 @@ async function main() {
     console.log(`\nScheduled order maintenance: ${maintenanceInterval}`);
   }
 
-  console.log(`\nScheduled fulfillment: ${checkInterval}`);
+  // Schedule inventory reconciliation (every 6 hours by default)
+  const inventoryInterval = process.env.INVENTORY_CHECK_INTERVAL || '30 */6 * * *';
+  if (inventoryEnabled) {
+    cron.schedule(inventoryInterval, async () => {
+      try {
+        await inventory.run();
+      } catch (error) {
+        console.error('❌ Inventory reconciliation error:', error);
+        await sendErrorNotification(error);
+      }
+    });
+    console.log(`Scheduled inventory reconciliation: ${inventoryInterval}`);
+  }
+
+  console.log(`\nScheduled fulfillment: ${checkInterval}${eventWatcher ? ' (fallback; new blocks and order events trigger runs)' : ''}`);
   console.log('Scheduled confirmations: every 30 seconds');
   console.log('Press Ctrl+C to stop\n');
 }
@@ -336,6 +437,7 @@ async function main() {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\n\nShutting down...');
+  eventWatcher?.stop();
   processor.requestStop();
   
   // Wait for current processing to complete
@@ -366,6 +468,7 @@ process.on('SIGINT', async () => {
 });
 
 process.on('SIGTERM', () => {
+  eventWatcher?.stop();
   processor.requestStop();
   setTimeout(() => process.exit(0), 5000);
 });
@@ -0,0 +1,184 @@
+/**
+ * Admin operations for manual order intervention
+ *
+ * Replaces the one-off scripts (clear-processed-orders, reset-last-block, ...)
+ * that used to be run against production storage. Every action goes through
+ * the same services the bot uses and is recorded in an audit log.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { FulfillmentProcessor } from './fulfillment';
+import { OrderMaintenanceService } from './order-maintenance';
+import { NotificationService } from './notifications';
+import { StorageBackend, getStorage } from './storage';
+
+export type AdminAction =
+  | 'retry-order'
+  | 'mark-processed'
+  | 'mark-unprocessed'
+  | 'force-rbf'
+  | 'cancel-listing'
+  | 'clear-maintenance-failure';
+
+export const ADMIN_ACTIONS: AdminAction[] = [
+  'retry-order',
+  'mark-processed',
+  'mark-unprocessed',
+  'force-rbf',
+  'cancel-listing',
+  'clear-maintenance-failure',
+];
+
+export interface AdminActionResult {
+  success: boolean;
+  message: string;
+  txid?: string;
+}
+
+export interface AdminAuditEntry {
+  id: string;
+  action: AdminAction;
+  target: string;  // Order hash or asset name
+  actor: string;
+  reason?: string;
+  success: boolean;
+  message: string;
+  timestamp: number;
+}
+
+const AUDIT_KEY = 'xcpfolio:admin:audit';
+const MAX_AUDIT_ENTRIES = 500;
+const AUDIT_TTL = 60 * 60 * 24 * 90; // 90 days since the last action
+
+/**
+ * Check a request's Authorization header against ADMIN_API_TOKEN
+ * Admin access is disabled entirely when no token is configured.
+ */
+export function isAdminAuthorized(authorization: string | undefined): boolean {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected || !authorization) return false;
+
+  const provided = authorization.replace(/^Bearer\s+/i, '');
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export class AdminService {
+  private processor: FulfillmentProcessor;
+  private maintenance: OrderMaintenanceService;
+  private storage: StorageBackend;
+
+  constructor(
+    processor: FulfillmentProcessor,
+    maintenance: OrderMaintenanceService,
+    storage?: StorageBackend
+  ) {
+    this.processor = processor;
+    this.maintenance = maintenance;
+    this.storage = storage || getStorage();
+  }
+
+  /**
+   * Run an admin action and record it in the audit log
+   *
+   * @param target - Order hash for order actions, asset name for listing actions
+   * @param actor - Who requested the action (free-form, from the request)
+   */
+  async execute(
+    action: AdminAction,
+    target: string,
+    actor: string,
+    reason?: string
+  ): Promise<AdminActionResult> {
+    let result: AdminActionResult;
+    try {
+      result = await this.run(action, target);
+    } catch (error) {
+      result = {
+        success: false,
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    console.log(`[Admin] ${actor} ${action} ${target}: ${result.success ? 'OK' : 'FAILED'} - ${result.message}`);
+
+    await this.recordAudit({
+      id: `${Date.now()}-${Math.random().toString(36).substring(7)}`,
+      action,
+      target,
+      actor,
+      reason,
+      success: result.success,
+      message: result.message,
+      timestamp: Date.now()
+    });
+
+    await NotificationService.info(`🛠️ Admin: ${action}`, {
+      target,
+      actor,
+      result: result.message
+    });
+
+    return result;
+  }
+
+  private async run(action: AdminAction, target: string): Promise<AdminActionResult> {
+    switch (action) {
+      case 'retry-order':
+        await this.processor.retryOrder(target);
+        return { success: true, message: 'Retry counters cleared, order will be retried next run' };
+
+      case 'mark-processed':
+        await this.processor.setOrderProcessed(target, true);
+        return { success: true, message: 'Order marked processed' };
+
+      case 'mark-unprocessed':
+        await this.processor.setOrderProcessed(target, false);
+        return { success: true, message: 'Order marked unprocessed, it will be re-checked next run' };
+
+      case 'force-rbf': {
+        const tx = await this.processor.forceRbf(target);
+        return { success: true, message: `Transaction ${tx.txid} will be fee-bumped next run`, txid: tx.txid };
+      }
+
+      case 'cancel-listing': {
+        const cancel = await this.maintenance.cancelListing(target);
+        return cancel.success
+          ? { success: true, message: `Cancel broadcast for ${target}`, txid: cancel.txid }
+          : { success: false, message: cancel.error || 'Cancel failed' };
+      }
+
+      case 'clear-maintenance-failure':
+        await this.maintenance.clearFailure(target);
+        return { success: true, message: `Maintenance failure cleared for ${target}` };
+
+      default:
+        return { success: false, message: `Unknown admin action: ${action}` };
+    }
+  }
+
+  /**
+   * Append to the audit list, oldest first, so concurrent requests never drop each other's entries
+   */
+  private async recordAudit(entry: AdminAuditEntry): Promise<void> {
+    try {
+      const length = await this.storage.rpush(AUDIT_KEY, JSON.stringify(entry));
+      if (length > MAX_AUDIT_ENTRIES) {
+        await this.storage.ltrim(AUDIT_KEY, -MAX_AUDIT_ENTRIES, -1);
+      }
+      await this.storage.expire(AUDIT_KEY, AUDIT_TTL);
+    } catch (error) {
+      console.error('[Admin] Error writing audit entry:', error);
+    }
+  }
+
+  /**
+   * Get audit entries, newest first
+   */
+  async getAuditLog(limit: number = 100): Promise<AdminAuditEntry[]> {
+    if (limit <= 0) return [];
+    const entries = await this.storage.lrange<AdminAuditEntry>(AUDIT_KEY, -limit, -1);
+    return entries.reverse();
+  }
+}
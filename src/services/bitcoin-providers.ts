@@ -0,0 +1,945 @@
+/**
+ * Bitcoin chain data providers with failover
+ *
+ * BitcoinService reads UTXOs, fees, block height and transactions through a
+ * ProviderPool instead of a single API:
+ * - mempool: mempool.space (Esplora plus its fee and CPFP extensions)
+ * - blockstream: Blockstream's Esplora, or any other Esplora instance
+ * - electrum: an Electrum server (ElectrumX, Fulcrum, electrs) over TCP or TLS
+ * - core: a Bitcoin Core node over JSON-RPC
+ *
+ * Each call goes to the best-scoring provider that supports it and fails
+ * over to the next when a provider is down, times out or returns garbage. A
+ * provider that answers with an error (unknown transaction, rejected
+ * broadcast) is healthy, so that error is returned as is; one that can't
+ * answer in full from what it keeps passes the call on without a penalty.
+ *
+ * Scores are average latency plus a penalty for the recent error rate that
+ * fades out over ERROR_MEMORY_MS; providers that haven't served a call yet
+ * score 0 so each gets measured.
+ * After FAILURE_THRESHOLD consecutive failures a provider's circuit opens and
+ * it's skipped for COOLDOWN_MS, then given a trial call.
+ */
+
+import * as net from 'net';
+import * as tls from 'tls';
+import axios from 'axios';
+import { bytesToHex } from '@noble/hashes/utils';
+import { sha256 } from '@noble/hashes/sha256';
+import { UTXO, FeeRates, MempoolBlock, addressToScript } from './bitcoin';
+import { API_CONFIG, BITCOIN_PROVIDERS } from '../constants';
+
+export type ProviderKind = 'mempool' | 'esplora' | 'electrum' | 'core';
+
+export interface Outspend {
+  spent: boolean;
+  txid?: string;
+  status?: { confirmed: boolean; block_height?: number };
+}
+
+/**
+ * Chain data operations; a provider implements the ones its API can answer
+ * Transactions use the Esplora shape (status, fee, weight, vout).
+ */
+export interface BitcoinProvider {
+  readonly name: string;
+  readonly kind: ProviderKind;
+  readonly url: string;  // Without credentials (shown in status)
+  getBlockHeight?(): Promise<number>;
+  getUtxos?(address: string): Promise<UTXO[]>;
+  getRawTransaction?(txid: string): Promise<string>;
+  getTransaction?(txid: string): Promise<any>;
+  getUnconfirmedTxCount?(address: string): Promise<number>;
+  getOutspend?(txid: string, vout: number): Promise<Outspend>;
+  getFeeRates?(): Promise<FeeRates>;
+  getMempoolBlocks?(): Promise<MempoolBlock[]>;
+  getDescendants?(txid: string): Promise<Array<{ fee: number }>>;
+  broadcast?(signedTxHex: string): Promise<string>;
+}
+
+export type ProviderOperation = Exclude<keyof BitcoinProvider, 'name' | 'kind' | 'url'>;
+
+const OPERATIONS: ProviderOperation[] = [
+  'getBlockHeight', 'getUtxos', 'getRawTransaction', 'getTransaction', 'getUnconfirmedTxCount',
+  'getOutspend', 'getFeeRates', 'getMempoolBlocks', 'getDescendants', 'broadcast',
+];
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ProviderStatus {
+  name: string;
+  kind: ProviderKind;
+  url: string;
+  circuit: CircuitState;
+  score: number;
+  latencyMs: number | null;
+  errorRate: number;
+  successes: number;
+  failures: number;
+  operations: ProviderOperation[];
+  lastUsedAt?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+}
+
+export interface ProviderPoolStatus {
+  providers: ProviderStatus[];
+  lastServed: Partial<Record<ProviderOperation, string>>;  // Provider that answered each operation last
+}
+
+/**
+ * A provider answered, with an error (unknown transaction, rejected broadcast)
+ * Not a provider failure: the pool doesn't fail over or count it against the provider.
+ */
+export class ProviderResponseError extends Error {
+  readonly provider: string;
+
+  constructor(provider: string, message: string) {
+    super(message);
+    this.name = 'ProviderResponseError';
+    this.provider = provider;
+  }
+}
+
+/**
+ * A provider can't fully answer from the data it keeps (no transaction index, no spending txid)
+ * Not a provider failure either: the pool asks the next provider without counting it against this one.
+ */
+export class ProviderIncompleteError extends Error {
+  readonly provider: string;
+
+  constructor(provider: string, message: string) {
+    super(message);
+    this.name = 'ProviderIncompleteError';
+    this.provider = provider;
+  }
+}
+
+/**
+ * No provider could answer (all failed, or none supports the operation)
+ */
+export class ProviderUnavailableError extends Error {
+  readonly operation: ProviderOperation;
+
+  constructor(operation: ProviderOperation, message: string) {
+    super(`No Bitcoin provider available for ${operation}: ${message}`);
+    this.name = 'ProviderUnavailableError';
+    this.operation = operation;
+  }
+}
+
+/**
+ * Whether an error means the provider is unhealthy (rather than answering with an error)
+ */
+function isProviderFault(error: unknown): boolean {
+  if (error instanceof ProviderResponseError || error instanceof ProviderIncompleteError) return false;
+  if (axios.isAxiosError(error) && error.response) {
+    return error.response.status >= 500 || error.response.status === 429;
+  }
+  return true; // Network errors, timeouts, malformed responses
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Fee rates (sat/vB) from estimates keyed by confirmation target in blocks
+ * Each rate uses the nearest target at or above the one wanted.
+ */
+function feeRatesFromEstimates(estimates: Record<number, number>): FeeRates {
+  const targets = Object.keys(estimates).map(Number).filter(t => estimates[t] > 0).sort((a, b) => a - b);
+  if (targets.length === 0) {
+    throw new Error('No fee estimates available');
+  }
+  const at = (blocks: number) => estimates[targets.find(t => t >= blocks) ?? targets[targets.length - 1]];
+  return {
+    fastestFee: at(1),
+    halfHourFee: at(3),
+    hourFee: at(6),
+    economyFee: at(144),
+    minimumFee: at(1008),
+  };
+}
+
+// Confirmation targets asked of providers that estimate per target
+const FEE_TARGETS = [2, 3, 6, 144, 1008];
+
+/**
+ * Esplora REST API (Blockstream, self-hosted electrs)
+ */
+export class EsploraProvider implements BitcoinProvider {
+  readonly name: string;
+  readonly kind: ProviderKind = 'esplora';
+  readonly url: string;
+
+  constructor(name: string, url: string) {
+    this.name = name;
+    this.url = url.replace(/\/$/, '');
+  }
+
+  async getBlockHeight(): Promise<number> {
+    const response = await axios.get<number>(`${this.url}/blocks/tip/height`);
+    const height = Number(response.data);
+    if (!Number.isInteger(height)) {
+      throw new Error(`Malformed block height from ${this.name}`);
+    }
+    return height;
+  }
+
+  async getUtxos(address: string): Promise<UTXO[]> {
+    const response = await axios.get<UTXO[]>(`${this.url}/address/${address}/utxo`);
+    if (!Array.isArray(response.data)) {
+      throw new Error(`Malformed UTXO list from ${this.name}`);
+    }
+    return response.data;
+  }
+
+  async getRawTransaction(txid: string): Promise<string> {
+    const response = await axios.get<string>(`${this.url}/tx/${txid}/hex`);
+    return response.data;
+  }
+
+  async getTransaction(txid: string): Promise<any> {
+    const response = await axios.get(`${this.url}/tx/${txid}`);
+    return response.data;
+  }
+
+  async getUnconfirmedTxCount(address: string): Promise<number> {
+    const response = await axios.get(`${this.url}/address/${address}/txs`);
+    const txs = response.data || [];
+    return txs.filter((tx: any) => !tx.status?.confirmed).length;
+  }
+
+  async getOutspend(txid: string, vout: number): Promise<Outspend> {
+    const response = await axios.get<Outspend>(`${this.url}/tx/${txid}/outspend/${vout}`);
+    return response.data;
+  }
+
+  async getFeeRates(): Promise<FeeRates> {
+    const response = await axios.get<Record<string, number>>(`${this.url}/fee-estimates`);
+    return feeRatesFromEstimates(response.data || {});
+  }
+
+  async broadcast(signedTxHex: string): Promise<string> {
+    const response = await axios({
+      method: 'POST',
+      url: `${this.url}/tx`,
+      data: signedTxHex,
+      headers: { 'Content-Type': 'text/plain' }
+    });
+    return response.data;
+  }
+}
+
+/**
+ * mempool.space: Esplora plus recommended fees, projected blocks and CPFP data
+ */
+export class MempoolSpaceProvider extends EsploraProvider {
+  readonly kind: ProviderKind = 'mempool';
+
+  async getFeeRates(): Promise<FeeRates> {
+    const response = await axios.get<FeeRates>(`${this.url}/v1/fees/recommended`);
+    if (!response.data?.fastestFee) {
+      throw new Error(`Malformed fee rates from ${this.name}`);
+    }
+    return response.data;
+  }
+
+  async getMempoolBlocks(): Promise<MempoolBlock[]> {
+    const response = await axios.get<MempoolBlock[]>(`${this.url}/v1/fees/mempool-blocks`);
+    return response.data || [];
+  }
+
+  async getDescendants(txid: string): Promise<Array<{ fee: number }>> {
+    // Only includes descendants when there are any
+    const response = await axios.get<{ descendants?: Array<{ fee: number }> }>(`${this.url}/v1/cpfp/${txid}`);
+    return response.data?.descendants || [];
+  }
+}
+
+/**
+ * Electrum server protocol over TCP (tcp://host:50001) or TLS (ssl://host:50002)
+ * Opens a connection per call; the server indexes by script hash, so
+ * transaction details (fee, status) aren't available here.
+ */
+export class ElectrumProvider implements BitcoinProvider {
+  readonly name: string;
+  readonly kind: ProviderKind = 'electrum';
+  readonly url: string;
+  private host: string;
+  private port: number;
+  private secure: boolean;
+  private timeoutMs: number;
+
+  constructor(name: string, url: string, timeoutMs: number = BITCOIN_PROVIDERS.TIMEOUT_MS) {
+    const parsed = new URL(url);
+    if (!['tcp:', 'ssl:', 'tls:'].includes(parsed.protocol) || !parsed.hostname || !parsed.port) {
+      throw new Error(`Invalid Electrum URL: ${url} (expected tcp://host:port or ssl://host:port)`);
+    }
+    this.name = name;
+    this.url = `${parsed.protocol}//${parsed.hostname}:${parsed.port}`;
+    this.host = parsed.hostname;
+    this.port = parseInt(parsed.port);
+    this.secure = parsed.protocol !== 'tcp:';
+    this.timeoutMs = timeoutMs;
+  }
+
+  async getBlockHeight(): Promise<number> {
+    const [header] = await this.request([['blockchain.headers.subscribe', []]]);
+    return header.height;
+  }
+
+  async getUtxos(address: string): Promise<UTXO[]> {
+    const [unspent] = await this.request([['blockchain.scripthash.listunspent', [this.scriptHash(address)]]]);
+    return (unspent as Array<{ tx_hash: string; tx_pos: number; height: number; value: number }>).map(u => ({
+      txid: u.tx_hash,
+      vout: u.tx_pos,
+      value: u.value,
+      status: u.height > 0 ? { confirmed: true, block_height: u.height } : { confirmed: false }
+    }));
+  }
+
+  async getRawTransaction(txid: string): Promise<string> {
+    const [hex] = await this.request([['blockchain.transaction.get', [txid, false]]]);
+    return hex;
+  }
+
+  async getUnconfirmedTxCount(address: string): Promise<number> {
+    const [mempool] = await this.request([['blockchain.scripthash.get_mempool', [this.scriptHash(address)]]]);
+    return mempool.length;
+  }
+
+  async getFeeRates(): Promise<FeeRates> {
+    // BTC/kB, -1 when the server has no estimate
+    const results = await this.request(FEE_TARGETS.map(blocks => ['blockchain.estimatefee', [blocks]]));
+    const estimates: Record<number, number> = {};
+    FEE_TARGETS.forEach((blocks, i) => {
+      if (results[i] > 0) estimates[blocks] = results[i] * 100000;
+    });
+    return feeRatesFromEstimates(estimates);
+  }
+
+  async broadcast(signedTxHex: string): Promise<string> {
+    const [txid] = await this.request([['blockchain.transaction.broadcast', [signedTxHex]]]);
+    return txid;
+  }
+
+  /**
+   * Electrum indexes by the reversed SHA-256 of the output script
+   */
+  private scriptHash(address: string): string {
+    return bytesToHex(sha256(addressToScript(address)).reverse());
+  }
+
+  /**
+   * Send calls over one connection and return their results in order
+   */
+  private request(calls: Array<[string, unknown[]]>): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      const socket: net.Socket = this.secure
+        ? tls.connect({ host: this.host, port: this.port, servername: this.host })
+        : net.connect({ host: this.host, port: this.port });
+      const results = new Map<number, unknown>();
+      let buffer = '';
+      let settled = false;
+
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(calls.map((_, i) => results.get(i + 1)));
+        }
+      };
+
+      socket.setTimeout(this.timeoutMs, () => finish(new Error(`${this.name} timed out after ${this.timeoutMs}ms`)));
+      socket.on('error', finish);
+      socket.on('close', () => finish(new Error(`${this.name} closed the connection`)));
+      socket.on('data', chunk => {
+        buffer += chunk.toString();
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 1);
+          let message: any;
+          try {
+            message = JSON.parse(line);
+          } catch {
+            return finish(new Error(`Malformed response from ${this.name}`));
+          }
+          if (typeof message.id !== 'number') continue; // Subscription notification
+          if (message.error) {
+            const text = message.error.message || JSON.stringify(message.error);
+            // id 0 is the version handshake - a rejection there means we can't talk to this server
+            return finish(message.id === 0 ? new Error(text) : new ProviderResponseError(this.name, text));
+          }
+          if (message.id > 0) results.set(message.id, message.result);
+        }
+        if (results.size === calls.length) finish();
+      });
+
+      // Negotiate the protocol version first (required by some servers)
+      const lines = [['server.version', ['xcpfolio', '1.4']] as [string, unknown[]], ...calls]
+        .map(([method, params], id) => JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+      socket.write(lines.join('\n') + '\n');
+    });
+  }
+}
+
+// Bitcoin Core is still loading its block index; retry elsewhere
+const RPC_IN_WARMUP = -28;
+// Not in the mempool, the wallet or (without -txindex) the node's index
+const RPC_NOT_FOUND = -5;
+
+const SATS_PER_BTC = 100000000;
+
+function toSats(btc: number): number {
+  return Math.round(btc * SATS_PER_BTC);
+}
+
+/**
+ * A Bitcoin Core RPC error, with its code
+ */
+class BitcoinRpcError extends ProviderResponseError {
+  readonly code: number;
+
+  constructor(provider: string, method: string, code: number, message: string) {
+    super(provider, `${method}: ${message}`);
+    this.name = 'BitcoinRpcError';
+    this.code = code;
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof BitcoinRpcError && error.code === RPC_NOT_FOUND;
+}
+
+// getrawmempool / getmempoolentry / getmempooldescendants entry (fees in BTC)
+interface MempoolEntry {
+  vsize: number;
+  ancestorsize: number;
+  fees: { base: number; ancestor: number };
+}
+
+/**
+ * Project the next blocks from a mempool, best fee rate first
+ * A transaction's rate is capped by its ancestors' since it can't be mined
+ * before them. blockSize is the vsize too (entries carry no raw size).
+ */
+function projectMempoolBlocks(entries: MempoolEntry[]): MempoolBlock[] {
+  const txs = entries
+    .map(entry => ({
+      vsize: entry.vsize,
+      fee: toSats(entry.fees.base),
+      rate: Math.min(entry.fees.base / entry.vsize, entry.fees.ancestor / entry.ancestorsize) * SATS_PER_BTC,
+    }))
+    .sort((a, b) => b.rate - a.rate);
+
+  const blocks: Array<typeof txs> = [[]];
+  let vsize = 0;
+  for (const tx of txs) {
+    const current = blocks[blocks.length - 1];
+    const isLast = blocks.length === BITCOIN_PROVIDERS.PROJECTED_BLOCKS;
+    if (!isLast && current.length > 0 && vsize + tx.vsize > BITCOIN_PROVIDERS.BLOCK_VSIZE) {
+      blocks.push([tx]);
+      vsize = tx.vsize;
+    } else {
+      current.push(tx);
+      vsize += tx.vsize;
+    }
+  }
+
+  return blocks.filter(block => block.length > 0).map(block => {
+    const rates = block.map(tx => tx.rate).sort((a, b) => a - b);
+    const percentile = (p: number) => Math.round(rates[Math.min(rates.length - 1, Math.floor(p * rates.length))] * 100) / 100;
+    const blockVSize = block.reduce((sum, tx) => sum + tx.vsize, 0);
+    return {
+      blockSize: blockVSize,
+      blockVSize,
+      nTx: block.length,
+      totalFees: block.reduce((sum, tx) => sum + tx.fee, 0),
+      medianFee: percentile(0.5),
+      feeRange: [0, 0.1, 0.25, 0.5, 0.75, 0.9, 1].map(percentile),
+    };
+  });
+}
+
+export interface BitcoinCoreOptions {
+  auth?: { username: string; password: string };
+  wallet?: string;  // Watch-only wallet holding our address
+}
+
+/**
+ * Bitcoin Core JSON-RPC
+ *
+ * With a watch-only wallet holding our address, UTXOs (unconfirmed too) and
+ * the unconfirmed count come from the wallet; without one the node offers
+ * neither, since scantxoutset would miss unconfirmed change. Answers the node
+ * can't give in full are left to the next provider: a transaction it doesn't
+ * know without a synced -txindex (it may well be confirmed), and which
+ * transaction spent an output in a block.
+ */
+export class BitcoinCoreProvider implements BitcoinProvider {
+  readonly name: string;
+  readonly kind: ProviderKind = 'core';
+  readonly url: string;
+  // Only with a wallet; left undefined so the pool asks another provider
+  readonly getUtxos?: (address: string) => Promise<UTXO[]>;
+  readonly getUnconfirmedTxCount?: (address: string) => Promise<number>;
+  private auth?: { username: string; password: string };
+  private wallet?: string;
+  private watched = new Set<string>();  // Addresses checked to be in the wallet
+  private txindex = false;              // Set once getindexinfo reports a synced index
+
+  constructor(name: string, url: string, options: BitcoinCoreOptions = {}) {
+    const parsed = new URL(url);
+    let auth = options.auth;
+    // Credentials in the URL work too, but never show up in status
+    if (!auth && parsed.username) {
+      auth = { username: decodeURIComponent(parsed.username), password: decodeURIComponent(parsed.password) };
+    }
+    parsed.username = '';
+    parsed.password = '';
+    this.name = name;
+    this.url = parsed.toString().replace(/\/$/, '');
+    this.auth = auth;
+    this.wallet = options.wallet;
+    if (this.wallet) {
+      this.getUtxos = address => this.listUnspent(address);
+      this.getUnconfirmedTxCount = address => this.countUnconfirmed(address);
+    }
+  }
+
+  async getBlockHeight(): Promise<number> {
+    return this.rpc<number>('getblockcount');
+  }
+
+  async getRawTransaction(txid: string): Promise<string> {
+    return this.lookUpTransaction(
+      txid,
+      () => this.rpc<string>('getrawtransaction', [txid, false]),
+      async () => (await this.rpc<{ hex: string }>('gettransaction', [txid, true], true)).hex
+    );
+  }
+
+  /**
+   * The transaction in Esplora's shape
+   */
+  async getTransaction(txid: string): Promise<any> {
+    const tx = await this.lookUpTransaction<any>(
+      txid,
+      // Verbosity 2 adds the fee of confirmed transactions (Core 25+); older nodes read it as verbose
+      () => this.rpc('getrawtransaction', [txid, 2]),
+      async () => {
+        const walletTx = await this.rpc<any>('gettransaction', [txid, true, true], true);
+        // The wallet only knows the fee when it funded every input (negative: paid)
+        return { ...walletTx.decoded, blockhash: walletTx.blockhash, fee: walletTx.fee === undefined ? undefined : -walletTx.fee };
+      }
+    );
+
+    let fee: number | undefined = tx.fee === undefined ? undefined : toSats(tx.fee);
+    let status: UTXO['status'];
+    if (tx.blockhash) {
+      const header = await this.rpc<{ height: number; time: number }>('getblockheader', [tx.blockhash]);
+      status = { confirmed: true, block_height: header.height, block_hash: tx.blockhash, block_time: header.time };
+    } else {
+      const entry = await this.rpc<MempoolEntry>('getmempoolentry', [txid]);
+      fee = toSats(entry.fees.base);
+      status = { confirmed: false };
+    }
+
+    return {
+      txid: tx.txid,
+      version: tx.version,
+      locktime: tx.locktime,
+      size: tx.size,
+      weight: tx.weight,
+      fee,
+      status,
+      vin: tx.vin.map((input: any) => ({
+        txid: input.txid,
+        vout: input.vout,
+        sequence: input.sequence,
+        is_coinbase: Boolean(input.coinbase)
+      })),
+      vout: tx.vout.map((output: any) => ({
+        value: toSats(output.value),
+        scriptpubkey: output.scriptPubKey.hex,
+        // Nodes before v22 list addresses
+        scriptpubkey_address: output.scriptPubKey.address ?? output.scriptPubKey.addresses?.[0]
+      })),
+    };
+  }
+
+  async getOutspend(txid: string, vout: number): Promise<Outspend> {
+    if (await this.rpc<object | null>('gettxout', [txid, vout, true])) {
+      return { spent: false };
+    }
+    // Finds a spend in the mempool (Core 24+)
+    const [prevout] = await this.rpc<Array<{ spendingtxid?: string }>>('gettxspendingprevout', [[{ txid, vout }]]);
+    if (prevout?.spendingtxid) {
+      return { spent: true, txid: prevout.spendingtxid, status: { confirmed: false } };
+    }
+    // Spent in a block: without the spending txid a conflict can't be told from our own spend
+    throw new ProviderIncompleteError(this.name, `getOutspend: ${txid}:${vout} was spent in a block; the node can't say by which transaction`);
+  }
+
+  async getFeeRates(): Promise<FeeRates> {
+    // BTC/kvB; no feerate when the node hasn't seen enough blocks
+    const results = await Promise.all(
+      FEE_TARGETS.map(blocks => this.rpc<{ feerate?: number }>('estimatesmartfee', [blocks]))
+    );
+    const estimates: Record<number, number> = {};
+    FEE_TARGETS.forEach((blocks, i) => {
+      if (results[i].feerate) estimates[blocks] = results[i].feerate! * 100000;
+    });
+    return feeRatesFromEstimates(estimates);
+  }
+
+  /**
+   * Projected blocks built from the whole mempool, so heavier than other calls
+   */
+  async getMempoolBlocks(): Promise<MempoolBlock[]> {
+    const mempool = await this.rpc<Record<string, MempoolEntry>>('getrawmempool', [true]);
+    return projectMempoolBlocks(Object.values(mempool));
+  }
+
+  async getDescendants(txid: string): Promise<Array<{ fee: number }>> {
+    const descendants = await this.rpc<Record<string, MempoolEntry>>('getmempooldescendants', [txid, true]);
+    return Object.values(descendants).map(entry => ({ fee: toSats(entry.fees.base) }));
+  }
+
+  async broadcast(signedTxHex: string): Promise<string> {
+    return this.rpc<string>('sendrawtransaction', [signedTxHex]);
+  }
+
+  private async listUnspent(address: string): Promise<UTXO[]> {
+    await this.ensureWatched(address);
+    const [height, unspent] = await Promise.all([
+      this.getBlockHeight(),
+      this.rpc<Array<{ txid: string; vout: number; amount: number; confirmations: number }>>(
+        'listunspent', [0, 9999999, [address]], true
+      ),
+    ]);
+    return unspent.map(u => ({
+      txid: u.txid,
+      vout: u.vout,
+      value: toSats(u.amount),
+      status: u.confirmations > 0 ? { confirmed: true, block_height: height - u.confirmations + 1 } : { confirmed: false }
+    }));
+  }
+
+  /**
+   * Look a transaction up in the node, then the wallet
+   * Not found is only an answer with a synced -txindex; otherwise the
+   * transaction may be confirmed where the node doesn't index it.
+   */
+  private async lookUpTransaction<T>(txid: string, fromNode: () => Promise<T>, fromWallet: () => Promise<T>): Promise<T> {
+    let notFound: unknown;
+    try {
+      return await fromNode();
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+      notFound = error;
+    }
+    if (this.wallet) {
+      try {
+        return await fromWallet();
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    }
+    if (await this.hasTxindex()) throw notFound;
+    throw new ProviderIncompleteError(this.name, `${txid} not found and the node has no synced -txindex`);
+  }
+
+  private async hasTxindex(): Promise<boolean> {
+    if (this.txindex) return true;
+    try {
+      const indexes = await this.rpc<{ txindex?: { synced: boolean } }>('getindexinfo', ['txindex']);
+      this.txindex = Boolean(indexes.txindex?.synced);
+    } catch (error) {
+      // Nodes before v0.21 have no getindexinfo
+      if (!(error instanceof BitcoinRpcError)) throw error;
+    }
+    return this.txindex;
+  }
+
+  /**
+   * Unconfirmed wallet transactions paying or spending from the address
+   * Spends don't say which address they spent from, so the wallet should watch only ours.
+   */
+  private async countUnconfirmed(address: string): Promise<number> {
+    await this.ensureWatched(address);
+    const entries = await this.rpc<Array<{ txid: string; address?: string; category: string; confirmations: number }>>(
+      'listtransactions', ['*', BITCOIN_PROVIDERS.WALLET_HISTORY, 0, true], true
+    );
+    const unconfirmed = entries.filter(e => e.confirmations === 0 && (e.address === address || e.category === 'send'));
+    return new Set(unconfirmed.map(e => e.txid)).size;
+  }
+
+  /**
+   * Throws unless the wallet watches the address (it would just report nothing)
+   */
+  private async ensureWatched(address: string): Promise<void> {
+    if (this.watched.has(address)) return;
+    const info = await this.rpc<{ ismine: boolean; iswatchonly: boolean }>('getaddressinfo', [address], true);
+    if (!info.ismine && !info.iswatchonly) {
+      throw new Error(`${address} is not in wallet ${this.wallet} on ${this.name}; import it as watch-only`);
+    }
+    this.watched.add(address);
+  }
+
+  private async rpc<T>(method: string, params: unknown[] = [], viaWallet: boolean = false): Promise<T> {
+    const url = viaWallet ? `${this.url}/wallet/${encodeURIComponent(this.wallet!)}` : this.url;
+    try {
+      const response = await axios({
+        method: 'POST',
+        url,
+        data: { jsonrpc: '1.0', id: 'xcpfolio', method, params },
+        headers: { 'Content-Type': 'application/json' },
+        auth: this.auth
+      });
+      if (response.data?.error) {
+        throw new BitcoinRpcError(this.name, method, response.data.error.code, response.data.error.message);
+      }
+      return response.data.result;
+    } catch (error) {
+      // bitcoind reports RPC errors with an HTTP error status and the error in the body
+      const rpcError = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      if (rpcError && rpcError.code !== RPC_IN_WARMUP) {
+        throw new BitcoinRpcError(this.name, method, rpcError.code, rpcError.message);
+      }
+      throw error;
+    }
+  }
+}
+
+interface ProviderHealth {
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  latencyMs: number | null;  // Smoothed; null until the first call
+  errorRate: number;         // Smoothed, 0-1
+  openUntil: number;         // Circuit open until this time (0 = closed)
+  lastUsedAt?: number;
+  lastError?: string;
+  lastErrorAt?: number;
+}
+
+/**
+ * Providers ranked by health, with per-call timeouts and circuit breakers
+ */
+export class ProviderPool {
+  private providers: BitcoinProvider[];
+  private health = new Map<string, ProviderHealth>();
+  private lastServed: Partial<Record<ProviderOperation, string>> = {};
+  private timeoutMs: number;
+
+  constructor(providers: BitcoinProvider[], options: { timeoutMs?: number } = {}) {
+    if (providers.length === 0) {
+      throw new Error('At least one Bitcoin provider is required');
+    }
+    this.providers = providers;
+    this.timeoutMs = options.timeoutMs ?? BITCOIN_PROVIDERS.TIMEOUT_MS;
+    for (const provider of providers) {
+      this.health.set(provider.name, { successes: 0, failures: 0, consecutiveFailures: 0, latencyMs: null, errorRate: 0, openUntil: 0 });
+    }
+  }
+
+  /**
+   * Run an operation on the best provider, failing over while providers are unhealthy
+   */
+  async call<T>(operation: ProviderOperation, fn: (provider: BitcoinProvider) => Promise<T>): Promise<T> {
+    const ranked = this.rank(operation);
+    if (ranked.length === 0) {
+      throw new ProviderUnavailableError(operation, 'no configured provider supports it');
+    }
+
+    const failures: string[] = [];
+    for (const provider of ranked) {
+      try {
+        return await this.attempt(provider, operation, fn);
+      } catch (error) {
+        if (!isProviderFault(error) && !(error instanceof ProviderIncompleteError)) throw error;
+        failures.push(`${provider.name}: ${errorMessage(error)}`);
+      }
+    }
+    throw new ProviderUnavailableError(operation, failures.join('; '));
+  }
+
+  /**
+   * Run an operation on one provider, recording its latency and health
+   */
+  async attempt<T>(provider: BitcoinProvider, operation: ProviderOperation, fn: (provider: BitcoinProvider) => Promise<T>): Promise<T> {
+    const health = this.health.get(provider.name)!;
+    const started = Date.now();
+    try {
+      const result = await this.withTimeout(fn(provider), provider.name);
+      this.recordSuccess(health, Date.now() - started);
+      this.lastServed[operation] = provider.name;
+      return result;
+    } catch (error) {
+      if (isProviderFault(error)) {
+        this.recordFailure(provider.name, health, Date.now() - started, error);
+      } else {
+        this.recordSuccess(health, Date.now() - started);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Providers supporting an operation, best first
+   * Providers with an open circuit are left out unless every one is open,
+   * in which case they're all tried rather than failing without a request.
+   */
+  rank(operation: ProviderOperation): BitcoinProvider[] {
+    const now = Date.now();
+    const supporting = this.providers.filter(provider => typeof provider[operation] === 'function');
+    const closed = supporting.filter(provider => this.health.get(provider.name)!.openUntil <= now);
+    // Stable sort keeps the configured order between equal scores
+    return [...(closed.length > 0 ? closed : supporting)]
+      .sort((a, b) => this.score(a) - this.score(b));
+  }
+
+  getStatus(): ProviderPoolStatus {
+    const now = Date.now();
+    return {
+      providers: this.providers.map(provider => {
+        const health = this.health.get(provider.name)!;
+        const circuit: CircuitState = health.openUntil > now
+          ? 'open'
+          : health.consecutiveFailures >= BITCOIN_PROVIDERS.FAILURE_THRESHOLD ? 'half-open' : 'closed';
+        return {
+          name: provider.name,
+          kind: provider.kind,
+          url: provider.url,
+          circuit,
+          score: Math.round(this.score(provider)),
+          latencyMs: health.latencyMs === null ? null : Math.round(health.latencyMs),
+          errorRate: Math.round(health.errorRate * 100) / 100,
+          successes: health.successes,
+          failures: health.failures,
+          operations: OPERATIONS.filter(op => typeof provider[op] === 'function'),
+          lastUsedAt: health.lastUsedAt,
+          lastError: health.lastError,
+          lastErrorAt: health.lastErrorAt,
+        };
+      }),
+      lastServed: { ...this.lastServed },
+    };
+  }
+
+  private score(provider: BitcoinProvider): number {
+    const health = this.health.get(provider.name)!;
+    // Fade the penalty so a provider ranked down after a blip gets used again
+    const age = health.lastErrorAt ? Date.now() - health.lastErrorAt : Infinity;
+    const fade = Math.max(0, 1 - age / BITCOIN_PROVIDERS.ERROR_MEMORY_MS);
+    return (health.latencyMs ?? 0) + health.errorRate * BITCOIN_PROVIDERS.ERROR_PENALTY_MS * fade;
+  }
+
+  private recordSuccess(health: ProviderHealth, latencyMs: number): void {
+    health.successes++;
+    health.consecutiveFailures = 0;
+    health.openUntil = 0;
+    health.lastUsedAt = Date.now();
+    health.latencyMs = smooth(health.latencyMs, latencyMs);
+    health.errorRate = smooth(health.errorRate, 0);
+  }
+
+  private recordFailure(name: string, health: ProviderHealth, latencyMs: number, error: unknown): void {
+    health.failures++;
+    health.consecutiveFailures++;
+    health.lastUsedAt = Date.now();
+    health.latencyMs = smooth(health.latencyMs, latencyMs);
+    health.errorRate = smooth(health.errorRate, 1);
+    health.lastError = errorMessage(error);
+    health.lastErrorAt = Date.now();
+
+    if (health.consecutiveFailures >= BITCOIN_PROVIDERS.FAILURE_THRESHOLD) {
+      health.openUntil = Date.now() + BITCOIN_PROVIDERS.COOLDOWN_MS;
+      console.warn(`⚡ Bitcoin provider ${name} circuit open for ${BITCOIN_PROVIDERS.COOLDOWN_MS / 1000}s after ${health.consecutiveFailures} failures: ${health.lastError}`);
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>, name: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${name} timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+}
+
+function smooth(average: number | null, sample: number): number {
+  return average === null ? sample : average + (sample - average) * BITCOIN_PROVIDERS.SCORE_SMOOTHING;
+}
+
+/**
+ * Create providers from the environment
+ *
+ * BITCOIN_PROVIDERS lists them in priority order (default: mempool,
+ * blockstream, electrum, core - electrum and core only when configured). The
+ * Esplora providers come first as they answer every operation in full.
+ */
+export function createProviders(env: NodeJS.ProcessEnv = process.env): BitcoinProvider[] {
+  const timeoutMs = env.BITCOIN_PROVIDER_TIMEOUT_MS ? parseInt(env.BITCOIN_PROVIDER_TIMEOUT_MS) : BITCOIN_PROVIDERS.TIMEOUT_MS;
+  const explicit = env.BITCOIN_PROVIDERS?.split(',').map(name => name.trim()).filter(Boolean);
+  const names = explicit?.length ? explicit : ['mempool', 'blockstream', 'electrum', 'core'];
+
+  const providers: BitcoinProvider[] = [];
+  for (const name of names) {
+    switch (name) {
+      case 'mempool':
+        providers.push(new MempoolSpaceProvider(name, env.MEMPOOL_API || API_CONFIG.MEMPOOL.DEFAULT_URL));
+        break;
+      case 'blockstream':
+        providers.push(new EsploraProvider(name, env.BLOCKSTREAM_API || API_CONFIG.BLOCKSTREAM.DEFAULT_URL));
+        break;
+      case 'electrum':
+        if (env.ELECTRUM_URL) {
+          providers.push(new ElectrumProvider(name, env.ELECTRUM_URL, timeoutMs));
+        } else if (explicit) {
+          throw new Error('ELECTRUM_URL is required for the electrum provider');
+        }
+        break;
+      case 'core':
+        if (env.BITCOIN_RPC_URL) {
+          const auth = env.BITCOIN_RPC_USER
+            ? { username: env.BITCOIN_RPC_USER, password: env.BITCOIN_RPC_PASSWORD || '' }
+            : undefined;
+          providers.push(new BitcoinCoreProvider(name, env.BITCOIN_RPC_URL, { auth, wallet: env.BITCOIN_RPC_WALLET || undefined }));
+        } else if (explicit) {
+          throw new Error('BITCOIN_RPC_URL is required for the core provider');
+        }
+        break;
+      default:
+        throw new Error(`Unknown Bitcoin provider: ${name} (expected mempool, blockstream, electrum or core)`);
+    }
+  }
+  return providers;
+}
+
+let sharedPool: ProviderPool | null = null;
+
+/**
+ * Process-wide provider pool, so health is shared by every BitcoinService
+ */
+export function getProviderPool(): ProviderPool {
+  if (!sharedPool) {
+    const timeoutMs = process.env.BITCOIN_PROVIDER_TIMEOUT_MS ? parseInt(process.env.BITCOIN_PROVIDER_TIMEOUT_MS) : undefined;
+    sharedPool = new ProviderPool(createProviders(), { timeoutMs });
+  }
+  return sharedPool;
+}
+
+/**
+ * Replace the shared provider pool (tests, custom deployments)
+ */
+export function setProviderPool(pool: ProviderPool | null): void {
+  sharedPool = pool;
+}
@@ -1,10 +1,12 @@
-import { Transaction, p2pkh, SigHash } from '@scure/btc-signer';
+import { Transaction, p2pkh, p2wpkh, p2sh, p2tr, SigHash, NETWORK, TEST_NETWORK, Address, OutScript } from '@scure/btc-signer';
 import { hexToBytes, bytesToHex } from '@noble/hashes/utils';
 import { sha256 } from '@noble/hashes/sha256';
 import * as secp256k1 from 'secp256k1';
 import { base58check } from '@scure/base';
 import axios from 'axios';
-import { API_CONFIG, TX_SIZE, TIME, TX_LIMITS } from '../constants';
+import { ProviderPool, ProviderUnavailableError, Outspend, getProviderPool } from './bitcoin-providers';
+import { getCounterpartyNodes } from './counterparty-nodes';
+import { TIME, TX_LIMITS } from '../constants';
 
 export interface UTXO {
   txid: string;
@@ -40,14 +42,158 @@ export interface SignedTransaction {
   txid: string;
   fee: number;
   vsize: number;
+  inputs: string[]; // Spent outpoints as txid:vout
 }
 
-const MEMPOOL_API = process.env.MEMPOOL_API || API_CONFIG.MEMPOOL.DEFAULT_URL;
-const COUNTERPARTY_API = process.env.COUNTERPARTY_API || API_CONFIG.COUNTERPARTY.DEFAULT_URL;
+/**
+ * A composed transaction as an unsigned PSBT, for signing outside the bot
+ */
+export interface UnsignedTransaction {
+  psbt: string;     // Base64
+  fee: number;
+  inputs: string[]; // Spent outpoints as txid:vout
+}
+
+/**
+ * An unconfirmed transaction and what's chained onto it in the mempool
+ */
+export interface MempoolPackage {
+  txid: string;
+  fee: number;             // Sats
+  vsize: number;
+  descendants: number;     // Unconfirmed transactions spending its outputs (directly or not)
+  descendantFees: number;  // Sats
+  outputs: Array<{ vout: number; address?: string; value: number }>;
+}
+
+export type AddressType = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh' | 'p2tr';
+
+/**
+ * Script and input fields needed to spend from the bot address
+ */
+interface SpendingScript {
+  type: AddressType;
+  script: Uint8Array;          // Output script of our UTXOs
+  redeemScript?: Uint8Array;   // P2SH-P2WPKH only
+  tapInternalKey?: Uint8Array; // P2TR only (x-only pubkey)
+}
+
+/**
+ * Detect the script type of an address from its prefix
+ * P2SH addresses are assumed to wrap P2WPKH, the only P2SH type we can sign.
+ */
+export function detectAddressType(address: string): AddressType {
+  const lower = address.toLowerCase();
+  if (/^(bc|tb|bcrt)1q/.test(lower)) return 'p2wpkh';
+  if (/^(bc|tb|bcrt)1p/.test(lower)) return 'p2tr';
+  if (/^[13mn2]/.test(address)) {
+    return address[0] === '3' || address[0] === '2' ? 'p2sh-p2wpkh' : 'p2pkh';
+  }
+  throw new Error(`Unsupported address type: ${address}`);
+}
+
+// Counterparty outputs (OP_RETURN, bare multisig) aren't standard scure scripts
+const TX_OPTS = {
+  allowUnknownInputs: true,
+  allowUnknownOutputs: true,
+  allowLegacyWitnessUtxo: true,
+  disableScriptCheck: true
+};
+
+function isTestnetAddress(address: string): boolean {
+  return /^(tb1|bcrt1|[mn2])/i.test(address);
+}
+
+/**
+ * Output script paying to an address
+ */
+export function addressToScript(address: string): Uint8Array {
+  const network = isTestnetAddress(address) ? TEST_NETWORK : NETWORK;
+  return OutScript.encode(Address(network).decode(address));
+}
+
+/**
+ * Build an unsigned raw transaction spending UTXOs of ours to plain outputs
+ * (for UTXO splits and consolidations - Counterparty composes everything else)
+ */
+export function buildRawTransaction(
+  inputs: Array<{ txid: string; vout: number }>,
+  outputs: Array<{ address: string; value: number }>
+): string {
+  const tx = new Transaction(TX_OPTS);
+  for (const input of inputs) {
+    tx.addInput({ txid: input.txid, index: input.vout });
+  }
+  for (const output of outputs) {
+    tx.addOutput({ script: addressToScript(output.address), amount: BigInt(output.value) });
+  }
+  return bytesToHex(tx.unsignedTx);
+}
+
+/**
+ * Signed size of an input spending from each address type, in bytes
+ * Base bytes count in full, witness bytes at a quarter. Assumes the largest
+ * (72-byte) ECDSA signature, so estimates are at most a byte per input high.
+ */
+const INPUT_SIZE: Record<AddressType, { base: number; witness: number }> = {
+  'p2pkh': { base: 148, witness: 0 },         // Outpoint, scriptSig (signature + pubkey), sequence
+  'p2sh-p2wpkh': { base: 64, witness: 108 },  // scriptSig only pushes the redeem script
+  'p2wpkh': { base: 41, witness: 108 },       // Witness: item count, signature, pubkey
+  'p2tr': { base: 41, witness: 66 },          // Witness: item count, 64-byte Schnorr signature
+};
+
+const OUTPUT_SCRIPT_SIZE: Record<AddressType, number> = {
+  'p2pkh': 25,
+  'p2sh-p2wpkh': 23,
+  'p2wpkh': 22,
+  'p2tr': 34,
+};
+
+function varIntSize(n: number): number {
+  return n < 0xfd ? 1 : n <= 0xffff ? 3 : 5;
+}
+
+/**
+ * Output script length when paying to an address
+ */
+export function outputScriptSize(address: string): number {
+  return OUTPUT_SCRIPT_SIZE[detectAddressType(address)];
+}
+
+/**
+ * vsize of a transaction once its inputs, all from one address type, are signed
+ *
+ * @param outputScriptSizes Length of each output's script
+ */
+export function estimateVsize(inputCount: number, outputScriptSizes: number[], type: AddressType): number {
+  const input = INPUT_SIZE[type];
+  const base = 4 // version
+    + varIntSize(inputCount) + inputCount * input.base
+    + varIntSize(outputScriptSizes.length)
+    + outputScriptSizes.reduce((sum, size) => sum + 8 + varIntSize(size) + size, 0)
+    + 4; // locktime
+  // Segwit marker and flag, then each input's witness
+  const witness = input.witness > 0 ? 2 + inputCount * input.witness : 0;
+  return Math.ceil((base * 4 + witness) / 4);
+}
+
+/**
+ * vsize a composed transaction will have once the bot address signs it
+ * Counts the real outputs - OP_RETURN data, bare multisig, change - so the
+ * estimate follows Counterparty's encoding choice.
+ */
+export function estimateSignedVsize(rawTransaction: string, sourceAddress: string): number {
+  const tx = Transaction.fromRaw(hexToBytes(rawTransaction), TX_OPTS);
+  const outputScriptSizes: number[] = [];
+  for (let i = 0; i < tx.outputsLength; i++) {
+    outputScriptSizes.push(tx.getOutput(i).script?.length || 0);
+  }
+  return estimateVsize(tx.inputsLength, outputScriptSizes, detectAddressType(sourceAddress));
+}
 
 /**
  * Convert WIF private key to hex
- * For mainnet P2PKH addresses (starting with 1)
+ * The same key signs for any supported address type (the address decides the script)
  */
 function wifToPrivateKey(wif: string): string {
   try {
@@ -68,23 +214,25 @@ function wifToPrivateKey(wif: string): string {
 }
 
 /**
- * Bitcoin service for P2PKH addresses
- * Handles transaction signing, broadcasting, and fee management
+ * Bitcoin service for P2PKH, P2SH-P2WPKH, P2WPKH and P2TR addresses
+ * Handles transaction signing, broadcasting, and fee management. Chain data
+ * comes from a pool of providers with failover (see bitcoin-providers.ts).
  */
 export class BitcoinService {
   private isTestnet: boolean;
+  private providers: ProviderPool;
 
-  constructor(network: 'mainnet' | 'testnet' = 'mainnet') {
+  constructor(network: 'mainnet' | 'testnet' = 'mainnet', providers: ProviderPool = getProviderPool()) {
     this.isTestnet = network === 'testnet';
+    this.providers = providers;
   }
 
   /**
-   * Get current block height from mempool.space
+   * Get current block height
    */
   async getCurrentBlockHeight(): Promise<number> {
     try {
-      const response = await axios.get<number>(`${MEMPOOL_API}/blocks/tip/height`);
-      return response.data;
+      return await this.providers.call('getBlockHeight', provider => provider.getBlockHeight!());
     } catch (error) {
       console.error('Error fetching block height:', error);
       throw new Error('Failed to fetch block height');
@@ -96,8 +244,7 @@ export class BitcoinService {
    */
   async fetchUTXOs(address: string): Promise<UTXO[]> {
     try {
-      const response = await axios.get<UTXO[]>(`${MEMPOOL_API}/address/${address}/utxo`);
-      return response.data;
+      return await this.providers.call('getUtxos', provider => provider.getUtxos!(address));
     } catch (error) {
       console.error(`Error fetching UTXOs for address ${address}:`, error);
       throw new Error('Failed to fetch UTXOs');
@@ -115,19 +262,21 @@ export class BitcoinService {
    * Fetch raw transaction hex
    */
   async fetchRawTransaction(txid: string): Promise<string> {
+    // Try Counterparty API first
     try {
-      // Try Counterparty API first
       const response = await axios.get<{ result: any }>(
-        `${COUNTERPARTY_API}/bitcoin/transactions/${txid}`
+        `${getCounterpartyNodes().activeUrl()}/bitcoin/transactions/${txid}`
       );
-      
+
       if (response.data?.result?.hex) {
         return response.data.result.hex;
       }
-      
-      // Fallback to mempool.space
-      const mempoolResponse = await axios.get(`${MEMPOOL_API}/tx/${txid}/hex`);
-      return mempoolResponse.data;
+    } catch (error) {
+      console.warn(`Counterparty has no raw transaction for ${txid}, trying Bitcoin providers`);
+    }
+
+    try {
+      return await this.providers.call('getRawTransaction', provider => provider.getRawTransaction!(txid));
     } catch (error) {
       console.error(`Error fetching raw transaction for ${txid}:`, error);
       throw new Error(`Failed to fetch raw transaction: ${txid}`);
@@ -139,8 +288,7 @@ export class BitcoinService {
    */
   async getFeeRates(): Promise<FeeRates> {
     try {
-      const response = await axios.get<FeeRates>(`${MEMPOOL_API}/v1/fees/recommended`);
-      return response.data;
+      return await this.providers.call('getFeeRates', provider => provider.getFeeRates!());
     } catch (error) {
       console.warn('Failed to fetch fee rates, using fallback');
       return {
@@ -182,8 +330,7 @@ export class BitcoinService {
     const HARD_FLOOR = TX_LIMITS.MIN_FEE_RATE_FLOOR; // sat/vB
 
     try {
-      const response = await axios.get<MempoolBlock[]>(`${MEMPOOL_API}/v1/fees/mempool-blocks`);
-      const blocks = response.data;
+      const blocks = await this.providers.call('getMempoolBlocks', provider => provider.getMempoolBlocks!());
 
       // Mempool essentially empty — cheapest possible.
       if (!blocks || blocks.length === 0) {
@@ -217,78 +364,117 @@ export class BitcoinService {
   }
 
   /**
-   * Sign a raw transaction for P2PKH address
+   * Median fee rate of each projected block in the mempool, next block first
+   * An empty array means the mempool fits in less than a block.
    */
-  async signTransaction(
+  async getProjectedBlockFeeRates(): Promise<number[]> {
+    const blocks = await this.providers.call('getMempoolBlocks', provider => provider.getMempoolBlocks!());
+    return blocks.map(block => block.medianFee);
+  }
+
+  /**
+   * Build the spending script for our address from its public key
+   * Throws if the key doesn't belong to the address.
+   */
+  private getSpendingScript(address: string, pubkeyBytes: Uint8Array): SpendingScript {
+    const type = detectAddressType(address);
+    const network = isTestnetAddress(address) ? TEST_NETWORK : NETWORK;
+
+    let payment: { address?: string; script: Uint8Array; redeemScript?: Uint8Array; tapInternalKey?: Uint8Array };
+    switch (type) {
+      case 'p2pkh':
+        payment = p2pkh(pubkeyBytes, network);
+        break;
+      case 'p2sh-p2wpkh':
+        payment = p2sh(p2wpkh(pubkeyBytes, network), network);
+        break;
+      case 'p2wpkh':
+        payment = p2wpkh(pubkeyBytes, network);
+        break;
+      case 'p2tr':
+        payment = p2tr(pubkeyBytes.slice(1), undefined, network); // x-only key, key-path spend
+        break;
+    }
+
+    if (payment.address !== address) {
+      throw new Error(`Private key does not match ${type} address ${address}`);
+    }
+
+    return {
+      type,
+      script: payment.script,
+      redeemScript: payment.redeemScript,
+      tapInternalKey: payment.tapInternalKey,
+    };
+  }
+
+  /**
+   * Build the spending script for our address from the address alone
+   * Without the public key there's no redeem script (P2SH-P2WPKH) or internal
+   * key (P2TR); an external signer that knows the key fills those in.
+   */
+  private getAddressScript(address: string): SpendingScript {
+    return {
+      type: detectAddressType(address),
+      script: addressToScript(address),
+    };
+  }
+
+  /**
+   * Rebuild a composed transaction with the UTXO data needed to sign its inputs
+   */
+  private async prepareTransaction(
     rawTransaction: string,
     sourceAddress: string,
-    privateKeyWIF: string,
-    sequenceNumber: number = 0xfffffffd  // RBF enabled by default
-  ): Promise<SignedTransaction> {
-    try {
-      // Convert WIF to hex
-      const privateKeyHex = wifToPrivateKey(privateKeyWIF);
-      const privateKeyBytes = hexToBytes(privateKeyHex);
-      const pubkeyBytes = secp256k1.publicKeyCreate(privateKeyBytes, true); // compressed
-      
-      // Create P2PKH payment script
-      const payment = p2pkh(pubkeyBytes);
-
-      // Fetch UTXOs for the address with retry
-      let utxos = await this.fetchUTXOs(sourceAddress);
+    spending: SpendingScript,
+    sequenceNumber: number
+  ): Promise<{ tx: Transaction; fee: number; inputs: string[] }> {
+    // Fetch UTXOs for the address with retry
+    let utxos = await this.fetchUTXOs(sourceAddress);
+    if (!utxos || utxos.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, TIME.SECOND));
+      utxos = await this.fetchUTXOs(sourceAddress);
       if (!utxos || utxos.length === 0) {
-        await new Promise(resolve => setTimeout(resolve, TIME.SECOND));
-        utxos = await this.fetchUTXOs(sourceAddress);
-        if (!utxos || utxos.length === 0) {
-          throw new Error('No UTXOs found for source address');
-        }
+        throw new Error('No UTXOs found for source address');
       }
+    }
 
-      // Parse the raw transaction
-      const rawTxBytes = hexToBytes(rawTransaction);
-      const parsedTx = Transaction.fromRaw(rawTxBytes, {
-        allowUnknownInputs: true,
-        allowUnknownOutputs: true,
-        allowLegacyWitnessUtxo: true,
-        disableScriptCheck: true
-      });
+    // Parse the raw transaction
+    const rawTxBytes = hexToBytes(rawTransaction);
+    const parsedTx = Transaction.fromRaw(rawTxBytes, TX_OPTS);
 
-      // Create new transaction for signing
-      const tx = new Transaction({
-        allowUnknownInputs: true,
-        allowUnknownOutputs: true,
-        allowLegacyWitnessUtxo: true,
-        disableScriptCheck: true
-      });
+    // Create new transaction for signing
+    const tx = new Transaction(TX_OPTS);
 
-      // Process inputs
-      let totalIn = 0;
-      for (let i = 0; i < parsedTx.inputsLength; i++) {
-        const input = parsedTx.getInput(i);
-        if (!input?.txid || input.index === undefined) {
-          throw new Error(`Invalid input at index ${i}`);
-        }
+    // Process inputs
+    let totalIn = 0;
+    const inputs: string[] = [];
+    for (let i = 0; i < parsedTx.inputsLength; i++) {
+      const input = parsedTx.getInput(i);
+      if (!input?.txid || input.index === undefined) {
+        throw new Error(`Invalid input at index ${i}`);
+      }
 
-        const txidHex = bytesToHex(input.txid);
-        const utxo = utxos.find(u => u.txid === txidHex && u.vout === input.index);
+      const txidHex = bytesToHex(input.txid);
+      let utxo = utxos.find(u => u.txid === txidHex && u.vout === input.index);
+      
+      if (!utxo) {
+        // Try fetching fresh UTXOs once more
+        console.warn(`UTXO not found for ${txidHex}:${input.index}, retrying...`);
+        await new Promise(resolve => setTimeout(resolve, TIME.SECOND));
+        const freshUtxos = await this.fetchUTXOs(sourceAddress);
+        const freshUtxo = freshUtxos.find(u => u.txid === txidHex && u.vout === input.index);
         
-        if (!utxo) {
-          // Try fetching fresh UTXOs once more
-          console.warn(`UTXO not found for ${txidHex}:${input.index}, retrying...`);
-          await new Promise(resolve => setTimeout(resolve, TIME.SECOND));
-          const freshUtxos = await this.fetchUTXOs(sourceAddress);
-          const freshUtxo = freshUtxos.find(u => u.txid === txidHex && u.vout === input.index);
-          
-          if (!freshUtxo) {
-            throw new Error(`UTXO not found for input ${i}: ${txidHex}:${input.index}`);
-          }
-          utxos = freshUtxos;
+        if (!freshUtxo) {
+          throw new Error(`UTXO not found for input ${i}: ${txidHex}:${input.index}`);
         }
+        utxos = freshUtxos;
+        utxo = freshUtxo;
+      }
 
-        // Fetch the previous transaction for P2PKH
+      if (spending.type === 'p2pkh') {
+        // Legacy inputs sign over the full previous transaction
         const rawPrevTx = await this.fetchRawTransaction(txidHex);
-        
-        // Add input with nonWitnessUtxo for P2PKH
         tx.addInput({
           txid: input.txid,
           index: input.index,
@@ -296,44 +482,68 @@ export class BitcoinService {
           sighashType: SigHash.ALL,
           nonWitnessUtxo: hexToBytes(rawPrevTx)
         });
-
-        const foundUtxo = utxos.find(u => u.txid === txidHex && u.vout === input.index);
-        if (foundUtxo) {
-          totalIn += foundUtxo.value;
-        }
-      }
-
-      // Add outputs
-      let totalOut = 0;
-      for (let i = 0; i < parsedTx.outputsLength; i++) {
-        const output = parsedTx.getOutput(i);
-        tx.addOutput({
-          script: output.script,
-          amount: output.amount,
+      } else {
+        // Witness inputs only need the spent output's script and amount
+        tx.addInput({
+          txid: input.txid,
+          index: input.index,
+          sequence: sequenceNumber,
+          // Taproot uses SIGHASH_DEFAULT (implicit ALL, 64-byte signature)
+          sighashType: spending.type === 'p2tr' ? SigHash.DEFAULT : SigHash.ALL,
+          witnessUtxo: { script: spending.script, amount: BigInt(utxo.value) },
+          redeemScript: spending.redeemScript,
+          tapInternalKey: spending.tapInternalKey
         });
-        totalOut += Number(output.amount);
       }
 
+      totalIn += utxo.value;
+      inputs.push(`${txidHex}:${input.index}`);
+    }
+
+    // Add outputs
+    let totalOut = 0;
+    for (let i = 0; i < parsedTx.outputsLength; i++) {
+      const output = parsedTx.getOutput(i);
+      tx.addOutput({
+        script: output.script,
+        amount: output.amount,
+      });
+      totalOut += Number(output.amount);
+    }
+
+    return { tx, fee: totalIn - totalOut, inputs };
+  }
+
+  /**
+   * Sign a raw transaction from the bot address
+   * The address type (P2PKH, P2SH-P2WPKH, P2WPKH or P2TR) is detected from the address.
+   */
+  async signTransaction(
+    rawTransaction: string,
+    sourceAddress: string,
+    privateKeyWIF: string,
+    sequenceNumber: number = 0xfffffffd  // RBF enabled by default
+  ): Promise<SignedTransaction> {
+    try {
+      // Convert WIF to hex
+      const privateKeyHex = wifToPrivateKey(privateKeyWIF);
+      const privateKeyBytes = hexToBytes(privateKeyHex);
+      const pubkeyBytes = secp256k1.publicKeyCreate(privateKeyBytes, true); // compressed
+      
+      const spending = this.getSpendingScript(sourceAddress, pubkeyBytes);
+      const { tx, fee, inputs } = await this.prepareTransaction(rawTransaction, sourceAddress, spending, sequenceNumber);
+
       // Sign and finalize
       tx.sign(privateKeyBytes);
       tx.finalize();
 
-      // Get signed hex and calculate metadata
-      const signedHex = tx.hex;
-      const vsize = Math.ceil(signedHex.length / 2);
-      const fee = totalIn - totalOut;
-
-      // Calculate txid (double SHA256 of raw tx, reversed)
-      const txBytes = hexToBytes(signedHex);
-      const hash1 = sha256(txBytes);
-      const hash2 = sha256(hash1);
-      const txid = bytesToHex(hash2.reverse());
-
+      // vsize discounts witness data; txid excludes it
       return {
-        hex: signedHex,
-        txid,
+        hex: tx.hex,
+        txid: tx.id,
         fee,
-        vsize
+        vsize: tx.vsize,
+        inputs
       };
     } catch (error) {
       console.error('Error signing transaction:', error);
@@ -342,50 +552,123 @@ export class BitcoinService {
   }
 
   /**
-   * Broadcast a signed transaction with multiple endpoints
+   * Turn a raw transaction from the bot address into an unsigned PSBT
+   * Pass the address's public key (hex) to include the P2SH-P2WPKH redeem
+   * script or P2TR internal key, which can't be derived from the address.
+   */
+  async createPsbt(
+    rawTransaction: string,
+    sourceAddress: string,
+    publicKey?: string,
+    sequenceNumber: number = 0xfffffffd  // RBF enabled by default
+  ): Promise<UnsignedTransaction> {
+    try {
+      const spending = publicKey
+        ? this.getSpendingScript(sourceAddress, hexToBytes(publicKey))
+        : this.getAddressScript(sourceAddress);
+      const { tx, fee, inputs } = await this.prepareTransaction(rawTransaction, sourceAddress, spending, sequenceNumber);
+
+      return {
+        psbt: Buffer.from(tx.toPSBT()).toString('base64'),
+        fee,
+        inputs
+      };
+    } catch (error) {
+      console.error('Error creating PSBT:', error);
+      throw new Error(`Failed to create PSBT: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Finalize a PSBT signed outside the bot and extract the transaction
+   * If the unsigned PSBT is given, the signed one must spend the same inputs
+   * to the same outputs - a signer can't swap in a different transaction.
+   */
+  finalizePsbt(signedPsbt: string, unsignedPsbt?: string): SignedTransaction {
+    const tx = Transaction.fromPSBT(Buffer.from(signedPsbt, 'base64'), TX_OPTS);
+
+    if (unsignedPsbt) {
+      const expected = Transaction.fromPSBT(Buffer.from(unsignedPsbt, 'base64'), TX_OPTS);
+      if (bytesToHex(tx.unsignedTx) !== bytesToHex(expected.unsignedTx)) {
+        throw new Error('Signed PSBT does not match the requested transaction');
+      }
+    }
+
+    try {
+      if (!tx.isFinal) {
+        tx.finalize();
+      }
+    } catch (error) {
+      throw new Error(`PSBT is not fully signed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const inputs: string[] = [];
+    for (let i = 0; i < tx.inputsLength; i++) {
+      const input = tx.getInput(i);
+      inputs.push(`${bytesToHex(input.txid!)}:${input.index}`);
+    }
+
+    return {
+      hex: tx.hex,
+      txid: tx.id,
+      fee: Number(tx.fee),
+      vsize: tx.vsize,
+      inputs
+    };
+  }
+
+  /**
+   * Whether two PSBTs make the same spend: the same inputs in the same order
+   * with the same sequences, and the same outputs apart from the change to
+   * changeAddress (its amount moves with the fee rate)
+   */
+  isSameSpend(psbtA: string, psbtB: string, changeAddress: string): boolean {
+    const change = bytesToHex(addressToScript(changeAddress));
+    const describe = (psbt: string) => {
+      const tx = Transaction.fromPSBT(Buffer.from(psbt, 'base64'), TX_OPTS);
+      const parts: string[] = [];
+      for (let i = 0; i < tx.inputsLength; i++) {
+        const input = tx.getInput(i);
+        parts.push(`in ${bytesToHex(input.txid!)}:${input.index}:${input.sequence}`);
+      }
+      for (let i = 0; i < tx.outputsLength; i++) {
+        const output = tx.getOutput(i);
+        const script = bytesToHex(output.script!);
+        parts.push(script === change ? 'change' : `out ${script}:${output.amount}`);
+      }
+      return parts.join(',');
+    };
+    return describe(psbtA) === describe(psbtB);
+  }
+
+  /**
+   * Broadcast a signed transaction via Counterparty, then every Bitcoin provider
+   * A node rejecting the transaction doesn't mean the others will, so each is tried.
    */
   async broadcastTransaction(signedTxHex: string): Promise<string> {
-    const endpoints = [
+    const endpoints: Array<{ name: string; send: () => Promise<string | undefined> }> = [
       {
         name: 'counterparty',
-        url: `${COUNTERPARTY_API}/bitcoin/transactions?signedhex=${encodeURIComponent(signedTxHex)}`,
-        method: 'GET' as const,
-        extractTxid: (response: any) => response.data?.result
-      },
-      {
-        name: 'mempool',
-        url: `${MEMPOOL_API}/tx`,
-        method: 'POST' as const,
-        data: signedTxHex,
-        headers: { 'Content-Type': 'text/plain' },
-        extractTxid: (response: any) => response.data
+        send: async () => {
+          const response = await axios({
+            method: 'GET',
+            url: `${getCounterpartyNodes().activeUrl()}/bitcoin/transactions?signedhex=${encodeURIComponent(signedTxHex)}`,
+            headers: {}
+          });
+          return response.data?.result;
+        }
       },
-      {
-        name: 'blockstream',
-        url: `${API_CONFIG.BLOCKSTREAM.DEFAULT_URL}/tx`,
-        method: 'POST' as const,
-        data: signedTxHex,
-        headers: { 'Content-Type': 'text/plain' },
-        extractTxid: (response: any) => response.data
-      }
+      ...this.providers.rank('broadcast').map(provider => ({
+        name: provider.name,
+        send: () => this.providers.attempt(provider, 'broadcast', p => p.broadcast!(signedTxHex))
+      }))
     ];
 
     let lastError: Error | null = null;
 
     for (const endpoint of endpoints) {
       try {
-        const config: any = {
-          method: endpoint.method,
-          url: endpoint.url,
-          headers: endpoint.headers || {}
-        };
-
-        if (endpoint.data) {
-          config.data = endpoint.data;
-        }
-
-        const response = await axios(config);
-        const txid = endpoint.extractTxid(response);
+        const txid = await endpoint.send();
         
         if (txid) {
           console.log(`Transaction broadcast successful via ${endpoint.name}: ${txid}`);
@@ -426,8 +709,8 @@ export class BitcoinService {
    */
   async isInMempool(txid: string): Promise<boolean> {
     try {
-      const response = await axios.get(`${MEMPOOL_API}/tx/${txid}`);
-      return response.data && !response.data.status?.confirmed;
+      const txData = await this.providers.call('getTransaction', provider => provider.getTransaction!(txid));
+      return txData && !txData.status?.confirmed;
     } catch (error) {
       return false;
     }
@@ -438,12 +721,7 @@ export class BitcoinService {
    */
   async getUnconfirmedTxCount(address: string): Promise<number> {
     try {
-      // Get all transactions for the address
-      const response = await axios.get(`${MEMPOOL_API}/address/${address}/txs`);
-      const txs = response.data || [];
-      
-      // Count unconfirmed transactions
-      return txs.filter((tx: any) => !tx.status?.confirmed).length;
+      return await this.providers.call('getUnconfirmedTxCount', provider => provider.getUnconfirmedTxCount!(address));
     } catch (error) {
       console.error('Error getting unconfirmed tx count:', error);
       return 0;
@@ -460,30 +738,75 @@ export class BitcoinService {
 
   /**
    * Get transaction details
+   * @throws ProviderUnavailableError when no provider could say whether it exists
    */
   async getTransaction(txid: string): Promise<any> {
     try {
-      const response = await axios.get(`${MEMPOOL_API}/tx/${txid}`);
-      return response.data;
+      return await this.providers.call('getTransaction', provider => provider.getTransaction!(txid));
     } catch (error) {
+      if (error instanceof ProviderUnavailableError) throw error;
       throw new Error(`Transaction not found: ${txid}`);
     }
   }
 
   /**
-   * Estimate transaction fee for P2PKH
-   * P2PKH: ~148 bytes per input, ~34 bytes per output, ~10 bytes overhead
+   * Get the transaction (if any) spending an output
+   */
+  async getOutspend(txid: string, vout: number): Promise<Outspend> {
+    return this.providers.call('getOutspend', provider => provider.getOutspend!(txid, vout));
+  }
+
+  /**
+   * Get an unconfirmed transaction's fee, size, outputs and descendants
+   * Throws if the transaction is confirmed or unknown.
+   */
+  async getMempoolPackage(txid: string): Promise<MempoolPackage> {
+    const txData = await this.getTransaction(txid);
+    if (txData?.status?.confirmed) {
+      throw new Error(`Transaction ${txid} is already confirmed`);
+    }
+
+    const descendants = await this.providers.call('getDescendants', provider => provider.getDescendants!(txid));
+
+    return {
+      txid,
+      fee: txData.fee,
+      vsize: Math.ceil(txData.weight / 4),
+      descendants: descendants.length,
+      descendantFees: descendants.reduce((sum, d) => sum + d.fee, 0),
+      outputs: (txData.vout || []).map((output: any, vout: number) => ({
+        vout,
+        address: output.scriptpubkey_address,
+        value: output.value
+      }))
+    };
+  }
+
+  /**
+   * Get the effective fee rate (sat/vB, rounded up) of a transaction
+   */
+  async getTransactionFeeRate(txid: string): Promise<number> {
+    const txData = await this.getTransaction(txid);
+    if (!txData?.fee || !txData?.weight) {
+      throw new Error(`Fee data unavailable for ${txid}`);
+    }
+    return Math.ceil(txData.fee / Math.ceil(txData.weight / 4));
+  }
+
+  /**
+   * Estimate the fee for a transaction spending from and paying to one address type
    */
   async estimateFee(
     numInputs: number,
     numOutputs: number,
-    feeRate?: number
+    feeRate?: number,
+    addressType: AddressType = 'p2pkh'
   ): Promise<number> {
     if (!feeRate) {
       feeRate = await this.getOptimalFeeRate();
     }
 
-    const estimatedSize = TX_SIZE.OVERHEAD + (TX_SIZE.INPUT * numInputs) + (TX_SIZE.OUTPUT * numOutputs);
-    return Math.ceil(estimatedSize * feeRate);
+    const vsize = estimateVsize(numInputs, new Array(numOutputs).fill(OUTPUT_SCRIPT_SIZE[addressType]), addressType);
+    return Math.ceil(vsize * feeRate);
   }
 }
\ No newline at end of file
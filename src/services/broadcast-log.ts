@@ -0,0 +1,164 @@
+/**
+ * Append-only log of every transaction the bot signs and broadcasts
+ *
+ * Written by FulfillmentProcessor (transfers, RBF replacements, CPFP children)
+ * and OrderMaintenanceService (listings, cancels, UTXO splits and
+ * consolidations) on every broadcast attempt, successful or not. Entries are
+ * never updated, so the log doubles as the accounting record for BTC spent on
+ * fees; only the newest BROADCAST_LOG.MAX_ENTRIES are kept, so export the CSV
+ * regularly for a permanent record.
+ */
+
+import { SignedTransaction } from './bitcoin';
+import { StorageBackend, getStorage } from './storage';
+import { BROADCAST_LOG } from '../constants';
+
+export type BroadcastKind = 'transfer' | 'rbf' | 'cpfp' | 'listing' | 'cancel' | 'split' | 'consolidate';
+
+export interface BroadcastLogEntry {
+  id: string;
+  timestamp: number;
+  kind: BroadcastKind;
+  reason: string;          // Why the transaction was sent
+  success: boolean;
+  txid?: string;           // Broadcast txid (or signed txid when broadcast failed)
+  error?: string;
+  asset?: string;
+  orderHash?: string;      // Our sell order, for transfers, RBF and CPFP
+  destination?: string;    // Buyer address, for transfers, RBF and CPFP
+  replacesTxid?: string;   // Previous txid, for RBF
+  fee?: number;            // Sats
+  vsize?: number;
+  feeRate?: number;        // sat/vB
+  inputs?: string[];       // Spent outpoints as txid:vout
+}
+
+export type BroadcastLogInput = Omit<BroadcastLogEntry, 'id' | 'timestamp' | 'fee' | 'vsize' | 'feeRate' | 'inputs'>;
+
+export interface BroadcastLogQuery {
+  limit?: number;
+  offset?: number; // Matching entries to skip, newest first
+  kind?: BroadcastKind;
+  since?: number;  // Epoch ms
+  until?: number;  // Epoch ms
+}
+
+export interface BroadcastLogPage {
+  entries: BroadcastLogEntry[];
+  nextOffset?: number; // Set when more entries match
+}
+
+const LOG_KEY = 'xcpfolio:broadcast-log';
+
+const CSV_COLUMNS: Array<keyof BroadcastLogEntry> = [
+  'timestamp', 'kind', 'success', 'txid', 'asset', 'orderHash', 'destination',
+  'replacesTxid', 'fee', 'vsize', 'feeRate', 'inputs', 'reason', 'error', 'id'
+];
+
+export class BroadcastLogService {
+  private storage: StorageBackend;
+
+  constructor(storage?: StorageBackend) {
+    this.storage = storage || getStorage();
+  }
+
+  /**
+   * Record a broadcast attempt
+   * Never throws - a logging failure must not abort a broadcast in progress.
+   */
+  async record(entry: BroadcastLogInput, signedTx?: SignedTransaction): Promise<void> {
+    const full: BroadcastLogEntry = {
+      id: `${Date.now()}-${Math.random().toString(36).substring(7)}`,
+      timestamp: Date.now(),
+      ...entry,
+    };
+
+    if (signedTx) {
+      full.txid = full.txid || signedTx.txid;
+      full.fee = signedTx.fee;
+      full.vsize = signedTx.vsize;
+      full.feeRate = signedTx.vsize > 0 ? Math.round((signedTx.fee / signedTx.vsize) * 100) / 100 : undefined;
+      full.inputs = signedTx.inputs;
+    }
+
+    try {
+      const length = await this.storage.rpush(LOG_KEY, JSON.stringify(full));
+      if (length > BROADCAST_LOG.MAX_ENTRIES) {
+        await this.storage.ltrim(LOG_KEY, -BROADCAST_LOG.MAX_ENTRIES, -1);
+      }
+    } catch (error) {
+      console.error('[BroadcastLog] Error recording broadcast:', error, full);
+    }
+  }
+
+  /**
+   * Get entries, newest first
+   */
+  async getEntries(query: BroadcastLogQuery = {}): Promise<BroadcastLogEntry[]> {
+    return (await this.getPage(query)).entries;
+  }
+
+  /**
+   * Get one page of entries, newest first
+   * The log is read backwards a chunk at a time and reading stops once the
+   * page is full or entries are older than `since`, so a recent query never
+   * loads the whole log.
+   */
+  async getPage(query: BroadcastLogQuery = {}): Promise<BroadcastLogPage> {
+    const offset = query.offset ?? 0;
+    const end = query.limit === undefined ? Infinity : offset + query.limit;
+    const matches = (entry: BroadcastLogEntry) =>
+      (!query.kind || entry.kind === query.kind) &&
+      (query.until === undefined || entry.timestamp <= query.until);
+
+    const matched: BroadcastLogEntry[] = [];
+    // Entries appended between reads shift the chunks, so some are read twice
+    const seen = new Set<string>();
+    for (let stop = -1; ; stop -= BROADCAST_LOG.READ_CHUNK) {
+      const chunk = await this.storage.lrange<BroadcastLogEntry>(LOG_KEY, stop - BROADCAST_LOG.READ_CHUNK + 1, stop);
+      for (const entry of chunk.reverse()) {
+        if (seen.has(entry.id)) continue;
+        seen.add(entry.id);
+        if (query.since !== undefined && entry.timestamp < query.since) {
+          return { entries: matched.slice(offset) };
+        }
+        if (!matches(entry)) continue;
+        if (matched.length === end) {
+          return { entries: matched.slice(offset), nextOffset: end };
+        }
+        matched.push(entry);
+      }
+      if (chunk.length < BROADCAST_LOG.READ_CHUNK) {
+        return { entries: matched.slice(offset) };
+      }
+    }
+  }
+}
+
+/**
+ * Page size for an API request: the default when not given, at most MAX_PAGE_SIZE
+ */
+export function broadcastLogPageSize(limit: unknown): number {
+  const requested = parseInt(String(limit));
+  return requested > 0 ? Math.min(requested, BROADCAST_LOG.MAX_PAGE_SIZE) : BROADCAST_LOG.DEFAULT_PAGE_SIZE;
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = Array.isArray(value) ? value.join(' ') : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render entries as CSV for accounting (timestamps as ISO 8601)
+ */
+export function broadcastLogToCsv(entries: BroadcastLogEntry[]): string {
+  const rows = entries.map(entry =>
+    CSV_COLUMNS.map(column =>
+      column === 'timestamp'
+        ? new Date(entry.timestamp).toISOString()
+        : csvCell(entry[column])
+    ).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
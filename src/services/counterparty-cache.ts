@@ -0,0 +1,109 @@
+/**
+ * Per-run cache for Counterparty API reads
+ *
+ * One fulfillment run asks for the same data several times: an order's
+ * matches while filtering and again while processing it, and every page of
+ * filled orders for the scan, cleanup and mempool recovery. While a run is
+ * open, reads of confirmed state are kept and reused until a new block
+ * arrives; a block can confirm fills, transfers and cancels, so everything
+ * kept is dropped then. Mempool reads are never kept (they change between
+ * blocks, including through our own broadcasts) but, like every other read,
+ * identical requests in flight at the same time share one call.
+ */
+
+/**
+ * How a read may be reused
+ * - block: kept for the rest of the run, until a new block arrives
+ * - in-flight: only shared with identical requests made while it's pending
+ */
+export type CachePolicy = 'block' | 'in-flight';
+
+export interface CounterpartyCacheStats {
+  requests: number;
+  cached: number;        // Served from a kept response
+  coalesced: number;     // Joined an identical request in flight
+  invalidations: number; // New blocks seen during the run
+}
+
+export class CounterpartyCache {
+  private entries = new Map<string, unknown>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private running = false;
+  private blockHeight?: number;
+  private generation = 0;
+  private stats = CounterpartyCache.emptyStats();
+
+  /**
+   * Start keeping responses; anything left from an earlier run is dropped
+   */
+  beginRun(): void {
+    this.entries.clear();
+    this.blockHeight = undefined;
+    this.generation++;
+    this.running = true;
+    this.stats = CounterpartyCache.emptyStats();
+  }
+
+  /**
+   * Stop keeping responses and report how much the run reused
+   */
+  endRun(): CounterpartyCacheStats {
+    this.entries.clear();
+    this.running = false;
+    return { ...this.stats };
+  }
+
+  /**
+   * Record the chain tip; a higher one than seen before drops every kept response
+   * The first height seen in a run is taken as the one kept responses were read at.
+   */
+  observeBlockHeight(height: number): void {
+    if (this.blockHeight !== undefined && height > this.blockHeight) {
+      console.log(`[Counterparty API] New block ${height}, dropping ${this.entries.size} cached responses`);
+      this.entries.clear();
+      this.generation++;
+      this.stats.invalidations++;
+    }
+    if (this.blockHeight === undefined || height > this.blockHeight) {
+      this.blockHeight = height;
+    }
+  }
+
+  /**
+   * Read through the cache; fetch runs only when nothing can be reused
+   */
+  async get(key: string, policy: CachePolicy, fetch: () => Promise<unknown>): Promise<unknown> {
+    this.stats.requests++;
+
+    if (policy === 'block' && this.running && this.entries.has(key)) {
+      this.stats.cached++;
+      return this.entries.get(key);
+    }
+
+    // Keys carry the generation so a request started before a new block isn't joined after it
+    const flightKey = `${this.generation}:${key}`;
+    const pending = this.inFlight.get(flightKey);
+    if (pending) {
+      this.stats.coalesced++;
+      return pending;
+    }
+
+    const generation = this.generation;
+    const request = fetch().then(result => {
+      if (policy === 'block' && this.running && generation === this.generation) {
+        this.entries.set(key, result);
+      }
+      return result;
+    });
+    this.inFlight.set(flightKey, request);
+    try {
+      return await request;
+    } finally {
+      this.inFlight.delete(flightKey);
+    }
+  }
+
+  private static emptyStats(): CounterpartyCacheStats {
+    return { requests: 0, cached: 0, coalesced: 0, invalidations: 0 };
+  }
+}
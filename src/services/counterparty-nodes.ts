@@ -0,0 +1,219 @@
+/**
+ * Counterparty API nodes: a primary plus fallbacks, with version and health checks
+ *
+ * COUNTERPARTY_API is the primary node and COUNTERPARTY_FALLBACK_APIS lists
+ * others to use while it's down. Each node's API root is probed for its
+ * version, readiness and how far its ledger lags its Bitcoin backend:
+ * - before the first request (a node running an unsupported version fails
+ *   every request, rather than being read with the wrong field names)
+ * - every HEALTH_CHECK_INTERVAL_MS after that, so upgrades and recoveries are seen
+ * Requests go to healthy nodes in the configured order; unhealthy ones are
+ * only tried when no healthy node is left.
+ */
+
+import axios from 'axios';
+import { API_CONFIG, COUNTERPARTY_NODES } from '../constants';
+
+export interface CounterpartyNode {
+  readonly url: string;
+  readonly role: 'primary' | 'fallback';
+  healthy: boolean;
+  incompatible: boolean;    // Runs a version we can't read
+  version?: string;
+  network?: string;
+  counterpartyHeight?: number;
+  backendHeight?: number;
+  lastCheckedAt?: number;
+  lastError?: string;
+}
+
+export type CounterpartyNodeStatus = Omit<CounterpartyNode, 'incompatible'> & { incompatible?: boolean };
+
+/**
+ * A node runs a Counterparty version this bot can't read
+ */
+export class CounterpartyVersionError extends Error {
+  readonly url: string;
+  readonly version: string;
+
+  constructor(url: string, version: string) {
+    super(
+      `Counterparty node ${url} runs version ${version}; supported: ${COUNTERPARTY_NODES.MIN_VERSION} and later ` +
+      `within major versions ${COUNTERPARTY_NODES.SUPPORTED_MAJOR_VERSIONS.join(', ')}`
+    );
+    this.name = 'CounterpartyVersionError';
+    this.url = url;
+    this.version = version;
+  }
+}
+
+/**
+ * Whether the response layer can read a node's version (e.g. "10.4.1" or "v10.4.1")
+ */
+export function isSupportedVersion(version: string): boolean {
+  const parse = (v: string) => v.replace(/^v/, '').split(/[.-]/).slice(0, 3).map(part => parseInt(part) || 0);
+  const [major, minor, patch] = parse(version);
+  const [minMajor, minMinor, minPatch] = parse(COUNTERPARTY_NODES.MIN_VERSION);
+  const atLeastMin = major !== minMajor ? major > minMajor : minor !== minMinor ? minor > minMinor : patch >= minPatch;
+  return atLeastMin && (COUNTERPARTY_NODES.SUPPORTED_MAJOR_VERSIONS as readonly number[]).includes(major);
+}
+
+export class CounterpartyNodePool {
+  private nodes: CounterpartyNode[];
+  private initialCheck: Promise<void> | null = null;
+
+  constructor(urls: string[]) {
+    if (urls.length === 0) {
+      throw new Error('At least one Counterparty API URL is required');
+    }
+    this.nodes = urls.map((url, i) => ({
+      url: url.replace(/\/$/, ''),
+      role: i === 0 ? 'primary' : 'fallback',
+      healthy: true,
+      incompatible: false
+    }));
+  }
+
+  /**
+   * Probe every node; throws if one runs an unsupported version or none is reachable
+   * Runs once (until it fails); call at startup to fail fast.
+   */
+  check(): Promise<void> {
+    if (!this.initialCheck) {
+      this.initialCheck = this.checkAll();
+      this.initialCheck.catch(() => { this.initialCheck = null; });
+    }
+    return this.initialCheck;
+  }
+
+  /**
+   * Nodes to send a request to, best first, re-probing those due a health check
+   */
+  async candidates(): Promise<CounterpartyNode[]> {
+    await this.check();
+
+    const now = Date.now();
+    const due = this.nodes.filter(node =>
+      !node.incompatible && now - (node.lastCheckedAt ?? 0) >= COUNTERPARTY_NODES.HEALTH_CHECK_INTERVAL_MS
+    );
+    if (due.length > 0) {
+      await Promise.all(due.map(node => this.probe(node)));
+      const upgraded = due.find(node => node.incompatible);
+      if (upgraded) {
+        console.error(`[Counterparty API] ${upgraded.url} now runs unsupported version ${upgraded.version} - no longer used`);
+      }
+    }
+
+    const usable = this.nodes.filter(node => !node.incompatible);
+    if (usable.length === 0) {
+      const node = this.nodes[0];
+      throw new CounterpartyVersionError(node.url, node.version || 'unknown');
+    }
+    return [...usable.filter(node => node.healthy), ...usable.filter(node => !node.healthy)];
+  }
+
+  /**
+   * URL of the node requests currently go to (for callers that build their own requests)
+   */
+  activeUrl(): string {
+    const usable = this.nodes.filter(node => !node.incompatible);
+    return (usable.find(node => node.healthy) || usable[0] || this.nodes[0]).url;
+  }
+
+  recordSuccess(node: CounterpartyNode): void {
+    if (!node.healthy) {
+      console.log(`[Counterparty API] ${node.url} is answering again`);
+    }
+    node.healthy = true;
+  }
+
+  /**
+   * The node is down or failing; skip it until its next health check
+   */
+  recordFailure(node: CounterpartyNode, error: unknown): void {
+    node.healthy = false;
+    node.lastCheckedAt = Date.now();
+    node.lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  getStatus(): CounterpartyNodeStatus[] {
+    return this.nodes.map(({ incompatible, ...node }) => (incompatible ? { ...node, incompatible } : { ...node }));
+  }
+
+  private async checkAll(): Promise<void> {
+    await Promise.all(this.nodes.map(node => this.probe(node)));
+
+    // Refuse to run only when no compatible node is left; others stay out of rotation
+    const usable = this.nodes.filter(node => !node.incompatible);
+    if (usable.length === 0) {
+      throw new CounterpartyVersionError(this.nodes[0].url, this.nodes[0].version!);
+    }
+    for (const node of this.nodes.filter(node => node.incompatible)) {
+      console.error(`[Counterparty API] ${node.role} ${node.url} runs unsupported version ${node.version} - not used`);
+    }
+    if (!usable.some(node => node.healthy)) {
+      throw new Error(`No Counterparty node available: ${this.nodes.map(node => `${node.url}: ${node.lastError}`).join('; ')}`);
+    }
+
+    for (const node of usable) {
+      console.log(`[Counterparty API] ${node.role} ${node.url}: ${node.healthy ? `v${node.version!.replace(/^v/, '')} (${node.network})` : `unhealthy - ${node.lastError}`}`);
+    }
+  }
+
+  /**
+   * Read the node's version and sync state from its API root
+   */
+  private async probe(node: CounterpartyNode): Promise<void> {
+    node.lastCheckedAt = Date.now();
+    try {
+      const response = await axios.get(`${node.url}/`, { timeout: COUNTERPARTY_NODES.TIMEOUT_MS });
+      const info = response.data?.result;
+      if (typeof info?.version !== 'string') {
+        throw new Error('API root did not report a version');
+      }
+
+      node.version = info.version;
+      node.network = info.network;
+      node.counterpartyHeight = info.counterparty_height;
+      node.backendHeight = info.backend_height;
+      node.incompatible = !isSupportedVersion(info.version);
+
+      if (node.incompatible) {
+        throw new Error(`unsupported version ${info.version}`);
+      }
+      if (info.server_ready === false) {
+        throw new Error('not ready (catching up)');
+      }
+      const behind = (info.backend_height ?? 0) - (info.counterparty_height ?? 0);
+      if (behind > COUNTERPARTY_NODES.MAX_BLOCKS_BEHIND) {
+        throw new Error(`ledger ${behind} blocks behind its Bitcoin backend`);
+      }
+
+      node.healthy = true;
+      node.lastError = undefined;
+    } catch (error) {
+      node.healthy = false;
+      node.lastError = axios.isAxiosError(error) ? error.message : error instanceof Error ? error.message : String(error);
+    }
+  }
+}
+
+let sharedNodes: CounterpartyNodePool | null = null;
+
+/**
+ * Process-wide node pool, so health is shared by every CounterpartyService
+ */
+export function getCounterpartyNodes(): CounterpartyNodePool {
+  if (!sharedNodes) {
+    const fallbacks = (process.env.COUNTERPARTY_FALLBACK_APIS || '').split(',').map(url => url.trim()).filter(Boolean);
+    sharedNodes = new CounterpartyNodePool([process.env.COUNTERPARTY_API || API_CONFIG.COUNTERPARTY.DEFAULT_URL, ...fallbacks]);
+  }
+  return sharedNodes;
+}
+
+/**
+ * Replace the shared node pool (tests, custom deployments)
+ */
+export function setCounterpartyNodes(nodes: CounterpartyNodePool | null): void {
+  sharedNodes = nodes;
+}
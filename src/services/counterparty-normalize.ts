@@ -0,0 +1,345 @@
+/**
+ * Schemas for Counterparty API responses
+ *
+ * Every CounterpartyService request names the schema its result must match,
+ * and request() runs it before returning, so nothing reads an unchecked
+ * response. A schema normalizes and validates:
+ * - accepts the names and encodings fields have had across API releases
+ *   (event_name for event, bindings as a JSON string, 0/1 booleans, numbers
+ *   as strings, longnames outside asset_info)
+ * - checks the fields callers rely on are there with the right type, and that
+ *   addresses and transaction hashes look like them
+ * - returns the shapes in types.ts
+ * Anything else throws a CounterpartyResponseError naming the field, so a
+ * malformed response or a renamed field fails loudly instead of yielding a
+ * wrong buyer address or quietly matching nothing.
+ */
+
+import {
+  Order,
+  OrderMatch,
+  Issuance,
+  Block,
+  Balance,
+  MempoolEvent,
+  AssetIssuanceParams,
+  OrderEventParams
+} from '../types';
+
+export type Schema<T> = (result: unknown) => T;
+
+/**
+ * A Counterparty response doesn't match its schema
+ */
+export class CounterpartyResponseError extends Error {
+  readonly entity: string;
+  readonly field: string;
+  readonly detail: string;
+  readonly endpoint?: string;
+
+  constructor(entity: string, field: string, detail: string = 'missing', endpoint?: string) {
+    super(`Counterparty ${entity} response${endpoint ? ` from ${endpoint}` : ''}: ${field} ${detail} (node version or API change?)`);
+    this.name = 'CounterpartyResponseError';
+    this.entity = entity;
+    this.field = field;
+    this.detail = detail;
+    this.endpoint = endpoint;
+  }
+}
+
+// Base58 (P2PKH/P2SH, mainnet and testnet) or bech32/bech32m
+const ADDRESS_PATTERN = /^([123mn][1-9A-HJ-NP-Za-km-z]{24,34}|(bc|tb|bcrt)1[02-9ac-hj-np-z]{6,87})$/i;
+const TXID_PATTERN = /^[0-9a-f]{64}$/i;
+const OUTPOINT_PATTERN = /^[0-9a-f]{64}:\d+$/i;
+
+type Raw = Record<string, unknown>;
+
+function first(raw: Raw, names: string[]): unknown {
+  for (const name of names) {
+    if (raw[name] !== undefined && raw[name] !== null) return raw[name];
+  }
+  return undefined;
+}
+
+function requireField(raw: Raw, entity: string, names: string[]): unknown {
+  const value = first(raw, names);
+  if (value === undefined) {
+    throw new CounterpartyResponseError(entity, names[0]);
+  }
+  return value;
+}
+
+function requireString(raw: Raw, entity: string, names: string[]): string {
+  const value = requireField(raw, entity, names);
+  if (typeof value !== 'string' || value === '') {
+    throw new CounterpartyResponseError(entity, names[0], `is not a string (${JSON.stringify(value)})`);
+  }
+  return value;
+}
+
+function optionalString(raw: Raw, entity: string, names: string[]): string | undefined {
+  return first(raw, names) === undefined ? undefined : requireString(raw, entity, names);
+}
+
+function requireMatch(raw: Raw, entity: string, names: string[], pattern: RegExp, kind: string): string {
+  const value = requireString(raw, entity, names);
+  if (!pattern.test(value)) {
+    throw new CounterpartyResponseError(entity, names[0], `is not ${kind} (${JSON.stringify(value)})`);
+  }
+  return value;
+}
+
+function requireAddress(raw: Raw, entity: string, names: string[]): string {
+  return requireMatch(raw, entity, names, ADDRESS_PATTERN, 'an address');
+}
+
+function optionalAddress(raw: Raw, entity: string, names: string[]): string | undefined {
+  return first(raw, names) === undefined ? undefined : requireAddress(raw, entity, names);
+}
+
+function requireTxid(raw: Raw, entity: string, names: string[]): string {
+  return requireMatch(raw, entity, names, TXID_PATTERN, 'a transaction hash');
+}
+
+function toBoolean(value: unknown): boolean {
+  return value === true || value === 1 || value === 'true' || value === '1';
+}
+
+function requireNumber(raw: Raw, entity: string, names: string[]): number {
+  const value = requireField(raw, entity, names);
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    throw new CounterpartyResponseError(entity, names[0], `is not a number (${JSON.stringify(value)})`);
+  }
+  return number;
+}
+
+function optionalNumber(raw: Raw, entity: string, names: string[]): number | undefined {
+  return first(raw, names) === undefined ? undefined : requireNumber(raw, entity, names);
+}
+
+function requireObject(raw: unknown, entity: string): Raw {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new CounterpartyResponseError(entity, 'result', 'is not an object');
+  }
+  return raw as Raw;
+}
+
+/**
+ * A list of items matching a schema (null counts as empty)
+ */
+export function listOf<T>(schema: Schema<T>, entity: string): Schema<T[]> {
+  return result => {
+    if (result === null || result === undefined) return [];
+    if (!Array.isArray(result)) {
+      throw new CounterpartyResponseError(entity, 'result', 'is not a list');
+    }
+    return result.map((item, i) => {
+      try {
+        return schema(item);
+      } catch (error) {
+        if (!(error instanceof CounterpartyResponseError)) throw error;
+        throw new CounterpartyResponseError(`${error.entity} (${entity}[${i}])`, error.field, error.detail);
+      }
+    });
+  };
+}
+
+/**
+ * asset_info for one side of an order, also from flattened *_asset_longname fields
+ */
+function assetInfo(raw: Raw, side: 'give' | 'get'): Order['give_asset_info'] {
+  const entity = `${side} asset`;
+  const infoField = first(raw, [`${side}_asset_info`]);
+  const info = infoField === undefined ? undefined : requireObject(infoField, entity);
+  const longname = (info && optionalString(info, entity, ['asset_longname'])) ??
+    optionalString(raw, entity, [`${side}_asset_longname`]);
+  if (!info && longname === undefined) return undefined;
+  const asset = (info && optionalString(info, entity, ['asset'])) ?? requireString(raw, entity, [`${side}_asset`]);
+  return {
+    ...info,
+    asset,
+    asset_longname: longname ?? null,
+    divisible: toBoolean(info?.divisible),
+    description: typeof info?.description === 'string' ? info.description : '',
+  };
+}
+
+export function normalizeBlock(input: unknown): Block {
+  const raw = requireObject(input, 'block');
+  return {
+    ...raw,
+    block_index: requireNumber(raw, 'block', ['block_index', 'block_height']),
+    block_hash: requireString(raw, 'block', ['block_hash', 'hash']),
+    block_time: requireNumber(raw, 'block', ['block_time']),
+  } as Block;
+}
+
+export function normalizeOrder(input: unknown): Order {
+  const raw = requireObject(input, 'order');
+  return {
+    ...raw,
+    tx_hash: requireTxid(raw, 'order', ['tx_hash']),
+    block_index: requireNumber(raw, 'order', ['block_index']),
+    source: requireAddress(raw, 'order', ['source']),
+    give_asset: requireString(raw, 'order', ['give_asset']),
+    give_quantity: requireNumber(raw, 'order', ['give_quantity']),
+    give_remaining: optionalNumber(raw, 'order', ['give_remaining']),
+    get_asset: requireString(raw, 'order', ['get_asset']),
+    get_quantity: requireNumber(raw, 'order', ['get_quantity']),
+    get_remaining: optionalNumber(raw, 'order', ['get_remaining']),
+    status: requireString(raw, 'order', ['status']),
+    block_time: optionalNumber(raw, 'order', ['block_time']),
+    give_asset_info: assetInfo(raw, 'give'),
+    get_asset_info: assetInfo(raw, 'get'),
+  } as Order;
+}
+
+export function normalizeOrderMatch(input: unknown): OrderMatch {
+  const raw = requireObject(input, 'order match');
+  const tx0Hash = requireTxid(raw, 'order match', ['tx0_hash']);
+  const tx1Hash = requireTxid(raw, 'order match', ['tx1_hash']);
+  return {
+    ...raw,
+    id: optionalString(raw, 'order match', ['id', 'order_match_id']) ?? `${tx0Hash}_${tx1Hash}`,
+    tx0_hash: tx0Hash,
+    tx0_address: requireAddress(raw, 'order match', ['tx0_address']),
+    tx1_hash: tx1Hash,
+    tx1_address: requireAddress(raw, 'order match', ['tx1_address']),
+    forward_asset: requireString(raw, 'order match', ['forward_asset']),
+    forward_quantity: requireNumber(raw, 'order match', ['forward_quantity']),
+    backward_asset: requireString(raw, 'order match', ['backward_asset']),
+    backward_quantity: requireNumber(raw, 'order match', ['backward_quantity']),
+    block_index: requireNumber(raw, 'order match', ['block_index', 'tx1_block_index']),
+    status: requireString(raw, 'order match', ['status']),
+    block_time: optionalNumber(raw, 'order match', ['block_time']),
+  } as OrderMatch;
+}
+
+export function normalizeIssuance(input: unknown): Issuance {
+  const raw = requireObject(input, 'issuance');
+  return {
+    ...raw,
+    tx_hash: requireTxid(raw, 'issuance', ['tx_hash']),
+    block_index: requireNumber(raw, 'issuance', ['block_index']),
+    asset: requireString(raw, 'issuance', ['asset']),
+    quantity: requireNumber(raw, 'issuance', ['quantity']),
+    source: requireAddress(raw, 'issuance', ['source']),
+    issuer: requireAddress(raw, 'issuance', ['issuer']),
+    transfer: toBoolean(raw.transfer),
+    divisible: toBoolean(raw.divisible),
+    lock: toBoolean(raw.lock ?? raw.locked),
+    block_time: optionalNumber(raw, 'issuance', ['block_time']),
+  } as Issuance;
+}
+
+/**
+ * ASSET_ISSUANCE params; asset_events is derived when absent
+ */
+function issuanceParams(raw: Raw): AssetIssuanceParams {
+  const transfer = toBoolean(raw.transfer);
+  return {
+    ...raw,
+    asset: requireString(raw, 'issuance event', ['asset']),
+    quantity: requireNumber(raw, 'issuance event', ['quantity']),
+    transfer,
+    asset_events: optionalString(raw, 'issuance event', ['asset_events']) ?? (transfer ? 'transfer' : undefined),
+    source: optionalAddress(raw, 'issuance event', ['source']),
+    issuer: optionalAddress(raw, 'issuance event', ['issuer']),
+    transfer_destination: optionalAddress(raw, 'issuance event', ['transfer_destination', 'destination']),
+  };
+}
+
+/**
+ * OPEN_ORDER / ORDER params
+ */
+function orderParams(raw: Raw): OrderEventParams {
+  return {
+    ...raw,
+    source: requireAddress(raw, 'order event', ['source']),
+    give_asset: requireString(raw, 'order event', ['give_asset']),
+    give_quantity: requireNumber(raw, 'order event', ['give_quantity']),
+    get_asset: requireString(raw, 'order event', ['get_asset']),
+    get_quantity: optionalNumber(raw, 'order event', ['get_quantity']),
+    give_asset_info: assetInfo(raw, 'give'),
+    get_asset_info: assetInfo(raw, 'get'),
+  };
+}
+
+export function isIssuanceEvent(event: MempoolEvent): event is MempoolEvent<AssetIssuanceParams> {
+  return event.event === 'ASSET_ISSUANCE';
+}
+
+export function isOrderEvent(event: MempoolEvent): event is MempoolEvent<OrderEventParams> {
+  return event.event === 'OPEN_ORDER' || event.event === 'ORDER';
+}
+
+export function isOrderMatchEvent(event: MempoolEvent): event is MempoolEvent<OrderMatch> {
+  return event.event === 'ORDER_MATCH';
+}
+
+/**
+ * Issuance, order and order match events get their params checked; others pass through
+ */
+export function normalizeEvent(input: unknown): MempoolEvent {
+  const raw = requireObject(input, 'event');
+  const event = requireString(raw, 'event', ['event', 'event_name']);
+  let rawParams = first(raw, ['params', 'bindings']);
+  if (typeof rawParams === 'string') {
+    try {
+      rawParams = JSON.parse(rawParams);
+    } catch {
+      throw new CounterpartyResponseError('event', 'params', 'is not valid JSON');
+    }
+  }
+  const params = requireObject(rawParams, `${event} event`);
+
+  return {
+    event,
+    tx_hash: requireTxid(raw, 'event', ['tx_hash']),
+    block_index: optionalNumber(raw, 'event', ['block_index']),
+    params: event === 'ASSET_ISSUANCE' ? issuanceParams(params)
+      : event === 'OPEN_ORDER' || event === 'ORDER' ? orderParams(params)
+      : event === 'ORDER_MATCH' ? normalizeOrderMatch(params)
+      : params,
+  };
+}
+
+export function normalizeAssetInfo<T>(input: unknown): T {
+  const raw = requireObject(input, 'asset');
+  return {
+    ...raw,
+    asset: requireString(raw, 'asset', ['asset', 'asset_name']),
+    asset_longname: optionalString(raw, 'asset', ['asset_longname']) ?? null,
+    owner: requireAddress(raw, 'asset', ['owner', 'issuer']),
+    issuer: optionalAddress(raw, 'asset', ['issuer', 'owner']),
+    divisible: toBoolean(raw.divisible),
+    locked: toBoolean(raw.locked),
+    supply: optionalNumber(raw, 'asset', ['supply']),
+  } as T;
+}
+
+export function normalizeBalance(input: unknown): Balance {
+  const raw = requireObject(input, 'balance');
+  return {
+    address: optionalAddress(raw, 'balance', ['address']),
+    utxo: first(raw, ['utxo']) === undefined ? undefined : requireMatch(raw, 'balance', ['utxo'], OUTPOINT_PATTERN, 'an outpoint'),
+    asset: requireString(raw, 'balance', ['asset']),
+    asset_longname: optionalString(raw, 'balance', ['asset_longname']) ??
+      (raw.asset_info === undefined || raw.asset_info === null
+        ? undefined
+        : optionalString(requireObject(raw.asset_info, 'balance asset_info'), 'balance', ['asset_longname'])) ??
+      null,
+    quantity: requireNumber(raw, 'balance', ['quantity']),
+  };
+}
+
+export function normalizeCompose<T>(input: unknown): T {
+  const raw = requireObject(input, 'compose');
+  return { ...raw, rawtransaction: requireMatch(raw, 'compose', ['rawtransaction'], /^([0-9a-f]{2})+$/i, 'hex') } as T;
+}
+
+export function normalizeBroadcast(input: unknown): { tx_hash: string } {
+  const raw = requireObject(input, 'broadcast');
+  return { tx_hash: requireTxid(raw, 'broadcast', ['tx_hash']) };
+}
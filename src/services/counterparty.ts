@@ -1,9 +1,35 @@
 import axios from 'axios';
-import { Order, Issuance, Block } from '../types';
+import {
+  Order,
+  OrderMatch,
+  Issuance,
+  Block,
+  Balance,
+  MempoolEvent,
+  AssetIssuanceParams,
+  OrderEventParams
+} from '../types';
 import { UTXO } from './bitcoin';
-import { API_CONFIG, API_RETRY, ASSET_CONFIG, STATUS } from '../constants';
-
-const API_BASE = process.env.COUNTERPARTY_API || API_CONFIG.COUNTERPARTY.DEFAULT_URL;
+import { API_RETRY, ASSET_CONFIG, COUNTERPARTY_NODES, STATUS } from '../constants';
+import { CounterpartyNodePool, getCounterpartyNodes } from './counterparty-nodes';
+import { CachePolicy, CounterpartyCache, CounterpartyCacheStats } from './counterparty-cache';
+import {
+  CounterpartyResponseError,
+  Schema,
+  isIssuanceEvent,
+  isOrderEvent,
+  isOrderMatchEvent,
+  listOf,
+  normalizeAssetInfo,
+  normalizeBalance,
+  normalizeBlock,
+  normalizeBroadcast,
+  normalizeCompose,
+  normalizeEvent,
+  normalizeIssuance,
+  normalizeOrder,
+  normalizeOrderMatch
+} from './counterparty-normalize';
 
 export interface ComposeIssuanceParams {
   source: string;
@@ -37,6 +63,11 @@ export interface BroadcastResponse {
   tx_hash: string;
 }
 
+export interface FilledOrdersSince {
+  orders: Order[];
+  failedBlock?: number;  // Earliest match block whose order couldn't be read
+}
+
 export interface AssetInfo {
   asset: string;
   asset_id: string;
@@ -52,29 +83,116 @@ export interface AssetInfo {
   last_issuance_block_index?: number;
 }
 
+/**
+ * A node is down or keeps failing (network error, timeout, 5xx after retries)
+ * The request can go to another node; other errors are the API's answer.
+ */
+class CounterpartyNodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CounterpartyNodeError';
+  }
+}
+
+/**
+ * A filled sell order of an XCPFOLIO.* subasset (by longname, or the asset name as fallback)
+ */
+function isFilledXcpfolioOrder(order: Order): boolean {
+  const assetName = order.give_asset_info?.asset_longname || order.give_asset;
+  return assetName.startsWith(ASSET_CONFIG.XCPFOLIO_PREFIX) && order.status === STATUS.FILLED;
+}
+
+/**
+ * Whether a read can be kept until the next block
+ * The chain tip and mempool change between blocks; compose results depend on
+ * our UTXOs and fee rate, so they're only shared while in flight.
+ */
+function cachePolicy(endpoint: string): CachePolicy {
+  const path = endpoint.split('?')[0];
+  return path === '/blocks' || path.includes('/mempool') || path.includes('/compose/') ? 'in-flight' : 'block';
+}
+
 /**
  * Counterparty API service
- * Handles all interactions with the Counterparty protocol
+ * Handles all interactions with the Counterparty protocol. Requests go to the
+ * shared node pool (primary plus fallbacks, see counterparty-nodes.ts),
+ * every response is checked against a schema (see counterparty-normalize.ts)
+ * and reads are reused within a run (see counterparty-cache.ts).
  */
 export class CounterpartyService {
-  private apiBase: string;
+  private nodes: CounterpartyNodePool;
+  private cache = new CounterpartyCache();
 
-  constructor(apiBase?: string) {
-    this.apiBase = apiBase || API_BASE;
+  constructor(apiBase?: string | CounterpartyNodePool) {
+    this.nodes = typeof apiBase === 'string'
+      ? new CounterpartyNodePool([apiBase])
+      : apiBase || getCounterpartyNodes();
   }
 
   /**
-   * Make a request to the Counterparty API with retry for transient errors
+   * Make a request to the Counterparty API, failing over between nodes
+   * The result is checked against the schema; a mismatch throws CounterpartyResponseError.
+   * Reads go through the run cache (see counterparty-cache.ts); the schema is
+   * applied on every use, so callers never share response objects.
    */
   private async request<T>(
     endpoint: string,
+    schema: Schema<T>,
     method: 'GET' | 'POST' = 'GET',
     data?: any
   ): Promise<T> {
-    const url = `${this.apiBase}${endpoint}`;
+    const result = method === 'GET'
+      ? await this.cache.get(endpoint, cachePolicy(endpoint), () => this.requestAnyNode(endpoint, method, data))
+      : await this.requestAnyNode(endpoint, method, data);
+
+    try {
+      return schema(result);
+    } catch (error) {
+      if (!(error instanceof CounterpartyResponseError)) throw error;
+      console.error(`[Counterparty API] Unexpected response from ${endpoint}: ${error.field} ${error.detail}`);
+      throw new CounterpartyResponseError(error.entity, error.field, error.detail, endpoint.split('?')[0]);
+    }
+  }
+
+  /**
+   * Send a request to the best node, moving on to the next while nodes are down
+   */
+  private async requestAnyNode(endpoint: string, method: 'GET' | 'POST', data?: any): Promise<unknown> {
+    const nodes = await this.nodes.candidates();
+    let lastError: Error | undefined;
+
+    for (const node of nodes) {
+      try {
+        const result = await this.requestFrom(node.url, endpoint, method, data);
+        this.nodes.recordSuccess(node);
+        return result;
+      } catch (error) {
+        if (!(error instanceof CounterpartyNodeError)) throw error;
+        this.nodes.recordFailure(node, error);
+        lastError = error;
+        if (node !== nodes[nodes.length - 1]) {
+          console.warn(`[Counterparty API] ${node.url} unavailable, trying the next node`);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Make a request to one node with retry for transient errors
+   */
+  private async requestFrom(
+    apiBase: string,
+    endpoint: string,
+    method: 'GET' | 'POST',
+    data?: any
+  ): Promise<unknown> {
+    const url = `${apiBase}${endpoint}`;
     const config: any = {
       method,
       url,
+      timeout: COUNTERPARTY_NODES.TIMEOUT_MS,
       headers: {
         'Content-Type': 'application/json',
       }
@@ -116,7 +234,7 @@ export class CounterpartyService {
             );
             console.warn(`[Counterparty API] ${status} ${error.response?.statusText} - retrying in ${(delay / 1000).toFixed(1)}s...`);
             await new Promise(resolve => setTimeout(resolve, delay));
-            lastError = new Error(`Counterparty API error: ${error.response?.data?.error?.message || error.message}`);
+            lastError = new CounterpartyNodeError(`Counterparty API error: ${error.response?.data?.error?.message || error.message}`);
             continue;
           }
 
@@ -127,6 +245,10 @@ export class CounterpartyService {
             url: error.config?.url
           });
           const errorMessage = error.response?.data?.error?.message || error.message;
+          // No response, or a server error: the node's fault rather than the request's
+          if (!status || status >= 500 || status === 429) {
+            throw new CounterpartyNodeError(`Counterparty API error: ${errorMessage}`);
+          }
           throw new Error(`Counterparty API error: ${errorMessage}`);
         }
         throw error;
@@ -134,14 +256,35 @@ export class CounterpartyService {
     }
 
     // All retries exhausted
-    throw lastError || new Error('Counterparty API error: max retries exceeded');
+    throw lastError || new CounterpartyNodeError('Counterparty API error: max retries exceeded');
+  }
+
+  /**
+   * Keep responses for reuse until endRun() (one fulfillment run)
+   */
+  beginRun(): void {
+    this.cache.beginRun();
+  }
+
+  endRun(): CounterpartyCacheStats {
+    return this.cache.endRun();
+  }
+
+  /**
+   * Tell the run cache the chain tip; a new block drops the responses it kept
+   */
+  observeBlockHeight(height: number): void {
+    this.cache.observeBlockHeight(height);
   }
 
   /**
    * Get current block info
    */
   async getCurrentBlock(): Promise<Block> {
-    const blocks = await this.request<Block[]>('/blocks?limit=1');
+    const blocks = await this.request('/blocks?limit=1', listOf(normalizeBlock, 'blocks'));
+    if (blocks[0]) {
+      this.cache.observeBlockHeight(blocks[0].block_index);
+    }
     return blocks[0];
   }
 
@@ -162,18 +305,18 @@ export class CounterpartyService {
       sort: 'block_index:desc',
     });
 
-    return this.request<Order[]>(`/addresses/${address}/orders?${params}`);
+    return this.request(`/addresses/${address}/orders?${params}`, listOf(normalizeOrder, 'orders'));
   }
 
   /**
    * Get order matches for a specific order
    */
-  async getOrderMatches(orderHash: string): Promise<any[]> {
+  async getOrderMatches(orderHash: string): Promise<OrderMatch[]> {
     const params = new URLSearchParams({
       verbose: 'true'
     });
 
-    return this.request<any[]>(`/orders/${orderHash}/matches?${params}`);
+    return this.request(`/orders/${orderHash}/matches?${params}`, listOf(normalizeOrderMatch, 'order matches'));
   }
 
   /**
@@ -186,7 +329,7 @@ export class CounterpartyService {
       limit: '1000'
     });
     
-    return this.request<Order[]>(`/assets/${asset}/orders?${params}`);
+    return this.request(`/assets/${asset}/orders?${params}`, listOf(normalizeOrder, 'orders'));
   }
 
   /**
@@ -201,13 +344,7 @@ export class CounterpartyService {
     while (hasMore) {
       const orders = await this.getOrdersByAddress(address, 'filled', limit, offset);
       
-      // Filter for XCPFOLIO.* subassets using longname or fallback
-      const xcpfolioOrders = orders.filter(order => {
-        const assetName = order.give_asset_info?.asset_longname || order.give_asset;
-        return assetName.startsWith(ASSET_CONFIG.XCPFOLIO_PREFIX) && order.status === STATUS.FILLED;
-      });
-
-      allOrders.push(...xcpfolioOrders);
+      allOrders.push(...orders.filter(isFilledXcpfolioOrder));
 
       // Check if we should continue
       if (orders.length < limit) {
@@ -220,6 +357,85 @@ export class CounterpartyService {
     return allOrders;
   }
 
+  /**
+   * Get our filled XCPFOLIO orders matched in or after a block, newest first
+   * An order's block_index is when it was placed, not filled, so fills are
+   * found through ORDER_MATCH events (indexed by the block of the match) and
+   * each matched order is then read to check it's filled. An order that
+   * can't be read doesn't fail the others; the block it was matched in is
+   * returned as failedBlock so the caller can scan from there again.
+   */
+  async getXCPFOLIOOrdersFilledSince(address: string, fromBlock: number): Promise<FilledOrdersSince> {
+    const matchBlocks = new Map<string, number>();  // Order hash -> earliest match block
+    let offset = 0;
+    const limit = 100;
+    let hasMore = true;
+
+    while (hasMore) {
+      const params = new URLSearchParams({
+        addresses: address,
+        event_name: 'ORDER_MATCH',
+        verbose: 'true',
+        limit: limit.toString(),
+        offset: offset.toString()
+      });
+      const events = await this.request(`/addresses/events?${params}`, listOf(normalizeEvent, 'events'));
+
+      for (const event of events.filter(isOrderMatchEvent)) {
+        const match = event.params;
+        if (match.block_index < fromBlock) continue;
+        for (const hash of [match.tx0_address === address && match.tx0_hash, match.tx1_address === address && match.tx1_hash]) {
+          if (hash) matchBlocks.set(hash, Math.min(matchBlocks.get(hash) ?? match.block_index, match.block_index));
+        }
+      }
+
+      // Events come newest first; stop once a page reaches back past fromBlock
+      const oldest = events[events.length - 1];
+      if (events.length < limit || (oldest.block_index ?? fromBlock) < fromBlock) {
+        hasMore = false;
+      } else {
+        offset += limit;
+      }
+    }
+
+    const orders: Order[] = [];
+    let failedBlock: number | undefined;
+    for (const [hash, matchBlock] of matchBlocks) {
+      try {
+        const order = await this.getOrder(hash);
+        if (isFilledXcpfolioOrder(order)) {
+          orders.push(order);
+        }
+      } catch (error) {
+        console.warn(`[Counterparty API] Could not read order ${hash} matched in block ${matchBlock}:`, error instanceof Error ? error.message : String(error));
+        failedBlock = Math.min(failedBlock ?? matchBlock, matchBlock);
+      }
+    }
+
+    return { orders: orders.sort((a, b) => b.block_index - a.block_index), failedBlock };
+  }
+
+  /**
+   * Get an address's most recent confirmed events of the given kinds, newest first
+   */
+  async getAddressEvents(address: string, eventNames: string[], limit: number = 100): Promise<MempoolEvent[]> {
+    const params = new URLSearchParams({
+      addresses: address,
+      event_name: eventNames.join(','),
+      verbose: 'true',
+      limit: limit.toString()
+    });
+
+    return this.request(`/addresses/events?${params}`, listOf(normalizeEvent, 'events'));
+  }
+
+  /**
+   * Get a single order
+   */
+  async getOrder(orderHash: string): Promise<Order> {
+    return this.request(`/orders/${orderHash}?verbose=true`, normalizeOrder);
+  }
+
   /**
    * Get issuances for an asset
    */
@@ -229,7 +445,7 @@ export class CounterpartyService {
       limit: '100',
     });
 
-    return this.request<Issuance[]>(`/assets/${asset}/issuances?${params}`);
+    return this.request(`/assets/${asset}/issuances?${params}`, listOf(normalizeIssuance, 'issuances'));
   }
 
   /**
@@ -249,17 +465,14 @@ export class CounterpartyService {
         limit: '500'
       });
 
-      const response = await this.request<any[]>(
-        `/addresses/events?${params.toString()}`,
-        'GET'
-      );
+      const response = await this.request(`/addresses/events?${params.toString()}`, listOf(normalizeEvent, 'events'));
 
       // Look for a transfer of this asset to the buyer
-      const hasTransfer = response.some(event => {
+      const hasTransfer = response.filter(isIssuanceEvent).some(event => {
         const p = event.params;
-        return p?.asset === asset &&
-               p?.quantity === 0 && // Transfer (not issuance)
-               p?.transfer_destination === toAddress;
+        return p.asset === asset &&
+               p.quantity === 0 && // Transfer (not issuance)
+               p.transfer_destination === toAddress;
       });
 
       if (hasTransfer) {
@@ -269,6 +482,8 @@ export class CounterpartyService {
 
       return this.hasUnconfirmedTransfer(asset, toAddress, fromAddress);
     } catch (error) {
+      // A malformed response must not read as "not transferred" (the asset would be sent again)
+      if (error instanceof CounterpartyResponseError) throw error;
       console.error('Error checking for asset transfer:', error);
       // Fallback to original method
       const issuances = await this.getAssetIssuances(asset);
@@ -289,7 +504,9 @@ export class CounterpartyService {
     destination: string,
     feeRate: number,
     encoding: 'auto' | 'opreturn' | 'multisig' | 'pubkeyhash' = 'auto',
-    validate: boolean = true  // Set to false for RBF transactions
+    validate: boolean = true,  // Set to false for RBF transactions
+    excludeUtxos?: string,     // Comma-separated txid:vout already spent or reserved by us
+    inputsSet?: string         // Comma-separated txid:vout to spend (RBF: the replaced version's inputs)
   ): Promise<string> {
     // Build query parameters for issuance transfer
     const params = new URLSearchParams({
@@ -303,10 +520,18 @@ export class CounterpartyService {
       allow_unconfirmed_inputs: 'true'
     });
 
+    if (excludeUtxos) {
+      params.set('exclude_utxos', excludeUtxos);
+    }
+
+    if (inputsSet) {
+      params.set('inputs_set', inputsSet);
+    }
+
     // In v2 API, compose endpoints use query parameters
-    const response = await this.request<ComposeResponse>(
+    const response = await this.request(
       `/addresses/${source}/compose/issuance?${params.toString()}`,
-      'GET'
+      normalizeCompose<ComposeResponse>
     );
 
     return response.rawtransaction;
@@ -318,15 +543,16 @@ export class CounterpartyService {
   async composeIssuance(params: ComposeIssuanceParams): Promise<ComposeResponse> {
     // Extract source from params for v2 API path
     const { source, ...restParams } = params;
-    return this.request<ComposeResponse>(`/addresses/${source}/compose/issuance`, 'POST', restParams);
+    return this.request(`/addresses/${source}/compose/issuance`, normalizeCompose<ComposeResponse>, 'POST', restParams);
   }
 
   /**
    * Broadcast a signed transaction
    */
   async broadcastTransaction(signedTx: string): Promise<string> {
-    const response = await this.request<BroadcastResponse>(
+    const response: BroadcastResponse = await this.request(
       '/broadcast',
+      normalizeBroadcast,
       'POST',
       { signed_tx: signedTx }
     );
@@ -338,14 +564,44 @@ export class CounterpartyService {
    * Get asset info including ownership
    */
   async getAssetInfo(asset: string): Promise<AssetInfo> {
-    return this.request<AssetInfo>(`/assets/${asset}`);
+    return this.request(`/assets/${asset}`, normalizeAssetInfo<AssetInfo>);
+  }
+
+  /**
+   * Get all assets owned (issuance rights) by an address
+   * Handles pagination for large portfolios (1000+ assets)
+   */
+  async getOwnedAssets(address: string): Promise<AssetInfo[]> {
+    const assets: AssetInfo[] = [];
+    const limit = 1000;
+    let offset = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const params = new URLSearchParams({
+        limit: limit.toString(),
+        offset: offset.toString()
+      });
+
+      const data = await this.request(`/addresses/${address}/assets/owned?${params}`, listOf(normalizeAssetInfo<AssetInfo>, 'assets'));
+      assets.push(...data);
+
+      // Check if we should continue
+      if (data.length < limit) {
+        hasMore = false;
+      } else {
+        offset += limit;
+      }
+    }
+
+    return assets;
   }
 
   /**
    * Get address balances
    */
-  async getAddressBalances(address: string): Promise<any[]> {
-    return this.request<any[]>(`/addresses/${address}/balances`);
+  async getAddressBalances(address: string): Promise<Balance[]> {
+    return this.request(`/addresses/${address}/balances`, listOf(normalizeBalance, 'balances'));
   }
 
   /**
@@ -406,9 +662,7 @@ export class CounterpartyService {
       sort: 'block_index:desc',
     });
 
-    const issuances = await this.request<Issuance[]>(
-      `/addresses/${address}/issuances?${params}`
-    );
+    const issuances = await this.request(`/addresses/${address}/issuances?${params}`, listOf(normalizeIssuance, 'issuances'));
 
     return issuances.filter(i => i.transfer === true);
   }
@@ -417,18 +671,18 @@ export class CounterpartyService {
    * Get unconfirmed buy orders for XCPFOLIO assets from mempool
    * These are orders where someone is trying to buy an XCPFOLIO asset with XCP
    */
-  async getMempoolBuyOrders(): Promise<any[]> {
+  async getMempoolBuyOrders(): Promise<MempoolEvent<OrderEventParams>[]> {
     try {
       const params = new URLSearchParams({
         verbose: 'true'
       });
       
-      const events = await this.request<any[]>(`/mempool/events/OPEN_ORDER?${params}`);
+      const events = await this.request(`/mempool/events/OPEN_ORDER?${params}`, listOf(normalizeEvent, 'events'));
       
       // Filter for orders where someone is buying (getting) XCPFOLIO.* assets
-      return events.filter(event => {
-        const assetLongname = event.params?.get_asset_info?.asset_longname;
-        const giveAsset = event.params?.give_asset;
+      return events.filter(isOrderEvent).filter(event => {
+        const assetLongname = event.params.get_asset_info?.asset_longname;
+        const giveAsset = event.params.give_asset;
         
         // Check if they're getting an XCPFOLIO asset and giving XCP
         return assetLongname && 
@@ -436,6 +690,7 @@ export class CounterpartyService {
                giveAsset === 'XCP';
       });
     } catch (error) {
+      if (error instanceof CounterpartyResponseError) throw error;
       console.error('Error fetching mempool buy orders:', error);
       return [];
     }
@@ -443,24 +698,27 @@ export class CounterpartyService {
 
   /**
    * Get pending orders that might need fulfillment
+   * With lastProcessedBlock, only orders filled after it (not placed after it).
    */
   async getPendingFulfillments(
     xcpfolioAddress: string,
     lastProcessedBlock?: number
   ): Promise<Order[]> {
-    const orders = await this.getFilledXCPFOLIOOrders(xcpfolioAddress);
-    
     if (lastProcessedBlock) {
-      return orders.filter(o => o.block_index > lastProcessedBlock);
+      const { orders, failedBlock } = await this.getXCPFOLIOOrdersFilledSince(xcpfolioAddress, lastProcessedBlock + 1);
+      if (failedBlock !== undefined) {
+        throw new Error(`Could not read every order filled since block ${lastProcessedBlock + 1}`);
+      }
+      return orders;
     }
     
-    return orders;
+    return this.getFilledXCPFOLIOOrders(xcpfolioAddress);
   }
 
   /**
    * Get unconfirmed events from mempool for our address
    */
-  async getMempoolTransfers(source: string): Promise<any[]> {
+  async getMempoolTransfers(source: string): Promise<MempoolEvent<AssetIssuanceParams>[]> {
     try {
       // Use the addresses/mempool endpoint to get all unconfirmed events
       const params = new URLSearchParams({
@@ -468,18 +726,16 @@ export class CounterpartyService {
         verbose: 'true'
       });
       
-      const response = await this.request<any[]>(
-        `/addresses/mempool?${params.toString()}`,
-        'GET'
-      );
+      const response = await this.request(`/addresses/mempool?${params.toString()}`, listOf(normalizeEvent, 'events'));
       
       // Filter for asset issuance transfers (ownership changes)
-      return response.filter(event => {
-        return event.event === 'ASSET_ISSUANCE' &&
-               event.params?.asset_events === 'transfer' &&
-               event.params?.transfer === true;
+      return response.filter(isIssuanceEvent).filter(event => {
+        return event.params.asset_events === 'transfer' &&
+               event.params.transfer === true;
       });
     } catch (error) {
+      // A malformed response must not read as "nothing pending" (the asset would be sent again)
+      if (error instanceof CounterpartyResponseError) throw error;
       console.error('Error fetching mempool transfers:', error);
       return [];
     }
@@ -515,14 +771,52 @@ export class CounterpartyService {
       params.set('inputs_set', inputsSet);
     }
 
-    const response = await this.request<ComposeResponse>(
+    const response = await this.request(
       `/addresses/${source}/compose/order?${params.toString()}`,
-      'GET'
+      normalizeCompose<ComposeResponse>
     );
 
     return response.rawtransaction;
   }
 
+  /**
+   * Compose a cancel transaction for one of our open DEX orders
+   */
+  async composeCancel(
+    source: string,
+    offerHash: string,
+    satPerVbyte: number,
+    inputsSet?: string
+  ): Promise<string> {
+    const params = new URLSearchParams({
+      offer_hash: offerHash,
+      sat_per_vbyte: satPerVbyte.toString(),
+      exclude_utxos_with_balances: 'true'
+    });
+
+    if (inputsSet) {
+      params.set('inputs_set', inputsSet);
+    }
+
+    const response = await this.request(
+      `/addresses/${source}/compose/cancel?${params.toString()}`,
+      normalizeCompose<ComposeResponse>
+    );
+
+    return response.rawtransaction;
+  }
+
+  /**
+   * Find our open order for an XCPFOLIO.* asset (asset name without prefix)
+   */
+  async getOpenOrderForAsset(address: string, asset: string): Promise<Order | null> {
+    const orders = await this.getOrdersByAsset(`${ASSET_CONFIG.XCPFOLIO_PREFIX}${asset}`, 'open');
+    return orders.find(order =>
+      order.source === address &&
+      order.give_asset_info?.asset_longname === `${ASSET_CONFIG.XCPFOLIO_PREFIX}${asset}`
+    ) || null;
+  }
+
   /**
    * Get XCPFOLIO.* subasset balances for an address
    * Returns only assets with balance > 0 (meaning order expired or never listed)
@@ -541,9 +835,9 @@ export class CounterpartyService {
         verbose: 'true'
       });
 
-      const data = await this.request<any[]>(`/addresses/${address}/balances?${params}`);
+      const data = await this.request(`/addresses/${address}/balances?${params}`, listOf(normalizeBalance, 'balances'));
 
-      for (const b of (data || [])) {
+      for (const b of data) {
         // Only care about XCPFOLIO.* subassets with balance > 0
         if (b.asset_longname?.startsWith(ASSET_CONFIG.XCPFOLIO_PREFIX) && b.quantity > 0) {
           const name = b.asset_longname.replace(ASSET_CONFIG.XCPFOLIO_PREFIX, '');
@@ -552,7 +846,7 @@ export class CounterpartyService {
       }
 
       // Check if we should continue
-      if (!data || data.length < limit) {
+      if (data.length < limit) {
         hasMore = false;
       } else {
         offset += limit;
@@ -562,14 +856,56 @@ export class CounterpartyService {
     return balances;
   }
 
+  /**
+   * Get the UTXOs of an address that carry Counterparty balances (attached assets)
+   * Returns Set of txid:vout - these must never be swept by a split or consolidation
+   */
+  async getUtxosWithBalances(address: string): Promise<Set<string>> {
+    const utxos = new Set<string>();
+    const limit = 1000;
+    let offset = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const params = new URLSearchParams({
+        type: 'utxo',
+        limit: limit.toString(),
+        offset: offset.toString()
+      });
+
+      const data = await this.request(`/addresses/${address}/balances?${params}`, listOf(normalizeBalance, 'balances'));
+
+      for (const b of data) {
+        if (b.utxo && b.quantity > 0) {
+          utxos.add(b.utxo);
+        }
+      }
+
+      if (data.length < limit) {
+        hasMore = false;
+      } else {
+        offset += limit;
+      }
+    }
+
+    return utxos;
+  }
+
   /**
    * Get all confirmed open orders for an address
    * (unconfirmed orders come from getMempoolOrderAssets - callers combine both)
    * Returns Set of asset names that already have orders
-   * Handles pagination for large portfolios (1000+ orders)
    */
   async getOpenOrderAssets(address: string): Promise<Set<string>> {
-    const assets = new Set<string>();
+    return new Set((await this.getOpenXcpfolioOrders(address)).keys());
+  }
+
+  /**
+   * Get all confirmed open XCPFOLIO.* orders for an address, keyed by asset name
+   * Handles pagination for large portfolios (1000+ orders)
+   */
+  async getOpenXcpfolioOrders(address: string): Promise<Map<string, Order>> {
+    const openOrders = new Map<string, Order>();
     const limit = 1000;
     let offset = 0;
     let hasMore = true;
@@ -582,25 +918,25 @@ export class CounterpartyService {
         offset: offset.toString()
       });
 
-      const orders = await this.request<Order[]>(`/addresses/${address}/orders?${params}`);
+      const orders = await this.request(`/addresses/${address}/orders?${params}`, listOf(normalizeOrder, 'orders'));
 
-      for (const order of (orders || [])) {
+      for (const order of orders) {
         const assetLongname = order.give_asset_info?.asset_longname;
         if (assetLongname?.startsWith(ASSET_CONFIG.XCPFOLIO_PREFIX)) {
           const name = assetLongname.replace(ASSET_CONFIG.XCPFOLIO_PREFIX, '');
-          assets.add(name);
+          openOrders.set(name, order);
         }
       }
 
       // Check if we should continue
-      if (!orders || orders.length < limit) {
+      if (orders.length < limit) {
         hasMore = false;
       } else {
         offset += limit;
       }
     }
 
-    return assets;
+    return openOrders;
   }
 
   /**
@@ -616,13 +952,13 @@ export class CounterpartyService {
         verbose: 'true'
       });
 
-      const events = await this.request<any[]>(`/addresses/mempool?${params}`);
+      const events = await this.request(`/addresses/mempool?${params}`, listOf(normalizeEvent, 'events'));
 
-      for (const event of (events || [])) {
+      for (const event of events) {
         // Look for ORDER or OPEN_ORDER events
-        if (event.event === 'OPEN_ORDER' || event.event === 'ORDER') {
-          const assetLongname = event.params?.give_asset_info?.asset_longname || event.params?.give_asset;
-          if (assetLongname?.startsWith(ASSET_CONFIG.XCPFOLIO_PREFIX)) {
+        if (isOrderEvent(event)) {
+          const assetLongname = event.params.give_asset_info?.asset_longname || event.params.give_asset;
+          if (assetLongname.startsWith(ASSET_CONFIG.XCPFOLIO_PREFIX)) {
             const name = assetLongname.replace(ASSET_CONFIG.XCPFOLIO_PREFIX, '');
             assets.add(name);
             console.log(`[Mempool] Found pending order for ${name}`);
@@ -630,6 +966,7 @@ export class CounterpartyService {
         }
       }
     } catch (error) {
+      if (error instanceof CounterpartyResponseError) throw error;
       console.error('Error fetching mempool orders:', error);
     }
 
@@ -656,6 +993,8 @@ export class CounterpartyService {
       
       return false;
     } catch (error) {
+      // A malformed response must not read as "nothing pending" (the asset would be sent again)
+      if (error instanceof CounterpartyResponseError) throw error;
       console.error('Error checking for unconfirmed transfer:', error);
       return false;
     }
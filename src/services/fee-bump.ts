@@ -0,0 +1,136 @@
+/**
+ * Choosing how to bump a stuck transfer's fee
+ *
+ * - rbf: re-compose the transfer at a higher fee rate and replace it. Needs a
+ *   fee above the original plus everything chained onto it (BIP-125), and
+ *   evicts those descendants from the mempool.
+ * - cpfp: leave the transfer in place and spend its change output with a
+ *   child paying enough for both. Only works while the transfer is in the
+ *   mempool, has change to our address and room for another descendant.
+ *
+ * Both are held to the per-transaction fee ceiling. When both work, CPFP wins
+ * if the transfer has descendants (RBF would evict them), otherwise whichever
+ * gets the higher package fee rate, then whichever costs less.
+ */
+
+import { MempoolPackage, detectAddressType, estimateVsize, outputScriptSize } from './bitcoin';
+import { RETRY_STRATEGY, TX_LIMITS, UTXO_CONFIG } from '../constants';
+
+export type FeeBumpMethod = 'rbf' | 'cpfp';
+
+export interface FeeBumpPlan {
+  method: FeeBumpMethod;
+  feeRate: number;      // RBF: replacement's rate; CPFP: parent + child package rate
+  fee: number;          // Sats paid by the replacement or the child
+  reason: string;
+  change?: { vout: number; value: number };  // CPFP: the parent output the child spends
+}
+
+export type FeeBumpDecision = FeeBumpPlan | { method: null; reason: string };
+
+export interface FeeBumpOptions {
+  address: string;          // Our address, to find the transfer's change
+  targetFeeRate: number;    // sat/vB wanted for the bumped transfer
+  currentFeeRate: number;   // sat/vB the transfer was broadcast at
+  maxTotalFeeSats: number;  // Ceiling for any single transaction
+}
+
+/**
+ * vsize of a CPFP child: the parent's change in, one output back to the address
+ */
+export function cpfpChildVsize(address: string): number {
+  return estimateVsize(1, [outputScriptSize(address)], detectAddressType(address));
+}
+
+/**
+ * Pick RBF or CPFP for a stuck transfer
+ *
+ * @param parent The transfer as seen in the mempool, or null if it dropped
+ *   out or couldn't be fetched (only RBF is considered then)
+ */
+export function planFeeBump(parent: MempoolPackage | null, options: FeeBumpOptions): FeeBumpDecision {
+  const rbf = planRbf(parent, options);
+  const cpfp = planCpfp(parent, options);
+
+  if (typeof rbf === 'string' && typeof cpfp === 'string') {
+    return { method: null, reason: `RBF: ${rbf}; CPFP: ${cpfp}` };
+  }
+  if (typeof cpfp === 'string') return rbf as FeeBumpPlan;
+  if (typeof rbf === 'string') return cpfp;
+
+  if (parent && parent.descendants > 0) {
+    return { ...cpfp, reason: `${cpfp.reason} (RBF would evict ${parent.descendants} descendant(s))` };
+  }
+  if (cpfp.feeRate !== rbf.feeRate) {
+    return cpfp.feeRate > rbf.feeRate ? cpfp : rbf;
+  }
+  const parentFee = parent ? parent.fee : 0;
+  return cpfp.fee < rbf.fee - parentFee ? cpfp : rbf;
+}
+
+/**
+ * @returns The plan, or why RBF can't be used
+ */
+function planRbf(parent: MempoolPackage | null, options: FeeBumpOptions): FeeBumpPlan | string {
+  const vsize = parent?.vsize || TX_LIMITS.ESTIMATED_TX_VSIZE;
+  const maxAllowedRate = Math.floor(options.maxTotalFeeSats / vsize);
+  const feeRate = Math.min(options.targetFeeRate, maxAllowedRate, RETRY_STRATEGY.RBF.MAX_FEE_RATE);
+
+  // The replacement must pay a higher rate, and cover everything it evicts plus its own relay
+  if (feeRate <= options.currentFeeRate) {
+    return `fee ceiling allows ${maxAllowedRate} sat/vB, need more than ${options.currentFeeRate}`;
+  }
+  const fee = Math.ceil(feeRate * vsize);
+  if (parent) {
+    const required = parent.fee + parent.descendantFees + Math.ceil(RETRY_STRATEGY.RBF.MIN_RELAY_FEE * vsize);
+    if (fee < required) {
+      return `replacing ${parent.descendants} descendant(s) needs ${required} sats, ceiling allows ${fee}`;
+    }
+  }
+
+  const capped = feeRate < options.targetFeeRate ? ` (capped from ${options.targetFeeRate})` : '';
+  return { method: 'rbf', feeRate, fee, reason: `replace at ${feeRate} sat/vB${capped}` };
+}
+
+/**
+ * @returns The plan, or why CPFP can't be used
+ */
+function planCpfp(parent: MempoolPackage | null, options: FeeBumpOptions): FeeBumpPlan | string {
+  if (!parent) {
+    return 'transfer is not in the mempool';
+  }
+  if (parent.descendants >= RETRY_STRATEGY.CPFP.MAX_DESCENDANTS) {
+    return `transfer already has ${parent.descendants} descendants`;
+  }
+
+  const change = parent.outputs
+    .filter(o => o.address === options.address)
+    .sort((a, b) => b.value - a.value)[0];
+  if (!change) {
+    return 'transfer has no change output';
+  }
+
+  const childVsize = cpfpChildVsize(options.address);
+  const packageVsize = parent.vsize + childVsize;
+  const targetRate = Math.min(options.targetFeeRate, RETRY_STRATEGY.RBF.MAX_FEE_RATE);
+  const minChildFee = Math.ceil(RETRY_STRATEGY.RBF.MIN_RELAY_FEE * childVsize);
+  const fee = Math.min(
+    Math.max(Math.ceil(targetRate * packageVsize) - parent.fee, minChildFee),
+    options.maxTotalFeeSats,
+    change.value - UTXO_CONFIG.DUST_LIMIT_SATS
+  );
+
+  const feeRate = Math.floor(((parent.fee + fee) / packageVsize) * 100) / 100;
+  if (fee < minChildFee || feeRate <= options.currentFeeRate) {
+    return `change of ${change.value} sats and the fee ceiling only allow ${Math.max(fee, 0)} sats`;
+  }
+
+  const capped = feeRate < targetRate ? ` (capped from ${targetRate})` : '';
+  return {
+    method: 'cpfp',
+    feeRate,
+    fee,
+    change: { vout: change.vout, value: change.value },
+    reason: `child pays ${fee} sats for a ${feeRate} sat/vB package${capped}`
+  };
+}
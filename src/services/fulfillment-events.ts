@@ -0,0 +1,184 @@
+/**
+ * Event-driven fulfillment for the long-running worker
+ *
+ * Instead of waiting up to a minute for the next scheduled run, the worker
+ * watches the Counterparty API's event endpoints and runs fulfillment as soon
+ * as something happens:
+ * - a new block (the tip is checked every POLL_INTERVAL_MS; fills only
+ *   happen in blocks, and blocks also confirm or strand our transfers)
+ * - ORDER_MATCH / ORDER_FILLED events on our address in the new blocks
+ * Events arriving close together (several blocks, a block with several fills)
+ * are debounced into one run. The cron schedule keeps running as a fallback,
+ * so a missed event only delays fulfillment until the next scheduled run.
+ */
+
+import { CounterpartyService } from './counterparty';
+import { FULFILLMENT_EVENTS } from '../constants';
+
+export interface FulfillmentEvent {
+  type: 'block' | 'order_match' | 'order_filled';
+  blockIndex: number;
+  txHash?: string;
+}
+
+export interface FulfillmentEventOptions {
+  pollIntervalMs?: number;  // How often the tip is checked (default: 5000)
+  debounceMs?: number;      // Wait this long for more events before a run (default: 3000)
+}
+
+export interface FulfillmentEventStatus {
+  running: boolean;
+  blockIndex?: number;
+  lastEventAt?: number;
+  triggers: number;
+  lastError?: string;
+}
+
+const ORDER_EVENTS = ['ORDER_MATCH', 'ORDER_FILLED'];
+
+export class FulfillmentEventWatcher {
+  private counterparty: CounterpartyService;
+  private address: string;
+  private onEvents: (events: FulfillmentEvent[]) => Promise<void>;
+  private pollIntervalMs: number;
+  private debounceMs: number;
+
+  private running = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private pending: FulfillmentEvent[] = [];
+  private triggering: Promise<void> | null = null;
+  private blockIndex?: number;
+  private lastEventAt?: number;
+  private triggers = 0;
+  private lastError?: string;
+
+  /**
+   * @param onEvents - Runs fulfillment; never called again before the previous call settles
+   */
+  constructor(
+    address: string,
+    onEvents: (events: FulfillmentEvent[]) => Promise<void>,
+    options: FulfillmentEventOptions = {},
+    counterparty?: CounterpartyService
+  ) {
+    this.address = address;
+    this.onEvents = onEvents;
+    this.pollIntervalMs = options.pollIntervalMs ?? FULFILLMENT_EVENTS.POLL_INTERVAL_MS;
+    this.debounceMs = options.debounceMs ?? FULFILLMENT_EVENTS.DEBOUNCE_MS;
+    this.counterparty = counterparty || new CounterpartyService();
+  }
+
+  /**
+   * Start watching; the current tip is taken as already handled
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedulePoll(0);
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.pollTimer = null;
+    this.debounceTimer = null;
+    this.pending = [];
+  }
+
+  getStatus(): FulfillmentEventStatus {
+    return {
+      running: this.running,
+      blockIndex: this.blockIndex,
+      lastEventAt: this.lastEventAt,
+      triggers: this.triggers,
+      lastError: this.lastError
+    };
+  }
+
+  /**
+   * Check the tip; on a new block, read our order events since the last one
+   */
+  async poll(): Promise<FulfillmentEvent[]> {
+    const block = await this.counterparty.getCurrentBlock();
+    const previous = this.blockIndex;
+    if (previous === undefined || block.block_index <= previous) {
+      this.blockIndex = Math.max(block.block_index, previous ?? 0);
+      return [];
+    }
+
+    const events: FulfillmentEvent[] = [{ type: 'block', blockIndex: block.block_index }];
+    const orderEvents = await this.counterparty.getAddressEvents(this.address, ORDER_EVENTS, 20);
+    for (const event of orderEvents) {
+      if (event.block_index === undefined || event.block_index <= previous) continue;
+      const params = event.params as { tx_hash?: string };
+      events.push({
+        type: event.event === 'ORDER_MATCH' ? 'order_match' : 'order_filled',
+        blockIndex: event.block_index,
+        txHash: event.event === 'ORDER_FILLED' ? params.tx_hash : event.tx_hash
+      });
+    }
+
+    // Only move past the block once its events were read
+    this.blockIndex = block.block_index;
+    return events;
+  }
+
+  private schedulePoll(delay: number): void {
+    if (!this.running) return;
+    this.pollTimer = setTimeout(async () => {
+      try {
+        const events = await this.poll();
+        this.lastError = undefined;
+        if (events.length > 0) {
+          this.queue(events);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (message !== this.lastError) {
+          console.warn(`[Events] Watching Counterparty failed, scheduled runs continue: ${message}`);
+        }
+        this.lastError = message;
+      }
+      this.schedulePoll(this.pollIntervalMs);
+    }, delay);
+  }
+
+  /**
+   * Collect events and run once they stop arriving for debounceMs
+   */
+  private queue(events: FulfillmentEvent[]): void {
+    this.pending.push(...events);
+    this.lastEventAt = Date.now();
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      void this.trigger();
+    }, this.debounceMs);
+  }
+
+  private async trigger(): Promise<void> {
+    // A run is already going: its end picks the new events up
+    if (this.triggering || !this.running || this.pending.length === 0) return;
+
+    const events = this.pending;
+    this.pending = [];
+    this.triggers++;
+    const fills = events.filter(event => event.type !== 'block').length;
+    const tip = Math.max(...events.map(event => event.blockIndex));
+    console.log(`[Events] Block ${tip}${fills > 0 ? `, ${fills} order events` : ''} - running fulfillment`);
+
+    this.triggering = this.onEvents(events)
+      .catch(error => {
+        console.error('[Events] Event-triggered run failed:', error);
+      })
+      .finally(() => {
+        this.triggering = null;
+        if (this.pending.length > 0 && !this.debounceTimer) {
+          void this.trigger();
+        }
+      });
+    await this.triggering;
+  }
+}
@@ -1,14 +1,22 @@
 import { CounterpartyService, AssetInfo } from './counterparty';
-import { BitcoinService, SignedTransaction } from './bitcoin';
-import { StateManager } from './state';
-import { OrderHistoryService, OrderStatus } from './order-history';
+import { CounterpartyResponseError } from './counterparty-normalize';
+import { BitcoinService, SignedTransaction, MempoolPackage, buildRawTransaction, estimateSignedVsize } from './bitcoin';
+import { ProviderUnavailableError } from './bitcoin-providers';
+import { StateManager, OrderTransaction, PreBroadcastFailure, TransferVersion } from './state';
+import { OrderHistoryService, OrderStatus, OrderMatchRecord } from './order-history';
 import { NotificationService } from './notifications';
+import { BroadcastLogService } from './broadcast-log';
+import { Signer, WifSigner, SignaturePendingError } from './signer';
+import { SpendLedger, SpendLimitError, SpendReservation } from './spend-ledger';
+import { UtxoManager } from './utxo-manager';
+import { FeeBumpPlan, planFeeBump } from './fee-bump';
 import { Order } from '../types';
-import { RETRY_STRATEGY, TX_LIMITS, TIME, ASSET_CONFIG } from '../constants';
+import { RETRY_STRATEGY, TX_LIMITS, TIME, ASSET_CONFIG, ORDER_SCAN } from '../constants';
 
 export interface FulfillmentConfig {
   xcpfolioAddress: string;
-  privateKey: string; // WIF format
+  privateKey?: string; // WIF format; used when no signer is given
+  signer?: Signer; // External signer (see signer.ts)
   network?: 'mainnet' | 'testnet';
   dryRun?: boolean;
   maxMempoolTxs?: number; // Max unconfirmed txs (default: 25, hard limit)
@@ -18,6 +26,9 @@ export interface FulfillmentConfig {
   stuckTxThreshold?: number; // Blocks before considering tx stuck (default: 3)
   maxTotalFeeSats?: number; // Maximum fee per transaction in satoshis (default: 10000 = 0.0001 BTC)
   maxFeeRateForNewTx?: number; // Maximum fee rate for new transactions in sat/vB (default: 100)
+  hourlyFeeBudgetSats?: number; // Fees per rolling hour, shared with order maintenance (default: 100000, 0 = unlimited)
+  dailyFeeBudgetSats?: number; // Fees per rolling 24 hours, shared with order maintenance (default: 500000, 0 = unlimited)
+  fullRescanIntervalHours?: number; // Hours between scans of the whole filled-order history (default: 6)
   orderHistoryPath?: string; // Path to save order history (default: .order-history.json)
   statePath?: string; // Path to save fulfillment state (default: .fulfillment-state.json)
 }
@@ -31,22 +42,38 @@ export interface ProcessResult {
   error?: string;
   stage?: 'validation' | 'compose' | 'sign' | 'broadcast' | 'confirmed';
   isRbf?: boolean;
+  isCpfp?: boolean; // txid is the child paying for the stuck transfer
+  needsReview?: boolean; // Held back because the order matches are ambiguous
+  awaitingSignature?: boolean; // Queued for an operator to sign (manual signer)
+  budgetExhausted?: boolean; // Blocked by the hourly/daily fee budget
 }
 
-interface OrderTransaction {
-  orderHash: string;
-  asset: string;
-  buyer: string;
-  txid: string;  // Current txid
-  originalTxid: string;  // Original txid before any RBF
-  rbfHistory: string[];  // All txids including RBF replacements
-  broadcastTime: number;
-  broadcastBlock: number;
-  feeRate: number;
-  isRbf: boolean;
-  rbfCount: number;
-  needsRbf?: boolean;
-  droppedFromMempool?: boolean;
+/**
+ * Where a transfer that left the mempool ended up
+ */
+type ReplacementOutcome =
+  | { outcome: 'confirmed'; txid: string; blockHeight?: number }
+  | { outcome: 'conflict'; txid: string; outpoint: string } // Confirmed spend of our input that we didn't send
+  | { outcome: 'dropped' };
+
+/**
+ * Outcome of checking every order match for a filled sell order
+ */
+interface MatchResolution {
+  matches: OrderMatchRecord[];
+  buyer?: string;          // Set when the matches identify exactly one buyer
+  buyerOrderHash?: string;
+  reviewReason?: string;   // Set when the matches are ambiguous
+}
+
+/**
+ * Filled orders to check in one run
+ */
+interface FilledOrderBatch {
+  orders: Order[];
+  full: boolean;  // Paged through the whole filled history
+  tip: number;    // Counterparty block the scan covers
+  failedBlock?: number;  // Earliest fill block whose order couldn't be read
 }
 
 interface ProcessingState {
@@ -55,13 +82,7 @@ interface ProcessingState {
   // Track compose cooldown
   lastComposeTime: number;
   // Pre-broadcast failures (safe to retry many times)
-  preBroadcastFailures: Map<string, { 
-    count: number; 
-    lastError: string; 
-    stage: string;
-    firstFailureTime: number;
-    lastAttemptTime: number;
-  }>;
+  preBroadcastFailures: Map<string, PreBroadcastFailure>;
   // Last time we checked for orders
   lastCheckTime: number;
   // Current processing order (for crash recovery)
@@ -96,8 +117,15 @@ export class FulfillmentProcessor {
   private bitcoin: BitcoinService;
   private state: StateManager;
   public orderHistory: OrderHistoryService;
+  private broadcastLog: BroadcastLogService;
+  private spendLedger: SpendLedger;
+  private utxoManager: UtxoManager;
   private config: FulfillmentConfig;
   private processingState: ProcessingState;
+  private inFlightRestored: boolean = false;
+  // In-flight entries (serialized) as last read from or written to storage, so only changes are written
+  private persistedTransactions = new Map<string, string>();
+  private persistedFailures = new Map<string, string>();
   
   // Single worker lock
   private isProcessing: boolean = false;
@@ -114,12 +142,21 @@ export class FulfillmentProcessor {
       stuckTxThreshold: config.stuckTxThreshold || RETRY_STRATEGY.RBF.FIRST_THRESHOLD_BLOCKS,
       maxTotalFeeSats: config.maxTotalFeeSats || TX_LIMITS.MAX_TOTAL_FEE_SATS,
       maxFeeRateForNewTx: config.maxFeeRateForNewTx || TX_LIMITS.MAX_FEE_RATE_FOR_NEW_TX,
+      hourlyFeeBudgetSats: config.hourlyFeeBudgetSats ?? TX_LIMITS.HOURLY_FEE_BUDGET_SATS,
+      dailyFeeBudgetSats: config.dailyFeeBudgetSats ?? TX_LIMITS.DAILY_FEE_BUDGET_SATS,
+      fullRescanIntervalHours: config.fullRescanIntervalHours ?? ORDER_SCAN.FULL_RESCAN_INTERVAL_HOURS,
     };
 
     this.counterparty = new CounterpartyService();
     this.bitcoin = new BitcoinService(config.network || 'mainnet');
     this.state = new StateManager(config.statePath);
     this.orderHistory = new OrderHistoryService(config.orderHistoryPath);
+    this.broadcastLog = new BroadcastLogService();
+    this.spendLedger = new SpendLedger({
+      hourlyFeeSats: this.config.hourlyFeeBudgetSats,
+      dailyFeeSats: this.config.dailyFeeBudgetSats,
+    });
+    this.utxoManager = new UtxoManager(config.xcpfolioAddress);
     
     this.processingState = {
       orderTransactions: new Map(),
@@ -138,7 +175,7 @@ export class FulfillmentProcessor {
    * broadcasts and race conditions.
    * 
    * Processing steps:
-   * 1. Recover active transactions from mempool on startup
+   * 1. Restore persisted in-flight transactions, recover any from mempool on startup
    * 2. Update mempool state (check for confirmations/drops)
    * 3. Handle stuck transactions with RBF
    * 4. Check mempool capacity (25 tx limit)
@@ -165,11 +202,15 @@ export class FulfillmentProcessor {
     
     this.isProcessing = true;
     const startTime = Date.now();
+    this.counterparty.beginRun();
     
     try {
       console.log(`[${new Date().toISOString()}] Single worker starting...`);
       return await this.processInternal();
     } finally {
+      await this.persistProcessingState();
+      const api = this.counterparty.endRun();
+      console.log(`Counterparty API: ${api.requests} reads, ${api.cached} from cache, ${api.coalesced} shared in flight`);
       this.isProcessing = false;
       this.processingState.lastCheckTime = Date.now();
       const duration = Date.now() - startTime;
@@ -186,6 +227,14 @@ export class FulfillmentProcessor {
     const results: ProcessResult[] = [];
 
     try {
+      // 0. Restore in-flight tracking from storage (new instance every cron run on Vercel),
+      // then reconcile it against the mempool and bump anything stuck
+      await this.restoreProcessingState();
+      await this.updateMempoolState();
+      if (this.config.rbfEnabled) {
+        results.push(...await this.handleStuckTransactions());
+      }
+
       // 1. Check Bitcoin mempool capacity FIRST
       const actualMempoolCount = await this.bitcoin.getUnconfirmedTxCount(this.config.xcpfolioAddress);
       console.log(`Bitcoin mempool count: ${actualMempoolCount}/${this.config.maxMempoolTxs}`);
@@ -209,13 +258,14 @@ export class FulfillmentProcessor {
 
       // 4. Get current block height
       const currentBlock = await this.bitcoin.getCurrentBlockHeight();
+      this.counterparty.observeBlockHeight(currentBlock);
       
       // 4a. Track unconfirmed open orders (new listings)
       await this.trackMempoolOpenOrders();
       
-      // 5. Get filled orders from Counterparty
-      console.log('Fetching filled orders...');
-      const orders = await this.counterparty.getFilledXCPFOLIOOrders(this.config.xcpfolioAddress);
+      // 5. Get filled orders from Counterparty (new fills, or the whole history on a full rescan)
+      const batch = await this.scanFilledOrders();
+      const orders = batch.orders;
       
       // Get processed orders set for checking
       const processedOrders = await this.state.getProcessedOrders();
@@ -223,7 +273,6 @@ export class FulfillmentProcessor {
       // Filter to unprocessed orders and check for already transferred assets
       const unprocessedOrders: Order[] = [];
       let consecutiveProcessed = 0;
-      const stopAfterConsecutive = 10; // Stop after finding 10 consecutive already-processed orders
       
       for (const order of orders) {
         // Check if we've already processed this exact order
@@ -231,10 +280,10 @@ export class FulfillmentProcessor {
           consecutiveProcessed++;
           console.log(`Order ${order.tx_hash} already in processed list (${consecutiveProcessed} consecutive)`);
           
-          // Stop checking if we've seen enough consecutive processed orders
+          // On a full rescan, stop after enough consecutive processed orders
           // This prevents checking ancient history every time
-          if (consecutiveProcessed >= stopAfterConsecutive) {
-            console.log(`Found ${stopAfterConsecutive} consecutive processed orders, stopping scan`);
+          if (batch.full && consecutiveProcessed >= ORDER_SCAN.STOP_AFTER_CONSECUTIVE) {
+            console.log(`Found ${ORDER_SCAN.STOP_AFTER_CONSECUTIVE} consecutive processed orders, stopping scan`);
             break;
           }
           continue;
@@ -248,13 +297,10 @@ export class FulfillmentProcessor {
         
         try {
           const assetInfo = await this.counterparty.getAssetInfo(assetName);
-          // Get the buyer address from order matches
-          const matches = await this.counterparty.getOrderMatches(order.tx_hash);
-          if (matches && matches.length > 0) {
-            const match = matches[0];
-            const buyer = match.tx0_address === this.config.xcpfolioAddress 
-              ? match.tx1_address 
-              : match.tx0_address;
+          // Get the buyer address from order matches (ambiguous orders are left to processOrderSafely)
+          const resolution = await this.resolveOrderMatches(order);
+          if (resolution.buyer) {
+            const buyer = resolution.buyer;
             
             // If buyer already owns the asset, mark as processed and skip
             if (assetInfo.owner === buyer) {
@@ -295,12 +341,10 @@ export class FulfillmentProcessor {
                 console.error(`Error getting transfer details for ${assetName}:`, error);
               }
               
-              // Get buyer's order hash from the match
-              const buyerOrderHash = match.tx1_hash;
-              
               await this.orderHistory.upsertOrder({
                 orderHash: order.tx_hash,          // Our sell order (primary key)
-                matchHash: buyerOrderHash,          // Buyer's order hash
+                matchHash: resolution.buyerOrderHash, // Buyer's order hash
+                matches: resolution.matches,
                 asset: assetName,
                 assetLongname: order.give_asset_info?.asset_longname || undefined,
                 price: order.get_quantity / 100000000,
@@ -330,7 +374,7 @@ export class FulfillmentProcessor {
       
       if (unprocessedOrders.length === 0) {
         console.log(`No unprocessed orders found (checked ${orders.length} total)`);
-        // Don't update lastBlock anymore - we're not using it for filtering
+        await this.finishFilledOrderScan(batch, unprocessedOrders);
         return results;
       }
 
@@ -403,6 +447,13 @@ export class FulfillmentProcessor {
             }
             // Clear pre-broadcast failures on success
             this.processingState.preBroadcastFailures.delete(order.tx_hash);
+          } else if (result.needsReview) {
+            console.log(`⏸️ Held for manual review: ${result.error}`);
+          } else if (result.awaitingSignature) {
+            console.log(`✍️ ${result.error}`);
+          } else if (result.budgetExhausted) {
+            console.log(`🛑 ${result.error} - stopping order processing`);
+            break;
           } else {
             console.log(`❌ Failed at stage ${result.stage}: ${result.error}`);
             if (result.stage && result.stage !== 'broadcast') {
@@ -429,7 +480,7 @@ export class FulfillmentProcessor {
       }
 
       // 7. Update state
-      await this.state.setLastBlock(currentBlock);
+      await this.finishFilledOrderScan(batch, unprocessedOrders);
       if (orders.length > 0) {
         await this.state.setLastOrderHash(orders[0].tx_hash);
       }
@@ -442,6 +493,70 @@ export class FulfillmentProcessor {
     }
   }
 
+  /**
+   * Filled orders to check this run
+   *
+   * Normally only orders filled since the saved cursor (starting
+   * REORG_OVERLAP_BLOCKS below it, in case those blocks were replaced), plus
+   * orders earlier runs left unfinished. Every fullRescanIntervalHours, or
+   * with no cursor yet, the whole filled history is paged through instead to
+   * catch anything the incremental scans missed.
+   */
+  private async scanFilledOrders(): Promise<FilledOrderBatch> {
+    const scan = await this.state.getFilledOrderScan();
+    // Read the tip before scanning: fills in later blocks are left to the next scan
+    const tip = (await this.counterparty.getCurrentBlock()).block_index;
+    const full = scan.cursor === 0 ||
+      Date.now() - scan.lastFullScan >= this.config.fullRescanIntervalHours! * TIME.HOUR;
+
+    let filled: Order[];
+    let failedBlock: number | undefined;
+    if (full) {
+      console.log('Fetching all filled orders (full rescan)...');
+      filled = await this.counterparty.getFilledXCPFOLIOOrders(this.config.xcpfolioAddress);
+    } else {
+      const fromBlock = Math.max(scan.cursor + 1 - ORDER_SCAN.REORG_OVERLAP_BLOCKS, 0);
+      console.log(`Fetching orders filled since block ${fromBlock}...`);
+      ({ orders: filled, failedBlock } = await this.counterparty.getXCPFOLIOOrdersFilledSince(this.config.xcpfolioAddress, fromBlock));
+    }
+
+    // Unfinished orders go first so a full rescan's early stop can't skip them
+    const scanned = new Set(filled.map(order => order.tx_hash));
+    const carried = scan.unfinishedOrders.filter(order => !scanned.has(order.tx_hash));
+    if (carried.length > 0) {
+      console.log(`Re-checking ${carried.length} unfinished orders from earlier runs`);
+    }
+
+    return { orders: [...carried, ...filled], full, tip, failedBlock };
+  }
+
+  /**
+   * Move the scan cursor to the batch's tip
+   * Checked orders that are still neither processed nor failed (pending
+   * transfer, mempool full, retry backoff, held for review, errors) are
+   * carried into the next run. Fills whose order couldn't be read were never
+   * checked, so the cursor stops short of the earliest one's block and the
+   * next scan reads it again.
+   */
+  private async finishFilledOrderScan(batch: FilledOrderBatch, checked: Order[]): Promise<void> {
+    const previous = await this.state.getFilledOrderScan();
+    const unfinishedOrders: Order[] = [];
+    for (const order of checked) {
+      if (!await this.state.isOrderProcessed(order.tx_hash) && !await this.state.isOrderFailed(order.tx_hash)) {
+        unfinishedOrders.push(order);
+      }
+    }
+
+    if (batch.failedBlock !== undefined) {
+      console.log(`Holding the scan cursor below block ${batch.failedBlock} to re-read fills that failed`);
+    }
+    await this.state.setFilledOrderScan({
+      cursor: batch.failedBlock !== undefined ? Math.min(batch.tip, batch.failedBlock - 1) : batch.tip,
+      lastFullScan: batch.full ? Date.now() : previous.lastFullScan,
+      unfinishedOrders
+    });
+  }
+
   /**
    * Process a single order with all safety checks
    * 
@@ -464,34 +579,10 @@ export class FulfillmentProcessor {
     
     // For filled orders, we need to find the buyer from order matches
     // The order.source is us (the seller), not the buyer
-    let buyerAddress: string;
+    let resolution: MatchResolution;
     
     try {
-      const matches = await this.counterparty.getOrderMatches(order.tx_hash);
-      
-      if (!matches || matches.length === 0) {
-        throw new Error('No order matches found for filled order');
-      }
-      
-      // In an order match:
-      // - tx0_address is the original order creator (us, selling XCPFOLIO.ASSET)
-      // - tx1_address is the order filler (buyer, who sent XCP to buy our XCPFOLIO.ASSET)
-      const match = matches[0];
-      
-      // We are tx0_address (original order creator)
-      // The buyer is tx1_address (order filler)
-      if (match.tx0_address === this.config.xcpfolioAddress) {
-        buyerAddress = match.tx1_address;
-      } else if (match.tx1_address === this.config.xcpfolioAddress) {
-        // Shouldn't happen for our sell orders, but handle just in case
-        buyerAddress = match.tx0_address;
-      } else {
-        throw new Error(`Order match doesn't involve our address: tx0=${match.tx0_address}, tx1=${match.tx1_address}`);
-      }
-      
-      if (!buyerAddress) {
-        throw new Error('Could not determine buyer address from order match');
-      }
+      resolution = await this.resolveOrderMatches(order);
     } catch (error) {
       console.error('Failed to get buyer address from order match:', error);
       // This shouldn't happen for filled orders, but if it does, we can't proceed
@@ -505,20 +596,15 @@ export class FulfillmentProcessor {
       };
     }
 
+    if (resolution.reviewReason || !resolution.buyer) {
+      return this.flagOrderForReview(order, assetName, resolution);
+    }
+    const buyerAddress = resolution.buyer;
+
     console.log(`Asset: ${assetName} -> Buyer: ${buyerAddress}`);
 
     // Track order in history (non-critical, for display only)
     try {
-      // Get the buyer's order hash from the match
-      const matches = await this.counterparty.getOrderMatches(order.tx_hash);
-      let buyerOrderHash: string | undefined;
-      
-      if (matches && matches.length > 0) {
-        const match = matches[0];
-        // tx1_hash is the buyer's order (they matched our sell order)
-        buyerOrderHash = match.tx1_hash;
-      }
-      
       // Check if this order already exists in history (from mempool tracking)
       // Use our sell order hash as the primary key
       const existingOrder = await this.orderHistory.getOrder(order.tx_hash);
@@ -534,7 +620,8 @@ export class FulfillmentProcessor {
       // If order exists from mempool, update it. Otherwise create new entry.
       const orderStatus: OrderStatus = {
         orderHash: order.tx_hash,          // Our sell order (primary key)
-        matchHash: buyerOrderHash,          // Buyer's order hash
+        matchHash: resolution.buyerOrderHash, // Buyer's order hash
+        matches: resolution.matches,
         asset: assetName,
         assetLongname: order.give_asset_info?.asset_longname || undefined,
         price: order.get_quantity / 100000000, // Convert to XCP
@@ -712,6 +799,7 @@ export class FulfillmentProcessor {
       // Stage 3: Compose transaction
       await this.orderHistory.updateOrderStatus(order.tx_hash, 'processing', 'compose');
       console.log('Stage 3: Composing transaction...');
+      const signingKey = `transfer:${order.tx_hash}`;
       let rawTx: string;
       try {
         let feeRate = await this.bitcoin.getOptimalFeeRate();
@@ -730,28 +818,18 @@ export class FulfillmentProcessor {
           };
         }
         
-        // Estimate total fee to check against ceiling
-        const estimatedTotalFee = feeRate * TX_LIMITS.ESTIMATED_TX_VSIZE;
-        if (estimatedTotalFee > this.config.maxTotalFeeSats!) {
-          console.log(`⚠️ Estimated fee ${estimatedTotalFee} sats exceeds ceiling ${this.config.maxTotalFeeSats}`);
-          // Use the maximum rate that stays under our ceiling
-          feeRate = Math.floor(this.config.maxTotalFeeSats! / TX_LIMITS.ESTIMATED_TX_VSIZE);
-          console.log(`Using capped rate: ${feeRate} sat/vB to stay under fee ceiling`);
-        }
-        
-        console.log(`Using fee rate: ${feeRate} sat/vB (max total: ${feeRate * TX_LIMITS.ESTIMATED_TX_VSIZE} sats)`);
-
-        rawTx = await this.counterparty.composeTransfer(
-          this.config.xcpfolioAddress,
-          assetName,
-          buyerAddress,
-          feeRate,
-          'auto',
-          true // validate=true for normal tx
-        );
+        // Keep clear of inputs order maintenance has reserved or already spent,
+        // but not of those held for this transfer's own queued PSBT
+        const excludedUtxos = await this.utxoManager.getExcludedOutpoints(signingKey);
+        const composed = await this.composeTransferWithinCeiling(assetName, buyerAddress, feeRate, {
+          validate: true, // validate=true for normal tx
+          excludeUtxos: excludedUtxos.length > 0 ? excludedUtxos.join(',') : undefined,
+          minFeeRate: RETRY_STRATEGY.RBF.MIN_RELAY_FEE
+        });
+        rawTx = composed.rawTx;
+        feeRate = composed.feeRate;
 
-        this.processingState.lastComposeTime = Date.now();
-        console.log('Transaction composed successfully');
+        console.log(`Transaction composed successfully at ${feeRate} sat/vB (~${composed.vsize} vbytes, ~${Math.ceil(feeRate * composed.vsize)} sats)`);
       } catch (error) {
         return {
           orderHash: order.tx_hash,
@@ -767,12 +845,13 @@ export class FulfillmentProcessor {
       await this.orderHistory.updateOrderStatus(order.tx_hash, 'processing', 'sign');
       console.log('Stage 4: Signing transaction...');
       let signedTx: SignedTransaction;
+      let reservation: SpendReservation;
       try {
-        signedTx = await this.bitcoin.signTransaction(
-          rawTx,
-          this.config.xcpfolioAddress,
-          this.config.privateKey
-        );
+        signedTx = await this.getSigner().sign(rawTx, this.config.xcpfolioAddress, {
+          key: signingKey,
+          kind: 'transfer',
+          description: `Transfer ${assetName} to ${buyerAddress} (order ${order.tx_hash})`
+        });
         console.log(`Signed: ${signedTx.txid} (${signedTx.vsize} vbytes, ${signedTx.fee} sats fee)`);
         
         // Final check: ensure actual fee doesn't exceed ceiling
@@ -787,6 +866,8 @@ export class FulfillmentProcessor {
             stage: 'sign'
           };
         }
+
+        reservation = await this.spendLedger.reserve('transfer', signedTx.fee, `transfer of ${assetName}`);
       } catch (error) {
         return {
           orderHash: order.tx_hash,
@@ -794,7 +875,9 @@ export class FulfillmentProcessor {
           buyer: buyerAddress,
           success: false,
           error: error instanceof Error ? error.message : String(error),
-          stage: 'sign'
+          stage: 'sign',
+          awaitingSignature: error instanceof SignaturePendingError,
+          budgetExhausted: error instanceof SpendLimitError
         };
       }
 
@@ -806,6 +889,7 @@ export class FulfillmentProcessor {
       const currentMempoolCount = this.processingState.orderTransactions.size;
       if (currentMempoolCount >= this.config.maxMempoolTxs!) {
         console.log(`Mempool at capacity (${currentMempoolCount}/${this.config.maxMempoolTxs}), aborting broadcast`);
+        await this.spendLedger.release(reservation);
         return {
           orderHash: order.tx_hash,
           asset: assetName,
@@ -816,49 +900,24 @@ export class FulfillmentProcessor {
         };
       }
       
+      const logEntry = {
+        kind: 'transfer' as const,
+        reason: `Fulfill order ${order.tx_hash}`,
+        asset: assetName,
+        orderHash: order.tx_hash,
+        destination: buyerAddress
+      };
+      let txid: string;
       try {
-        const txid = await this.bitcoin.broadcastTransaction(signedTx.hex);
-        
-        // Notify successful broadcast
-        await NotificationService.success('🚀 Transfer broadcast!', {
-          asset: assetName,
-          buyer: buyerAddress,
-          txid: txid.slice(0, 8) + '...',
-          'Full TXID': txid,
-          'Track at': `https://mempool.space/tx/${txid}`
-        });
-        
-        // Update order history with txid
-        await this.orderHistory.updateOrderStatus(order.tx_hash, 'confirming', 'mempool', txid);
-
-        // Track the transaction with RBF history
-        this.processingState.orderTransactions.set(order.tx_hash, {
-          orderHash: order.tx_hash,
-          asset: assetName,
-          buyer: buyerAddress,
-          txid,
-          originalTxid: txid,
-          rbfHistory: [txid],
-          broadcastTime: Date.now(),
-          broadcastBlock: currentBlock,
-          feeRate: Math.ceil(signedTx.fee / signedTx.vsize),
-          isRbf: false,
-          rbfCount: 0
-        });
-
-        // Mark as processed
-        await this.state.markOrderProcessed(order.tx_hash);
-
-        return {
-          orderHash: order.tx_hash,
-          asset: assetName,
-          buyer: buyerAddress,
-          success: true,
-          txid,
-          stage: 'broadcast'
-        };
-
+        txid = await this.bitcoin.broadcastTransaction(signedTx.hex);
       } catch (error) {
+        await this.spendLedger.release(reservation);
+        await this.broadcastLog.record({
+          ...logEntry,
+          success: false,
+          error: error instanceof Error ? error.message : String(error)
+        }, signedTx);
+
         // Check if already in mempool
         const errorMsg = (error instanceof Error ? error.message : String(error)).toLowerCase();
         if (errorMsg.includes('already') && errorMsg.includes('mempool')) {
@@ -882,6 +941,52 @@ export class FulfillmentProcessor {
           stage: 'broadcast'
         };
       }
+      await this.broadcastLog.record({ ...logEntry, success: true, txid }, signedTx);
+      await this.spendLedger.commit(reservation, txid);
+      await this.utxoManager.markSpent(signedTx.inputs, 'transfer', txid);
+
+      // Notify successful broadcast
+      await NotificationService.success('🚀 Transfer broadcast!', {
+        asset: assetName,
+        buyer: buyerAddress,
+        txid: txid.slice(0, 8) + '...',
+        'Full TXID': txid,
+        'Track at': `https://mempool.space/tx/${txid}`
+      });
+
+      // Update order history with txid
+      await this.orderHistory.updateOrderStatus(order.tx_hash, 'confirming', 'mempool', txid);
+
+      // Track the transaction with RBF history
+      const feeRate = Math.ceil(signedTx.fee / signedTx.vsize);
+      this.processingState.orderTransactions.set(order.tx_hash, {
+        orderHash: order.tx_hash,
+        asset: assetName,
+        buyer: buyerAddress,
+        txid,
+        originalTxid: txid,
+        rbfHistory: [txid],
+        broadcastTime: Date.now(),
+        broadcastBlock: currentBlock,
+        feeRate,
+        fee: signedTx.fee,
+        isRbf: false,
+        rbfCount: 0,
+        versions: [{ txid, feeRate, broadcastTime: Date.now(), broadcastBlock: currentBlock, inputs: signedTx.inputs }]
+      });
+      await this.persistProcessingState();
+
+      // Mark as processed
+      await this.state.markOrderProcessed(order.tx_hash);
+
+      return {
+        orderHash: order.tx_hash,
+        asset: assetName,
+        buyer: buyerAddress,
+        success: true,
+        txid,
+        stage: 'broadcast'
+      };
 
     } catch (error) {
       console.error('Unexpected error:', error);
@@ -938,9 +1043,9 @@ export class FulfillmentProcessor {
   }
 
   /**
-   * Handle stuck transactions with Replace-By-Fee (RBF)
+   * Handle stuck transactions with Replace-By-Fee (RBF) or Child-Pays-For-Parent (CPFP)
    * 
-   * Monitors active transactions and initiates RBF when:
+   * Monitors active transactions and bumps the fee when:
    * - Transaction is dropped from mempool
    * - Transaction stuck for more than 3 blocks (configurable)
    * - Previous RBF attempt needs higher fee
@@ -950,7 +1055,10 @@ export class FulfillmentProcessor {
    * - Subsequent RBFs: Progressive multipliers up to 2.5x
    * - After 12 blocks: Ensure 1.5x market rate
    * 
-   * @returns Array of ProcessResult for successful RBF attempts
+   * RBF or CPFP is chosen per bump from the package fee, descendants and the
+   * fee ceiling (see fee-bump.ts).
+   * 
+   * @returns Array of ProcessResult for successful fee bumps
    */
   private async handleStuckTransactions(): Promise<ProcessResult[]> {
     const results: ProcessResult[] = [];
@@ -959,10 +1067,10 @@ export class FulfillmentProcessor {
     for (const [orderHash, tx] of this.processingState.orderTransactions) {
       // Check if dropped from mempool first
       if (tx.droppedFromMempool || tx.needsRbf) {
-        console.log(`Transaction ${tx.txid} needs RBF (dropped=${tx.droppedFromMempool})`);
-        const rbfResult = await this.attemptRBF(tx, currentBlock);
-        if (rbfResult) {
-          results.push(rbfResult);
+        console.log(`Transaction ${tx.txid} needs a fee bump (dropped=${tx.droppedFromMempool})`);
+        const bumpResult = await this.bumpFee(tx, currentBlock);
+        if (bumpResult) {
+          results.push(bumpResult);
         }
         continue;
       }
@@ -979,73 +1087,100 @@ export class FulfillmentProcessor {
   }
 
   /**
-   * Attempt RBF for a stuck transaction
+   * Fee rate a stuck transaction should be bumped to, escalating with how long it's been stuck
    */
-  private async attemptRBF(tx: OrderTransaction, currentBlock: number): Promise<ProcessResult | null> {
+  private async getBumpFeeRate(tx: OrderTransaction, currentBlock: number): Promise<number> {
+    const blocksSinceBroadcast = currentBlock - tx.broadcastBlock;
+    const currentMarketRate = await this.bitcoin.getOptimalFeeRate();
+    
+    // Calculate new fee with proper escalation
+    let newFeeRate: number;
+    if (blocksSinceBroadcast < RETRY_STRATEGY.RBF.MARKET_PREMIUM_BLOCKS) {
+      newFeeRate = Math.max(tx.feeRate * RETRY_STRATEGY.RBF.EARLY_MULTIPLIER, currentMarketRate);
+    } else if (blocksSinceBroadcast < RETRY_STRATEGY.RBF.MARKET_PREMIUM_BLOCKS * 2) {
+      newFeeRate = Math.max(tx.feeRate * RETRY_STRATEGY.RBF.MIDDLE_MULTIPLIER, currentMarketRate * RETRY_STRATEGY.RBF.MARKET_BUFFER_MULTIPLIER);
+    } else {
+      const fees = await this.bitcoin.getFeeRates();
+      newFeeRate = fees.fastestFee * RETRY_STRATEGY.RBF.MARKET_PREMIUM_MULTIPLIER;
+    }
+
+    // Ensure BIP-125 compliance: new fee must be at least old fee + 1 sat/vB
+    return Math.max(newFeeRate, tx.feeRate + RETRY_STRATEGY.RBF.MIN_FEE_INCREMENT);
+  }
+
+  /**
+   * Bump a stuck transaction's fee with RBF or CPFP, whichever fits
+   */
+  private async bumpFee(tx: OrderTransaction, currentBlock: number): Promise<ProcessResult | null> {
+    let plan: FeeBumpPlan;
     try {
-      // Calculate new fee based on how stuck it is
-      const blocksSinceBroadcast = currentBlock - tx.broadcastBlock;
-      const currentMarketRate = await this.bitcoin.getOptimalFeeRate();
-      
-      // Calculate new fee with proper escalation
-      let newFeeRate: number;
-      if (blocksSinceBroadcast < RETRY_STRATEGY.RBF.MARKET_PREMIUM_BLOCKS) {
-        newFeeRate = Math.max(tx.feeRate * RETRY_STRATEGY.RBF.EARLY_MULTIPLIER, currentMarketRate);
-      } else if (blocksSinceBroadcast < RETRY_STRATEGY.RBF.MARKET_PREMIUM_BLOCKS * 2) {
-        newFeeRate = Math.max(tx.feeRate * RETRY_STRATEGY.RBF.MIDDLE_MULTIPLIER, currentMarketRate * RETRY_STRATEGY.RBF.MARKET_BUFFER_MULTIPLIER);
-      } else {
-        const fees = await this.bitcoin.getFeeRates();
-        newFeeRate = fees.fastestFee * RETRY_STRATEGY.RBF.MARKET_PREMIUM_MULTIPLIER;
-      }
+      const targetFeeRate = await this.getBumpFeeRate(tx, currentBlock);
 
-      // Ensure BIP-125 compliance: new fee must be at least old fee + 1 sat/vB
-      newFeeRate = Math.max(newFeeRate, tx.feeRate + RETRY_STRATEGY.RBF.MIN_FEE_INCREMENT);
-      
-      // Check against total fee ceiling for RBF
-      const estimatedNewTotalFee = newFeeRate * TX_LIMITS.ESTIMATED_TX_VSIZE;
-      if (estimatedNewTotalFee > this.config.maxTotalFeeSats!) {
-        // For RBF, we're more flexible - use the max allowed but warn
-        const maxAllowedRate = Math.floor(this.config.maxTotalFeeSats! / TX_LIMITS.ESTIMATED_TX_VSIZE);
-        
-        // Ensure we're still increasing the fee (BIP-125 requirement)
-        if (maxAllowedRate <= tx.feeRate) {
-          console.error(`❌ Cannot RBF: fee ceiling prevents required increase`);
-          console.error(`Current: ${tx.feeRate} sat/vB, Need: >${tx.feeRate}, Max allowed: ${maxAllowedRate}`);
-          // Mark for removal and fresh retry instead
-          this.processingState.orderTransactions.delete(tx.orderHash);
-          // Note: unmarkOrderProcessed method doesn't exist in new state manager
-          // Orders should not be unmarked once processed
-          return null;
+      // A dropped transaction can only be replaced
+      let parent: MempoolPackage | null = null;
+      if (!tx.droppedFromMempool) {
+        try {
+          parent = await this.bitcoin.getMempoolPackage(tx.txid);
+        } catch (error) {
+          console.warn(`Mempool package unavailable for ${tx.txid}, considering RBF only:`, error instanceof Error ? error.message : String(error));
         }
-        
-        console.warn(`⚠️ RBF fee capped at ${maxAllowedRate} sat/vB due to ceiling (wanted ${newFeeRate})`);
-        newFeeRate = maxAllowedRate;
       }
-      
-      // Apply protective cap
-      if (newFeeRate > RETRY_STRATEGY.RBF.MAX_FEE_RATE) {
-        console.warn(`Fee rate ${newFeeRate} exceeds max ${RETRY_STRATEGY.RBF.MAX_FEE_RATE}, capping`);
-        newFeeRate = RETRY_STRATEGY.RBF.MAX_FEE_RATE;
+
+      const decision = planFeeBump(parent, {
+        address: this.config.xcpfolioAddress,
+        targetFeeRate,
+        currentFeeRate: tx.feeRate,
+        maxTotalFeeSats: this.config.maxTotalFeeSats!
+      });
+      if (!decision.method) {
+        console.error(`❌ Cannot bump fee for ${tx.txid}: ${decision.reason}`);
+        // Mark for removal and fresh retry instead
+        this.processingState.orderTransactions.delete(tx.orderHash);
+        // Note: processed orders are only unmarked manually (admin API)
+        return null;
+      }
+      plan = decision;
+    } catch (error) {
+      console.error(`Fee bump failed for ${tx.txid}:`, error instanceof Error ? error.message : String(error));
+      this.processingState.orderTransactions.delete(tx.orderHash);
+      return null;
+    }
+
+    console.log(`Fee bump: ${plan.method.toUpperCase()} - ${plan.reason}`);
+    return plan.method === 'cpfp'
+      ? this.attemptCPFP(tx, plan, currentBlock)
+      : this.attemptRBF(tx, currentBlock, plan.feeRate);
+  }
+
+  /**
+   * Attempt RBF for a stuck transaction
+   */
+  private async attemptRBF(tx: OrderTransaction, currentBlock: number, newFeeRate: number): Promise<ProcessResult | null> {
+    try {
+      // A replacement has to spend what it replaces, or it's a second transfer
+      const previous = tx.versions?.[tx.versions.length - 1];
+      if (!previous?.inputs.length) {
+        console.warn(`RBF: inputs of ${tx.txid} aren't known (recovered transfer), can't compose a replacement`);
+        return null;
       }
 
       console.log(`RBF: Bumping fee from ${tx.feeRate} to ${newFeeRate} sat/vB (${Math.round((newFeeRate / tx.feeRate - 1) * 100)}% increase)`);
 
-      // Compose with validate=false for RBF
-      const rawTx = await this.counterparty.composeTransfer(
-        this.config.xcpfolioAddress,
-        tx.asset,
-        tx.buyer,
-        newFeeRate,
-        'auto',
-        false // validate=false for RBF!
-      );
+      // Compose with validate=false for RBF! The replacement must still beat the original's rate
+      const composed = await this.composeTransferWithinCeiling(tx.asset, tx.buyer, newFeeRate, {
+        validate: false,
+        inputsSet: previous.inputs.join(','),
+        minFeeRate: tx.feeRate + RETRY_STRATEGY.RBF.MIN_RELAY_FEE
+      });
+      const rawTx = composed.rawTx;
+      newFeeRate = composed.feeRate;
 
       // Sign and broadcast
-      const signedTx = await this.bitcoin.signTransaction(
-        rawTx,
-        this.config.xcpfolioAddress,
-        this.config.privateKey
-      );
+      const signedTx = await this.getSigner().sign(rawTx, this.config.xcpfolioAddress, {
+        key: `rbf:${tx.orderHash}:${tx.rbfCount + 1}`,
+        kind: 'rbf',
+        description: `RBF #${tx.rbfCount + 1} for order ${tx.orderHash} (${tx.feeRate} -> ${newFeeRate} sat/vB)`
+      });
       
       // Final check for RBF transaction fee
       if (signedTx.fee > this.config.maxTotalFeeSats!) {
@@ -1054,21 +1189,62 @@ export class FulfillmentProcessor {
         return null;
       }
       
+      if (!signedTx.inputs.some(input => previous.inputs.includes(input))) {
+        console.error(`❌ RBF composition spends none of ${previous.txid}'s inputs, aborting`);
+        // Broadcasting it would send the asset a second time
+        return null;
+      }
+
       console.log(`RBF signed: ${signedTx.vsize} vbytes, ${signedTx.fee} sats total fee`);
 
-      const txid = await this.bitcoin.broadcastTransaction(signedTx.hex);
+      // Only the increase is new spend; the replaced fee was counted when it went out
+      const replacedFee = tx.fee ?? Math.ceil(tx.feeRate * signedTx.vsize);
+      const reservation = await this.spendLedger.reserve('rbf', signedTx.fee - replacedFee, `RBF of ${tx.asset}`);
+
+      const rbfLogEntry = {
+        kind: 'rbf' as const,
+        reason: `RBF #${tx.rbfCount + 1} for order ${tx.orderHash} (${tx.feeRate} -> ${newFeeRate} sat/vB)`,
+        asset: tx.asset,
+        orderHash: tx.orderHash,
+        destination: tx.buyer,
+        replacesTxid: tx.txid
+      };
+      let txid: string;
+      try {
+        txid = await this.bitcoin.broadcastTransaction(signedTx.hex);
+      } catch (error) {
+        await this.spendLedger.release(reservation);
+        await this.broadcastLog.record({
+          ...rbfLogEntry,
+          success: false,
+          error: error instanceof Error ? error.message : String(error)
+        }, signedTx);
+        throw error;
+      }
+      await this.broadcastLog.record({ ...rbfLogEntry, success: true, txid }, signedTx);
+      await this.spendLedger.commit(reservation, txid);
+      await this.utxoManager.markSpent(signedTx.inputs, 'rbf', txid);
 
       // Update tracking with RBF history
       const oldTxid = tx.txid;
       tx.txid = txid;
       tx.rbfHistory.push(txid);
+      tx.versions = [...(tx.versions || []), {
+        txid,
+        feeRate: newFeeRate,
+        broadcastTime: Date.now(),
+        broadcastBlock: currentBlock,
+        inputs: signedTx.inputs
+      }];
       tx.feeRate = newFeeRate;
+      tx.fee = signedTx.fee;
       tx.isRbf = true;
       tx.rbfCount++;
       tx.broadcastTime = Date.now();
       tx.broadcastBlock = currentBlock;
       tx.needsRbf = false;
       tx.droppedFromMempool = false;
+      await this.persistProcessingState();
 
       console.log(`RBF successful: ${oldTxid} -> ${txid}`);
       console.log(`RBF history: ${tx.rbfHistory.join(' -> ')}`);
@@ -1083,6 +1259,11 @@ export class FulfillmentProcessor {
       };
 
     } catch (error) {
+      if (error instanceof SignaturePendingError || error instanceof SpendLimitError) {
+        // Original tx is still out there - keep tracking it until the bump can go out
+        console.log(`${error instanceof SpendLimitError ? '🛑' : '✍️'} ${error.message}`);
+        return null;
+      }
       console.error(`RBF failed for ${tx.txid}:`, error instanceof Error ? error.message : String(error));
       
       // If RBF failed, remove from tracking
@@ -1094,6 +1275,88 @@ export class FulfillmentProcessor {
     }
   }
 
+  /**
+   * Attempt CPFP for a stuck transaction
+   * Spends its change output with a child paying for both; the transfer keeps its txid.
+   */
+  private async attemptCPFP(tx: OrderTransaction, plan: FeeBumpPlan, currentBlock: number): Promise<ProcessResult | null> {
+    const cpfpCount = (tx.cpfpHistory?.length || 0) + 1;
+    const reason = `CPFP #${cpfpCount} for order ${tx.orderHash} (${tx.feeRate} -> ${plan.feeRate} sat/vB package)`;
+
+    try {
+      const rawTx = buildRawTransaction(
+        [{ txid: tx.txid, vout: plan.change!.vout }],
+        [{ address: this.config.xcpfolioAddress, value: plan.change!.value - plan.fee }]
+      );
+
+      const signedTx = await this.getSigner().sign(rawTx, this.config.xcpfolioAddress, {
+        key: `cpfp:${tx.orderHash}:${cpfpCount}`,
+        kind: 'cpfp',
+        description: reason
+      });
+
+      if (signedTx.fee > this.config.maxTotalFeeSats!) {
+        console.error(`❌ CPFP actual fee ${signedTx.fee} exceeds ceiling, aborting`);
+        return null;
+      }
+
+      console.log(`CPFP signed: ${signedTx.vsize} vbytes, ${signedTx.fee} sats`);
+
+      const reservation = await this.spendLedger.reserve('cpfp', signedTx.fee, `CPFP of ${tx.asset}`);
+
+      const cpfpLogEntry = {
+        kind: 'cpfp' as const,
+        reason,
+        asset: tx.asset,
+        orderHash: tx.orderHash,
+        destination: tx.buyer
+      };
+      let txid: string;
+      try {
+        txid = await this.bitcoin.broadcastTransaction(signedTx.hex);
+      } catch (error) {
+        await this.spendLedger.release(reservation);
+        await this.broadcastLog.record({
+          ...cpfpLogEntry,
+          success: false,
+          error: error instanceof Error ? error.message : String(error)
+        }, signedTx);
+        throw error;
+      }
+      await this.broadcastLog.record({ ...cpfpLogEntry, success: true, txid }, signedTx);
+      await this.spendLedger.commit(reservation, txid);
+      await this.utxoManager.markSpent(signedTx.inputs, 'cpfp', txid);
+
+      // The transfer keeps its txid - record the child and the package's new rate
+      tx.cpfpHistory = [...(tx.cpfpHistory || []), txid];
+      tx.feeRate = plan.feeRate;
+      tx.broadcastBlock = currentBlock;
+      tx.needsRbf = false;
+      await this.persistProcessingState();
+
+      console.log(`CPFP successful: ${txid} pays for ${tx.txid}`);
+      return {
+        orderHash: tx.orderHash,
+        asset: tx.asset,
+        buyer: tx.buyer,
+        success: true,
+        txid,
+        isCpfp: true,
+        stage: 'broadcast'
+      };
+
+    } catch (error) {
+      // Unlike a failed RBF, the transfer itself is untouched - keep tracking it
+      const msg = error instanceof Error ? error.message : String(error);
+      if (error instanceof SignaturePendingError || error instanceof SpendLimitError) {
+        console.log(`${error instanceof SpendLimitError ? '🛑' : '✍️'} ${msg}`);
+      } else {
+        console.error(`CPFP failed for ${tx.txid}: ${msg}`);
+      }
+      return null;
+    }
+  }
+
   /**
    * Track unconfirmed buy orders from mempool
    * 
@@ -1171,9 +1434,12 @@ export class FulfillmentProcessor {
    * - Still in mempool (pending)
    * - Confirmed on blockchain (success)
    * - Dropped from mempool (needs RBF)
+   * - Conflicted: an input was spent by a confirmed transaction we didn't
+   *   send (critical alert, order held for review)
    * 
    * For RBF transactions, checks all historical txids to detect
-   * if any version has been confirmed.
+   * if any version has been confirmed, and records the confirmed one
+   * in the order history.
    * 
    * @sideeffect Updates orderTransactions map
    * @sideeffect Marks transactions for RBF if dropped
@@ -1185,39 +1451,54 @@ export class FulfillmentProcessor {
       try {
         // Check current txid
         const inMempool = await this.bitcoin.isInMempool(tx.txid);
-        if (!inMempool) {
-          // Check if confirmed
-          try {
-            const txData = await this.bitcoin.getTransaction(tx.txid);
-            if (txData.status?.confirmed) {
-              console.log(`✅ Transaction ${tx.txid} confirmed`);
-              
-              // Notify about confirmation
-              await NotificationService.success('💎 Transfer confirmed on blockchain!', {
-                asset: tx.asset,
-                buyer: tx.buyer,
-                txid: tx.txid.slice(0, 8) + '...',
-                'View on blockchain': `https://mempool.space/tx/${tx.txid}`
-              });
-              
-              toRemove.push(orderHash);
-              continue;
-            }
-          } catch {
-            // Current txid not found, check if any RBF version is confirmed
-            const anyConfirmed = await this.checkIfAnyVersionConfirmed(tx);
-            if (anyConfirmed) {
-              console.log(`✅ RBF version confirmed for order ${orderHash}`);
-              toRemove.push(orderHash);
-              continue;
-            }
-            
-            // Transaction dropped - mark for RBF
-            console.log(`⚠️ Transaction ${tx.txid} dropped from mempool`);
-            tx.droppedFromMempool = true;
-            tx.needsRbf = true;
+        if (inMempool) continue;
+
+        const resolution = await this.resolveReplacementChain(tx);
+
+        if (resolution.outcome === 'confirmed') {
+          if (resolution.txid !== tx.txid) {
+            // A replacement we broadcast later lost the race
+            console.warn(`⚠️ Earlier version ${resolution.txid} confirmed instead of latest ${tx.txid} for order ${orderHash}`);
           }
+          console.log(`✅ Transaction ${resolution.txid} confirmed`);
+
+          // Reconcile the order with the version that's actually on-chain
+          await this.orderHistory.setTransferTxid(orderHash, resolution.txid);
+
+          // Notify about confirmation
+          await NotificationService.success('💎 Transfer confirmed on blockchain!', {
+            asset: tx.asset,
+            buyer: tx.buyer,
+            txid: resolution.txid.slice(0, 8) + '...',
+            'View on blockchain': `https://mempool.space/tx/${resolution.txid}`
+          });
+
+          toRemove.push(orderHash);
+          continue;
         }
+
+        if (resolution.outcome === 'conflict') {
+          // Someone else spent our input - re-sending could hand them more, so stop and alert
+          const error = `Input ${resolution.outpoint} spent by unknown confirmed transaction ${resolution.txid}`;
+          console.error(`🚨 ${error} (order ${orderHash}, transfer ${tx.txid})`);
+          await NotificationService.critical('🚨 Transfer input spent by a transaction we did not send', {
+            orderHash,
+            asset: tx.asset,
+            buyer: tx.buyer,
+            transfers: tx.rbfHistory.join(', '),
+            conflictingTxid: resolution.txid,
+            outpoint: resolution.outpoint,
+            action: 'Check the hot wallet key; order held for review'
+          });
+          await this.orderHistory.updateOrderStatus(orderHash, 'needs_review', undefined, undefined, error);
+          toRemove.push(orderHash);
+          continue;
+        }
+
+        // Transaction dropped - mark for RBF
+        console.log(`⚠️ Transaction ${tx.txid} dropped from mempool`);
+        tx.droppedFromMempool = true;
+        tx.needsRbf = true;
       } catch (error) {
         console.error(`Error checking tx ${tx.txid}:`, error);
       }
@@ -1230,21 +1511,210 @@ export class FulfillmentProcessor {
   }
 
   /**
-   * Check if any version of an RBF transaction is confirmed
+   * Work out what happened to a transfer that's no longer in the mempool
+   *
+   * Any version in the replacement chain may have confirmed, not just the
+   * latest. If none did, the inputs of every version are checked for a
+   * confirmed spend: by a transaction we broadcast (e.g. a listing that
+   * picked up a dropped transfer's input) the transfer is simply gone and
+   * gets re-sent; by anything else it's a conflict.
+   *
+   * @throws When a lookup couldn't be answered and nothing was confirmed
    */
-  private async checkIfAnyVersionConfirmed(tx: OrderTransaction): Promise<boolean> {
-    for (const txid of tx.rbfHistory) {
+  private async resolveReplacementChain(tx: OrderTransaction): Promise<ReplacementOutcome> {
+    const versions: TransferVersion[] = tx.versions || tx.rbfHistory.map(txid => ({
+      txid,
+      feeRate: tx.feeRate,
+      broadcastTime: tx.broadcastTime,
+      broadcastBlock: tx.broadcastBlock,
+      inputs: []
+    }));
+
+    // Lookups no provider could answer; without them "dropped" can't be told from confirmed
+    const unresolved: string[] = [];
+
+    // Latest first - it's the most likely to have confirmed
+    for (const version of [...versions].reverse()) {
       try {
-        const txData = await this.bitcoin.getTransaction(txid);
+        const txData = await this.bitcoin.getTransaction(version.txid);
         if (txData.status?.confirmed) {
-          console.log(`Found confirmed RBF version: ${txid}`);
-          return true;
+          return { outcome: 'confirmed', txid: version.txid, blockHeight: txData.status.block_height };
         }
-      } catch {
-        // Transaction not found, continue checking others
+      } catch (error) {
+        if (error instanceof ProviderUnavailableError) unresolved.push(version.txid);
+        // Otherwise not found, continue checking others
+      }
+    }
+
+    const ours = new Set(tx.rbfHistory);
+    const outpoints = new Set(versions.flatMap(v => v.inputs));
+    let broadcastTxids: Set<string> | null = null;
+
+    for (const outpoint of outpoints) {
+      const [txid, vout] = outpoint.split(':');
+      let outspend;
+      try {
+        outspend = await this.bitcoin.getOutspend(txid, parseInt(vout));
+      } catch (error) {
+        console.warn(`Could not check spend of ${outpoint}:`, error instanceof Error ? error.message : String(error));
+        unresolved.push(outpoint);
+        continue;
+      }
+      if (!outspend.spent || !outspend.txid || !outspend.status?.confirmed || ours.has(outspend.txid)) {
+        continue;
+      }
+
+      // Ours if we broadcast it at all (any kind, e.g. a listing or consolidation)
+      broadcastTxids = broadcastTxids || new Set(
+        (await this.broadcastLog.getEntries({ since: versions[0].broadcastTime - TIME.DAY }))
+          .filter(e => e.success && e.txid)
+          .map(e => e.txid!)
+      );
+      if (broadcastTxids.has(outspend.txid)) {
+        console.log(`Input ${outpoint} of ${tx.txid} was spent by our own ${outspend.txid} - transfer needs re-sending`);
+        continue;
       }
+      return { outcome: 'conflict', txid: outspend.txid, outpoint };
+    }
+
+    if (unresolved.length > 0) {
+      // Left in place and checked again next run rather than re-sent
+      throw new Error(`Can't tell whether ${tx.txid} was dropped, no provider answered for ${unresolved.join(', ')}`);
+    }
+    return { outcome: 'dropped' };
+  }
+
+  /**
+   * Enumerate every match for a filled sell order and work out who bought it
+   * 
+   * In an order match tx0 is the older order and tx1 the one that matched it.
+   * Our sell order is normally tx0 (forward side), but either side is handled.
+   * The buyer is only trusted when all completed matches point at a single
+   * address and together deliver the order's full give_quantity. Anything
+   * else (several buyers, partial fills, only pending/expired matches) is
+   * returned with a reviewReason instead of a buyer.
+   * 
+   * @throws When Counterparty returns no matches or a match not involving us
+   */
+  private async resolveOrderMatches(order: Order): Promise<MatchResolution> {
+    const rawMatches = await this.counterparty.getOrderMatches(order.tx_hash);
+    
+    if (!rawMatches || rawMatches.length === 0) {
+      throw new Error('No order matches found for filled order');
+    }
+    
+    const matches: OrderMatchRecord[] = rawMatches.map(match => {
+      if (match.tx0_address === this.config.xcpfolioAddress) {
+        return {
+          matchId: match.id,
+          buyer: match.tx1_address,
+          buyerOrderHash: match.tx1_hash,
+          quantity: match.forward_asset === order.give_asset ? match.forward_quantity : 0,
+          status: match.status,
+          block: match.block_index
+        };
+      }
+      if (match.tx1_address === this.config.xcpfolioAddress) {
+        // Shouldn't happen for our sell orders, but handle just in case
+        return {
+          matchId: match.id,
+          buyer: match.tx0_address,
+          buyerOrderHash: match.tx0_hash,
+          quantity: match.backward_asset === order.give_asset ? match.backward_quantity : 0,
+          status: match.status,
+          block: match.block_index
+        };
+      }
+      throw new Error(`Order match doesn't involve our address: tx0=${match.tx0_address}, tx1=${match.tx1_address}`);
+    });
+    
+    const completed = matches.filter(m => m.status === 'completed');
+    if (completed.length === 0) {
+      return {
+        matches,
+        reviewReason: `No completed match (statuses: ${matches.map(m => m.status).join(', ')})`
+      };
+    }
+    
+    const buyers = new Set(completed.map(m => m.buyer));
+    if (buyers.size > 1) {
+      return {
+        matches,
+        reviewReason: `Order matched ${buyers.size} different buyers: ${Array.from(buyers).join(', ')}`
+      };
+    }
+    
+    const delivered = completed.reduce((sum, m) => sum + m.quantity, 0);
+    if (delivered !== order.give_quantity) {
+      return {
+        matches,
+        reviewReason: `Matched quantity ${delivered} does not equal order quantity ${order.give_quantity}`
+      };
+    }
+    
+    return {
+      matches,
+      buyer: completed[0].buyer,
+      buyerOrderHash: completed[0].buyerOrderHash
+    };
+  }
+
+  /**
+   * Hold an order with ambiguous matches for manual review
+   * The order is not marked processed, so it is re-checked every run and
+   * picked up automatically if Counterparty's view of the matches changes.
+   */
+  private async flagOrderForReview(
+    order: Order,
+    assetName: string,
+    resolution: MatchResolution
+  ): Promise<ProcessResult> {
+    const reason = resolution.reviewReason || 'Could not determine buyer';
+    console.warn(`Order ${order.tx_hash} needs review: ${reason}`);
+
+    try {
+      const existingOrder = await this.orderHistory.getOrder(order.tx_hash);
+      await this.orderHistory.upsertOrder({
+        orderHash: order.tx_hash,
+        asset: assetName,
+        assetLongname: order.give_asset_info?.asset_longname || undefined,
+        price: order.get_quantity / 100000000,
+        buyer: 'unknown',
+        seller: this.config.xcpfolioAddress,
+        status: 'needs_review',
+        stage: 'validation',
+        matches: resolution.matches,
+        error: reason,
+        purchasedAt: existingOrder?.purchasedAt || (order.block_time ? order.block_time * 1000 : Date.now()),
+        purchasedBlock: order.block_index || undefined,
+        lastUpdated: Date.now()
+      });
+    } catch (error) {
+      console.error('Error saving order to history (non-critical):', error);
     }
-    return false;
+
+    await NotificationService.sendOnce(
+      `needs-review:${order.tx_hash}`,
+      TIME.DAY / 1000,
+      '🔍 Order needs manual review',
+      'critical',
+      {
+        asset: assetName,
+        orderHash: order.tx_hash,
+        reason,
+        matches: resolution.matches.map(m => `${m.buyer} x${m.quantity} (${m.status})`).join('\n')
+      }
+    );
+
+    return {
+      orderHash: order.tx_hash,
+      asset: assetName,
+      buyer: 'unknown',
+      success: false,
+      error: `Needs review: ${reason}`,
+      stage: 'validation',
+      needsReview: true
+    };
   }
 
   /**
@@ -1270,6 +1740,73 @@ export class FulfillmentProcessor {
     }
   }
 
+  /**
+   * Compose a transfer whose signed fee stays under the fee ceiling
+   * The signed vsize is estimated from the composed transaction's own inputs
+   * and outputs; if the fee would exceed the ceiling it's re-composed once at
+   * the highest rate that fits, and that composition is checked again.
+   *
+   * @param inputsSet Outpoints the composition must spend
+   * @param minFeeRate Lowest acceptable rate once capped
+   * @throws If the fee can't be kept under the ceiling at minFeeRate or above
+   */
+  private async composeTransferWithinCeiling(
+    asset: string,
+    buyer: string,
+    feeRate: number,
+    options: { validate: boolean; excludeUtxos?: string; inputsSet?: string; minFeeRate: number }
+  ): Promise<{ rawTx: string; feeRate: number; vsize: number }> {
+    const compose = async (rate: number) => {
+      const rawTx = await this.counterparty.composeTransfer(
+        this.config.xcpfolioAddress,
+        asset,
+        buyer,
+        rate,
+        'auto',
+        options.validate,
+        options.excludeUtxos,
+        options.inputsSet
+      );
+      this.processingState.lastComposeTime = Date.now();
+      return { rawTx, feeRate: rate, vsize: this.estimateSignedVsize(rawTx) };
+    };
+
+    const ceiling = this.config.maxTotalFeeSats!;
+    const fee = (tx: { feeRate: number; vsize: number }) => Math.ceil(tx.feeRate * tx.vsize);
+
+    const composed = await compose(feeRate);
+    if (fee(composed) <= ceiling) {
+      return composed;
+    }
+
+    const cappedRate = Math.floor(ceiling / composed.vsize);
+    console.log(`⚠️ Fee of ${fee(composed)} sats for ${composed.vsize} vbytes exceeds ceiling ${ceiling}`);
+    if (cappedRate < options.minFeeRate) {
+      throw new Error(`Fee ceiling of ${ceiling} sats allows ${cappedRate} sat/vB for ${composed.vsize} vbytes, need at least ${options.minFeeRate}`);
+    }
+    console.log(`Re-composing at capped rate: ${cappedRate} sat/vB to stay under fee ceiling`);
+    await this.waitForComposeCooldown();
+
+    // The new composition may pick different inputs, so it's sized again
+    const capped = await compose(cappedRate);
+    if (fee(capped) > ceiling) {
+      throw new Error(`Fee of ${fee(capped)} sats for ${capped.vsize} vbytes at capped rate ${cappedRate} sat/vB still exceeds ceiling ${ceiling}`);
+    }
+    return capped;
+  }
+
+  /**
+   * Signed vsize of a composed transaction, or the typical transfer size if it can't be parsed
+   */
+  private estimateSignedVsize(rawTx: string): number {
+    try {
+      return estimateSignedVsize(rawTx, this.config.xcpfolioAddress);
+    } catch (error) {
+      console.warn(`Could not size composed transaction, assuming ${TX_LIMITS.ESTIMATED_TX_VSIZE} vbytes:`, error instanceof Error ? error.message : String(error));
+      return TX_LIMITS.ESTIMATED_TX_VSIZE;
+    }
+  }
+
   /**
    * Wait for compose cooldown
    */
@@ -1291,6 +1828,57 @@ export class FulfillmentProcessor {
     this.shouldStop = true;
   }
 
+  /**
+   * Clear retry tracking so a failed order is picked up fresh on the next run
+   */
+  async retryOrder(orderHash: string): Promise<void> {
+    await this.restoreProcessingState();
+    await this.clearPreBroadcastFailure(orderHash);
+    await this.state.removeFromFailed(orderHash);
+
+    const order = await this.orderHistory.getOrder(orderHash);
+    if (order && order.status !== 'confirmed') {
+      await this.orderHistory.updateOrderStatus(orderHash, 'pending', 'validation');
+    }
+  }
+
+  /**
+   * Manually mark an order processed (skip it) or unprocessed (reconsider it)
+   */
+  async setOrderProcessed(orderHash: string, processed: boolean): Promise<void> {
+    await this.restoreProcessingState();
+    if (processed) {
+      await this.state.markOrderProcessed(orderHash);
+      await this.clearPreBroadcastFailure(orderHash);
+    } else {
+      await this.state.unmarkOrderProcessed(orderHash);
+    }
+  }
+
+  /**
+   * Flag an in-flight transfer for RBF on the next run, regardless of age
+   * 
+   * @returns The transaction that will be bumped
+   * @throws If the order has no tracked transaction
+   */
+  async forceRbf(orderHash: string): Promise<OrderTransaction> {
+    await this.restoreProcessingState();
+    const stored = await this.state.getOrderTransaction(orderHash);
+    let tx = this.processingState.orderTransactions.get(orderHash);
+    // Without unsaved changes here, storage has the latest version (another run may have bumped it)
+    if (stored && (!tx || this.persistedTransactions.get(orderHash) === JSON.stringify(tx))) {
+      tx = Object.assign(tx || stored, stored);
+      this.processingState.orderTransactions.set(orderHash, tx);
+    }
+    if (!tx) {
+      throw new Error(`No in-flight transaction tracked for order ${orderHash}`);
+    }
+
+    tx.needsRbf = true;
+    await this.persistProcessingState();
+    return tx;
+  }
+
   /**
    * Get current state
    */
@@ -1341,6 +1929,8 @@ export class FulfillmentProcessor {
         }
       }
     } catch (error) {
+      // Without a valid answer we can't rule out a pending transfer; abort the run instead
+      if (error instanceof CounterpartyResponseError) throw error;
       console.error('Error getting pending transfers:', error);
     }
     
@@ -1384,6 +1974,103 @@ export class FulfillmentProcessor {
     }
   }
 
+  /**
+   * Restore in-flight tracking persisted by a previous run
+   *
+   * Runs once per processor instance. On Vercel every cron invocation builds a
+   * new FulfillmentProcessor, so without this RBF history, fee rates and retry
+   * counters would reset every minute. Entries already in memory win.
+   */
+  private async restoreProcessingState(): Promise<void> {
+    if (this.inFlightRestored) return;
+    this.inFlightRestored = true;
+
+    try {
+      const { orderTransactions, preBroadcastFailures } = await this.state.getInFlight();
+
+      for (const [orderHash, tx] of Object.entries(orderTransactions)) {
+        this.persistedTransactions.set(orderHash, JSON.stringify(tx));
+        if (!this.processingState.orderTransactions.has(orderHash)) {
+          this.processingState.orderTransactions.set(orderHash, tx);
+        }
+      }
+      for (const [orderHash, failure] of Object.entries(preBroadcastFailures)) {
+        this.persistedFailures.set(orderHash, JSON.stringify(failure));
+        if (!this.processingState.preBroadcastFailures.has(orderHash)) {
+          this.processingState.preBroadcastFailures.set(orderHash, failure);
+        }
+      }
+
+      console.log(`Restored ${this.processingState.orderTransactions.size} active transactions, ${this.processingState.preBroadcastFailures.size} pre-broadcast failures`);
+    } catch (error) {
+      console.error('Error restoring in-flight state:', error);
+    }
+
+    // Pick up transfers broadcast before tracking was persisted (or by a lost run)
+    await this.recoverMempoolTransactions();
+  }
+
+  /**
+   * Persist in-flight tracking so the next run (or invocation) can resume it
+   *
+   * Only entries this instance added, changed or dropped since it last read
+   * or wrote them are written, so entries another run tracks are left alone.
+   */
+  private async persistProcessingState(): Promise<void> {
+    if (!this.inFlightRestored) return; // Never overwrite state we haven't loaded
+
+    try {
+      const transactions = this.inFlightChanges(this.processingState.orderTransactions, this.persistedTransactions);
+      const failures = this.inFlightChanges(this.processingState.preBroadcastFailures, this.persistedFailures);
+      await this.state.setOrderTransactions(transactions.changed);
+      await this.state.removeOrderTransactions(transactions.removed);
+      await this.state.setPreBroadcastFailures(failures.changed);
+      await this.state.removePreBroadcastFailures(failures.removed);
+      transactions.commit();
+      failures.commit();
+    } catch (error) {
+      console.error('Error persisting in-flight state:', error);
+    }
+  }
+
+  /**
+   * Entries that differ from what was persisted, and a commit() recording them as persisted
+   */
+  private inFlightChanges<T>(current: Map<string, T>, persisted: Map<string, string>): {
+    changed: Record<string, T>;
+    removed: string[];
+    commit: () => void;
+  } {
+    const changed: Record<string, T> = {};
+    const serialized = new Map<string, string>();
+    for (const [orderHash, entry] of current) {
+      const json = JSON.stringify(entry);
+      if (persisted.get(orderHash) !== json) {
+        changed[orderHash] = entry;
+        serialized.set(orderHash, json);
+      }
+    }
+    const removed = [...persisted.keys()].filter(orderHash => !current.has(orderHash));
+
+    return {
+      changed,
+      removed,
+      commit: () => {
+        for (const [orderHash, json] of serialized) persisted.set(orderHash, json);
+        for (const orderHash of removed) persisted.delete(orderHash);
+      }
+    };
+  }
+
+  /**
+   * Drop an order's retry counters here and in storage, even if another run wrote them
+   */
+  private async clearPreBroadcastFailure(orderHash: string): Promise<void> {
+    this.processingState.preBroadcastFailures.delete(orderHash);
+    await this.state.removePreBroadcastFailures([orderHash]);
+    this.persistedFailures.delete(orderHash);
+  }
+
   /**
    * Recover active transactions from mempool on startup
    * 
@@ -1398,30 +2085,44 @@ export class FulfillmentProcessor {
       // Get all unconfirmed issuances (transfers) from our address
       const mempoolTransfers = await this.counterparty.getMempoolTransfers(this.config.xcpfolioAddress);
       
-      if (mempoolTransfers.length > 0) {
-        console.log(`Found ${mempoolTransfers.length} unconfirmed transfers in mempool`);
+      // Skip transfers we're already tracking (restored from storage)
+      const trackedTxids = new Set<string>();
+      for (const tx of this.processingState.orderTransactions.values()) {
+        tx.rbfHistory.forEach(txid => trackedTxids.add(txid));
+      }
+      const untracked = mempoolTransfers.filter(t => !trackedTxids.has(t.tx_hash));
+      
+      if (untracked.length > 0) {
+        console.log(`Found ${untracked.length} untracked unconfirmed transfers in mempool`);
         const currentBlock = await this.bitcoin.getCurrentBlockHeight();
+        this.counterparty.observeBlockHeight(currentBlock);
+        const orders = await this.counterparty.getFilledXCPFOLIOOrders(this.config.xcpfolioAddress);
         
-        for (const transfer of mempoolTransfers) {
+        for (const transfer of untracked) {
           // Extract transfer details from the mempool event
           const { tx_hash, params } = transfer;
-          if (!params) continue;
-          
           const asset = params.asset;
-          const destination = params.transfer_destination || params.destination;
+          const destination = params.transfer_destination;
           
           if (!asset || !destination) continue;
           
           // Try to find the corresponding order
-          const orders = await this.counterparty.getFilledXCPFOLIOOrders(this.config.xcpfolioAddress);
           const matchingOrder = orders.find(o => {
             const orderAsset = (o.give_asset_info?.asset_longname || o.give_asset).replace('XCPFOLIO.', '');
             return orderAsset === asset;
           });
           
-          if (matchingOrder) {
+          if (matchingOrder && !this.processingState.orderTransactions.has(matchingOrder.tx_hash)) {
+            // Use the transaction's real fee rate so RBF escalates from the right base
+            let feeRate: number = RETRY_STRATEGY.RBF.MIN_RELAY_FEE;
+            try {
+              feeRate = await this.bitcoin.getTransactionFeeRate(tx_hash);
+            } catch (error) {
+              console.warn(`Could not fetch fee rate for ${tx_hash}, assuming minimum relay fee`);
+            }
+            
             // Track this transaction
-            console.log(`Recovered unconfirmed transfer: ${asset} -> ${destination} (tx: ${tx_hash})`);
+            console.log(`Recovered unconfirmed transfer: ${asset} -> ${destination} (tx: ${tx_hash}, ${feeRate} sat/vB)`);
             this.processingState.orderTransactions.set(matchingOrder.tx_hash, {
               orderHash: matchingOrder.tx_hash,
               asset,
@@ -1431,24 +2132,37 @@ export class FulfillmentProcessor {
               rbfHistory: [tx_hash],
               broadcastTime: Date.now() - 60000, // Estimate 1 minute ago
               broadcastBlock: currentBlock - 1,
-              feeRate: 10, // Default estimate
+              feeRate,
               isRbf: false,
               rbfCount: 0
             });
             
             // Also mark as processed in state
-            this.state.markOrderProcessed(matchingOrder.tx_hash);
+            await this.state.markOrderProcessed(matchingOrder.tx_hash);
           }
         }
       }
       
       console.log(`Active transactions after recovery: ${this.processingState.orderTransactions.size}`);
     } catch (error) {
+      // An untracked transfer we couldn't read could be sent again; abort the run instead
+      if (error instanceof CounterpartyResponseError) throw error;
       console.error('Error recovering mempool transactions:', error);
       // Non-fatal - continue processing
     }
   }
 
+  /**
+   * The configured signer, or the WIF key signing in-process
+   */
+  private getSigner(): Signer {
+    if (this.config.signer) return this.config.signer;
+    if (!this.config.privateKey) {
+      throw new Error('No signer configured (set privateKey or signer)');
+    }
+    return new WifSigner(this.bitcoin, this.config.privateKey);
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
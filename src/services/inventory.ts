@@ -0,0 +1,300 @@
+/**
+ * Asset inventory reconciliation
+ *
+ * Every sale involves two assets: the XCPFOLIO.ASSET token traded on the DEX
+ * and the ASSET whose ownership is transferred to the buyer. Nothing else
+ * checks that the two stay in step, so this compares, for every asset:
+ * - the token: held (balance), listed (escrowed in an open order) or sold
+ * - who actually owns ASSET
+ * - the price list
+ * and reports anything that would make a sale undeliverable or a listing wrong.
+ */
+
+import { createHash } from 'crypto';
+import { CounterpartyService, AssetInfo } from './counterparty';
+import { NotificationService } from './notifications';
+import { StorageBackend, getStorage } from './storage';
+import { MaintenanceStateManager } from './maintenance-state';
+import { PricingEngine } from './pricing-rules';
+import { ASSET_CONFIG, TIME } from '../constants';
+
+export type TokenState = 'held' | 'listed' | 'sold' | 'none';
+
+export type InventoryIssueType =
+  | 'token_without_asset'   // Token held or listed, but we don't own ASSET
+  | 'sold_not_transferred'  // Token sold, but we still own ASSET
+  | 'asset_without_token'   // We own ASSET, but there's no token to sell it with
+  | 'asset_locked'          // ASSET for sale is locked
+  | 'token_without_price';  // Token held or listed, but not in the price list (or withdrawn)
+
+export type InventoryIssueSeverity = 'critical' | 'warning' | 'info';
+
+export interface InventoryItem {
+  asset: string;
+  token: TokenState;
+  owner: string | null;  // Current ASSET owner (null if the asset couldn't be found)
+  owned: boolean;
+  locked: boolean;
+  price?: number;        // XCP; unset if not in the price list, 0 if withdrawn
+}
+
+export interface InventoryIssue {
+  asset: string;
+  type: InventoryIssueType;
+  severity: InventoryIssueSeverity;
+  message: string;
+}
+
+export interface InventoryReport {
+  address: string;
+  generatedAt: number;
+  summary: {
+    assets: number;
+    held: number;
+    listed: number;
+    sold: number;
+    owned: number;
+    critical: number;
+    warning: number;
+    info: number;
+  };
+  issues: InventoryIssue[];
+  items: InventoryItem[];
+}
+
+const REPORT_KEY = 'xcpfolio:inventory:report';
+
+const CSV_COLUMNS = ['asset', 'type', 'severity', 'token', 'owner', 'locked', 'price', 'message'];
+
+export class InventoryReconciler {
+  private counterparty: CounterpartyService;
+  private storage: StorageBackend;
+  private address: string;
+  private prices: Map<string, number>;
+  private pricingEngine: PricingEngine | null = null;
+
+  constructor(address: string, prices: Map<string, number>, storage?: StorageBackend) {
+    this.address = address;
+    this.prices = prices;
+    this.counterparty = new CounterpartyService();
+    this.storage = storage || getStorage();
+  }
+
+  /**
+   * Check listings against rule-based prices (see pricing-rules.ts)
+   * Prices are recomputed for every reconciliation from the listing ages
+   * order maintenance records, so markdowns show up as they take effect.
+   */
+  setPricingEngine(engine: PricingEngine): void {
+    this.pricingEngine = engine;
+  }
+
+  /**
+   * Build a report, store it as the latest report and alert on problems
+   */
+  async run(): Promise<InventoryReport> {
+    console.log(`[Inventory] Reconciling assets for ${this.address}...`);
+    const report = await this.reconcile();
+
+    const { critical, warning, info } = report.summary;
+    console.log(`[Inventory] ${report.summary.assets} assets: ${critical} critical, ${warning} warning, ${info} info`);
+
+    try {
+      await this.storage.set(REPORT_KEY, JSON.stringify(report), {
+        ex: 60 * 60 * 24 * 30 // 30 day TTL
+      });
+    } catch (error) {
+      console.error('[Inventory] Error storing report:', error);
+    }
+
+    await this.alert(report);
+    return report;
+  }
+
+  /**
+   * Get the most recently stored report
+   */
+  async getLatestReport(): Promise<InventoryReport | null> {
+    return this.storage.get<InventoryReport>(REPORT_KEY);
+  }
+
+  /**
+   * Build a report without storing it or alerting
+   */
+  async reconcile(): Promise<InventoryReport> {
+    if (this.pricingEngine) {
+      const listedSince = await new MaintenanceStateManager(this.storage).getListedSince();
+      this.prices = this.pricingEngine.computePrices(listedSince);
+    }
+
+    const balances = await this.counterparty.getXcpfolioBalances(this.address);
+    const listed = await this.counterparty.getOpenOrderAssets(this.address);
+    const filled = await this.counterparty.getFilledXCPFOLIOOrders(this.address);
+    const transferring = await this.getTransferringAssets();
+
+    const owned = new Map<string, AssetInfo>();
+    for (const info of await this.counterparty.getOwnedAssets(this.address)) {
+      if (this.isUnderlyingAsset(info)) {
+        owned.set(info.asset, info);
+      }
+    }
+
+    const sold = new Set(filled.map(order =>
+      (order.give_asset_info?.asset_longname || order.give_asset).replace(ASSET_CONFIG.XCPFOLIO_PREFIX, '')
+    ));
+
+    const assets = new Set([...balances.keys(), ...listed, ...sold, ...owned.keys(), ...this.prices.keys()]);
+    const items: InventoryItem[] = [];
+    const issues: InventoryIssue[] = [];
+
+    for (const asset of [...assets].sort()) {
+      const token: TokenState = listed.has(asset) ? 'listed'
+        : balances.has(asset) ? 'held'
+        : sold.has(asset) ? 'sold'
+        : 'none';
+
+      let info = owned.get(asset) || null;
+      if (!info && (token === 'held' || token === 'listed')) {
+        // We don't own it - look up who does
+        info = await this.getAssetInfo(asset);
+      }
+
+      const item: InventoryItem = {
+        asset,
+        token,
+        owner: info?.owner || null,
+        owned: owned.has(asset),
+        locked: info?.locked || false,
+        price: this.prices.get(asset),
+      };
+      items.push(item);
+      issues.push(...this.checkItem(item, transferring.has(asset)));
+    }
+
+    const count = (severity: InventoryIssueSeverity) => issues.filter(i => i.severity === severity).length;
+
+    return {
+      address: this.address,
+      generatedAt: Date.now(),
+      summary: {
+        assets: items.length,
+        held: items.filter(i => i.token === 'held').length,
+        listed: items.filter(i => i.token === 'listed').length,
+        sold: items.filter(i => i.token === 'sold').length,
+        owned: items.filter(i => i.owned).length,
+        critical: count('critical'),
+        warning: count('warning'),
+        info: count('info'),
+      },
+      issues,
+      items,
+    };
+  }
+
+  private checkItem(item: InventoryItem, transferring: boolean): InventoryIssue[] {
+    const issues: InventoryIssue[] = [];
+    const issue = (type: InventoryIssueType, severity: InventoryIssueSeverity, message: string) =>
+      issues.push({ asset: item.asset, type, severity, message });
+
+    const forSale = item.token === 'held' || item.token === 'listed';
+
+    if (forSale && !item.owned) {
+      issue(
+        'token_without_asset',
+        item.token === 'listed' ? 'critical' : 'warning',
+        `XCPFOLIO.${item.asset} is ${item.token} but ${item.asset} is owned by ${item.owner || 'unknown'}`
+      );
+    }
+
+    if (item.token === 'sold' && item.owned && !transferring) {
+      issue('sold_not_transferred', 'critical', `XCPFOLIO.${item.asset} was sold but ${item.asset} was never transferred`);
+    }
+
+    if (item.token === 'none' && item.owned) {
+      issue('asset_without_token', 'warning', `${item.asset} is owned but has no XCPFOLIO.${item.asset} token`);
+    }
+
+    if (forSale && item.owned && item.locked) {
+      issue('asset_locked', 'warning', `${item.asset} is locked`);
+    }
+
+    if (forSale && !(item.price && item.price > 0)) {
+      issue(
+        'token_without_price',
+        'info',
+        `XCPFOLIO.${item.asset} is ${item.token} but ${item.price === undefined ? 'has no price' : 'is withdrawn'}`
+      );
+    }
+
+    return issues;
+  }
+
+  /**
+   * Underlying assets only - not the XCPFOLIO parent or its subasset tokens
+   */
+  private isUnderlyingAsset(info: AssetInfo): boolean {
+    const parent = ASSET_CONFIG.XCPFOLIO_PREFIX.slice(0, -1);
+    return info.asset !== parent && !info.asset_longname?.startsWith(ASSET_CONFIG.XCPFOLIO_PREFIX);
+  }
+
+  /**
+   * Assets with an ownership transfer from us sitting in the mempool
+   */
+  private async getTransferringAssets(): Promise<Set<string>> {
+    const transfers = await this.counterparty.getMempoolTransfers(this.address);
+    return new Set(transfers.map(event => event.params?.asset).filter(Boolean));
+  }
+
+  private async getAssetInfo(asset: string): Promise<AssetInfo | null> {
+    try {
+      return await this.counterparty.getAssetInfo(asset);
+    } catch (error) {
+      console.error(`[Inventory] Error fetching asset info for ${asset}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Alert on critical and warning issues
+   * Deduped on the set of issues, so an unchanged report alerts at most daily.
+   */
+  private async alert(report: InventoryReport): Promise<void> {
+    const problems = report.issues.filter(i => i.severity !== 'info');
+    if (problems.length === 0) return;
+
+    const signature = createHash('sha256')
+      .update(problems.map(i => `${i.asset}:${i.type}`).sort().join(','))
+      .digest('hex')
+      .slice(0, 16);
+
+    await NotificationService.sendOnce(
+      `inventory:${signature}`,
+      TIME.DAY / 1000,
+      `📋 Inventory reconciliation: ${report.summary.critical} critical, ${report.summary.warning} warning`,
+      report.summary.critical > 0 ? 'critical' : 'warning',
+      {
+        issues: problems.slice(0, 10).map(i => i.message),
+        more: Math.max(0, problems.length - 10),
+      }
+    );
+  }
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render a report's issues as CSV, one row per issue
+ */
+export function inventoryReportToCsv(report: InventoryReport): string {
+  const items = new Map(report.items.map(item => [item.asset, item]));
+  const rows = report.issues.map(issue => {
+    const item = items.get(issue.asset);
+    const row: Record<string, unknown> = { ...item, ...issue };
+    return CSV_COLUMNS.map(column => csvCell(row[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
@@ -1,4 +1,4 @@
-import { Redis } from '@upstash/redis';
+import { StorageBackend, getStorage } from './storage';
 
 export interface ActiveOrder {
   asset: string;
@@ -7,46 +7,60 @@ export interface ActiveOrder {
   price: number;
 }
 
+// 'undeliverable' = skipped before listing because we can't transfer the underlying asset
+export type FailureReason = 'listing' | 'undeliverable';
+
 export interface FailedAsset {
   count: number;
   lastError: string;
   lastAttemptTime: number;
+  reason?: FailureReason;  // Unset on failures recorded before reasons existed ('listing')
+}
+
+export interface PendingCancel {
+  asset: string;
+  txid: string;
+  broadcastTime: number;
+  oldPrice: number;
+  newPrice?: number;  // Unset when the asset is being delisted
+}
+
+export interface DeferredListing {
+  asset: string;
+  price: number;
+  deferredAt: number;
+  deadline: number;  // Broadcast regardless of fees after this
 }
 
 export interface MaintenanceState {
   lastRun: number;
   activeOrders: Record<string, ActiveOrder>;  // Orders broadcast but not yet confirmed
   failedAssets: Record<string, FailedAsset>;  // Failed during current run
+  pendingCancels?: Record<string, PendingCancel>;  // Re-price/delist cancels broadcast but not yet confirmed
+  listedSince?: Record<string, number>;  // First time each unsold asset was seen listed (for markdowns)
+  deferredListings?: Record<string, DeferredListing>;  // Listings waiting for lower fees
 }
 
 /**
  * Maintenance State Manager
  *
- * Separate state manager for OrderMaintenanceService using Redis.
+ * Separate state manager for OrderMaintenanceService on the shared storage backend.
  * Uses different key from fulfillment state to keep the two systems independent.
  */
 export class MaintenanceStateManager {
-  private redis: Redis;
+  private storage: StorageBackend;
   private stateKey: string;
   private lockKey: string;
   private state: MaintenanceState | null = null;
-  private cacheExpiry = 5000; // 5 second cache to reduce Redis calls
+  private cacheExpiry = 5000; // 5 second cache to reduce storage calls
   private lastCacheTime = 0;
   private lockId: string | null = null;
 
-  constructor() {
-    if (!process.env.KV_REST_API_URL || !process.env.KV_REST_API_TOKEN) {
-      throw new Error('Redis/KV credentials required: Set KV_REST_API_URL and KV_REST_API_TOKEN');
-    }
-
-    this.redis = new Redis({
-      url: process.env.KV_REST_API_URL,
-      token: process.env.KV_REST_API_TOKEN,
-    });
-
+  constructor(storage?: StorageBackend) {
+    this.storage = storage || getStorage();
     this.stateKey = 'xcpfolio:maintenance:state';
     this.lockKey = 'xcpfolio:maintenance:lock';
-    console.log('[MaintenanceState] Using Redis/KV for state persistence');
+    console.log(`[MaintenanceState] Using ${this.storage.name} for state persistence`);
   }
 
   /**
@@ -57,7 +71,7 @@ export class MaintenanceStateManager {
     const lockId = `${Date.now()}-${Math.random().toString(36).substring(7)}`;
 
     // Try to set lock with NX (only if not exists)
-    const result = await this.redis.set(this.lockKey, lockId, {
+    const result = await this.storage.set(this.lockKey, lockId, {
       nx: true,
       ex: ttlSeconds
     });
@@ -69,7 +83,7 @@ export class MaintenanceStateManager {
     }
 
     // Lock exists - check who owns it
-    const existingLock = await this.redis.get<string>(this.lockKey);
+    const existingLock = await this.storage.get<string>(this.lockKey);
     console.log(`[MaintenanceState] Lock already held: ${existingLock}`);
     return false;
   }
@@ -81,9 +95,9 @@ export class MaintenanceStateManager {
     if (!this.lockId) return;
 
     // Only release if we own the lock
-    const currentLock = await this.redis.get<string>(this.lockKey);
+    const currentLock = await this.storage.get<string>(this.lockKey);
     if (currentLock === this.lockId) {
-      await this.redis.del(this.lockKey);
+      await this.storage.del(this.lockKey);
       console.log(`[MaintenanceState] Released distributed lock: ${this.lockId}`);
     }
     this.lockId = null;
@@ -95,7 +109,7 @@ export class MaintenanceStateManager {
    */
   async hasActiveOrderFresh(asset: string): Promise<boolean> {
     try {
-      const state = await this.redis.get<MaintenanceState>(this.stateKey);
+      const state = await this.storage.get<MaintenanceState>(this.stateKey);
       return !!(state?.activeOrders?.[asset]);
     } catch (error) {
       console.error('[MaintenanceState] Error checking active order:', error);
@@ -104,7 +118,7 @@ export class MaintenanceStateManager {
   }
 
   /**
-   * Load state from Redis
+   * Load state from storage
    */
   async loadState(): Promise<MaintenanceState> {
     // Use local cache if fresh
@@ -113,7 +127,7 @@ export class MaintenanceStateManager {
     }
 
     try {
-      const state = await this.redis.get<MaintenanceState>(this.stateKey);
+      const state = await this.storage.get<MaintenanceState>(this.stateKey);
 
       if (state) {
         this.state = state;
@@ -121,7 +135,7 @@ export class MaintenanceStateManager {
         return state;
       }
     } catch (error) {
-      console.error('[MaintenanceState] Error loading state from Redis:', error);
+      console.error('[MaintenanceState] Error loading state from storage:', error);
     }
 
     // Default state
@@ -129,6 +143,9 @@ export class MaintenanceStateManager {
       lastRun: 0,
       activeOrders: {},
       failedAssets: {},
+      pendingCancels: {},
+      listedSince: {},
+      deferredListings: {},
     };
 
     this.state = defaultState;
@@ -137,17 +154,17 @@ export class MaintenanceStateManager {
   }
 
   /**
-   * Save state to Redis
+   * Save state to storage
    */
   async saveState(): Promise<void> {
     if (!this.state) return;
 
     try {
-      await this.redis.set(this.stateKey, JSON.stringify(this.state), {
+      await this.storage.set(this.stateKey, JSON.stringify(this.state), {
         ex: 60 * 60 * 24 * 30 // 30 day TTL
       });
     } catch (error) {
-      console.error('[MaintenanceState] Error saving state to Redis:', error);
+      console.error('[MaintenanceState] Error saving state to storage:', error);
       throw error;
     }
   }
@@ -189,11 +206,162 @@ export class MaintenanceStateManager {
     return state.activeOrders;
   }
 
+  /**
+   * Record a re-price or delist cancel so the order isn't cancelled again while it confirms
+   */
+  async markCancelPending(asset: string, txid: string, oldPrice: number, newPrice?: number): Promise<void> {
+    const state = await this.loadState();
+    state.pendingCancels = state.pendingCancels || {};
+    state.pendingCancels[asset] = {
+      asset,
+      txid,
+      broadcastTime: Date.now(),
+      oldPrice,
+      newPrice,
+    };
+    this.state = state;
+    await this.saveState();
+    console.log(`[MaintenanceState] Marked cancel pending: ${asset} (${txid})`);
+  }
+
+  /**
+   * Clear a pending cancel (after confirmation or expiry)
+   */
+  async clearPendingCancel(asset: string): Promise<void> {
+    const state = await this.loadState();
+    if (state.pendingCancels?.[asset]) {
+      delete state.pendingCancels[asset];
+      this.state = state;
+      await this.saveState();
+      console.log(`[MaintenanceState] Cleared pending cancel: ${asset}`);
+    }
+  }
+
+  /**
+   * Get all pending cancels
+   */
+  async getPendingCancels(): Promise<Record<string, PendingCancel>> {
+    const state = await this.loadState();
+    return state.pendingCancels || {};
+  }
+
+  /**
+   * Record when assets were first seen listed
+   * Existing timestamps are kept, so re-pricing doesn't reset a listing's age.
+   * Returns all tracked timestamps.
+   */
+  async recordListed(assets: Iterable<string>, timestamp: number = Date.now()): Promise<Record<string, number>> {
+    const state = await this.loadState();
+    state.listedSince = state.listedSince || {};
+    let changed = false;
+    for (const asset of assets) {
+      if (!state.listedSince[asset]) {
+        state.listedSince[asset] = timestamp;
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.state = state;
+      await this.saveState();
+    }
+    return { ...state.listedSince };
+  }
+
+  /**
+   * Forget listing times for assets we no longer hold or list (sold)
+   * Returns the pruned assets.
+   */
+  async pruneListed(keep: Set<string>): Promise<string[]> {
+    const state = await this.loadState();
+    const pruned = Object.keys(state.listedSince || {}).filter(asset => !keep.has(asset));
+    if (pruned.length > 0) {
+      for (const asset of pruned) {
+        delete state.listedSince![asset];
+      }
+      this.state = state;
+      await this.saveState();
+    }
+    return pruned;
+  }
+
+  /**
+   * Get first-listed timestamps by asset
+   */
+  async getListedSince(): Promise<Record<string, number>> {
+    const state = await this.loadState();
+    return state.listedSince || {};
+  }
+
+  /**
+   * Queue listings until fees drop
+   * Assets already queued keep their original deadline, so re-deferring
+   * every run can't hold a listing back forever. Returns the queued entries.
+   */
+  async deferListings(listings: { asset: string; price: number }[], maxDeferMs: number): Promise<DeferredListing[]> {
+    const state = await this.loadState();
+    state.deferredListings = state.deferredListings || {};
+    const now = Date.now();
+    const queued = listings.map(({ asset, price }) => {
+      const existing = state.deferredListings![asset];
+      if (!existing) {
+        console.log(`[MaintenanceState] Deferred listing: ${asset} until ${new Date(now + maxDeferMs).toISOString()}`);
+      }
+      const entry: DeferredListing = {
+        asset,
+        price,
+        deferredAt: existing?.deferredAt ?? now,
+        deadline: existing?.deadline ?? now + maxDeferMs,
+      };
+      state.deferredListings![asset] = entry;
+      return entry;
+    });
+    this.state = state;
+    await this.saveState();
+    return queued;
+  }
+
+  /**
+   * Remove a listing from the deferred queue (broadcast, sold or no longer priced)
+   */
+  async clearDeferredListing(asset: string): Promise<void> {
+    const state = await this.loadState();
+    if (state.deferredListings?.[asset]) {
+      delete state.deferredListings[asset];
+      this.state = state;
+      await this.saveState();
+    }
+  }
+
+  /**
+   * Drop deferred listings for assets that no longer need listing
+   * Returns the pruned assets.
+   */
+  async pruneDeferredListings(keep: Set<string>): Promise<string[]> {
+    const state = await this.loadState();
+    const pruned = Object.keys(state.deferredListings || {}).filter(asset => !keep.has(asset));
+    if (pruned.length > 0) {
+      for (const asset of pruned) {
+        delete state.deferredListings![asset];
+      }
+      this.state = state;
+      await this.saveState();
+    }
+    return pruned;
+  }
+
+  /**
+   * Get all deferred listings
+   */
+  async getDeferredListings(): Promise<Record<string, DeferredListing>> {
+    const state = await this.loadState();
+    return state.deferredListings || {};
+  }
+
   /**
    * Track a failure for an asset
    * Returns the new failure count
    */
-  async trackFailure(asset: string, error: string): Promise<number> {
+  async trackFailure(asset: string, error: string, reason: FailureReason = 'listing'): Promise<number> {
     const state = await this.loadState();
 
     const existing = state.failedAssets[asset];
@@ -203,11 +371,12 @@ export class MaintenanceStateManager {
       count,
       lastError: error,
       lastAttemptTime: Date.now(),
+      reason,
     };
 
     this.state = state;
     await this.saveState();
-    console.log(`[MaintenanceState] Tracked failure for ${asset}: attempt ${count}`);
+    console.log(`[MaintenanceState] Tracked ${reason} failure for ${asset}: attempt ${count}`);
     return count;
   }
 
@@ -3,32 +3,28 @@
  * Handles all external notifications
  */
 
-import { Redis } from '@upstash/redis';
+import { StorageBackend, getStorage } from './storage';
 
 export type NotificationLevel = 'info' | 'success' | 'warning' | 'error' | 'critical';
 
 export class NotificationService {
   private static discordWebhook = process.env.DISCORD_WEBHOOK_URL;
   private static slackWebhook = process.env.SLACK_WEBHOOK_URL;
-  private static redis: Redis | null | undefined;
 
-  private static getRedis(): Redis | null {
-    if (this.redis === undefined) {
-      this.redis = (process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN)
-        ? new Redis({
-            url: process.env.KV_REST_API_URL,
-            token: process.env.KV_REST_API_TOKEN,
-          })
-        : null;
+  private static getStorage(): StorageBackend | null {
+    try {
+      return getStorage();
+    } catch (error) {
+      console.error('Notification dedupe storage unavailable:', error);
+      return null;
     }
-    return this.redis;
   }
 
   /**
    * Send at most once per cooldown window, deduped across serverless
-   * invocations via Redis. The cron fires every minute, so persistent
-   * failure conditions must not alert 60 times an hour.
-   * If Redis is unavailable the notification is sent anyway.
+   * invocations via the shared storage backend. The cron fires every minute,
+   * so persistent failure conditions must not alert 60 times an hour.
+   * If storage is unavailable the notification is sent anyway.
    */
   static async sendOnce(
     dedupeKey: string,
@@ -37,10 +33,10 @@ export class NotificationService {
     level: NotificationLevel = 'warning',
     details?: Record<string, any>
   ): Promise<void> {
-    const redis = this.getRedis();
-    if (redis) {
+    const storage = this.getStorage();
+    if (storage) {
       try {
-        const acquired = await redis.set(`xcpfolio:notify:${dedupeKey}`, '1', {
+        const acquired = await storage.set(`xcpfolio:notify:${dedupeKey}`, '1', {
           nx: true,
           ex: cooldownSeconds,
         });
@@ -1,9 +1,18 @@
 /**
  * Order history tracking for status page
- * Uses Vercel KV (Redis) for persistence
+ * Persisted through the shared storage backend (Vercel KV, file or memory)
  */
 
-import { Redis } from '@upstash/redis';
+import { StorageBackend, getStorage } from './storage';
+
+export interface OrderMatchRecord {
+  matchId: string;
+  buyer: string;
+  buyerOrderHash: string;
+  quantity: number; // Units of our XCPFOLIO asset given in this match
+  status: string;   // Counterparty match status ('completed', 'pending', 'expired')
+  block?: number;
+}
 
 export interface OrderStatus {
   orderHash: string;  // Our sell order hash (primary key)
@@ -13,7 +22,7 @@ export interface OrderStatus {
   price: number; // In XCP
   buyer: string;
   seller: string;
-  status: 'unconfirmed' | 'listing' | 'pending' | 'processing' | 'broadcasting' | 'confirming' | 'confirmed' | 'failed' | 'permanently_failed';
+  status: 'unconfirmed' | 'listing' | 'pending' | 'processing' | 'broadcasting' | 'confirming' | 'confirmed' | 'failed' | 'permanently_failed' | 'needs_review';
   stage?: 'mempool' | 'listing' | 'validation' | 'compose' | 'sign' | 'broadcast' | 'confirmed';
   confirmations?: number; // 0 for mempool, 1+ for confirmed
   orderType?: 'open' | 'filled'; // To distinguish between listing and sale
@@ -24,33 +33,26 @@ export interface OrderStatus {
   confirmedAt?: number; // When transaction was confirmed
   confirmedBlock?: number; // Block height when transfer was confirmed
   txid?: string;  // Asset transfer transaction ID
+  matches?: OrderMatchRecord[]; // Every match Counterparty reported for this order
   error?: string;
   retryCount?: number;
   lastUpdated: number;
 }
 
 export class OrderHistoryService {
-  private redis: Redis;
+  private storage: StorageBackend;
   private orders: Map<string, OrderStatus>;
   private maxOrders: number;
   private cacheExpiry = 5000; // 5 second cache
   private lastCacheTime = 0;
 
-  constructor(historyPath?: string, maxOrders = 100) {
+  constructor(historyPath?: string, maxOrders = 100, storage?: StorageBackend) {
     // historyPath parameter kept for compatibility but ignored
-    // Always use Redis/KV for order history
-    if (!process.env.KV_REST_API_URL || !process.env.KV_REST_API_TOKEN) {
-      throw new Error('Redis/KV credentials required: Set KV_REST_API_URL and KV_REST_API_TOKEN');
-    }
-
-    this.redis = new Redis({
-      url: process.env.KV_REST_API_URL,
-      token: process.env.KV_REST_API_TOKEN,
-    });
-
+    // The storage backend is selected by STORAGE_BACKEND (see storage.ts)
+    this.storage = storage || getStorage();
     this.maxOrders = maxOrders;
     this.orders = new Map();
-    console.log('OrderHistory: Using Redis/KV for persistence');
+    console.log(`OrderHistory: Using ${this.storage.name} for persistence`);
   }
 
   private async loadHistory(): Promise<Map<string, OrderStatus>> {
@@ -61,15 +63,15 @@ export class OrderHistoryService {
 
     try {
       // Get order index
-      const indexData = await this.redis.get<string[]>('order-index');
+      const indexData = await this.storage.get<string[]>('order-index');
       if (indexData && Array.isArray(indexData)) {
         const orders = new Map<string, OrderStatus>();
         
         // Load each order
         for (const hash of indexData) {
-          const order = await this.redis.hgetall(`order:${hash}`);
+          const order = await this.storage.hgetall(`order:${hash}`);
           if (order) {
-            // Parse numeric fields from Redis strings
+            // Parse numeric fields from stored strings
             const parsedOrder: OrderStatus = {
               ...order,
               price: typeof order.price === 'string' ? parseFloat(order.price) : order.price,
@@ -93,7 +95,7 @@ export class OrderHistoryService {
         return orders;
       }
     } catch (error) {
-      console.error('Error loading order history from Redis:', error);
+      console.error('Error loading order history from storage:', error);
     }
 
     return new Map();
@@ -101,28 +103,28 @@ export class OrderHistoryService {
 
   private async saveHistory(): Promise<void> {
     try {
-      // Get existing index from Redis first
-      const existingIndex = await this.redis.get<string[]>('order-index') || [];
+      // Get existing index from storage first
+      const existingIndex = await this.storage.get<string[]>('order-index') || [];
       const existingSet = new Set(existingIndex);
       
       // Save all orders in memory (they've been updated/added)
       for (const [hash, order] of this.orders.entries()) {
-        // Clean up null/undefined values before saving to Redis
+        // Clean up null/undefined values before saving
         const cleanOrder: any = {};
         for (const [key, value] of Object.entries(order)) {
           if (value !== null && value !== undefined) {
             cleanOrder[key] = value;
           }
         }
-        await this.redis.hset(`order:${hash}`, cleanOrder);
-        await this.redis.expire(`order:${hash}`, 60 * 60 * 24 * 7); // 7 day TTL
+        await this.storage.hset(`order:${hash}`, cleanOrder);
+        await this.storage.expire(`order:${hash}`, 60 * 60 * 24 * 7); // 7 day TTL
         existingSet.add(hash); // Add to index
       }
       
       // Convert back to array and sort by recency (need to load all orders for proper sorting)
       const allOrders: Array<[string, OrderStatus]> = [];
       for (const hash of existingSet) {
-        const order = await this.redis.hgetall(`order:${hash}`);
+        const order = await this.storage.hgetall(`order:${hash}`);
         if (order) {
           // Parse numeric fields
           const parsedOrder: OrderStatus = {
@@ -148,11 +150,11 @@ export class OrderHistoryService {
       
       // Update index with sorted order hashes
       const orderHashes = sortedOrders.map(([hash]) => hash);
-      await this.redis.set('order-index', JSON.stringify(orderHashes), {
+      await this.storage.set('order-index', JSON.stringify(orderHashes), {
         ex: 60 * 60 * 24 * 7
       });
     } catch (error) {
-      console.error('Error saving order history to Redis:', error);
+      console.error('Error saving order history to storage:', error);
       throw error; // Re-throw to ensure we know about save failures
     }
   }
@@ -161,7 +163,7 @@ export class OrderHistoryService {
    * Add or update an order in the history
    */
   async upsertOrder(order: OrderStatus): Promise<void> {
-    // Always load latest from Redis first to ensure we have current data
+    // Always load latest from storage first to ensure we have current data
     await this.loadHistory();
     
     order.lastUpdated = Date.now();
@@ -212,7 +214,7 @@ export class OrderHistoryService {
     txid?: string,
     error?: string
   ): Promise<void> {
-    // Load latest state from Redis
+    // Load latest state from storage
     await this.loadHistory();
     
     const order = this.orders.get(orderHash);
@@ -246,6 +248,22 @@ export class OrderHistoryService {
     }
   }
 
+  /**
+   * Record which transfer txid actually confirmed
+   * A BIP-125 replacement chain can confirm any of its versions, not
+   * necessarily the last one we broadcast.
+   */
+  async setTransferTxid(orderHash: string, txid: string): Promise<void> {
+    await this.loadHistory();
+
+    const order = this.orders.get(orderHash);
+    if (order && order.txid !== txid) {
+      order.txid = txid;
+      order.lastUpdated = Date.now();
+      await this.saveHistory();
+    }
+  }
+
   /**
    * Update order confirmations
    */
@@ -328,6 +346,14 @@ export class OrderHistoryService {
     return orders.filter(o => o.status === 'failed');
   }
 
+  /**
+   * Get orders held back for manual review (ambiguous matches)
+   */
+  async getNeedsReviewOrders(): Promise<OrderStatus[]> {
+    const orders = await this.getOrders();
+    return orders.filter(o => o.status === 'needs_review');
+  }
+
   /**
    * Clean up old orders
    */
@@ -346,7 +372,7 @@ export class OrderHistoryService {
     // Remove old orders
     for (const hash of oldOrders) {
       this.orders.delete(hash);
-      await this.redis.del(`order:${hash}`);
+      await this.storage.del(`order:${hash}`);
     }
     
     if (oldOrders.length > 0) {
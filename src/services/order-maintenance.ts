@@ -1,18 +1,37 @@
 import { CounterpartyService } from './counterparty';
-import { BitcoinService } from './bitcoin';
+import { BitcoinService, UTXO } from './bitcoin';
 import { NotificationService } from './notifications';
 import { MaintenanceStateManager } from './maintenance-state';
-import { TX_LIMITS, ASSET_CONFIG, MAINTENANCE_RETRY_STRATEGY } from '../constants';
+import { BroadcastLogService } from './broadcast-log';
+import { PricingEngine } from './pricing-rules';
+import { Signer, WifSigner, SignaturePendingError } from './signer';
+import { SpendLedger, SpendLimitError } from './spend-ledger';
+import { UtxoManager, UtxoPlan, UtxoStatus, outpointOf } from './utxo-manager';
+import { Order } from '../types';
+import { TX_LIMITS, ASSET_CONFIG, MAINTENANCE_RETRY_STRATEGY, TIME, LISTING_DEFERRAL } from '../constants';
 
 export interface OrderMaintenanceConfig {
   xcpfolioAddress: string;
-  privateKey: string; // WIF format
+  privateKey?: string; // WIF format; used when no signer is given
+  signer?: Signer; // External signer (see signer.ts)
   network?: 'mainnet' | 'testnet';
   dryRun?: boolean;
   maxMempoolTxs?: number;
   orderExpiration?: number; // blocks; 0 = indefinite (never expires, Counterparty v11.1.0+)
   waitAfterBroadcast?: number; // ms to wait between broadcasts
   pricesPath?: string; // Path to prices JSON
+  repriceEnabled?: boolean; // Cancel listings whose price no longer matches (default: true)
+  maxRepricesPerRun?: number; // Cancels per run when prices change (default: 5)
+  delistEnabled?: boolean; // Cancel listings for assets with no price or marked withdrawn (default: true)
+  maxDelistsPerRun?: number; // Cancels per run for delisted assets (default: 5)
+  hourlyFeeBudgetSats?: number; // Fees per rolling hour, shared with fulfillment (default: 100000, 0 = unlimited)
+  dailyFeeBudgetSats?: number; // Fees per rolling 24 hours, shared with fulfillment (default: 500000, 0 = unlimited)
+  utxoSplitCount?: number; // Split a large UTXO when fewer spendable UTXOs than this (default: 10, 0 = never)
+  minSplitOutputSats?: number; // Smallest output a split may create (default: 10000)
+  dustThresholdSats?: number; // UTXOs below this are consolidated (default: 2000, 0 = never)
+  consolidateMaxFeeRate?: number; // Only consolidate at or below this sat/vB (default: 2)
+  listingTargetFeeRate?: number; // Defer listings while the projected next block's median is above this sat/vB (default: 0 = never defer)
+  listingMaxDeferHours?: number; // Broadcast a deferred listing anyway after this long (default: 24)
 }
 
 export interface MaintenanceResult {
@@ -22,6 +41,10 @@ export interface MaintenanceResult {
   txid?: string;
   error?: string;
   retries?: number;
+  action?: 'list' | 'reprice' | 'delist';
+  previousPrice?: number; // Listed price being replaced (reprice only)
+  awaitingSignature?: boolean; // Cancel queued for an operator to sign (manual signer)
+  budgetExhausted?: boolean; // Cancel blocked by the hourly/daily fee budget
 }
 
 interface AssetPrice {
@@ -34,6 +57,15 @@ interface ToProcess {
   price: number;
 }
 
+interface PlannedCancel {
+  asset: string;
+  order: Order;
+  action: 'reprice' | 'delist';
+  oldPrice: number;
+  newPrice?: number; // Unset for delists
+  reason: string;
+}
+
 /**
  * Order Maintenance Service
  *
@@ -42,9 +74,21 @@ interface ToProcess {
  * Logic:
  * - If we have a balance of XCPFOLIO.* asset, it means the order expired
  *   (active orders escrow the asset, so balance > 0 = not listed)
- * - For each asset with balance, create a new DEX order
+ * - For each asset with balance, create a new DEX order, unless we no longer
+ *   own the underlying asset or it's locked (recorded as 'undeliverable')
  * - Uses lowest fee rate from mempool.space
  * - Bails early if insufficient BTC or mempool at capacity
+ * - If an open order's price no longer matches the price list, cancel it;
+ *   once the cancel confirms the asset is back in our balance and gets
+ *   re-listed at the new price
+ * - If an open order's asset was dropped from the price list (or marked
+ *   "withdrawn"), cancel it and leave the asset unlisted
+ * - Keep the UTXO set in shape (see utxo-manager.ts): split a large UTXO so
+ *   listings don't all chain off one change output, and consolidate dust
+ *   while fees are low
+ * - Listings aren't urgent: with listingTargetFeeRate set, while the
+ *   projected next block pays more they're queued, and broadcast once fees
+ *   drop or they've waited listingMaxDeferHours. Cancels are never deferred.
  *
  * Robustness features:
  * - Redis state persistence for recovery on restart
@@ -56,8 +100,12 @@ export class OrderMaintenanceService {
   private counterparty: CounterpartyService;
   private bitcoin: BitcoinService;
   private stateManager: MaintenanceStateManager;
+  private broadcastLog: BroadcastLogService;
+  private spendLedger: SpendLedger;
+  private utxoManager: UtxoManager;
   private config: OrderMaintenanceConfig;
   private prices: Map<string, number> = new Map();
+  private pricingEngine: PricingEngine | null = null;
   private isRunning: boolean = false;
 
   constructor(config: OrderMaintenanceConfig) {
@@ -68,11 +116,30 @@ export class OrderMaintenanceService {
       // only happens for genuinely unsold/new assets. Use ?? so an explicit 0 is honored.
       orderExpiration: config.orderExpiration ?? 0,
       waitAfterBroadcast: config.waitAfterBroadcast || 2000,
+      repriceEnabled: config.repriceEnabled !== false,
+      maxRepricesPerRun: config.maxRepricesPerRun ?? 5,
+      delistEnabled: config.delistEnabled !== false,
+      maxDelistsPerRun: config.maxDelistsPerRun ?? 5,
+      hourlyFeeBudgetSats: config.hourlyFeeBudgetSats ?? TX_LIMITS.HOURLY_FEE_BUDGET_SATS,
+      dailyFeeBudgetSats: config.dailyFeeBudgetSats ?? TX_LIMITS.DAILY_FEE_BUDGET_SATS,
+      listingTargetFeeRate: config.listingTargetFeeRate ?? LISTING_DEFERRAL.TARGET_FEE_RATE,
+      listingMaxDeferHours: config.listingMaxDeferHours ?? LISTING_DEFERRAL.MAX_DEFER_MS / TIME.HOUR,
     };
 
     this.counterparty = new CounterpartyService();
     this.bitcoin = new BitcoinService(config.network || 'mainnet');
     this.stateManager = new MaintenanceStateManager();
+    this.broadcastLog = new BroadcastLogService();
+    this.spendLedger = new SpendLedger({
+      hourlyFeeSats: this.config.hourlyFeeBudgetSats,
+      dailyFeeSats: this.config.dailyFeeBudgetSats,
+    });
+    this.utxoManager = new UtxoManager(config.xcpfolioAddress, {
+      splitCount: config.utxoSplitCount,
+      minSplitOutputSats: config.minSplitOutputSats,
+      dustThresholdSats: config.dustThresholdSats,
+      consolidateMaxFeeRate: config.consolidateMaxFeeRate,
+    });
   }
 
   /**
@@ -82,7 +149,7 @@ export class OrderMaintenanceService {
   loadPrices(prices: AssetPrice[]): void {
     this.prices.clear();
     for (const { asset, price } of prices) {
-      if (asset && price > 0) {
+      if (asset && price >= 0) { // 0 = withdrawn
         this.prices.set(asset, price);
       }
     }
@@ -97,6 +164,16 @@ export class OrderMaintenanceService {
     console.log(`[${this.timestamp()}] Set ${this.prices.size} asset prices`);
   }
 
+  /**
+   * Use rule-based prices (see pricing-rules.ts)
+   * Prices are recomputed at the start of every run from each asset's listing
+   * age, replacing any prices set with setPrices()/loadPrices().
+   */
+  setPricingEngine(engine: PricingEngine): void {
+    this.pricingEngine = engine;
+    console.log(`[${this.timestamp()}] Using pricing rules`);
+  }
+
   /**
    * Format timestamp for logging
    */
@@ -164,6 +241,7 @@ export class OrderMaintenanceService {
         return results;
       }
       console.log(`\nMempool: ${unconfirmedCount}/${this.config.maxMempoolTxs}`);
+      let currentUnconfirmed = unconfirmedCount;
 
       // 4. Get actual minimum fee rate (supports sub-1 sat/vB)
       const feeRate = await this.bitcoin.getActualMinimumFeeRate();
@@ -173,38 +251,150 @@ export class OrderMaintenanceService {
       // We pass specific UTXOs via inputs_set since Counterparty's UTXO view lags.
       // After each broadcast, we re-fetch from mempool.space (which sees unconfirmed
       // UTXOs immediately) to find the change output for UTXO chaining.
-      let availableUtxos = await this.bitcoin.fetchUTXOs(this.config.xcpfolioAddress);
-      console.log(`UTXOs: ${availableUtxos.length} (${availableUtxos.filter(u => u.status?.confirmed).length} confirmed, ${availableUtxos.filter(u => !u.status?.confirmed).length} unconfirmed)`);
+      const fetchedUtxos = await this.bitcoin.fetchUTXOs(this.config.xcpfolioAddress);
+      console.log(`UTXOs: ${fetchedUtxos.length} (${fetchedUtxos.filter(u => u.status?.confirmed).length} confirmed, ${fetchedUtxos.filter(u => !u.status?.confirmed).length} unconfirmed)`);
 
       // The bot spends BTC on every listing and fulfillment tx and stops
       // silently when the address runs dry - warn well before that happens
-      const totalSats = availableUtxos.reduce((sum, u) => sum + u.value, 0);
+      const totalSats = fetchedUtxos.reduce((sum, u) => sum + u.value, 0);
       const lowBalanceThreshold = parseInt(process.env.LOW_BALANCE_THRESHOLD_SATS || '20000');
       if (totalSats < lowBalanceThreshold) {
         await NotificationService.sendOnce('low-btc-balance', 6 * 3600, '💸 Bot BTC balance is low', 'warning', {
           address: this.config.xcpfolioAddress,
           balanceSats: totalSats,
           thresholdSats: lowBalanceThreshold,
-          utxos: availableUtxos.length
+          utxos: fetchedUtxos.length
         });
       }
+
+      // Leave out UTXOs reserved or already spent by fulfillment or an earlier run
+      let availableUtxos = await this.utxoManager.filterAvailable(fetchedUtxos);
+      if (availableUtxos.length < fetchedUtxos.length) {
+        console.log(`UTXOs in use: ${fetchedUtxos.length - availableUtxos.length} (reserved or spent, not yet seen by mempool.space)`);
+      }
+
+      // 4a. Split or consolidate UTXOs before spending any of them
+      if (!this.config.dryRun) {
+        // An upkeep transaction waiting for signature is planned again from its held inputs
+        const upkeepUtxos = await this.utxoManager.filterAvailable(
+          fetchedUtxos,
+          tracked => tracked.state === 'signing' && (tracked.purpose === 'split' || tracked.purpose === 'consolidate')
+        );
+        const upkeepTxid = await this.manageUtxos(upkeepUtxos, feeRate);
+        if (upkeepTxid) {
+          currentUnconfirmed++;
+          await this.sleep(MAINTENANCE_RETRY_STRATEGY.MEMPOOL_CHECK_DELAY);
+          availableUtxos = await this.fetchAvailableUtxos();
+        }
+      }
       // Track txids we've already used as inputs (spent in this run)
       const spentUtxoKeys = new Set<string>();
 
+      // 4c. Cancel open orders that were delisted or whose configured price changed
+      // A cancel only frees the asset once it confirms, so a re-priced order is
+      // re-created by the listing step of a later run (delisted assets have no
+      // price and stay unlisted). Pending cancels are tracked so an order isn't
+      // cancelled twice while its cancel sits in the mempool.
+      const openOrders = await this.counterparty.getOpenXcpfolioOrders(this.config.xcpfolioAddress);
+
+      // Rule-based prices depend on how long each asset has been listed
+      if (this.pricingEngine) {
+        const listedSince = await this.stateManager.recordListed(openOrders.keys());
+        this.prices = this.pricingEngine.computePrices(listedSince);
+        console.log(`Prices: ${this.prices.size} from pricing rules`);
+      }
+
+      const pendingCancels = await this.stateManager.getPendingCancels();
+      for (const [asset, cancel] of Object.entries(pendingCancels)) {
+        const confirmed = !openOrders.has(asset); // Cancelled (or filled) orders leave the open list
+        const stale = Date.now() - cancel.broadcastTime > MAINTENANCE_RETRY_STRATEGY.STALE_ORDER_AGE;
+        if (confirmed || stale) {
+          await this.stateManager.clearPendingCancel(asset);
+          delete pendingCancels[asset];
+        }
+      }
+
+      const delistings = this.config.delistEnabled ? this.findDelistings(openOrders, pendingCancels) : [];
+      if (delistings.length > 0) {
+        console.log(`\nDelisted assets with open orders: ${delistings.length} (max ${this.config.maxDelistsPerRun} cancels per run)`);
+      }
+
+      const priceChanges = this.config.repriceEnabled ? this.findPriceChanges(openOrders, pendingCancels) : [];
+      if (priceChanges.length > 0) {
+        console.log(`\nPrice changes: ${priceChanges.length} (max ${this.config.maxRepricesPerRun} cancels per run)`);
+      }
+
+      const plannedCancels = [
+        ...delistings.slice(0, this.config.maxDelistsPerRun),
+        ...priceChanges.slice(0, this.config.maxRepricesPerRun),
+      ];
+
+      for (const { asset, order, action, oldPrice, newPrice, reason } of plannedCancels) {
+        console.log(`\n[${action === 'delist' ? 'Delist' : 'Re-price'}] ${reason}`);
+        // Delists report the listed price, re-prices the new one
+        const resultFields = action === 'delist'
+          ? { price: oldPrice, action }
+          : { price: newPrice!, previousPrice: oldPrice, action };
+
+        if (this.config.dryRun) {
+          console.log(`  [DRY RUN] Would cancel${action === 'reprice' ? ' and re-list' : ''}`);
+          results.push({ asset, ...resultFields, success: true, txid: 'dry-run' });
+          continue;
+        }
+
+        if (currentUnconfirmed >= this.config.maxMempoolTxs!) {
+          console.log('  ⚠ Mempool at capacity - stopping cancels');
+          break;
+        }
+
+        const heldUtxo = await this.findHeldInput(`cancel:${order.tx_hash}`, fetchedUtxos, spentUtxoKeys);
+        const nextUtxo = availableUtxos.find(u => !spentUtxoKeys.has(`${u.txid}:${u.vout}`));
+        if (!heldUtxo && !nextUtxo) {
+          console.log('  ⚠ No more UTXOs available - stopping cancels');
+          break;
+        }
+
+        const inputsSet = heldUtxo ?? outpointOf(nextUtxo!);
+        const cancel = await this.broadcastCancel(asset, order, feeRate, reason, inputsSet);
+        results.push({ ...cancel, ...resultFields });
+
+        if (cancel.success) {
+          await this.stateManager.markCancelPending(asset, cancel.txid!, oldPrice, newPrice);
+          spentUtxoKeys.add(inputsSet);
+          currentUnconfirmed++;
+          await this.sleep(MAINTENANCE_RETRY_STRATEGY.MEMPOOL_CHECK_DELAY);
+          availableUtxos = await this.fetchAvailableUtxos();
+        } else if (cancel.awaitingSignature) {
+          spentUtxoKeys.add(inputsSet); // Reserved by the queued PSBT
+        } else if (cancel.budgetExhausted) {
+          console.log('\n🛑 Fee budget exhausted - stopping.');
+          return results;
+        } else if (this.isInsufficientFundsError(cancel.error || '')) {
+          console.log('\n💸 Insufficient BTC - bailing early.');
+          return results;
+        }
+
+        await this.sleep(this.config.waitAfterBroadcast!);
+      }
+
       // 5. Get XCPFOLIO.* balances (assets that need to be listed)
       const balances = await this.counterparty.getXcpfolioBalances(this.config.xcpfolioAddress);
       console.log(`Assets with balance: ${balances.size}`);
 
+      // Keep listing ages only for assets still listed or waiting to be re-listed
+      if (this.pricingEngine) {
+        const unsold = [...balances.keys()].filter(asset => (this.prices.get(asset) ?? 0) > 0);
+        await this.stateManager.pruneListed(new Set([...openOrders.keys(), ...Object.keys(pendingCancels), ...unsold]));
+      }
+
       if (balances.size === 0) {
         console.log('\n✅ No XCPFOLIO.* balances - all assets are listed!');
         return results;
       }
 
       // 6. Get existing orders (confirmed + unconfirmed) to avoid double-broadcasting
-      const [existingOrders, pendingOrders] = await Promise.all([
-        this.counterparty.getOpenOrderAssets(this.config.xcpfolioAddress),
-        this.counterparty.getMempoolOrderAssets(this.config.xcpfolioAddress)
-      ]);
+      const existingOrders = new Set(openOrders.keys());
+      const pendingOrders = await this.counterparty.getMempoolOrderAssets(this.config.xcpfolioAddress);
 
       // Also check our tracked active orders (for orders we just broadcast)
       const activeOrders = await this.stateManager.getActiveOrders();
@@ -235,6 +425,9 @@ export class OrderMaintenanceService {
       console.log(`To process: ${toProcess.length}`);
       console.log(`Skipped: ${skipped.alreadyListed} already listed, ${skipped.noPrice} no price`);
 
+      // Listed, sold or unpriced assets leave the deferred queue
+      await this.stateManager.pruneDeferredListings(new Set(toProcess.map(item => item.asset)));
+
       if (toProcess.length === 0) {
         console.log('\n✅ No assets to list');
         return results;
@@ -242,26 +435,43 @@ export class OrderMaintenanceService {
 
       if (this.config.dryRun) {
         console.log('\n🔍 DRY RUN - no transactions will be broadcast\n');
-        for (const { asset, price } of toProcess.slice(0, 20)) {
+        const deliverable: ToProcess[] = [];
+        for (const item of toProcess) {
+          if (!(await this.skipUndeliverable(item.asset, true))) {
+            deliverable.push(item);
+          }
+        }
+        for (const { asset, price } of deliverable.slice(0, 20)) {
           console.log(`  Would list: ${asset} @ ${price} XCP`);
         }
-        if (toProcess.length > 20) {
-          console.log(`  ... and ${toProcess.length - 20} more`);
+        if (deliverable.length > 20) {
+          console.log(`  ... and ${deliverable.length - 20} more`);
         }
-        return toProcess.map(({ asset, price }) => ({
+        return [...results, ...deliverable.map(({ asset, price }) => ({
           asset,
           price,
+          action: 'list' as const,
           success: true,
           txid: 'dry-run'
-        }));
+        }))];
+      }
+
+      // 7b. Hold listings back while fees are high
+      const toBroadcast = await this.selectListingsToBroadcast(toProcess);
+      const deferred = toProcess.length - toBroadcast.length;
+      if (toBroadcast.length === 0) {
+        // Still report below: this run may have re-priced or delisted
+        console.log(`\n⏸ All ${deferred} listings deferred until fees drop`);
       }
 
       // 8. Process orders sequentially (no in-run retries - failures handled by next cron run)
-      let currentUnconfirmed = unconfirmedCount;
 
       // DEFENSE IN DEPTH: Track pending orders in a mutable Set
       // This gets updated as we process, so we don't need to re-query mempool for each asset
       const pendingOrdersSet = new Set([...pendingOrders]);
+      let undeliverable = 0;
+      let awaitingSignature = 0;
+      let budgetExhausted = false;
 
       // Helper to process a single asset
       const processAsset = async (
@@ -279,9 +489,11 @@ export class OrderMaintenanceService {
           return null; // Signal to stop
         }
 
-        // Check if we have any usable UTXOs (not already spent this run)
+        // Check if we have any usable UTXOs (not already spent this run); a listing
+        // waiting for signature keeps the input its queued PSBT spends
+        const heldUtxo = await this.findHeldInput(`listing:${asset}`, fetchedUtxos, spentUtxoKeys);
         const nextUtxo = availableUtxos.find(u => !spentUtxoKeys.has(`${u.txid}:${u.vout}`));
-        if (!nextUtxo) {
+        if (!heldUtxo && !nextUtxo) {
           console.log('  ⚠ No more UTXOs available - stopping');
           return null; // Signal to stop
         }
@@ -305,6 +517,13 @@ export class OrderMaintenanceService {
           return null;
         }
 
+        // Don't list what we can't deliver - the buyer would pay and the order
+        // would fail fulfillment validation
+        if (await this.skipUndeliverable(asset)) {
+          undeliverable++;
+          return null;
+        }
+
         // CRITICAL: Mark as "in progress" BEFORE composing to prevent race conditions
         // This ensures even if we error out, we won't retry without checking
         processedThisRun.add(asset);
@@ -312,7 +531,9 @@ export class OrderMaintenanceService {
         await this.stateManager.markOrderActive(asset, 'pending', price);
 
         // Capture UTXO key before try/catch so it's accessible in catch for error handling
-        const inputsSet = `${nextUtxo.txid}:${nextUtxo.vout}`;
+        // Reserved so fulfillment doesn't pick it while we compose and sign
+        const inputsSet = heldUtxo ?? outpointOf(nextUtxo!);
+        await this.utxoManager.reserve([inputsSet], 'listing');
 
         try {
           // Compose order
@@ -332,35 +553,71 @@ export class OrderMaintenanceService {
 
           // Sign transaction
           console.log('  Signing...');
-          const signedTx = await this.bitcoin.signTransaction(
-            rawTx,
-            this.config.xcpfolioAddress,
-            this.config.privateKey
-          );
+          const signedTx = await this.getSigner().sign(rawTx, this.config.xcpfolioAddress, {
+            key: `listing:${asset}`,
+            kind: 'listing',
+            description: `List ${asset} @ ${price} XCP`
+          });
           console.log(`  Signed: ${signedTx.vsize} vbytes, ${signedTx.fee} sats`);
+          const reservation = await this.spendLedger.reserve('listing', signedTx.fee, `listing of ${asset}`);
 
           // Broadcast
           console.log('  Broadcasting...');
-          const txid = await this.bitcoin.broadcastTransaction(signedTx.hex);
+          const logEntry = { kind: 'listing' as const, reason: `List ${asset} @ ${price} XCP`, asset };
+          let txid: string;
+          try {
+            txid = await this.bitcoin.broadcastTransaction(signedTx.hex);
+          } catch (broadcastError) {
+            await this.spendLedger.release(reservation);
+            await this.broadcastLog.record({
+              ...logEntry,
+              success: false,
+              error: broadcastError instanceof Error ? broadcastError.message : String(broadcastError)
+            }, signedTx);
+            throw broadcastError;
+          }
+          await this.broadcastLog.record({ ...logEntry, success: true, txid }, signedTx);
+          await this.spendLedger.commit(reservation, txid);
           console.log(`  Broadcast: ${txid}`);
 
           // Update Redis state with actual txid
           await this.stateManager.markOrderActive(asset, txid, price);
+          await this.stateManager.clearDeferredListing(asset);
 
-          // Mark the input UTXO as spent and re-fetch to find change output for chaining
+          // Mark the input UTXO as spent
           spentUtxoKeys.add(inputsSet);
+          await this.utxoManager.markSpent(signedTx.inputs, 'listing', txid);
           currentUnconfirmed++;
 
-          // Re-fetch UTXOs from mempool.space (sees unconfirmed immediately)
-          // This picks up the change output from the tx we just broadcast
-          await this.sleep(MAINTENANCE_RETRY_STRATEGY.MEMPOOL_CHECK_DELAY);
-          availableUtxos = await this.bitcoin.fetchUTXOs(this.config.xcpfolioAddress);
+          // Once every UTXO we started with is spent, re-fetch from mempool.space
+          // (sees unconfirmed immediately) to chain off the change outputs
+          if (!availableUtxos.some(u => !spentUtxoKeys.has(outpointOf(u)))) {
+            await this.sleep(MAINTENANCE_RETRY_STRATEGY.MEMPOOL_CHECK_DELAY);
+            availableUtxos = await this.fetchAvailableUtxos();
+          }
           const newUtxoCount = availableUtxos.filter(u => !spentUtxoKeys.has(`${u.txid}:${u.vout}`)).length;
           console.log(`  ✅ Broadcast OK. UTXOs available for next order: ${newUtxoCount}`);
 
-          return { asset, price, success: true, txid };
+          return { asset, price, action: 'list', success: true, txid };
 
         } catch (err: any) {
+          if (err instanceof SignaturePendingError) {
+            // Nothing was broadcast - the next run lists it once it's signed
+            console.log(`  ✍️ ${err.message}`);
+            await this.stateManager.clearActiveOrder(asset);
+            spentUtxoKeys.add(inputsSet); // Reserved by the queued PSBT
+            awaitingSignature++;
+            return null;
+          }
+          if (err instanceof SpendLimitError) {
+            // Nothing was broadcast - listed again once the budget frees up
+            console.log(`  🛑 ${err.message}`);
+            await this.stateManager.clearActiveOrder(asset);
+            await this.utxoManager.release([inputsSet]);
+            budgetExhausted = true;
+            return null;
+          }
+
           const msg = err.message || String(err);
           console.log(`  ❌ ${msg}`);
 
@@ -373,10 +630,12 @@ export class OrderMaintenanceService {
             console.log('  ✅ Order found in mempool despite error - success');
             // UTXO was spent by this tx even though we got an error
             spentUtxoKeys.add(inputsSet);
+            await this.utxoManager.markSpent([inputsSet], 'listing');
+            await this.stateManager.clearDeferredListing(asset);
             currentUnconfirmed++;
             // Re-fetch UTXOs so we can chain the next order off the change
-            availableUtxos = await this.bitcoin.fetchUTXOs(this.config.xcpfolioAddress);
-            return { asset, price, success: true, txid: 'found-in-mempool' };
+            availableUtxos = await this.fetchAvailableUtxos();
+            return { asset, price, action: 'list', success: true, txid: 'found-in-mempool' };
           }
 
           // Asset stays marked in Redis - NEVER clear it here
@@ -386,7 +645,7 @@ export class OrderMaintenanceService {
           // Check for insufficient BTC - bail completely
           if (this.isInsufficientFundsError(msg)) {
             console.log('\n💸 Insufficient BTC - bailing early.');
-            return { asset, price, success: false, error: msg };
+            return { asset, price, action: 'list', success: false, error: msg };
           }
 
           // Check for UTXO-related errors - mark this UTXO as spent
@@ -394,22 +653,28 @@ export class OrderMaintenanceService {
                               (msg.toLowerCase().includes('not found') || msg.toLowerCase().includes('spent'));
           if (isUtxoError) {
             spentUtxoKeys.add(inputsSet); // Don't reuse this UTXO
+            await this.utxoManager.markSpent([inputsSet], 'listing');
             consecutiveUtxoFailures++;
             console.log(`  Marked UTXO spent, consecutive failures: ${consecutiveUtxoFailures}`);
+          } else {
+            await this.utxoManager.release([inputsSet]);
           }
 
-          return { asset, price, success: false, error: msg };
+          return { asset, price, action: 'list', success: false, error: msg };
         }
       };
 
       // Process each asset once - no in-run retries (like fulfillment service)
-      for (let i = 0; i < toProcess.length; i++) {
-        const { asset, price } = toProcess[i];
-        const result = await processAsset(asset, price, i, toProcess.length);
+      for (let i = 0; i < toBroadcast.length; i++) {
+        const { asset, price } = toBroadcast[i];
+        const result = await processAsset(asset, price, i, toBroadcast.length);
 
         if (result === null) {
-          // Check if this is a stop condition (mempool full, no UTXOs) or just a skip (duplicate)
-          if (currentUnconfirmed >= this.config.maxMempoolTxs!) {
+          // Check if this is a stop condition (mempool full, no UTXOs, fee budget) or just a skip (duplicate)
+          if (budgetExhausted) {
+            console.log(`Stopping: fee budget exhausted`);
+            break;
+          } else if (currentUnconfirmed >= this.config.maxMempoolTxs!) {
             console.log(`Stopping: mempool at capacity`);
             break;
           } else if (!availableUtxos.some(u => !spentUtxoKeys.has(`${u.txid}:${u.vout}`))) {
@@ -440,24 +705,38 @@ export class OrderMaintenanceService {
       }
 
       // Summary
-      const successful = results.filter(r => r.success).length;
-      const failed = results.filter(r => !r.success).length;
-      const notProcessed = toProcess.length - results.length;
+      const listings = results.filter(r => r.action === 'list');
+      const successful = listings.filter(r => r.success).length;
+      const failed = listings.filter(r => !r.success).length;
+      const repriced = results.filter(r => r.action === 'reprice' && r.success).length;
+      const delisted = results.filter(r => r.action === 'delist' && r.success).length;
+      const notProcessed = toBroadcast.length - listings.length - undeliverable - awaitingSignature;
       const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
 
       console.log('\n' + '═'.repeat(60));
       console.log('  SUMMARY');
       console.log('═'.repeat(60));
       console.log(`  Created: ${successful} orders`);
+      console.log(`  Re-priced: ${repriced} (cancelled, re-listed once confirmed)`);
+      console.log(`  Delisted: ${delisted} (cancelled, no longer priced)`);
       console.log(`  Failed: ${failed} (will retry next run)`);
+      console.log(`  Undeliverable: ${undeliverable} (skipped, see failed assets)`);
+      if (deferred > 0) {
+        console.log(`  Deferred: ${deferred} (waiting for lower fees)`);
+      }
+      if (awaitingSignature > 0) {
+        console.log(`  Awaiting signature: ${awaitingSignature} (queued for manual signing)`);
+      }
       console.log(`  Not processed: ${notProcessed} (mempool full or bailed)`);
       console.log(`  Duration: ${elapsed}s`);
       console.log('═'.repeat(60) + '\n');
 
       // Notify if orders were created
-      if (successful > 0) {
+      if (successful > 0 || repriced > 0 || delisted > 0) {
         await NotificationService.success('📦 Order maintenance complete', {
           created: successful,
+          repriced,
+          delisted,
           failed,
           notProcessed,
           duration: elapsed
@@ -479,6 +758,257 @@ export class OrderMaintenanceService {
     }
   }
 
+  /**
+   * Cancel our open listing for an asset
+   *
+   * Takes the maintenance lock so the cancel can't race a listing run for the
+   * same UTXOs. Once the cancel confirms, the asset is back in our balance and
+   * the next run re-lists it if it still has a price.
+   */
+  async cancelListing(asset: string): Promise<MaintenanceResult> {
+    const lockAcquired = await this.stateManager.acquireLock(75);
+    if (!lockAcquired) {
+      return { asset, price: 0, success: false, error: 'Order maintenance is running, try again shortly' };
+    }
+
+    try {
+      const order = await this.counterparty.getOpenOrderForAsset(this.config.xcpfolioAddress, asset);
+      if (!order) {
+        return { asset, price: 0, success: false, error: `No open order found for ${asset}` };
+      }
+
+      const price = order.get_quantity / 100000000;
+      console.log(`[${this.timestamp()}] Cancelling ${asset} @ ${price} XCP (order ${order.tx_hash})`);
+
+      if (this.config.dryRun) {
+        console.log('  [DRY RUN] Would cancel order');
+        return { asset, price, success: true, txid: 'dry-run' };
+      }
+
+      const feeRate = await this.bitcoin.getActualMinimumFeeRate();
+      return await this.broadcastCancel(asset, order, feeRate, `Cancel listing ${asset} (order ${order.tx_hash})`);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.error(`[${this.timestamp()}] Cancel failed for ${asset}: ${msg}`);
+      return { asset, price: 0, success: false, error: msg };
+    } finally {
+      await this.stateManager.releaseLock();
+    }
+  }
+
+  /**
+   * Compose, sign and broadcast a cancel for one of our open orders
+   * Caller must hold the maintenance lock. Never throws.
+   */
+  private async broadcastCancel(
+    asset: string,
+    order: Order,
+    feeRate: number,
+    reason: string,
+    inputsSet?: string
+  ): Promise<MaintenanceResult> {
+    const price = order.get_quantity / 100000000;
+
+    try {
+      console.log('  Composing cancel...');
+      const rawTx = await this.counterparty.composeCancel(
+        this.config.xcpfolioAddress,
+        order.tx_hash,
+        feeRate,
+        inputsSet
+      );
+
+      console.log('  Signing...');
+      const signedTx = await this.getSigner().sign(rawTx, this.config.xcpfolioAddress, {
+        key: `cancel:${order.tx_hash}`,
+        kind: 'cancel',
+        description: reason
+      });
+      const reservation = await this.spendLedger.reserve('cancel', signedTx.fee, `cancel of ${asset}`);
+
+      console.log('  Broadcasting...');
+      let txid: string;
+      try {
+        txid = await this.bitcoin.broadcastTransaction(signedTx.hex);
+      } catch (broadcastError) {
+        await this.spendLedger.release(reservation);
+        await this.broadcastLog.record({
+          kind: 'cancel',
+          reason,
+          asset,
+          success: false,
+          error: broadcastError instanceof Error ? broadcastError.message : String(broadcastError)
+        }, signedTx);
+        throw broadcastError;
+      }
+      await this.broadcastLog.record({ kind: 'cancel', reason, asset, success: true, txid }, signedTx);
+      await this.spendLedger.commit(reservation, txid);
+      await this.utxoManager.markSpent(signedTx.inputs, 'cancel', txid);
+      console.log(`  Cancel broadcast: ${txid}`);
+
+      await this.stateManager.clearActiveOrder(asset);
+      return { asset, price, success: true, txid };
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (error instanceof SignaturePendingError) {
+        console.log(`  ✍️ ${msg}`);
+        return { asset, price, success: false, error: msg, awaitingSignature: true };
+      }
+      if (error instanceof SpendLimitError) {
+        console.log(`  🛑 ${msg}`);
+        return { asset, price, success: false, error: msg, budgetExhausted: true };
+      }
+      console.log(`  ❌ Cancel failed: ${msg}`);
+      return { asset, price, success: false, error: msg };
+    }
+  }
+
+  /**
+   * Check that we can deliver the underlying asset if a listing sells
+   * Same rules as fulfillment validation: we must own the asset and it must
+   * not be locked.
+   *
+   * @returns Why the asset can't be delivered, or null if it can
+   */
+  private async checkDeliverable(asset: string): Promise<string | null> {
+    const assetInfo = await this.counterparty.getAssetInfo(asset);
+
+    if (assetInfo.owner !== this.config.xcpfolioAddress) {
+      return `We don't own ${asset} (owned by ${assetInfo.owner})`;
+    }
+    if (assetInfo.locked) {
+      return `Asset ${asset} is locked`;
+    }
+    return null;
+  }
+
+  /**
+   * Run the deliverability check before listing an asset
+   * Undeliverable assets are recorded as 'undeliverable' failures and re-checked
+   * every run; the failure is cleared once the asset passes again.
+   *
+   * @param readOnly - Only report (dry runs): no failure tracking or alerts
+   * @returns true if the asset must not be listed this run
+   */
+  private async skipUndeliverable(asset: string, readOnly: boolean = false): Promise<boolean> {
+    let problem: string | null;
+    try {
+      problem = await this.checkDeliverable(asset);
+    } catch (error) {
+      // Can't verify - skip for now, the next run checks again
+      console.log(`  ⚠ Could not verify ownership of ${asset}: ${error instanceof Error ? error.message : String(error)}`);
+      return true;
+    }
+
+    if (readOnly) {
+      if (problem) console.log(`  ⏭ Undeliverable - ${problem}`);
+      return problem !== null;
+    }
+
+    const failure = await this.stateManager.getFailure(asset);
+
+    if (!problem) {
+      if (failure?.reason === 'undeliverable') {
+        await this.stateManager.clearFailure(asset);
+      }
+      return false;
+    }
+
+    console.log(`  ⏭ Undeliverable - ${problem}`);
+    await this.stateManager.trackFailure(asset, problem, 'undeliverable');
+    await NotificationService.sendOnce(
+      `undeliverable:${asset}`,
+      TIME.DAY / 1000,
+      `🚫 Not listing XCPFOLIO.${asset}: underlying asset can't be delivered`,
+      'warning',
+      { asset, reason: problem }
+    );
+    return true;
+  }
+
+  /**
+   * Find open orders whose price differs from the configured price
+   * Assets without a configured price are left alone.
+   */
+  private findPriceChanges(
+    openOrders: Map<string, Order>,
+    pendingCancels: Record<string, unknown>
+  ): PlannedCancel[] {
+    const changes: PlannedCancel[] = [];
+
+    for (const [asset, order] of openOrders) {
+      if (pendingCancels[asset]) continue;
+
+      const newPrice = this.prices.get(asset);
+      if (!newPrice || newPrice <= 0) continue;
+
+      // Compare in base units (XCP has 8 decimals), as the order was composed
+      const oldPrice = order.get_quantity / 100000000;
+      if (Math.round(newPrice * 100000000) !== order.get_quantity) {
+        changes.push({
+          asset,
+          order,
+          action: 'reprice',
+          oldPrice,
+          newPrice,
+          reason: `Re-price ${asset}: ${oldPrice} -> ${newPrice} XCP`
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Find open orders for assets that have no configured price or are withdrawn
+   * Does nothing when no priced assets are loaded, so a missing or unreadable
+   * price file can't cancel every listing.
+   */
+  private findDelistings(
+    openOrders: Map<string, Order>,
+    pendingCancels: Record<string, unknown>
+  ): PlannedCancel[] {
+    const pricedAssets = [...this.prices.values()].filter(price => price > 0).length;
+    if (pricedAssets === 0) {
+      if (openOrders.size > 0) {
+        console.log(`\n⚠ No priced assets loaded - skipping delisting of ${openOrders.size} open orders`);
+      }
+      return [];
+    }
+
+    const delistings: PlannedCancel[] = [];
+
+    for (const [asset, order] of openOrders) {
+      if (pendingCancels[asset]) continue;
+
+      const price = this.prices.get(asset);
+      if (price !== undefined && price > 0) continue;
+
+      const oldPrice = order.get_quantity / 100000000;
+      delistings.push({
+        asset,
+        order,
+        action: 'delist',
+        oldPrice,
+        reason: `Delist ${asset} @ ${oldPrice} XCP (${price === undefined ? 'no configured price' : 'withdrawn'})`
+      });
+    }
+
+    return delistings;
+  }
+
+  /**
+   * Clear a failed listing attempt for an asset
+   *
+   * A failed broadcast leaves the asset marked active for 2 hours (see run()),
+   * so clearing both the failure and the marker lets the next run retry it.
+   * Confirmed and mempool orders are still checked before re-listing.
+   */
+  async clearFailure(asset: string): Promise<void> {
+    await this.stateManager.clearFailure(asset);
+    await this.stateManager.clearActiveOrder(asset);
+  }
+
   /**
    * Check if error indicates insufficient BTC
    */
@@ -503,6 +1033,7 @@ export class OrderMaintenanceService {
     lastRun: number;
     activeOrders: number;
     failedAssets: number;
+    deferredListings: number;
   }> {
     const state = await this.stateManager.getState();
     return {
@@ -511,9 +1042,138 @@ export class OrderMaintenanceService {
       lastRun: state.lastRun,
       activeOrders: Object.keys(state.activeOrders).length,
       failedAssets: Object.keys(state.failedAssets).length,
+      deferredListings: Object.keys(state.deferredListings || {}).length,
     };
   }
 
+  /**
+   * Pick the listings to broadcast now, queueing the rest until fees drop
+   * Compares the projected next block's median fee from mempool-blocks with
+   * listingTargetFeeRate. A listing past its deadline goes out regardless;
+   * if the forecast can't be fetched nothing is held back.
+   */
+  private async selectListingsToBroadcast(toProcess: ToProcess[]): Promise<ToProcess[]> {
+    const target = this.config.listingTargetFeeRate!;
+    if (target <= 0) return toProcess;
+
+    let projected: number;
+    try {
+      projected = (await this.bitcoin.getProjectedBlockFeeRates())[0] ?? 0;
+    } catch (error) {
+      console.warn('Fee forecast unavailable, not deferring listings:', error instanceof Error ? error.message : String(error));
+      return toProcess;
+    }
+
+    if (projected <= target) {
+      console.log(`Projected next block: ${projected.toFixed(2)} sat/vB (target ${target}) - listing now`);
+      return toProcess;
+    }
+
+    const queued = await this.stateManager.deferListings(toProcess, this.config.listingMaxDeferHours! * TIME.HOUR);
+    const now = Date.now();
+    const overdue = new Set(queued.filter(entry => now >= entry.deadline).map(entry => entry.asset));
+    console.log(`Projected next block: ${projected.toFixed(2)} sat/vB above target ${target} - deferring ${toProcess.length - overdue.size} listings`);
+    if (overdue.size > 0) {
+      console.log(`Past deferral deadline, listing anyway: ${[...overdue].join(', ')}`);
+    }
+    return toProcess.filter(item => overdue.has(item.asset));
+  }
+
+  /**
+   * Current UTXO set and the outpoints tracked as reserved or spent
+   */
+  async getUtxoStatus(): Promise<UtxoStatus> {
+    return this.utxoManager.getStatus(await this.bitcoin.fetchUTXOs(this.config.xcpfolioAddress));
+  }
+
+  /**
+   * Re-fetch UTXOs from mempool.space, minus those reserved or spent
+   */
+  private async fetchAvailableUtxos(): Promise<UTXO[]> {
+    return this.utxoManager.filterAvailable(await this.bitcoin.fetchUTXOs(this.config.xcpfolioAddress));
+  }
+
+  /**
+   * Input held for a signing request that is still unspent, to compose it again from
+   */
+  private async findHeldInput(signingKey: string, utxos: UTXO[], spentUtxoKeys: Set<string>): Promise<string | undefined> {
+    return (await this.utxoManager.getHeld(signingKey))
+      .find(outpoint => !spentUtxoKeys.has(outpoint) && utxos.some(u => outpointOf(u) === outpoint));
+  }
+
+  /**
+   * Broadcast a UTXO split or dust consolidation if one is due
+   * UTXOs carrying Counterparty balances are never touched. Failures are
+   * logged and don't stop the run.
+   *
+   * @returns The broadcast txid, or null if nothing was broadcast
+   */
+  private async manageUtxos(utxos: UTXO[], feeRate: number): Promise<string | null> {
+    const plan = (candidates: UTXO[]): UtxoPlan | null =>
+      this.utxoManager.planSplit(candidates, feeRate) || this.utxoManager.planConsolidation(candidates, feeRate);
+
+    try {
+      if (!plan(utxos)) return null;
+
+      const withBalances = await this.counterparty.getUtxosWithBalances(this.config.xcpfolioAddress);
+      const upkeep = plan(utxos.filter(u => !withBalances.has(outpointOf(u))));
+      if (!upkeep) return null;
+
+      const inputs = upkeep.inputs.map(outpointOf);
+      const description = upkeep.action === 'split'
+        ? `Split ${upkeep.inputs[0].value} sats into ${upkeep.outputs.length} UTXOs`
+        : `Consolidate ${upkeep.inputs.length} dust UTXOs at ${feeRate} sat/vB`;
+      console.log(`\n[UTXOs] ${description}`);
+
+      const signedTx = await this.getSigner().sign(
+        this.utxoManager.buildTransaction(upkeep),
+        this.config.xcpfolioAddress,
+        { key: `${upkeep.action}:${inputs[0]}`, kind: upkeep.action, description }
+      );
+      const reservation = await this.spendLedger.reserve(upkeep.action, signedTx.fee, description.toLowerCase());
+
+      let txid: string;
+      try {
+        txid = await this.bitcoin.broadcastTransaction(signedTx.hex);
+      } catch (broadcastError) {
+        await this.spendLedger.release(reservation);
+        await this.broadcastLog.record({
+          kind: upkeep.action,
+          reason: description,
+          success: false,
+          error: broadcastError instanceof Error ? broadcastError.message : String(broadcastError)
+        }, signedTx);
+        throw broadcastError;
+      }
+      await this.broadcastLog.record({ kind: upkeep.action, reason: description, success: true, txid }, signedTx);
+      await this.spendLedger.commit(reservation, txid);
+      await this.utxoManager.markSpent(signedTx.inputs, upkeep.action, txid);
+      console.log(`  ✅ ${upkeep.action === 'split' ? 'Split' : 'Consolidation'} broadcast: ${txid}`);
+      return txid;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      if (error instanceof SignaturePendingError) {
+        console.log(`  ✍️ ${msg}`);
+      } else if (error instanceof SpendLimitError) {
+        console.log(`  🛑 ${msg}`);
+      } else {
+        console.log(`  ⚠ UTXO upkeep failed: ${msg}`);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * The configured signer, or the WIF key signing in-process
+   */
+  private getSigner(): Signer {
+    if (this.config.signer) return this.config.signer;
+    if (!this.config.privateKey) {
+      throw new Error('No signer configured (set privateKey or signer)');
+    }
+    return new WifSigner(this.bitcoin, this.config.privateKey);
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -6,10 +6,21 @@ export interface AssetPrice {
   price: number;
 }
 
+/**
+ * Price recorded for assets explicitly marked "withdrawn" in a price source.
+ * Withdrawn assets are never listed and their open orders are cancelled.
+ */
+export const WITHDRAWN_PRICE = 0;
+
+function isWithdrawn(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().toLowerCase() === 'withdrawn';
+}
+
 /**
  * Load prices from a JSON file
  * Expected format: [{ "asset": "NAME", "price": 5 }, ...]
  * Or: { "NAME": 5, "NAME2": 10, ... }
+ * A price of "withdrawn" (or "withdrawn": true in array format) delists the asset.
  */
 export function loadPricesFromJson(filePath: string): Map<string, number> {
   const prices = new Map<string, number>();
@@ -26,14 +37,18 @@ export function loadPricesFromJson(filePath: string): Map<string, number> {
     if (Array.isArray(data)) {
       // Array format: [{ asset, price }, ...]
       for (const item of data) {
-        if (item.asset && typeof item.price === 'number' && item.price > 0) {
+        if (item.asset && (item.withdrawn === true || isWithdrawn(item.price))) {
+          prices.set(item.asset, WITHDRAWN_PRICE);
+        } else if (item.asset && typeof item.price === 'number' && item.price > 0) {
           prices.set(item.asset, item.price);
         }
       }
     } else if (typeof data === 'object') {
       // Object format: { ASSET: price, ... }
       for (const [asset, price] of Object.entries(data)) {
-        if (typeof price === 'number' && price > 0) {
+        if (isWithdrawn(price)) {
+          prices.set(asset, WITHDRAWN_PRICE);
+        } else if (typeof price === 'number' && price > 0) {
           prices.set(asset, price);
         }
       }
@@ -50,6 +65,7 @@ export function loadPricesFromJson(filePath: string): Map<string, number> {
 /**
  * Load prices from CSV file
  * Expected format: asset,length,category,keyword,first issued,ask price
+ * An ask price of "withdrawn" delists the asset.
  */
 export function loadPricesFromCsv(filePath: string): Map<string, number> {
   const prices = new Map<string, number>();
@@ -68,6 +84,10 @@ export function loadPricesFromCsv(filePath: string): Map<string, number> {
       const parts = lines[i].split(',');
       if (parts.length >= 6) {
         const asset = parts[0].trim();
+        if (asset && isWithdrawn(parts[5])) {
+          prices.set(asset, WITHDRAWN_PRICE);
+          continue;
+        }
         const price = parseFloat(parts[5].trim()); // "ask price" column
         if (asset && !isNaN(price) && price > 0) {
           prices.set(asset, price);
@@ -85,7 +105,7 @@ export function loadPricesFromCsv(filePath: string): Map<string, number> {
 
 /**
  * Load prices from environment variable
- * Format: ASSET1:PRICE1,ASSET2:PRICE2,...
+ * Format: ASSET1:PRICE1,ASSET2:PRICE2,... (PRICE may be "withdrawn")
  */
 export function loadPricesFromEnv(envVar: string = 'ASSET_PRICES'): Map<string, number> {
   const prices = new Map<string, number>();
@@ -99,6 +119,10 @@ export function loadPricesFromEnv(envVar: string = 'ASSET_PRICES'): Map<string,
     const pairs = value.split(',');
     for (const pair of pairs) {
       const [asset, priceStr] = pair.split(':');
+      if (asset && isWithdrawn(priceStr)) {
+        prices.set(asset.trim(), WITHDRAWN_PRICE);
+        continue;
+      }
       const price = parseFloat(priceStr);
       if (asset && !isNaN(price) && price > 0) {
         prices.set(asset.trim(), price);
@@ -0,0 +1,289 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { WITHDRAWN_PRICE } from './prices';
+
+/**
+ * Per-asset columns from the price CSV
+ * (asset,length,category,keyword,first issued,ask price)
+ */
+export interface AssetMetadata {
+  asset: string;
+  length: number;
+  category?: string;
+  keyword?: string;
+  firstIssued?: number; // Unix seconds
+}
+
+/**
+ * Time-based markdown for listings that haven't sold
+ * After `afterDays` the price drops by `percent`, and by another `percent`
+ * every `everyDays` after that (single step if unset), up to `maxPercent`.
+ */
+export interface MarkdownRule {
+  afterDays: number;
+  percent: number;
+  everyDays?: number;
+  maxPercent?: number;  // Default: 50
+  minPrice?: number;    // XCP floor; never raises a price above its base
+}
+
+/**
+ * Pricing rules (pricing-rules.json)
+ *
+ * Precedence: override > fixed price from the price list > category > length.
+ * Category and length prices only price assets the price list has no price
+ * for, and only with priceUnpricedAssets set - otherwise an unpriced asset
+ * in the CSV would start being listed.
+ * Markdowns apply to every rule-based or fixed price, never to overrides.
+ */
+export interface PricingRules {
+  lengthPrices?: Record<string, number>;   // "6": 10, or "8+": 5 for 8 and longer
+  categoryPrices?: Record<string, number>; // Case-insensitive category names
+  priceUnpricedAssets?: boolean;           // Let category/length prices list unpriced assets (default: false)
+  markdown?: MarkdownRule;
+  overrides?: Record<string, number | 'withdrawn'>;
+}
+
+export type PriceSource = 'override' | 'category' | 'length' | 'fixed';
+
+export interface PriceQuote {
+  asset: string;
+  price: number;          // XCP, or WITHDRAWN_PRICE
+  basePrice: number;      // Before markdown
+  source: PriceSource;
+  markdownPercent: number;
+  listedDays?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rule-based prices for XCPFOLIO.* listings
+ *
+ * Stateless: listing ages are passed in by the caller (OrderMaintenanceService
+ * tracks them in maintenance state), so the same engine backs both the live
+ * maintenance run and the preview script.
+ */
+export class PricingEngine {
+  private rules: PricingRules;
+  private fixedPrices: Map<string, number>;
+  private metadata: Map<string, AssetMetadata>;
+  private categoryPrices: Map<string, number>;
+
+  constructor(
+    rules: PricingRules,
+    fixedPrices: Map<string, number> = new Map(),
+    metadata: Map<string, AssetMetadata> = new Map()
+  ) {
+    this.rules = rules;
+    this.fixedPrices = fixedPrices;
+    this.metadata = metadata;
+    this.categoryPrices = new Map(
+      Object.entries(rules.categoryPrices || {}).map(([category, price]) => [category.toLowerCase(), price])
+    );
+  }
+
+  /**
+   * Price a single asset
+   *
+   * @param listedSince - Epoch ms the asset was first listed (enables markdown)
+   * @returns null if no rule or fixed price applies
+   */
+  quote(asset: string, listedSince?: number, now: number = Date.now()): PriceQuote | null {
+    const listedDays = listedSince ? (now - listedSince) / DAY_MS : undefined;
+
+    const override = this.rules.overrides?.[asset];
+    if (override !== undefined) {
+      const price = override === 'withdrawn' ? WITHDRAWN_PRICE : override;
+      return { asset, price, basePrice: price, source: 'override', markdownPercent: 0, listedDays };
+    }
+
+    // Explicitly withdrawn in the price list - rules don't bring it back
+    if (this.fixedPrices.get(asset) === WITHDRAWN_PRICE) {
+      return { asset, price: WITHDRAWN_PRICE, basePrice: WITHDRAWN_PRICE, source: 'fixed', markdownPercent: 0, listedDays };
+    }
+
+    const base = this.basePrice(asset);
+    if (!base) return null;
+
+    const markdownPercent = this.markdownPercent(listedDays);
+    return {
+      asset,
+      price: this.applyMarkdown(base.price, markdownPercent),
+      basePrice: base.price,
+      source: base.source,
+      markdownPercent,
+      listedDays
+    };
+  }
+
+  /**
+   * Price every known asset (price list, CSV metadata and overrides)
+   */
+  quoteAll(listedSince: Record<string, number> = {}, now: number = Date.now()): PriceQuote[] {
+    const assets = new Set([
+      ...this.fixedPrices.keys(),
+      ...this.metadata.keys(),
+      ...Object.keys(this.rules.overrides || {})
+    ]);
+
+    const quotes: PriceQuote[] = [];
+    for (const asset of assets) {
+      const quote = this.quote(asset, listedSince[asset], now);
+      if (quote) quotes.push(quote);
+    }
+    return quotes;
+  }
+
+  /**
+   * Price map in the format OrderMaintenanceService.setPrices() expects
+   */
+  computePrices(listedSince: Record<string, number> = {}, now: number = Date.now()): Map<string, number> {
+    return new Map(this.quoteAll(listedSince, now).map(q => [q.asset, q.price]));
+  }
+
+  private basePrice(asset: string): { price: number; source: PriceSource } | null {
+    const fixed = this.fixedPrices.get(asset);
+    if (fixed && fixed > 0) {
+      return { price: fixed, source: 'fixed' };
+    }
+    if (!this.rules.priceUnpricedAssets) {
+      return null;
+    }
+
+    const meta = this.metadata.get(asset);
+    const categoryPrice = meta?.category ? this.categoryPrices.get(meta.category.toLowerCase()) : undefined;
+    if (categoryPrice && categoryPrice > 0) {
+      return { price: categoryPrice, source: 'category' };
+    }
+
+    const lengthPrice = this.lengthPrice(meta?.length || asset.length);
+    if (lengthPrice && lengthPrice > 0) {
+      return { price: lengthPrice, source: 'length' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Exact length match wins, otherwise the longest "N+" bucket that fits
+   */
+  private lengthPrice(length: number): number | undefined {
+    const lengthPrices = this.rules.lengthPrices || {};
+    if (lengthPrices[String(length)] !== undefined) {
+      return lengthPrices[String(length)];
+    }
+
+    let best: { min: number; price: number } | undefined;
+    for (const [key, price] of Object.entries(lengthPrices)) {
+      const match = key.match(/^(\d+)\+$/);
+      if (!match) continue;
+      const min = parseInt(match[1]);
+      if (min <= length && (!best || min > best.min)) {
+        best = { min, price };
+      }
+    }
+    return best?.price;
+  }
+
+  private markdownPercent(listedDays: number | undefined): number {
+    const rule = this.rules.markdown;
+    if (!rule || listedDays === undefined || listedDays < rule.afterDays) return 0;
+
+    const steps = rule.everyDays && rule.everyDays > 0
+      ? Math.floor((listedDays - rule.afterDays) / rule.everyDays) + 1
+      : 1;
+    return Math.min(steps * rule.percent, rule.maxPercent ?? 50);
+  }
+
+  private applyMarkdown(basePrice: number, percent: number): number {
+    if (percent <= 0) return basePrice;
+
+    const floor = Math.min(this.rules.markdown?.minPrice ?? 0, basePrice);
+    const price = Math.max(basePrice * (1 - percent / 100), floor);
+    return Math.round(price * 100000000) / 100000000; // XCP has 8 decimals
+  }
+}
+
+/**
+ * Load pricing rules from a JSON file
+ * Returns null if the file doesn't exist (rules are optional).
+ */
+export function loadPricingRules(filePath: string): PricingRules | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const rules = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as PricingRules;
+    console.log(`[Pricing] Loaded rules from ${filePath}`);
+    return rules;
+  } catch (error) {
+    console.error(`[Pricing] Error loading ${filePath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Load per-asset metadata from the price CSV
+ * Expected format: asset,length,category,keyword,first issued,ask price
+ */
+export function loadAssetMetadataFromCsv(filePath: string): Map<string, AssetMetadata> {
+  const metadata = new Map<string, AssetMetadata>();
+
+  if (!fs.existsSync(filePath)) {
+    return metadata;
+  }
+
+  try {
+    const lines = fs.readFileSync(filePath, 'utf-8').trim().split('\n');
+
+    // Skip header
+    for (let i = 1; i < lines.length; i++) {
+      const parts = lines[i].split(',').map(part => part.trim());
+      const asset = parts[0];
+      if (!asset) continue;
+
+      const length = parseInt(parts[1]);
+      const firstIssued = parseInt(parts[4]);
+      metadata.set(asset, {
+        asset,
+        length: isNaN(length) ? asset.length : length,
+        category: parts[2] || undefined,
+        keyword: parts[3] || undefined,
+        firstIssued: isNaN(firstIssued) ? undefined : firstIssued,
+      });
+    }
+
+    console.log(`[Pricing] Loaded metadata for ${metadata.size} assets from ${filePath}`);
+  } catch (error) {
+    console.error(`[Pricing] Error loading metadata from ${filePath}:`, error);
+  }
+
+  return metadata;
+}
+
+/**
+ * Build a pricing engine from pricing-rules.json (or PRICING_RULES_PATH)
+ * Returns null when no rules are configured, leaving fixed prices in effect.
+ *
+ * @param fixedPrices - Prices from loadPrices(), used as the fallback
+ */
+export function createPricingEngine(
+  fixedPrices: Map<string, number>,
+  options?: { rulesPath?: string; csvPath?: string }
+): PricingEngine | null {
+  const cwd = process.cwd();
+  const rules = loadPricingRules(
+    options?.rulesPath || process.env.PRICING_RULES_PATH || path.join(cwd, 'pricing-rules.json')
+  );
+  if (!rules) return null;
+
+  // Same CSV locations as loadPrices()
+  let metadata = loadAssetMetadataFromCsv(options?.csvPath || path.join(cwd, 'subassets_priced.csv'));
+  if (metadata.size === 0) {
+    metadata = loadAssetMetadataFromCsv(path.join(cwd, '..', 'subassets_priced.csv'));
+  }
+
+  return new PricingEngine(rules, fixedPrices, metadata);
+}
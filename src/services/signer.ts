@@ -0,0 +1,329 @@
+/**
+ * Transaction signers
+ *
+ * FulfillmentProcessor and OrderMaintenanceService compose transactions with
+ * Counterparty and hand them to a Signer, so the private key doesn't have to
+ * live in the bot's environment:
+ * - wif: signs in-process with XCPFOLIO_PRIVATE_KEY (the original behaviour)
+ * - psbt-daemon: POSTs a PSBT to a signing daemon (e.g. on a machine holding
+ *   the key) and broadcasts the signed PSBT it returns
+ * - manual: queues the PSBT in storage until an operator signs it and submits
+ *   it through the admin API; the next run picks it up and broadcasts it
+ */
+
+import axios from 'axios';
+import { BitcoinService, SignedTransaction } from './bitcoin';
+import { BroadcastKind } from './broadcast-log';
+import { NotificationService } from './notifications';
+import { StorageBackend, getStorage } from './storage';
+import { UtxoManager } from './utxo-manager';
+import { UTXO_CONFIG } from '../constants';
+
+export type SignerType = 'wif' | 'psbt-daemon' | 'manual';
+
+/**
+ * What a transaction is for, so a daemon or operator can decide whether to sign it
+ */
+export interface SigningRequest {
+  key: string;          // Stable per intent, e.g. transfer:<orderHash> or listing:<asset>
+  kind: BroadcastKind;
+  description: string;
+}
+
+export interface Signer {
+  readonly type: SignerType;
+  sign(
+    rawTransaction: string,
+    sourceAddress: string,
+    request: SigningRequest,
+    sequenceNumber?: number
+  ): Promise<SignedTransaction>;
+}
+
+/**
+ * Thrown by the manual signer while a transaction waits for an operator
+ * Callers treat it as "not yet" rather than a failure.
+ */
+export class SignaturePendingError extends Error {
+  readonly key: string;
+
+  constructor(key: string, message: string) {
+    super(message);
+    this.name = 'SignaturePendingError';
+    this.key = key;
+  }
+}
+
+/**
+ * Signs in-process with a WIF private key
+ */
+export class WifSigner implements Signer {
+  readonly type = 'wif' as const;
+  private bitcoin: BitcoinService;
+  private privateKey: string;
+
+  constructor(bitcoin: BitcoinService, privateKey: string) {
+    this.bitcoin = bitcoin;
+    this.privateKey = privateKey;
+  }
+
+  async sign(
+    rawTransaction: string,
+    sourceAddress: string,
+    request: SigningRequest,
+    sequenceNumber?: number
+  ): Promise<SignedTransaction> {
+    return this.bitcoin.signTransaction(rawTransaction, sourceAddress, this.privateKey, sequenceNumber);
+  }
+}
+
+/**
+ * Sends PSBTs to an HTTP signing daemon
+ *
+ * POST <url>/sign { psbt, address, key, kind, description } -> { psbt }
+ * The returned PSBT must be signed (finalized or not) and spend the same
+ * inputs to the same outputs as the one sent.
+ */
+export class PsbtDaemonSigner implements Signer {
+  readonly type = 'psbt-daemon' as const;
+  private bitcoin: BitcoinService;
+  private url: string;
+  private token?: string;
+  private publicKey?: string;
+
+  constructor(bitcoin: BitcoinService, url: string, token?: string, publicKey?: string) {
+    this.bitcoin = bitcoin;
+    this.url = url.replace(/\/$/, '');
+    this.token = token;
+    this.publicKey = publicKey;
+  }
+
+  async sign(
+    rawTransaction: string,
+    sourceAddress: string,
+    request: SigningRequest,
+    sequenceNumber?: number
+  ): Promise<SignedTransaction> {
+    const unsigned = await this.bitcoin.createPsbt(rawTransaction, sourceAddress, this.publicKey, sequenceNumber);
+
+    let signedPsbt: string;
+    try {
+      const response = await axios.post<{ psbt?: string }>(
+        `${this.url}/sign`,
+        { psbt: unsigned.psbt, address: sourceAddress, ...request },
+        {
+          headers: this.token ? { Authorization: `Bearer ${this.token}` } : undefined,
+          timeout: 30000
+        }
+      );
+      if (!response.data?.psbt) {
+        throw new Error('Response has no psbt');
+      }
+      signedPsbt = response.data.psbt;
+    } catch (error) {
+      throw new Error(`Signing daemon failed for ${request.key}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return this.bitcoin.finalizePsbt(signedPsbt, unsigned.psbt);
+  }
+}
+
+export type QueuedSigningStatus = 'pending' | 'signed';
+
+export interface QueuedSigningRequest extends SigningRequest {
+  status: QueuedSigningStatus;
+  address: string;
+  psbt: string;         // Unsigned PSBT (base64)
+  fee: number;
+  inputs: string[];
+  createdAt: number;
+  signedAt?: number;
+  signed?: SignedTransaction;
+}
+
+const REQUEST_PREFIX = 'xcpfolio:signer:request:';
+const INDEX_KEY = 'xcpfolio:signer:index';
+const REQUEST_TTL = UTXO_CONFIG.SIGNING_TTL / 1000; // 7 days - unsigned requests go stale anyway
+
+/**
+ * Storage-backed queue of PSBTs waiting for an operator's signature
+ * A queued request's inputs are held in UtxoManager until it's removed, so
+ * nothing else spends them while the operator signs.
+ */
+export class SigningQueue {
+  private storage: StorageBackend;
+  private bitcoin: BitcoinService;
+
+  constructor(storage?: StorageBackend, bitcoin?: BitcoinService) {
+    this.storage = storage || getStorage();
+    this.bitcoin = bitcoin || new BitcoinService();
+  }
+
+  async get(key: string): Promise<QueuedSigningRequest | null> {
+    return this.storage.get<QueuedSigningRequest>(REQUEST_PREFIX + key);
+  }
+
+  /**
+   * List queued requests, oldest first
+   */
+  async list(status?: QueuedSigningStatus): Promise<QueuedSigningRequest[]> {
+    const index = await this.storage.hgetall<Record<string, number>>(INDEX_KEY) || {};
+    const requests: QueuedSigningRequest[] = [];
+    for (const key of Object.keys(index)) {
+      const request = await this.get(key);
+      if (request && (!status || request.status === status)) {
+        requests.push(request);
+      }
+    }
+    return requests.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async enqueue(request: QueuedSigningRequest): Promise<void> {
+    await this.storage.set(REQUEST_PREFIX + request.key, request, { ex: REQUEST_TTL });
+    await this.storage.hset(INDEX_KEY, { [request.key]: request.createdAt });
+    await this.storage.expire(INDEX_KEY, REQUEST_TTL);
+    await this.hold(request);
+  }
+
+  /**
+   * Hold a request's inputs again (e.g. after a caller reserved them for itself)
+   */
+  async hold(request: QueuedSigningRequest): Promise<void> {
+    await this.utxos(request.address).holdForSigning(request.inputs, request.kind, request.key, request.createdAt);
+  }
+
+  /**
+   * Attach an operator's signed PSBT to a pending request
+   */
+  async submit(key: string, signedPsbt: string): Promise<QueuedSigningRequest> {
+    const request = await this.get(key);
+    if (!request) {
+      throw new Error(`No signing request ${key}`);
+    }
+    if (request.status !== 'pending') {
+      throw new Error(`Signing request ${key} is already ${request.status}`);
+    }
+
+    const signed = this.bitcoin.finalizePsbt(signedPsbt, request.psbt);
+    const updated: QueuedSigningRequest = { ...request, status: 'signed', signedAt: Date.now(), signed };
+    await this.storage.set(REQUEST_PREFIX + key, updated, { ex: REQUEST_TTL });
+    return updated;
+  }
+
+  async remove(key: string): Promise<void> {
+    const request = await this.get(key);
+    await this.storage.del(REQUEST_PREFIX + key);
+    await this.storage.hdel(INDEX_KEY, key);
+    if (request) {
+      await this.utxos(request.address).releaseSigning(key);
+    }
+  }
+
+  private utxos(address: string): UtxoManager {
+    return new UtxoManager(address, {}, this.storage);
+  }
+}
+
+/**
+ * Queues PSBTs for an operator to sign
+ *
+ * The first sign() for a request queues its PSBT and throws
+ * SignaturePendingError, as does every call while it's pending. Once the
+ * operator has submitted the signed PSBT, the next call returns it and removes
+ * it from the queue - if that broadcast fails, the following run queues a
+ * freshly composed transaction. Every call compares the queued PSBT with the
+ * one just composed: if the spend changed (other inputs or sequence, other
+ * outputs besides change), the queued one is replaced and needs signing again.
+ */
+export class ManualApprovalSigner implements Signer {
+  readonly type = 'manual' as const;
+  private bitcoin: BitcoinService;
+  private queue: SigningQueue;
+  private publicKey?: string;
+
+  constructor(bitcoin: BitcoinService, queue?: SigningQueue, publicKey?: string) {
+    this.bitcoin = bitcoin;
+    this.queue = queue || new SigningQueue(undefined, bitcoin);
+    this.publicKey = publicKey;
+  }
+
+  async sign(
+    rawTransaction: string,
+    sourceAddress: string,
+    request: SigningRequest,
+    sequenceNumber?: number
+  ): Promise<SignedTransaction> {
+    const unsigned = await this.bitcoin.createPsbt(rawTransaction, sourceAddress, this.publicKey, sequenceNumber);
+    let queued = await this.queue.get(request.key);
+
+    if (queued && !this.bitcoin.isSameSpend(queued.psbt, unsigned.psbt, sourceAddress)) {
+      console.warn(`[Signer] ${request.key} was ${queued.status} for a transaction that no longer matches the composed one - queueing it again`);
+      await this.queue.remove(request.key);
+      queued = null;
+    }
+
+    if (queued?.status === 'signed' && queued.signed) {
+      await this.queue.remove(request.key);
+      return queued.signed;
+    }
+    if (queued) {
+      await this.queue.hold(queued);
+      throw new SignaturePendingError(
+        request.key,
+        `Waiting for signature on ${request.key} (queued ${new Date(queued.createdAt).toISOString()})`
+      );
+    }
+
+    await this.queue.enqueue({
+      ...request,
+      status: 'pending',
+      address: sourceAddress,
+      psbt: unsigned.psbt,
+      fee: unsigned.fee,
+      inputs: unsigned.inputs,
+      createdAt: Date.now()
+    });
+
+    await NotificationService.info('✍️ Transaction waiting for signature', {
+      key: request.key,
+      description: request.description,
+      fee: unsigned.fee
+    });
+
+    throw new SignaturePendingError(request.key, `Queued ${request.key} for signature`);
+  }
+}
+
+/**
+ * Build the signer selected by SIGNER (default: wif)
+ *
+ * - wif: XCPFOLIO_PRIVATE_KEY
+ * - psbt-daemon: SIGNER_DAEMON_URL, optional SIGNER_DAEMON_TOKEN
+ * - manual: queue in bot storage
+ * SIGNER_PUBLIC_KEY (hex) lets PSBTs for P2SH-P2WPKH and P2TR addresses carry
+ * the redeem script / internal key for signers that can't add them.
+ */
+export function createSigner(
+  network: 'mainnet' | 'testnet' = 'mainnet',
+  type = (process.env.SIGNER || 'wif') as SignerType
+): Signer {
+  const bitcoin = new BitcoinService(network);
+  const publicKey = process.env.SIGNER_PUBLIC_KEY || undefined;
+
+  switch (type) {
+    case 'wif':
+      if (!process.env.XCPFOLIO_PRIVATE_KEY) {
+        throw new Error('SIGNER=wif requires XCPFOLIO_PRIVATE_KEY');
+      }
+      return new WifSigner(bitcoin, process.env.XCPFOLIO_PRIVATE_KEY);
+    case 'psbt-daemon':
+      if (!process.env.SIGNER_DAEMON_URL) {
+        throw new Error('SIGNER=psbt-daemon requires SIGNER_DAEMON_URL');
+      }
+      return new PsbtDaemonSigner(bitcoin, process.env.SIGNER_DAEMON_URL, process.env.SIGNER_DAEMON_TOKEN, publicKey);
+    case 'manual':
+      return new ManualApprovalSigner(bitcoin, undefined, publicKey);
+    default:
+      throw new Error(`Unknown SIGNER: ${type} (use wif, psbt-daemon or manual)`);
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Fee spend ledger and budgets for the hot wallet
+ *
+ * maxTotalFeeSats caps a single transaction; this caps the total. Every
+ * broadcast by FulfillmentProcessor (transfers, RBF, CPFP) and
+ * OrderMaintenanceService (listings, cancels, UTXO splits and consolidations)
+ * is recorded in a ledger shared through storage, and each transaction's fee
+ * is reserved against rolling hourly and daily fee budgets before it's
+ * broadcast. The reservation is appended first and the totals read after, so
+ * two processes reserving at once both see each other's fee and the budget is
+ * never overshot. Once a budget is exhausted nothing more is broadcast until
+ * enough spend ages out of the window.
+ */
+
+import { SignedTransaction } from './bitcoin';
+import { BroadcastKind } from './broadcast-log';
+import { NotificationService } from './notifications';
+import { StorageBackend, getStorage } from './storage';
+import { TIME } from '../constants';
+
+export interface SpendBudgets {
+  hourlyFeeSats?: number; // 0 = unlimited
+  dailyFeeSats?: number;  // 0 = unlimited
+}
+
+export interface SpendEntry {
+  id: string;
+  timestamp: number;
+  kind: BroadcastKind;
+  fee: number;   // Sats
+  txid?: string; // Unset while the fee is reserved and the transaction not yet broadcast
+}
+
+/**
+ * A fee counted against the budgets while its transaction is broadcast
+ * Commit it once broadcast, release it if the broadcast fails. One left
+ * behind by a crash keeps counting until it ages out of the window.
+ */
+export interface SpendReservation {
+  key: string;
+  entry: SpendEntry;
+}
+
+export interface SpendStatus {
+  hourSpent: number;
+  daySpent: number;
+  hourlyFeeSats: number;
+  dailyFeeSats: number;
+}
+
+export type SpendWindow = 'hourly' | 'daily';
+
+/**
+ * Thrown when a transaction would take spend over a budget
+ * Callers stop broadcasting for the rest of the run.
+ */
+export class SpendLimitError extends Error {
+  readonly window: SpendWindow;
+
+  constructor(window: SpendWindow, message: string) {
+    super(message);
+    this.name = 'SpendLimitError';
+    this.window = window;
+  }
+}
+
+const LEDGER_PREFIX = 'xcpfolio:spend-ledger:';
+const LEDGER_TTL = 60 * 60 * 24 * 2; // Each day's list only matters for the next 24 hours
+
+/**
+ * One list per UTC day, so the rolling 24 hours spans at most two lists
+ */
+function ledgerKey(time: number): string {
+  return LEDGER_PREFIX + new Date(time).toISOString().slice(0, 10);
+}
+
+export class SpendLedger {
+  private storage: StorageBackend;
+  private budgets: Required<SpendBudgets>;
+
+  constructor(budgets: SpendBudgets = {}, storage?: StorageBackend) {
+    this.budgets = {
+      hourlyFeeSats: budgets.hourlyFeeSats || 0,
+      dailyFeeSats: budgets.dailyFeeSats || 0,
+    };
+    this.storage = storage || getStorage();
+  }
+
+  /**
+   * Reserve a transaction's fee against the remaining budgets
+   * An RBF replacement only spends what it adds: reserve the increase over
+   * the replaced transaction's fee, which was counted when that one went out.
+   * Throws SpendLimitError (after a critical alert) if it doesn't fit.
+   */
+  async reserve(kind: BroadcastKind, fee: number, description: string): Promise<SpendReservation> {
+    const entry: SpendEntry = {
+      id: `${Date.now()}-${Math.random().toString(36).substring(7)}`,
+      timestamp: Date.now(),
+      kind,
+      fee: Math.max(fee, 0),
+    };
+    const reservation: SpendReservation = { key: ledgerKey(entry.timestamp), entry };
+    await this.storage.rpush(reservation.key, JSON.stringify(entry));
+    await this.storage.expire(reservation.key, LEDGER_TTL);
+
+    // Read back with ours and every other reservation counted
+    const status = await this.getStatus();
+    const windows: Array<[SpendWindow, number, number]> = [
+      ['hourly', status.hourSpent, status.hourlyFeeSats],
+      ['daily', status.daySpent, status.dailyFeeSats],
+    ];
+
+    for (const [window, total, limit] of windows) {
+      if (limit > 0 && total > limit) {
+        await this.release(reservation);
+        const spent = total - entry.fee;
+        const message = `${window} fee budget exhausted: ${spent} of ${limit} sats spent, ` +
+          `${description} needs ${entry.fee} more`;
+        console.error(`[SpendLedger] 🛑 ${message}`);
+
+        await NotificationService.sendOnce(
+          `spend-budget:${window}`,
+          (window === 'hourly' ? TIME.HOUR : TIME.DAY) / 1000,
+          `🛑 Hot wallet ${window} fee budget exhausted - broadcasting stopped`,
+          'critical',
+          { spentSats: spent, budgetSats: limit, blockedTx: description, blockedFeeSats: entry.fee }
+        );
+        throw new SpendLimitError(window, message);
+      }
+    }
+
+    return reservation;
+  }
+
+  /**
+   * Record a reserved fee as spent by the broadcast transaction
+   * The spend is appended before the reservation is dropped, so it's never
+   * missing from the totals in between.
+   * Never throws - a ledger failure must not abort a broadcast in progress.
+   */
+  async commit(reservation: SpendReservation, txid: string): Promise<void> {
+    const spent: SpendEntry = { ...reservation.entry, txid };
+    try {
+      await this.storage.rpush(reservation.key, JSON.stringify(spent));
+      await this.storage.lrem(reservation.key, JSON.stringify(reservation.entry));
+    } catch (error) {
+      console.error('[SpendLedger] Error recording spend:', error, spent);
+    }
+  }
+
+  /**
+   * Drop a reservation whose transaction wasn't broadcast
+   * Never throws - the reservation ages out of the window regardless.
+   */
+  async release(reservation: SpendReservation): Promise<void> {
+    try {
+      await this.storage.lrem(reservation.key, JSON.stringify(reservation.entry));
+    } catch (error) {
+      console.error('[SpendLedger] Error releasing reservation:', error, reservation.entry);
+    }
+  }
+
+  /**
+   * Fees spent in the last hour and the last 24 hours
+   */
+  async getStatus(now: number = Date.now()): Promise<SpendStatus> {
+    const keys = [...new Set([ledgerKey(now - TIME.DAY), ledgerKey(now)])];
+    const entries: SpendEntry[] = [];
+    for (const key of keys) {
+      entries.push(...await this.storage.lrange<SpendEntry>(key, 0, -1));
+    }
+
+    const spentSince = (since: number) => entries
+      .filter(e => e.timestamp > since && e.timestamp <= now)
+      .reduce((sum, e) => sum + e.fee, 0);
+
+    return {
+      hourSpent: spentSince(now - TIME.HOUR),
+      daySpent: spentSince(now - TIME.DAY),
+      ...this.budgets,
+    };
+  }
+}
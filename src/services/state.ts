@@ -1,35 +1,93 @@
-import { Redis } from '@upstash/redis';
+import { StorageBackend, getStorage } from './storage';
+import { Order } from '../types';
+
+/**
+ * One broadcast version of a transfer: the original or a BIP-125 replacement
+ */
+export interface TransferVersion {
+  txid: string;
+  feeRate: number;
+  broadcastTime: number;
+  broadcastBlock: number;
+  inputs: string[];  // Outpoints (txid:vout) every later version must conflict with
+}
+
+/**
+ * A broadcast transfer we're still watching (confirmation, RBF)
+ */
+export interface OrderTransaction {
+  orderHash: string;
+  asset: string;
+  buyer: string;
+  txid: string;  // Current txid
+  originalTxid: string;  // Original txid before any RBF
+  rbfHistory: string[];  // All txids including RBF replacements
+  cpfpHistory?: string[];  // CPFP children paying for the current txid
+  versions?: TransferVersion[];  // Replacement chain, oldest first (unset for recovered transfers)
+  broadcastTime: number;
+  broadcastBlock: number;
+  feeRate: number;
+  fee?: number;  // Sats paid by the current txid (unset on transfers tracked before fees were)
+  isRbf: boolean;
+  rbfCount: number;
+  needsRbf?: boolean;
+  droppedFromMempool?: boolean;
+}
+
+/**
+ * Compose/sign failures for an order, driving the progressive retry strategy
+ */
+export interface PreBroadcastFailure {
+  count: number;
+  lastError: string;
+  stage: string;
+  firstFailureTime: number;
+  lastAttemptTime: number;
+}
+
+/**
+ * Where the filled-order scan stands (see FulfillmentProcessor.scanFilledOrders)
+ */
+export interface FilledOrderScan {
+  cursor: number;  // Counterparty block fills have been scanned up to (0 = never)
+  lastFullScan: number;  // When the whole filled history was last paged through
+  unfinishedOrders: Order[];  // Scanned orders neither processed nor failed yet, re-checked every run
+}
 
 export interface FulfillmentState {
-  lastBlock: number;
+  lastBlock: number;  // Filled-order scan cursor
   lastOrderHash: string | null;
   lastChecked: number;
-  processedOrders: string[];  // Array for Redis serialization (not Set)
+  processedOrders: string[];  // Array for JSON serialization (not Set)
   failedOrders: string[];  // Orders that permanently failed after all retries
   lastCleanup: number;  // Last block we cleaned up old orders
+  // Legacy in-flight tracking, moved to its own hashes on the first read (see getInFlight)
+  orderTransactions?: Record<string, OrderTransaction>;
+  preBroadcastFailures?: Record<string, PreBroadcastFailure>;
+  lastFullScan: number;
+  unfinishedOrders: Order[];
 }
 
+const STATE_TTL = 60 * 60 * 24 * 30; // 30 days
+
 export class StateManager {
-  private redis: Redis;
+  private storage: StorageBackend;
   private stateKey: string;
+  // In-flight tracking, one hash field per order so concurrent runs only overwrite the orders they touch
+  private transactionsKey: string;
+  private failuresKey: string;
   private state: FulfillmentState | null = null;
-  private cacheExpiry = 5000; // 5 second cache to reduce Redis calls
+  private cacheExpiry = 5000; // 5 second cache to reduce storage calls
   private lastCacheTime = 0;
 
-  constructor(statePath?: string) {
+  constructor(statePath?: string, storage?: StorageBackend) {
     // statePath parameter kept for compatibility but ignored
-    // Always use Redis/KV for state management
-    if (!process.env.KV_REST_API_URL || !process.env.KV_REST_API_TOKEN) {
-      throw new Error('Redis/KV credentials required: Set KV_REST_API_URL and KV_REST_API_TOKEN');
-    }
-
-    this.redis = new Redis({
-      url: process.env.KV_REST_API_URL,
-      token: process.env.KV_REST_API_TOKEN,
-    });
-
+    // The storage backend is selected by STORAGE_BACKEND (see storage.ts)
+    this.storage = storage || getStorage();
     this.stateKey = 'fulfillment-state';
-    console.log('StateManager: Using Redis/KV for state persistence');
+    this.transactionsKey = 'fulfillment-inflight:transactions';
+    this.failuresKey = 'fulfillment-inflight:failures';
+    console.log(`StateManager: Using ${this.storage.name} for state persistence`);
   }
 
   private async loadState(): Promise<FulfillmentState> {
@@ -38,16 +96,18 @@ export class StateManager {
       return this.state;
     }
 
+    let state: FulfillmentState | null = null;
     try {
-      const state = await this.redis.get<FulfillmentState>(this.stateKey);
-      
-      if (state) {
-        this.state = state;
-        this.lastCacheTime = Date.now();
-        return state;
-      }
+      state = await this.storage.get<FulfillmentState>(this.stateKey);
     } catch (error) {
-      console.error('Error loading state from Redis:', error);
+      console.error('Error loading state from storage:', error);
+    }
+
+    if (state) {
+      this.state = state;
+      this.lastCacheTime = Date.now();
+      await this.migrateInFlight(state);
+      return state;
     }
 
     // Default state
@@ -58,6 +118,8 @@ export class StateManager {
       processedOrders: [],
       failedOrders: [],
       lastCleanup: 0,
+      lastFullScan: 0,
+      unfinishedOrders: [],
     };
 
     this.state = defaultState;
@@ -69,11 +131,11 @@ export class StateManager {
     if (!this.state) return;
 
     try {
-      await this.redis.set(this.stateKey, JSON.stringify(this.state), {
-        ex: 60 * 60 * 24 * 30 // 30 day TTL
+      await this.storage.set(this.stateKey, JSON.stringify(this.state), {
+        ex: STATE_TTL
       });
     } catch (error) {
-      console.error('Error saving state to Redis:', error);
+      console.error('Error saving state to storage:', error);
       throw error; // Re-throw to ensure we know about save failures
     }
   }
@@ -121,6 +183,15 @@ export class StateManager {
     }
   }
 
+  async unmarkOrderProcessed(orderHash: string): Promise<void> {
+    const state = await this.loadState();
+    if (state.processedOrders.includes(orderHash)) {
+      state.processedOrders = state.processedOrders.filter(h => h !== orderHash);
+      this.state = state;
+      await this.saveState();
+    }
+  }
+
   async getProcessedOrders(): Promise<Set<string>> {
     const state = await this.loadState();
     return new Set(state.processedOrders);
@@ -185,4 +256,89 @@ export class StateManager {
       await this.saveState();
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Read in-flight tracking from storage, bypassing the state cache
+   */
+  async getInFlight(): Promise<{
+    orderTransactions: Record<string, OrderTransaction>;
+    preBroadcastFailures: Record<string, PreBroadcastFailure>;
+  }> {
+    await this.loadState();
+    const [orderTransactions, preBroadcastFailures] = await Promise.all([
+      this.storage.hgetall<Record<string, OrderTransaction>>(this.transactionsKey),
+      this.storage.hgetall<Record<string, PreBroadcastFailure>>(this.failuresKey),
+    ]);
+    return {
+      orderTransactions: orderTransactions || {},
+      preBroadcastFailures: preBroadcastFailures || {},
+    };
+  }
+
+  async getOrderTransaction(orderHash: string): Promise<OrderTransaction | null> {
+    const { orderTransactions } = await this.getInFlight();
+    return orderTransactions[orderHash] || null;
+  }
+
+  async setOrderTransactions(transactions: Record<string, OrderTransaction>): Promise<void> {
+    await this.writeEntries(this.transactionsKey, transactions);
+  }
+
+  async removeOrderTransactions(orderHashes: string[]): Promise<void> {
+    if (orderHashes.length === 0) return;
+    await this.storage.hdel(this.transactionsKey, ...orderHashes);
+  }
+
+  async setPreBroadcastFailures(failures: Record<string, PreBroadcastFailure>): Promise<void> {
+    await this.writeEntries(this.failuresKey, failures);
+  }
+
+  async removePreBroadcastFailures(orderHashes: string[]): Promise<void> {
+    if (orderHashes.length === 0) return;
+    await this.storage.hdel(this.failuresKey, ...orderHashes);
+  }
+
+  private async writeEntries(key: string, entries: Record<string, unknown>): Promise<void> {
+    if (Object.keys(entries).length === 0) return;
+    await this.storage.hset(key, entries);
+    await this.storage.expire(key, STATE_TTL);
+  }
+
+  /**
+   * Move in-flight tracking kept in the state blob by older versions into the hashes
+   * Entries already in the hashes win; the blob copy is cleared so removals stick.
+   */
+  private async migrateInFlight(state: FulfillmentState): Promise<void> {
+    if (!state.orderTransactions && !state.preBroadcastFailures) return;
+
+    const [transactions, failures] = await Promise.all([
+      this.storage.hgetall<Record<string, OrderTransaction>>(this.transactionsKey),
+      this.storage.hgetall<Record<string, PreBroadcastFailure>>(this.failuresKey),
+    ]);
+    await this.setOrderTransactions({ ...(state.orderTransactions || {}), ...(transactions || {}) });
+    await this.setPreBroadcastFailures({ ...(state.preBroadcastFailures || {}), ...(failures || {}) });
+
+    delete state.orderTransactions;
+    delete state.preBroadcastFailures;
+    await this.saveState();
+  }
+
+  async getFilledOrderScan(): Promise<FilledOrderScan> {
+    const state = await this.loadState();
+    return {
+      cursor: state.lastBlock || 0,
+      lastFullScan: state.lastFullScan || 0,
+      unfinishedOrders: state.unfinishedOrders || [],
+    };
+  }
+
+  async setFilledOrderScan(scan: FilledOrderScan): Promise<void> {
+    const state = await this.loadState();
+    state.lastBlock = scan.cursor;
+    state.lastFullScan = scan.lastFullScan;
+    state.unfinishedOrders = scan.unfinishedOrders;
+    state.lastChecked = Date.now();
+    this.state = state;
+    await this.saveState();
+  }
+}
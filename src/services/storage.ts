@@ -0,0 +1,455 @@
+/**
+ * Pluggable key-value storage for bot state
+ *
+ * StateManager, OrderHistoryService, MaintenanceStateManager and the
+ * notification dedupe all talk to this interface instead of constructing an
+ * Upstash client directly, so the long-running worker can run on a plain VPS
+ * (file backend) and tests can run against the in-memory backend.
+ *
+ * The interface mirrors the small subset of Redis commands the bot uses, with
+ * Upstash's semantics: objects are JSON-serialized on write and parsed on read.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Redis } from '@upstash/redis';
+
+export interface SetOptions {
+  ex?: number;   // TTL in seconds
+  nx?: boolean;  // Only set if the key does not exist
+}
+
+export interface StorageBackend {
+  readonly name: string;
+  get<T>(key: string): Promise<T | null>;
+  /**
+   * Returns 'OK' when the value was written, null when an nx write lost
+   */
+  set(key: string, value: unknown, options?: SetOptions): Promise<'OK' | null>;
+  del(key: string): Promise<void>;
+  hset(key: string, fields: Record<string, unknown>): Promise<void>;
+  hdel(key: string, ...fields: string[]): Promise<void>;
+  hgetall<T extends Record<string, unknown>>(key: string): Promise<T | null>;
+  expire(key: string, seconds: number): Promise<void>;
+  /**
+   * Append to a list (append-only logs); returns the new length
+   */
+  rpush(key: string, value: unknown): Promise<number>;
+  lrange<T>(key: string, start: number, stop: number): Promise<T[]>;
+  /**
+   * Keep only the items from start to stop (inclusive, negative counts from the end)
+   */
+  ltrim(key: string, start: number, stop: number): Promise<void>;
+  /**
+   * Remove every item equal to value
+   */
+  lrem(key: string, value: unknown): Promise<void>;
+}
+
+export type StorageBackendType = 'upstash' | 'memory' | 'file';
+
+const DEFAULT_FILE_PATH = '.xcpfolio.state.json';
+const FILE_LOCK_TIMEOUT_MS = 5000;  // Give up waiting for another process's write
+const FILE_LOCK_STALE_MS = 10000;   // A lock this old was left by a crashed process
+const FILE_LOCK_RETRY_MS = 10;
+
+/**
+ * Upstash Redis / Vercel KV backend (used on Vercel)
+ */
+export class UpstashStorage implements StorageBackend {
+  readonly name = 'Redis/KV';
+  private redis: Redis;
+
+  constructor(url = process.env.KV_REST_API_URL, token = process.env.KV_REST_API_TOKEN) {
+    if (!url || !token) {
+      throw new Error('Redis/KV credentials required: Set KV_REST_API_URL and KV_REST_API_TOKEN');
+    }
+
+    this.redis = new Redis({ url, token });
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.redis.get<T>(key);
+  }
+
+  async set(key: string, value: unknown, options: SetOptions = {}): Promise<'OK' | null> {
+    let result: unknown;
+    if (options.ex !== undefined) {
+      result = await this.redis.set(key, value, options.nx ? { ex: options.ex, nx: true } : { ex: options.ex });
+    } else {
+      result = await this.redis.set(key, value, options.nx ? { nx: true } : undefined);
+    }
+    return result === 'OK' ? 'OK' : null;
+  }
+
+  async del(key: string): Promise<void> {
+    await this.redis.del(key);
+  }
+
+  async hset(key: string, fields: Record<string, unknown>): Promise<void> {
+    await this.redis.hset(key, fields);
+  }
+
+  async hdel(key: string, ...fields: string[]): Promise<void> {
+    if (fields.length === 0) return;
+    await this.redis.hdel(key, ...fields);
+  }
+
+  async hgetall<T extends Record<string, unknown>>(key: string): Promise<T | null> {
+    return this.redis.hgetall<T>(key);
+  }
+
+  async expire(key: string, seconds: number): Promise<void> {
+    await this.redis.expire(key, seconds);
+  }
+
+  async rpush(key: string, value: unknown): Promise<number> {
+    return this.redis.rpush(key, value);
+  }
+
+  async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    return this.redis.lrange<T>(key, start, stop);
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<void> {
+    await this.redis.ltrim(key, start, stop);
+  }
+
+  async lrem(key: string, value: unknown): Promise<void> {
+    await this.redis.lrem(key, 0, value);
+  }
+}
+
+interface StoredEntry {
+  value?: string;                   // Serialized string value
+  hash?: Record<string, string>;    // Serialized hash fields
+  list?: string[];                  // Serialized list items
+  expiresAt?: number;               // Epoch ms
+}
+
+/**
+ * Slice bounds for a Redis list range: negative indexes count from the end, stop is inclusive
+ */
+function listRange(length: number, start: number, stop: number): [number, number] {
+  const from = start < 0 ? Math.max(length + start, 0) : start;
+  const to = stop < 0 ? length + stop : stop;
+  return [from, Math.max(to + 1, from)];
+}
+
+function serialize(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function deserialize(raw: string): any {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * In-process backend - state is lost on restart
+ * Intended for tests and throwaway dry runs.
+ */
+export class MemoryStorage implements StorageBackend {
+  readonly name: string = 'memory';
+  protected entries = new Map<string, StoredEntry>();
+
+  /**
+   * Hook for subclasses to refresh entries before a read or write
+   */
+  protected load(): void {}
+
+  /**
+   * Hook for subclasses to persist entries after a write
+   */
+  protected persist(): void {}
+
+  /**
+   * Hook for subclasses to make a read-modify-write exclusive across processes
+   */
+  protected withLock<T>(write: () => T): T {
+    return write();
+  }
+
+  private live(key: string): StoredEntry | undefined {
+    this.load();
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.live(key);
+    if (entry?.value === undefined) return null;
+    return deserialize(entry.value) as T;
+  }
+
+  async set(key: string, value: unknown, options: SetOptions = {}): Promise<'OK' | null> {
+    return this.withLock(() => {
+      // Load even without nx so keys other processes wrote aren't overwritten
+      if (this.live(key) && options.nx) {
+        return null;
+      }
+
+      this.entries.set(key, {
+        value: serialize(value),
+        expiresAt: options.ex !== undefined ? Date.now() + options.ex * 1000 : undefined,
+      });
+      this.persist();
+      return 'OK';
+    });
+  }
+
+  async del(key: string): Promise<void> {
+    this.withLock(() => {
+      this.load();
+      if (this.entries.delete(key)) {
+        this.persist();
+      }
+    });
+  }
+
+  async hset(key: string, fields: Record<string, unknown>): Promise<void> {
+    this.withLock(() => {
+      const entry = this.live(key) || {};
+      const hash = { ...(entry.hash || {}) };
+      for (const [field, value] of Object.entries(fields)) {
+        hash[field] = serialize(value);
+      }
+      this.entries.set(key, { hash, expiresAt: entry.expiresAt });
+      this.persist();
+    });
+  }
+
+  async hdel(key: string, ...fields: string[]): Promise<void> {
+    this.withLock(() => {
+      const entry = this.live(key);
+      if (!entry?.hash) return;
+
+      const hash = { ...entry.hash };
+      for (const field of fields) {
+        delete hash[field];
+      }
+      // Like Redis, a hash with no fields left is gone
+      if (Object.keys(hash).length === 0) {
+        this.entries.delete(key);
+      } else {
+        this.entries.set(key, { hash, expiresAt: entry.expiresAt });
+      }
+      this.persist();
+    });
+  }
+
+  async hgetall<T extends Record<string, unknown>>(key: string): Promise<T | null> {
+    const entry = this.live(key);
+    if (!entry?.hash) return null;
+
+    const result: Record<string, unknown> = {};
+    for (const [field, raw] of Object.entries(entry.hash)) {
+      result[field] = deserialize(raw);
+    }
+    return result as T;
+  }
+
+  async expire(key: string, seconds: number): Promise<void> {
+    this.withLock(() => {
+      const entry = this.live(key);
+      if (entry) {
+        entry.expiresAt = Date.now() + seconds * 1000;
+        this.persist();
+      }
+    });
+  }
+
+  async rpush(key: string, value: unknown): Promise<number> {
+    return this.withLock(() => {
+      const entry = this.live(key) || {};
+      const list = [...(entry.list || []), serialize(value)];
+      this.entries.set(key, { list, expiresAt: entry.expiresAt });
+      this.persist();
+      return list.length;
+    });
+  }
+
+  async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    const list = this.live(key)?.list || [];
+    return list.slice(...listRange(list.length, start, stop)).map(raw => deserialize(raw) as T);
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<void> {
+    this.withLock(() => {
+      const entry = this.live(key);
+      if (!entry?.list) return;
+
+      const list = entry.list.slice(...listRange(entry.list.length, start, stop));
+      this.setList(key, list, entry.expiresAt);
+    });
+  }
+
+  async lrem(key: string, value: unknown): Promise<void> {
+    this.withLock(() => {
+      const entry = this.live(key);
+      if (!entry?.list) return;
+
+      const raw = serialize(value);
+      this.setList(key, entry.list.filter(item => item !== raw), entry.expiresAt);
+    });
+  }
+
+  private setList(key: string, list: string[], expiresAt?: number): void {
+    // Like Redis, an emptied list is gone
+    if (list.length === 0) {
+      this.entries.delete(key);
+    } else {
+      this.entries.set(key, { list, expiresAt });
+    }
+    this.persist();
+  }
+}
+
+/**
+ * Local JSON file backend for self-hosted deployments
+ *
+ * The whole keyspace lives in one file, rewritten atomically (tmp + rename)
+ * after every write. The file is re-read when its mtime changes so the
+ * maintenance scripts and the worker see each other's writes, and every write
+ * re-reads it while holding a lockfile (created with O_EXCL) so processes on
+ * the same machine can't lose each other's writes or both win an nx set.
+ * Not for serverless: each instance would get its own, short-lived file.
+ */
+export class FileStorage extends MemoryStorage {
+  readonly name: string;
+  private filePath: string;
+  private loadedMtime = -1;
+
+  constructor(filePath: string = process.env.STORAGE_FILE_PATH || DEFAULT_FILE_PATH) {
+    super();
+    this.filePath = path.resolve(filePath);
+    this.name = `file (${this.filePath})`;
+  }
+
+  protected load(): void {
+    let mtime: number;
+    try {
+      mtime = fs.statSync(this.filePath).mtimeMs;
+    } catch {
+      return; // No file yet - nothing has been written
+    }
+
+    if (mtime === this.loadedMtime) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Record<string, StoredEntry>;
+      this.entries = new Map(Object.entries(data));
+      this.loadedMtime = mtime;
+    } catch (error) {
+      console.error(`[Storage] Error reading ${this.filePath}:`, error);
+    }
+  }
+
+  protected persist(): void {
+    const data: Record<string, StoredEntry> = {};
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt === undefined || entry.expiresAt > now) {
+        data[key] = entry;
+      }
+    }
+
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(tmpPath, JSON.stringify(data));
+    fs.renameSync(tmpPath, this.filePath);
+    this.loadedMtime = fs.statSync(this.filePath).mtimeMs;
+  }
+
+  protected withLock<T>(write: () => T): T {
+    const lockPath = `${this.filePath}.lock`;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const deadline = Date.now() + FILE_LOCK_TIMEOUT_MS;
+
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(lockPath, 'wx'));
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        if (this.isStaleLock(lockPath)) continue;
+        if (Date.now() > deadline) {
+          throw new Error(`Timed out waiting for ${lockPath}; remove it if no other process is running`);
+        }
+        Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, FILE_LOCK_RETRY_MS);
+      }
+    }
+
+    try {
+      // Another process may have written within the same mtime tick
+      this.loadedMtime = -1;
+      return write();
+    } finally {
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Remove a lock left behind by a crashed process
+   */
+  private isStaleLock(lockPath: string): boolean {
+    try {
+      if (Date.now() - fs.statSync(lockPath).mtimeMs < FILE_LOCK_STALE_MS) return false;
+      fs.rmSync(lockPath, { force: true });
+      return true;
+    } catch {
+      return true; // Released while we looked
+    }
+  }
+}
+
+/**
+ * Create a storage backend from the environment
+ *
+ * STORAGE_BACKEND selects the backend explicitly. When unset, Upstash is used
+ * if KV credentials are present, otherwise the local file backend - except on
+ * Vercel, where a file wouldn't outlive the invocation, so that's an error.
+ */
+export function createStorage(type = process.env.STORAGE_BACKEND as StorageBackendType | undefined): StorageBackend {
+  const backend = type || (process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN ? 'upstash' : 'file');
+  if (backend === 'file' && process.env.VERCEL) {
+    throw new Error('File storage does not persist on Vercel: set KV_REST_API_URL and KV_REST_API_TOKEN');
+  }
+
+  switch (backend) {
+    case 'upstash':
+      return new UpstashStorage();
+    case 'memory':
+      return new MemoryStorage();
+    case 'file':
+      return new FileStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${backend} (expected upstash, memory or file)`);
+  }
+}
+
+let sharedStorage: StorageBackend | null = null;
+
+/**
+ * Process-wide storage instance shared by all state managers
+ */
+export function getStorage(): StorageBackend {
+  if (!sharedStorage) {
+    sharedStorage = createStorage();
+  }
+  return sharedStorage;
+}
+
+/**
+ * Replace the shared storage instance (tests, custom deployments)
+ */
+export function setStorage(storage: StorageBackend | null): void {
+  sharedStorage = storage;
+}
@@ -0,0 +1,358 @@
+/**
+ * UTXO management for the bot address
+ *
+ * Fulfillment and order maintenance spend from the same address, and neither
+ * mempool.space nor Counterparty sees a spend the moment it's broadcast. Every
+ * broadcast's inputs are recorded here as spent, maintenance reserves an
+ * input while a listing is composed and signed, and the inputs of a PSBT
+ * queued for an operator are held until its signing request is removed, so
+ * neither service picks an outpoint that is already taken. Each outpoint is its own field of one
+ * storage hash, so the two services never overwrite each other's records.
+ *
+ * It also shapes the UTXO set (transactions are planned here and broadcast by
+ * OrderMaintenanceService):
+ * - split: a large UTXO is split into N equal outputs, so each listing gets
+ *   its own input instead of chaining off the previous listing's change
+ * - consolidate: dust UTXOs are merged into one while fees are low
+ */
+
+import { UTXO, buildRawTransaction, detectAddressType, estimateVsize, outputScriptSize } from './bitcoin';
+import { BroadcastKind } from './broadcast-log';
+import { StorageBackend, getStorage } from './storage';
+import { UTXO_CONFIG } from '../constants';
+
+export type TrackedState = 'reserved' | 'signing' | 'spent';
+
+export interface TrackedOutpoint {
+  outpoint: string;  // txid:vout
+  state: TrackedState;
+  purpose: BroadcastKind;
+  txid?: string;     // Spending transaction, once broadcast
+  signingKey?: string; // Signing request holding it, while state is 'signing'
+  since: number;
+}
+
+export interface UtxoManagerConfig {
+  splitCount?: number;             // Split when fewer spendable UTXOs than this (0 = never)
+  minSplitOutputSats?: number;     // Smallest output a split may create
+  dustThresholdSats?: number;      // UTXOs below this get consolidated (0 = never)
+  consolidateMaxFeeRate?: number;  // sat/vB
+  consolidateMinInputs?: number;
+}
+
+export interface UtxoPlan {
+  action: 'split' | 'consolidate';
+  inputs: UTXO[];
+  outputs: number[];  // Sats, each paid back to our address
+  fee: number;
+}
+
+export interface UtxoStatus {
+  total: number;
+  totalSats: number;
+  confirmed: number;
+  spendable: number;  // Untracked, confirmed and above the dust threshold
+  dust: number;
+  tracked: TrackedOutpoint[];
+}
+
+interface UtxoManagerState {
+  outpoints: Record<string, TrackedOutpoint>;
+}
+
+const OUTPOINTS_KEY = 'xcpfolio:utxos:outpoints';
+const OUTPOINTS_TTL = 60 * 60 * 24 * 8; // 8 days - nothing is tracked longer than SIGNING_TTL
+const TRACKED_TTL: Record<TrackedState, number> = {
+  reserved: UTXO_CONFIG.RESERVATION_TTL,
+  signing: UTXO_CONFIG.SIGNING_TTL,
+  spent: UTXO_CONFIG.SPENT_TTL,
+};
+const LEGACY_STATE_KEY = 'xcpfolio:utxos:state'; // Whole-blob state from earlier versions
+
+export function outpointOf(utxo: { txid: string; vout: number }): string {
+  return `${utxo.txid}:${utxo.vout}`;
+}
+
+/**
+ * Fee for a transaction of our own, spending from and paying back to the address
+ */
+function estimateFee(address: string, inputs: number, outputs: number, feeRate: number): number {
+  const vsize = estimateVsize(inputs, new Array(outputs).fill(outputScriptSize(address)), detectAddressType(address));
+  return Math.ceil(vsize * feeRate);
+}
+
+export class UtxoManager {
+  private storage: StorageBackend;
+  private address: string;
+  private config: Required<UtxoManagerConfig>;
+  private legacyMigrated = false;
+
+  constructor(address: string, config: UtxoManagerConfig = {}, storage?: StorageBackend) {
+    this.address = address;
+    this.config = {
+      splitCount: config.splitCount ?? UTXO_CONFIG.SPLIT_COUNT,
+      minSplitOutputSats: config.minSplitOutputSats ?? UTXO_CONFIG.MIN_SPLIT_OUTPUT_SATS,
+      dustThresholdSats: config.dustThresholdSats ?? UTXO_CONFIG.DUST_THRESHOLD_SATS,
+      consolidateMaxFeeRate: config.consolidateMaxFeeRate ?? UTXO_CONFIG.CONSOLIDATE_MAX_FEE_RATE,
+      consolidateMinInputs: config.consolidateMinInputs ?? UTXO_CONFIG.CONSOLIDATE_MIN_INPUTS,
+    };
+    this.storage = storage || getStorage();
+  }
+
+  /**
+   * Tracked outpoints, without expired reservations and stale spends
+   */
+  async getTracked(): Promise<Record<string, TrackedOutpoint>> {
+    return this.loadOutpoints();
+  }
+
+  /**
+   * Drop UTXOs that are reserved or already spent
+   * Spent outpoints no longer in the fetched set have caught up and are forgotten.
+   *
+   * @param spare Keeps tracked outpoints it returns true for, e.g. those held
+   *   for the signing request being composed again
+   */
+  async filterAvailable(utxos: UTXO[], spare?: (tracked: TrackedOutpoint) => boolean): Promise<UTXO[]> {
+    const outpoints = await this.loadOutpoints();
+    const fetched = new Set(utxos.map(outpointOf));
+
+    const caughtUp = Object.values(outpoints)
+      .filter(tracked => tracked.state === 'spent' && !fetched.has(tracked.outpoint))
+      .map(tracked => tracked.outpoint);
+    await this.forget(caughtUp);
+
+    return utxos.filter(utxo => {
+      const tracked = outpoints[outpointOf(utxo)];
+      return !tracked || !!spare?.(tracked);
+    });
+  }
+
+  /**
+   * Outpoints Counterparty must not pick when composing (exclude_utxos)
+   *
+   * @param signingKey Leaves out the outpoints held for this signing request,
+   *   so composing it again can pick the same inputs
+   */
+  async getExcludedOutpoints(signingKey?: string): Promise<string[]> {
+    return Object.values(await this.getTracked())
+      .filter(tracked => !signingKey || tracked.signingKey !== signingKey)
+      .map(tracked => tracked.outpoint);
+  }
+
+  /**
+   * Outpoints held for a signing request
+   */
+  async getHeld(signingKey: string): Promise<string[]> {
+    return Object.values(await this.getTracked())
+      .filter(tracked => tracked.state === 'signing' && tracked.signingKey === signingKey)
+      .map(tracked => tracked.outpoint);
+  }
+
+  /**
+   * Hold inputs while a transaction using them is composed and signed
+   */
+  async reserve(outpoints: string[], purpose: BroadcastKind): Promise<void> {
+    await this.update(outpoints, outpoint => ({ outpoint, state: 'reserved', purpose, since: Date.now() }));
+  }
+
+  /**
+   * Free reserved inputs after a transaction failed before broadcast
+   */
+  async release(outpoints: string[]): Promise<void> {
+    await this.update(outpoints, () => null);
+  }
+
+  /**
+   * Hold the inputs of a PSBT queued for signature, for as long as its request lives
+   * Outpoints already recorded as spent stay spent.
+   */
+  async holdForSigning(outpoints: string[], purpose: BroadcastKind, signingKey: string, since: number): Promise<void> {
+    const tracked = await this.getTracked();
+    await this.update(
+      outpoints.filter(outpoint => tracked[outpoint]?.state !== 'spent'),
+      outpoint => ({ outpoint, state: 'signing', purpose, signingKey, since })
+    );
+  }
+
+  /**
+   * Free the inputs held for a signing request once it leaves the queue
+   */
+  async releaseSigning(signingKey: string): Promise<void> {
+    await this.release(await this.getHeld(signingKey));
+  }
+
+  /**
+   * Record the inputs of a broadcast transaction
+   */
+  async markSpent(outpoints: string[], purpose: BroadcastKind, txid?: string): Promise<void> {
+    await this.update(outpoints, outpoint => ({ outpoint, state: 'spent', purpose, txid, since: Date.now() }));
+  }
+
+  /**
+   * Plan splitting the largest confirmed UTXO into equal outputs
+   * Only when fewer than splitCount UTXOs are spendable; the number of outputs
+   * shrinks if the UTXO can't fund splitCount outputs of minSplitOutputSats.
+   */
+  planSplit(utxos: UTXO[], feeRate: number): UtxoPlan | null {
+    const { splitCount, minSplitOutputSats } = this.config;
+    const spendable = this.spendable(utxos);
+    if (splitCount < 2 || spendable.length >= splitCount) return null;
+
+    const largest = spendable.reduce<UTXO | null>((max, u) => (!max || u.value > max.value ? u : max), null);
+    if (!largest) return null;
+
+    const count = Math.min(splitCount, Math.floor((largest.value - estimateFee(this.address, 1, splitCount, feeRate)) / minSplitOutputSats));
+    if (count < 2) return null;
+
+    const fee = estimateFee(this.address, 1, count, feeRate);
+    const each = Math.floor((largest.value - fee) / count);
+    return {
+      action: 'split',
+      inputs: [largest],
+      outputs: Array(count).fill(each),
+      fee: largest.value - each * count,
+    };
+  }
+
+  /**
+   * Plan merging confirmed dust UTXOs into one, when fees are low enough
+   */
+  planConsolidation(utxos: UTXO[], feeRate: number): UtxoPlan | null {
+    const { dustThresholdSats, consolidateMaxFeeRate, consolidateMinInputs } = this.config;
+    if (dustThresholdSats <= 0 || feeRate > consolidateMaxFeeRate) return null;
+
+    const dust = utxos
+      .filter(u => u.status?.confirmed && u.value < dustThresholdSats)
+      .sort((a, b) => b.value - a.value)
+      .slice(0, UTXO_CONFIG.CONSOLIDATE_MAX_INPUTS);
+    if (dust.length < consolidateMinInputs) return null;
+
+    const total = dust.reduce((sum, u) => sum + u.value, 0);
+    const fee = estimateFee(this.address, dust.length, 1, feeRate);
+    if (total - fee < UTXO_CONFIG.DUST_LIMIT_SATS) return null;
+
+    return {
+      action: 'consolidate',
+      inputs: dust,
+      outputs: [total - fee],
+      fee,
+    };
+  }
+
+  /**
+   * Unsigned raw transaction for a plan, paying every output to our address
+   */
+  buildTransaction(plan: UtxoPlan): string {
+    return buildRawTransaction(
+      plan.inputs,
+      plan.outputs.map(value => ({ address: this.address, value }))
+    );
+  }
+
+  /**
+   * Summary of the UTXO set for the status endpoint
+   * Pass the address's current UTXOs (tracked outpoints are already dropped
+   * from the counts of spendable UTXOs).
+   */
+  async getStatus(utxos: UTXO[]): Promise<UtxoStatus> {
+    const tracked = await this.getTracked();
+    const untracked = utxos.filter(u => !tracked[outpointOf(u)]);
+
+    return {
+      total: utxos.length,
+      totalSats: utxos.reduce((sum, u) => sum + u.value, 0),
+      confirmed: utxos.filter(u => u.status?.confirmed).length,
+      spendable: this.spendable(untracked).length,
+      dust: utxos.filter(u => u.value < this.config.dustThresholdSats).length,
+      tracked: Object.values(tracked).sort((a, b) => a.since - b.since),
+    };
+  }
+
+  private spendable(utxos: UTXO[]): UTXO[] {
+    return utxos.filter(u => u.status?.confirmed && u.value >= this.config.dustThresholdSats);
+  }
+
+  /**
+   * Write or clear only the given outpoints' fields
+   */
+  private async update(
+    outpoints: string[],
+    apply: (outpoint: string) => TrackedOutpoint | null
+  ): Promise<void> {
+    if (outpoints.length === 0) return;
+
+    const fields: Record<string, TrackedOutpoint> = {};
+    const removed: string[] = [];
+    for (const outpoint of outpoints) {
+      const tracked = apply(outpoint);
+      if (tracked) {
+        fields[outpoint] = tracked;
+      } else {
+        removed.push(outpoint);
+      }
+    }
+
+    try {
+      if (Object.keys(fields).length > 0) {
+        await this.storage.hset(OUTPOINTS_KEY, fields);
+        await this.storage.expire(OUTPOINTS_KEY, OUTPOINTS_TTL);
+      }
+      await this.forget(removed);
+    } catch (error) {
+      console.error('[UtxoManager] Error saving outpoints:', error);
+    }
+  }
+
+  private async forget(outpoints: string[]): Promise<void> {
+    if (outpoints.length === 0) return;
+    try {
+      await this.storage.hdel(OUTPOINTS_KEY, ...outpoints);
+    } catch (error) {
+      console.error('[UtxoManager] Error removing outpoints:', error);
+    }
+  }
+
+  /**
+   * Tracked outpoints; expired reservations and stale spends are dropped
+   */
+  private async loadOutpoints(): Promise<Record<string, TrackedOutpoint>> {
+    let outpoints: Record<string, TrackedOutpoint> = {};
+    try {
+      await this.migrateLegacyState();
+      outpoints = await this.storage.hgetall<Record<string, TrackedOutpoint>>(OUTPOINTS_KEY) || {};
+    } catch (error) {
+      console.error('[UtxoManager] Error loading outpoints:', error);
+    }
+
+    const now = Date.now();
+    const expired: string[] = [];
+    for (const [outpoint, tracked] of Object.entries(outpoints)) {
+      if (now - tracked.since > TRACKED_TTL[tracked.state]) {
+        expired.push(outpoint);
+        delete outpoints[outpoint];
+      }
+    }
+    await this.forget(expired);
+    return outpoints;
+  }
+
+  /**
+   * Move outpoints tracked by earlier versions into the hash
+   * Fields already in the hash are newer and win.
+   */
+  private async migrateLegacyState(): Promise<void> {
+    if (this.legacyMigrated) return;
+    const legacy = await this.storage.get<UtxoManagerState>(LEGACY_STATE_KEY);
+    this.legacyMigrated = true;
+    if (!legacy) return;
+
+    const current = await this.storage.hgetall<Record<string, TrackedOutpoint>>(OUTPOINTS_KEY) || {};
+    const fields = { ...(legacy.outpoints || {}), ...current };
+    if (Object.keys(fields).length > 0) {
+      await this.storage.hset(OUTPOINTS_KEY, fields);
+      await this.storage.expire(OUTPOINTS_KEY, OUTPOINTS_TTL);
+    }
+    await this.storage.del(LEGACY_STATE_KEY);
+  }
+}
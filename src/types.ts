@@ -32,6 +32,28 @@ export interface Order {
   };
 }
 
+export interface OrderMatch {
+  id: string; // tx0_hash + '_' + tx1_hash
+  tx0_index: number;
+  tx0_hash: string;
+  tx0_address: string; // Original order creator
+  tx1_index: number;
+  tx1_hash: string;
+  tx1_address: string; // Order filler
+  forward_asset: string; // Asset given by tx0
+  forward_quantity: number;
+  backward_asset: string; // Asset given by tx1
+  backward_quantity: number;
+  tx0_block_index: number;
+  tx1_block_index: number;
+  block_index: number;
+  match_expire_index: number;
+  fee_paid: number;
+  status: string; // 'completed' | 'pending' | 'expired'
+  confirmed?: boolean;
+  block_time?: number;
+}
+
 export interface Issuance {
   tx_index: number;
   tx_hash: string;
@@ -50,6 +72,51 @@ export interface Issuance {
   confirmed: boolean;
 }
 
+/**
+ * An event from the mempool or the ledger; params depend on the event
+ */
+export interface MempoolEvent<P extends object = object> {
+  event: string;
+  tx_hash: string;
+  block_index?: number;
+  params: P;
+}
+
+/**
+ * ASSET_ISSUANCE params (also ownership transfers: quantity 0, transfer true)
+ */
+export interface AssetIssuanceParams {
+  asset: string;
+  asset_longname?: string | null;
+  quantity: number;
+  transfer: boolean;
+  asset_events?: string;
+  source?: string;
+  issuer?: string;  // New owner for transfers
+  transfer_destination?: string;
+}
+
+/**
+ * OPEN_ORDER / ORDER params
+ */
+export interface OrderEventParams {
+  source: string;
+  give_asset: string;
+  give_quantity: number;
+  get_asset: string;
+  get_quantity?: number;
+  give_asset_info?: Order['give_asset_info'];
+  get_asset_info?: Order['get_asset_info'];
+}
+
+export interface Balance {
+  address?: string;
+  utxo?: string;  // txid:vout, for balances attached to a UTXO
+  asset: string;
+  asset_longname: string | null;
+  quantity: number;
+}
+
 export interface Block {
   block_index: number;
   block_hash: string;
@@ -162,7 +162,8 @@ describeWithKV('FulfillmentProcessor Integration', () => {
         hex: '0200000001...',
         txid: 'tx123',
         fee: 15000, // Exceeds 10000 sats ceiling
-        vsize: 250
+        vsize: 250,
+        inputs: ['utxo_txid_12345:0']
       });
 
       const results = await processor.process();
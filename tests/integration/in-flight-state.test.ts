@@ -0,0 +1,210 @@
+/**
+ * Integration tests for persisted in-flight tracking
+ *
+ * Vercel builds a new FulfillmentProcessor on every cron invocation, so RBF
+ * history and retry counters must survive across instances via storage.
+ */
+
+import { FulfillmentProcessor } from '../../src/services/fulfillment';
+import { MemoryStorage, setStorage } from '../../src/services/storage';
+import { OrderTransaction } from '../../src/services/state';
+
+function trackedTransfer(orderHash: string, txid: string): OrderTransaction {
+  return {
+    orderHash,
+    asset: 'RAREPEPE',
+    buyer: 'buyer_address',
+    txid,
+    originalTxid: txid,
+    rbfHistory: [txid],
+    broadcastTime: Date.now(),
+    broadcastBlock: 850000,
+    feeRate: 15,
+    isRbf: false,
+    rbfCount: 0
+  };
+}
+
+function createProcessor(): FulfillmentProcessor {
+  const processor = new FulfillmentProcessor({
+    xcpfolioAddress: '1TestAddressDoNotUse',
+    privateKey: 'cTestPrivateKeyDoNotUse',
+    network: 'testnet',
+    composeCooldown: 100
+  });
+
+  (processor as any).bitcoin = {
+    getCurrentBlockHeight: jest.fn().mockResolvedValue(850000),
+    getUnconfirmedTxCount: jest.fn().mockResolvedValue(1),
+    isInMempool: jest.fn().mockResolvedValue(true),
+    getTransactionFeeRate: jest.fn().mockResolvedValue(12)
+  };
+  (processor as any).counterparty = {
+    getMempoolTransfers: jest.fn().mockResolvedValue([]),
+    getMempoolBuyOrders: jest.fn().mockResolvedValue([]),
+    getFilledXCPFOLIOOrders: jest.fn().mockResolvedValue([]),
+    getXCPFOLIOOrdersFilledSince: jest.fn().mockResolvedValue({ orders: [] }),
+    getCurrentBlock: jest.fn().mockResolvedValue({ block_index: 850000 }),
+    beginRun: jest.fn(),
+    endRun: jest.fn().mockReturnValue({ requests: 0, cached: 0, coalesced: 0, invalidations: 0 }),
+    observeBlockHeight: jest.fn()
+  };
+
+  return processor;
+}
+
+describe('FulfillmentProcessor in-flight persistence', () => {
+  beforeEach(() => {
+    setStorage(new MemoryStorage());
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  it('should restore tracked transactions and failures in a new instance', async () => {
+    const first = createProcessor();
+    (first as any).processingState.orderTransactions.set('order_1', {
+      orderHash: 'order_1',
+      asset: 'RAREPEPE',
+      buyer: 'buyer_address',
+      txid: 'tx_2',
+      originalTxid: 'tx_1',
+      rbfHistory: ['tx_1', 'tx_2'],
+      broadcastTime: Date.now(),
+      broadcastBlock: 850000,
+      feeRate: 15,
+      isRbf: true,
+      rbfCount: 1
+    });
+    (first as any).processingState.preBroadcastFailures.set('order_2', {
+      count: 9,
+      lastError: 'compose failed',
+      stage: 'compose',
+      firstFailureTime: Date.now(),
+      lastAttemptTime: Date.now()
+    });
+    await first.process();
+
+    const second = createProcessor();
+    await second.process();
+    const state = await second.getState();
+
+    expect(state.mempool.activeTransactions).toBe(1);
+    expect(state.mempool.transactions[0].rbfHistory).toEqual(['tx_1', 'tx_2']);
+    expect(state.mempool.transactions[0].feeRate).toBe(15);
+    expect(state.failures.details[0]).toMatchObject({ order: 'order_2', count: 9 });
+  });
+
+  it('should keep transfers tracked by concurrent runs', async () => {
+    const first = createProcessor();
+    const second = createProcessor();
+    await first.process();
+    await second.process();
+
+    (first as any).processingState.orderTransactions.set('order_1', trackedTransfer('order_1', 'tx_1'));
+    await (first as any).persistProcessingState();
+    (second as any).processingState.orderTransactions.set('order_2', trackedTransfer('order_2', 'tx_2'));
+    await (second as any).persistProcessingState();
+
+    const { orderTransactions } = await (createProcessor() as any).state.getInFlight();
+    expect(Object.keys(orderTransactions).sort()).toEqual(['order_1', 'order_2']);
+
+    // Dropping an entry only removes that one
+    (first as any).processingState.orderTransactions.delete('order_1');
+    await (first as any).persistProcessingState();
+    expect(Object.keys((await (createProcessor() as any).state.getInFlight()).orderTransactions)).toEqual(['order_2']);
+  });
+
+  it('should apply admin retries and forced RBF to entries another run tracks', async () => {
+    const worker = createProcessor();
+    const admin = createProcessor();
+    await admin.process();
+    await worker.process();
+
+    (worker as any).processingState.orderTransactions.set('order_1', trackedTransfer('order_1', 'tx_1'));
+    (worker as any).processingState.preBroadcastFailures.set('order_2', {
+      count: 9, lastError: 'compose failed', stage: 'compose', firstFailureTime: Date.now(), lastAttemptTime: Date.now()
+    });
+    await (worker as any).persistProcessingState();
+
+    // The admin instance only has the version from before the worker's bump
+    (admin as any).processingState.orderTransactions.set('order_1', trackedTransfer('order_1', 'tx_0'));
+    (admin as any).persistedTransactions.set('order_1', JSON.stringify((admin as any).processingState.orderTransactions.get('order_1')));
+    await admin.forceRbf('order_1');
+    await admin.retryOrder('order_2');
+
+    const { orderTransactions, preBroadcastFailures } = await (createProcessor() as any).state.getInFlight();
+    expect(orderTransactions.order_1).toMatchObject({ txid: 'tx_1', needsRbf: true });
+    expect(preBroadcastFailures).toEqual({});
+  });
+
+  it('should recover untracked mempool transfers with their real fee rate', async () => {
+    const processor = createProcessor();
+    (processor as any).counterparty.getMempoolTransfers.mockResolvedValue([{
+      tx_hash: 'mempool_tx',
+      params: { asset: 'RAREPEPE', transfer_destination: 'buyer_address' }
+    }]);
+    (processor as any).counterparty.getFilledXCPFOLIOOrders.mockResolvedValue([{
+      tx_hash: 'order_1',
+      give_asset: 'XCPFOLIO.RAREPEPE',
+      give_asset_info: { asset_longname: 'XCPFOLIO.RAREPEPE' },
+      block_index: 849999
+    }]);
+
+    await processor.process();
+    const state = await processor.getState();
+
+    expect(state.mempool.activeTransactions).toBe(1);
+    expect(state.mempool.transactions[0].feeRate).toBe(12);
+    expect(state.processedOrders).toContain('order_1');
+  });
+
+  it('should scan fills from the saved cursor and carry unfinished orders', async () => {
+    const order = {
+      tx_hash: 'order_1',
+      source: '1BoatSLRHtKNngkdXEeobR76b53LETtpyT',
+      give_asset: 'XCPFOLIO.RAREPEPE',
+      give_asset_info: { asset_longname: 'XCPFOLIO.RAREPEPE' },
+      get_quantity: 100000000,
+      block_index: 849000
+    };
+    const first = createProcessor();
+    (first as any).counterparty.getFilledXCPFOLIOOrders.mockResolvedValue([order]);
+    // The mempool fills up before the order's turn
+    (first as any).bitcoin.getUnconfirmedTxCount.mockResolvedValueOnce(1).mockResolvedValue(25);
+    await first.process();
+
+    expect((first as any).counterparty.getXCPFOLIOOrdersFilledSince).not.toHaveBeenCalled();
+
+    const second = createProcessor();
+    (second as any).counterparty.getCurrentBlock.mockResolvedValue({ block_index: 850003 });
+    (second as any).bitcoin.getUnconfirmedTxCount.mockResolvedValueOnce(1).mockResolvedValue(25);
+    await second.process();
+    const scan = await (second as any).state.getFilledOrderScan();
+
+    expect((second as any).counterparty.getFilledXCPFOLIOOrders).not.toHaveBeenCalled();
+    expect((second as any).counterparty.getXCPFOLIOOrdersFilledSince).toHaveBeenCalledWith(expect.any(String), 849995);
+    expect(scan.cursor).toBe(850003);
+    expect(scan.unfinishedOrders.map((o: { tx_hash: string }) => o.tx_hash)).toEqual(['order_1']);
+  });
+
+  it('should keep the scan cursor below a fill whose order could not be read', async () => {
+    const first = createProcessor();
+    await first.process();
+
+    const second = createProcessor();
+    (second as any).counterparty.getCurrentBlock.mockResolvedValue({ block_index: 850010 });
+    (second as any).counterparty.getXCPFOLIOOrdersFilledSince.mockResolvedValue({ orders: [], failedBlock: 850004 });
+    await second.process();
+    expect((await (second as any).state.getFilledOrderScan()).cursor).toBe(850003);
+
+    // The next scan reaches back to the failed block, then moves on once it's read
+    const third = createProcessor();
+    (third as any).counterparty.getCurrentBlock.mockResolvedValue({ block_index: 850012 });
+    await third.process();
+
+    expect((third as any).counterparty.getXCPFOLIOOrdersFilledSince).toHaveBeenCalledWith(expect.any(String), 849998);
+    expect((await (third as any).state.getFilledOrderScan()).cursor).toBe(850012);
+  });
+});
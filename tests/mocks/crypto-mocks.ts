@@ -15,13 +15,14 @@ export const hex = {
   encode: jest.fn((buf: Uint8Array) => Buffer.from(buf).toString('hex'))
 };
 
-export const base58check = {
+// base58check(sha256) returns the coder
+export const base58check = jest.fn((hash?: any) => ({
   decode: jest.fn((str: string) => {
-    // Mock WIF decode - return a fake private key
-    return Buffer.concat([Buffer.alloc(32, 1), Buffer.from([0x01])]);
+    // Mock WIF decode - version byte, fake private key, compression flag
+    return Buffer.concat([Buffer.from([0x80]), Buffer.alloc(32, 1), Buffer.from([0x01])]);
   }),
   encode: jest.fn((buf: Uint8Array) => 'cMockPrivateKey')
-};
+}));
 
 // Mock @scure/btc-signer
 export class Transaction {
@@ -29,6 +30,7 @@ export class Transaction {
   lockTime = 0;
   inputs: any[] = [];
   outputs: any[] = [];
+  psbt?: Uint8Array;
 
   constructor(opts?: any) {
     if (opts) {
@@ -36,6 +38,49 @@ export class Transaction {
     }
   }
 
+  // Mock parse of an unsigned compose result: one input, one output
+  static fromRaw(raw: Uint8Array, opts?: any) {
+    const tx = new Transaction(opts);
+    tx.inputs = [{ txid: Buffer.alloc(32, 0xaa), index: 0 }];
+    tx.outputs = [{ script: Buffer.from('6a', 'hex'), amount: 90000n }];
+    return tx;
+  }
+
+  // Mock PSBT round trip: the PSBT bytes stand in for the unsigned tx
+  static fromPSBT(psbt: Uint8Array, opts?: any) {
+    const tx = Transaction.fromRaw(psbt, opts);
+    tx.psbt = psbt;
+    return tx;
+  }
+
+  toPSBT() {
+    return Buffer.from('mockpsbt');
+  }
+
+  get unsignedTx() {
+    return this.psbt || Buffer.from('mockpsbt');
+  }
+
+  get isFinal() {
+    return false;
+  }
+
+  get inputsLength() {
+    return this.inputs.length;
+  }
+
+  get outputsLength() {
+    return this.outputs.length;
+  }
+
+  getInput(idx: number) {
+    return this.inputs[idx];
+  }
+
+  getOutput(idx: number) {
+    return this.outputs[idx];
+  }
+
   addInput(input: any) {
     this.inputs.push(input);
   }
@@ -75,11 +120,47 @@ export const p2pkh = jest.fn((pubkey: Uint8Array, network?: any) => ({
   type: 'pkh'
 }));
 
+export const p2wpkh = jest.fn((pubkey: Uint8Array, network?: any) => ({
+  script: Buffer.from('0014' + '00'.repeat(20), 'hex'),
+  address: 'bc1qmockaddress',
+  type: 'wpkh'
+}));
+
+export const p2sh = jest.fn((child: any, network?: any) => ({
+  script: Buffer.from('a914' + '00'.repeat(20) + '87', 'hex'),
+  redeemScript: child.script,
+  address: '3MockAddress',
+  type: 'sh'
+}));
+
+export const p2tr = jest.fn((internalPubKey: Uint8Array, tree?: any, network?: any) => ({
+  script: Buffer.from('5120' + '00'.repeat(32), 'hex'),
+  tapInternalKey: internalPubKey,
+  address: 'bc1pmockaddress',
+  type: 'tr'
+}));
+
+export const OutScript = {
+  encode: jest.fn((decoded: any) => Buffer.from('0014' + '00'.repeat(20), 'hex'))
+};
+
+export const Address = jest.fn((network?: any) => ({
+  decode: jest.fn((address: string) => ({ type: 'wpkh', hash: Buffer.alloc(20) })),
+  encode: jest.fn((decoded: any) => 'bc1qmockaddress')
+}));
+
+export const SigHash = {
+  DEFAULT: 0,
+  ALL: 1
+};
+
 export const NETWORK = {
   mainnet: { bech32: 'bc', pubKeyHash: 0x00, scriptHash: 0x05 },
   testnet: { bech32: 'tb', pubKeyHash: 0x6f, scriptHash: 0xc4 }
 };
 
+export const TEST_NETWORK = NETWORK.testnet;
+
 export const selectUTXO = jest.fn((utxos: any[], outputs: any[]) => {
   // Mock UTXO selection - just return first UTXOs
   return {
@@ -93,7 +174,14 @@ export const selectUTXO = jest.fn((utxos: any[], outputs: any[]) => {
 const btcSigner = {
   Transaction,
   p2pkh,
+  p2wpkh,
+  p2sh,
+  p2tr,
+  OutScript,
+  Address,
+  SigHash,
   NETWORK,
+  TEST_NETWORK,
   selectUTXO
 };
 
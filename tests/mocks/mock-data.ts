@@ -93,7 +93,8 @@ export const mockSignedTransaction = {
   hex: '0200000001signed...',
   txid: 'broadcast_tx_12345',
   fee: 2500,
-  vsize: 250
+  vsize: 250,
+  inputs: ['utxo_txid_12345:0']
 };
 
 export const mockAssetInfo = {
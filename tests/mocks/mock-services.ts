@@ -9,6 +9,8 @@ export class MockCounterpartyService {
   
   getFilledXCPFOLIOOrders = jest.fn(() => Promise.resolve([mockData.mockFilledOrder]));
   
+  getXCPFOLIOOrdersFilledSince = jest.fn(() => Promise.resolve({ orders: [mockData.mockFilledOrder] }));
+  
   validateOrder = jest.fn(() => Promise.resolve({
     valid: true,
     asset: 'RAREPEPE',
@@ -22,6 +24,12 @@ export class MockCounterpartyService {
   getAssetInfo = jest.fn(() => Promise.resolve(mockData.mockAssetInfo));
   
   broadcastTransaction = jest.fn(() => Promise.resolve('broadcast_tx_12345'));
+  
+  beginRun = jest.fn();
+  
+  endRun = jest.fn(() => ({ requests: 0, cached: 0, coalesced: 0, invalidations: 0 }));
+  
+  observeBlockHeight = jest.fn();
 }
 
 export class MockBitcoinService {
@@ -42,6 +50,8 @@ export class MockBitcoinService {
   getTransaction = jest.fn(() => Promise.resolve({
     status: { confirmed: false }
   }));
+  
+  getTransactionFeeRate = jest.fn(() => Promise.resolve(10));
 }
 
 export class MockStateManager {
@@ -72,6 +82,17 @@ export class MockStateManager {
     processedOrders: this.processedOrders
   }));
   
+  getInFlight = jest.fn(() => Promise.resolve({
+    orderTransactions: {},
+    preBroadcastFailures: {}
+  }));
+  
+  getOrderTransaction = jest.fn(() => Promise.resolve(null));
+  setOrderTransactions = jest.fn();
+  removeOrderTransactions = jest.fn();
+  setPreBroadcastFailures = jest.fn();
+  removePreBroadcastFailures = jest.fn();
+  
   reset = jest.fn(() => {
     this.processedOrders.clear();
   });
@@ -10,6 +10,11 @@ process.env.DRY_RUN = 'true';
 process.env.XCPFOLIO_ADDRESS = '1TestAddressDoNotUse';
 process.env.XCPFOLIO_PRIVATE_KEY = 'cTestPrivateKeyDoNotUse';
 
+// Keep state in memory unless a test opts into Redis/KV explicitly
+if (!process.env.KV_REST_API_URL) {
+  process.env.STORAGE_BACKEND = 'memory';
+}
+
 // Suppress console output during tests unless debugging
 if (!process.env.DEBUG) {
   global.console = {
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for admin actions and their audit trail
+ */
+
+import { AdminService, isAdminAuthorized } from '../../src/services/admin';
+import { MemoryStorage } from '../../src/services/storage';
+
+describe('isAdminAuthorized', () => {
+  const originalToken = process.env.ADMIN_API_TOKEN;
+
+  afterEach(() => {
+    process.env.ADMIN_API_TOKEN = originalToken;
+  });
+
+  it('should accept the configured bearer token', () => {
+    process.env.ADMIN_API_TOKEN = 'secret-token';
+
+    expect(isAdminAuthorized('Bearer secret-token')).toBe(true);
+    expect(isAdminAuthorized('Bearer wrong-token')).toBe(false);
+    expect(isAdminAuthorized(undefined)).toBe(false);
+  });
+
+  it('should reject everything when no token is configured', () => {
+    delete process.env.ADMIN_API_TOKEN;
+
+    expect(isAdminAuthorized('Bearer ')).toBe(false);
+    expect(isAdminAuthorized('Bearer anything')).toBe(false);
+  });
+});
+
+describe('AdminService', () => {
+  let processor: any;
+  let maintenance: any;
+  let admin: AdminService;
+
+  beforeEach(() => {
+    processor = {
+      retryOrder: jest.fn().mockResolvedValue(undefined),
+      setOrderProcessed: jest.fn().mockResolvedValue(undefined),
+      forceRbf: jest.fn().mockResolvedValue({ txid: 'tx_1' })
+    };
+    maintenance = {
+      cancelListing: jest.fn().mockResolvedValue({ asset: 'RAREPEPE', price: 1, success: true, txid: 'cancel_tx' }),
+      clearFailure: jest.fn().mockResolvedValue(undefined)
+    };
+    admin = new AdminService(processor, maintenance, new MemoryStorage());
+  });
+
+  it('should route order actions to the processor', async () => {
+    await admin.execute('retry-order', 'order_1', 'ops');
+    await admin.execute('mark-unprocessed', 'order_2', 'ops');
+    const rbf = await admin.execute('force-rbf', 'order_3', 'ops');
+
+    expect(processor.retryOrder).toHaveBeenCalledWith('order_1');
+    expect(processor.setOrderProcessed).toHaveBeenCalledWith('order_2', false);
+    expect(rbf.txid).toBe('tx_1');
+  });
+
+  it('should route listing actions to order maintenance', async () => {
+    const result = await admin.execute('cancel-listing', 'RAREPEPE', 'ops');
+    await admin.execute('clear-maintenance-failure', 'RAREPEPE', 'ops');
+
+    expect(result).toMatchObject({ success: true, txid: 'cancel_tx' });
+    expect(maintenance.clearFailure).toHaveBeenCalledWith('RAREPEPE');
+  });
+
+  it('should audit successful and failed actions, newest first', async () => {
+    processor.forceRbf.mockRejectedValue(new Error('No in-flight transaction tracked for order order_9'));
+
+    await admin.execute('mark-processed', 'order_1', 'alice', 'delivered manually');
+    const failed = await admin.execute('force-rbf', 'order_9', 'bob');
+    const entries = await admin.getAuditLog();
+
+    expect(failed.success).toBe(false);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ action: 'force-rbf', target: 'order_9', actor: 'bob', success: false });
+    expect(entries[1]).toMatchObject({ action: 'mark-processed', actor: 'alice', reason: 'delivered manually', success: true });
+  });
+
+  it('should keep every entry from concurrent actions', async () => {
+    await Promise.all(['order_1', 'order_2', 'order_3'].map(orderHash => admin.execute('retry-order', orderHash, 'ops')));
+
+    expect((await admin.getAuditLog()).map(entry => entry.target).sort()).toEqual(['order_1', 'order_2', 'order_3']);
+    expect(await admin.getAuditLog(1)).toHaveLength(1);
+  });
+});
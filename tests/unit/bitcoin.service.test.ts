@@ -2,8 +2,10 @@
  * Unit tests for BitcoinService
  */
 
-import { BitcoinService } from '../../src/services/bitcoin';
+import { BitcoinService, AddressType, detectAddressType, estimateVsize, estimateSignedVsize } from '../../src/services/bitcoin';
+import { setProviderPool } from '../../src/services/bitcoin-providers';
 import axios from 'axios';
+import { Transaction } from '@scure/btc-signer';
 import { mockUTXO, mockFeeRates } from '../mocks/mock-data';
 
 jest.mock('axios');
@@ -13,6 +15,7 @@ describe('BitcoinService', () => {
   let service: BitcoinService;
 
   beforeEach(() => {
+    setProviderPool(null); // Fresh provider health for each test
     service = new BitcoinService('testnet');
     jest.clearAllMocks();
   });
@@ -142,6 +145,28 @@ describe('BitcoinService', () => {
 
       expect(fee).toBe(expectedFee);
     });
+
+    it('should use witness discount for SegWit inputs', async () => {
+      const fee = await service.estimateFee(1, 2, 10, 'p2wpkh');
+
+      // 113 base bytes + 110 witness bytes / 4
+      expect(fee).toBe(141 * 10);
+    });
+  });
+
+  describe('estimateVsize', () => {
+    it('should size each address type', () => {
+      expect(estimateVsize(1, [25, 25], 'p2pkh')).toBe(226);
+      expect(estimateVsize(1, [23, 23], 'p2sh-p2wpkh')).toBe(166);
+      expect(estimateVsize(1, [22, 22], 'p2wpkh')).toBe(141);
+      expect(estimateVsize(1, [34, 34], 'p2tr')).toBe(154);
+    });
+
+    it('should size a composed transaction from its outputs', () => {
+      // Mock transaction: one input, one 1-byte OP_RETURN output
+      expect(estimateSignedVsize('00', 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq')).toBe(89);
+      expect(estimateSignedVsize('00', '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2')).toBe(168);
+    });
   });
 
   describe('broadcastTransaction', () => {
@@ -180,4 +205,71 @@ describe('BitcoinService', () => {
       ).rejects.toThrow('Failed to broadcast transaction');
     });
   });
-});
\ No newline at end of file
+
+  describe('signTransaction', () => {
+    // Addresses the mocked payment builders derive for the mocked key
+    const addresses: Record<AddressType, string> = {
+      'p2pkh': '1MockAddress',
+      'p2sh-p2wpkh': '3MockAddress',
+      'p2wpkh': 'bc1qmockaddress',
+      'p2tr': 'bc1pmockaddress'
+    };
+
+    let addInput: jest.SpyInstance;
+
+    beforeEach(() => {
+      addInput = jest.spyOn(Transaction.prototype, 'addInput');
+      jest.spyOn(service, 'fetchUTXOs').mockResolvedValue([{ ...mockUTXO, txid: 'aa'.repeat(32), value: 100000 }]);
+      jest.spyOn(service, 'fetchRawTransaction').mockResolvedValue('0200000000');
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should detect address types', () => {
+      expect(detectAddressType('1BotpWeW4cWRZ26rLvBCRHTeWtaH5fUYPX')).toBe('p2pkh');
+      expect(detectAddressType('3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy')).toBe('p2sh-p2wpkh');
+      expect(detectAddressType('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq')).toBe('p2wpkh');
+      expect(detectAddressType('tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx')).toBe('p2wpkh');
+      expect(detectAddressType('bc1p5d7rjq7g6rdk2yhzks9smlaqtedr4dekq08ge8ztwac72sfr9rusxg3297')).toBe('p2tr');
+      expect(() => detectAddressType('xyz')).toThrow('Unsupported address type');
+    });
+
+    it('should attach the previous transaction for P2PKH inputs', async () => {
+      const signed = await service.signTransaction('00', addresses['p2pkh'], 'wif');
+
+      expect(addInput).toHaveBeenCalledWith(expect.objectContaining({ nonWitnessUtxo: expect.anything() }));
+      expect(signed.fee).toBe(10000);
+    });
+
+    it.each(['p2sh-p2wpkh', 'p2wpkh', 'p2tr'] as AddressType[])(
+      'should sign %s inputs with a witness UTXO',
+      async (type) => {
+        const signed = await service.signTransaction('00', addresses[type], 'wif');
+        const input = addInput.mock.calls[0][0];
+
+        expect(input.nonWitnessUtxo).toBeUndefined();
+        expect(input.witnessUtxo.amount).toBe(100000n);
+        expect(input.redeemScript !== undefined).toBe(type === 'p2sh-p2wpkh');
+        expect(input.tapInternalKey !== undefined).toBe(type === 'p2tr');
+        expect(service.fetchRawTransaction).not.toHaveBeenCalled();
+        expect(signed.fee).toBe(10000);
+      }
+    );
+
+    it('should report the transaction vsize and txid rather than the hex length', async () => {
+      const signed = await service.signTransaction('00', addresses['p2wpkh'], 'wif');
+
+      expect(signed.vsize).toBe(250);
+      expect(signed.vsize).not.toBe(signed.hex.length / 2);
+      expect(signed.txid).toBe('mocktxid123456789');
+    });
+
+    it('should refuse to sign for an address the key does not control', async () => {
+      await expect(
+        service.signTransaction('00', 'bc1qsomeoneelse', 'wif')
+      ).rejects.toThrow('does not match');
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Signing tests against the real @scure/btc-signer
+ * jest.config.js runs *.signing.test.ts without the crypto mocks.
+ */
+
+import { Transaction, SigHash, p2pkh } from '@scure/btc-signer';
+import { bytesToHex } from '@noble/hashes/utils';
+import { sha256 } from '@noble/hashes/sha256';
+import * as secp256k1 from 'secp256k1';
+import {
+  BitcoinService,
+  AddressType,
+  addressToScript,
+  buildRawTransaction,
+  estimateSignedVsize
+} from '../../src/services/bitcoin';
+import { setProviderPool } from '../../src/services/bitcoin-providers';
+import { mockUTXO } from '../mocks/mock-data';
+
+// Fixed key (32 bytes of 0x07) and the address of each type it controls
+const WIF = 'KwTNVQ9B4wXUfnTF6e1EQkTHJwbzeFGYyK7NdopxuJjQYvQkAxtA';
+const PUBKEY = secp256k1.publicKeyCreate(new Uint8Array(32).fill(7), true);
+const ADDRESSES: Record<AddressType, string> = {
+  'p2pkh': '1FvyAqqELFiQyaEWdhFbWF8MZapKPZS8J7',
+  'p2sh-p2wpkh': '35kMD7vNoJHfEJXQmWx1QeSVz6bbxbh2oK',
+  'p2wpkh': 'bc1q50rtrmj2f8vl9tem8qpfw36ylw5jg9j29e5za5',
+  'p2tr': 'bc1pw53jtgez0wf69n06fchp0ctk48620zdscnrj8heh86wykp9mv20qya3c8w'
+};
+const RECIPIENT = '1BoatSLRHtKNngkdXEeobR76b53LETtpyT';
+const FUNDED = 100000n;
+
+describe('BitcoinService signing', () => {
+  let service: BitcoinService;
+
+  beforeEach(() => {
+    setProviderPool(null);
+    service = new BitcoinService('mainnet');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Fund the address, then compose a transaction spending that output
+   */
+  function compose(address: string): { fundingTxid: string; rawTx: string } {
+    const funding = new Transaction();
+    funding.addInput({ txid: 'ff'.repeat(32), index: 0 });
+    funding.addOutput({ script: addressToScript(address), amount: FUNDED });
+    // The funding transaction is never signed, so its txid is taken from the unsigned bytes
+    const fundingTxid = bytesToHex(sha256(sha256(funding.unsignedTx)).reverse());
+
+    jest.spyOn(service, 'fetchUTXOs').mockResolvedValue([{ ...mockUTXO, txid: fundingTxid, value: Number(FUNDED) }]);
+    jest.spyOn(service, 'fetchRawTransaction').mockResolvedValue(bytesToHex(funding.unsignedTx));
+
+    const rawTx = buildRawTransaction([{ txid: fundingTxid, vout: 0 }], [{ address: RECIPIENT, value: 90000 }]);
+    return { fundingTxid, rawTx };
+  }
+
+  function verifyEcdsa(signature: Uint8Array, message: Uint8Array): boolean {
+    expect(signature[signature.length - 1]).toBe(SigHash.ALL);
+    return secp256k1.ecdsaVerify(secp256k1.signatureImport(signature.slice(0, -1)), message, PUBKEY);
+  }
+
+  it.each(Object.keys(ADDRESSES) as AddressType[])('should sign and finalize a %s spend', async (type) => {
+    const { fundingTxid, rawTx } = compose(ADDRESSES[type]);
+
+    const signed = await service.signTransaction(rawTx, ADDRESSES[type], WIF);
+    const tx = Transaction.fromRaw(Buffer.from(signed.hex, 'hex'));
+
+    expect(signed.txid).toBe(tx.id);
+    expect(signed.fee).toBe(10000);
+    expect(signed.inputs).toEqual([`${fundingTxid}:0`]);
+    expect(tx.getInput(0).sequence).toBe(0xfffffffd);
+    expect(tx.getOutput(0)).toMatchObject({ amount: 90000n });
+
+    // Estimates assume the largest signature, so they're at most a byte high
+    const estimate = estimateSignedVsize(rawTx, ADDRESSES[type]);
+    expect(estimate - signed.vsize).toBeGreaterThanOrEqual(0);
+    expect(estimate - signed.vsize).toBeLessThanOrEqual(1);
+  });
+
+  it.each(['p2wpkh', 'p2sh-p2wpkh'] as AddressType[])('should sign %s inputs over the witness v0 sighash', async (type) => {
+    const { rawTx } = compose(ADDRESSES[type]);
+
+    const signed = await service.signTransaction(rawTx, ADDRESSES[type], WIF);
+    const tx = Transaction.fromRaw(Buffer.from(signed.hex, 'hex'));
+    const [signature, pubkey] = tx.getInput(0).finalScriptWitness!;
+
+    expect(bytesToHex(pubkey)).toBe(bytesToHex(PUBKEY));
+    const message = tx.preimageWitnessV0(0, p2pkh(PUBKEY).script, SigHash.ALL, FUNDED);
+    expect(verifyEcdsa(signature, message)).toBe(true);
+  });
+
+  it('should push the signature and public key for P2PKH inputs', async () => {
+    const { rawTx } = compose(ADDRESSES['p2pkh']);
+
+    const signed = await service.signTransaction(rawTx, ADDRESSES['p2pkh'], WIF);
+    const input = Transaction.fromRaw(Buffer.from(signed.hex, 'hex')).getInput(0);
+
+    expect(input.finalScriptWitness).toBeUndefined();
+    expect(bytesToHex(input.finalScriptSig!)).toContain(bytesToHex(PUBKEY));
+  });
+
+  it('should key-path sign P2TR inputs with a 64-byte Schnorr signature', async () => {
+    const { rawTx } = compose(ADDRESSES['p2tr']);
+
+    const signed = await service.signTransaction(rawTx, ADDRESSES['p2tr'], WIF);
+    const witness = Transaction.fromRaw(Buffer.from(signed.hex, 'hex')).getInput(0).finalScriptWitness!;
+
+    expect(witness).toHaveLength(1);
+    expect(witness[0]).toHaveLength(64);
+  });
+
+  it('should refuse a key that does not control the address', async () => {
+    const { rawTx } = compose(RECIPIENT);
+
+    await expect(service.signTransaction(rawTx, RECIPIENT, WIF)).rejects.toThrow('does not match');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the broadcast audit log
+ */
+
+import { BroadcastLogService, broadcastLogToCsv } from '../../src/services/broadcast-log';
+import { MemoryStorage } from '../../src/services/storage';
+import { BROADCAST_LOG } from '../../src/constants';
+import { mockSignedTransaction } from '../mocks/mock-data';
+
+describe('BroadcastLogService', () => {
+  let log: BroadcastLogService;
+
+  beforeEach(() => {
+    log = new BroadcastLogService(new MemoryStorage());
+  });
+
+  it('should record fee details from the signed transaction', async () => {
+    await log.record({
+      kind: 'transfer',
+      reason: 'Fulfill order order_1',
+      success: true,
+      txid: 'tx_1',
+      asset: 'RAREPEPE',
+      orderHash: 'order_1',
+      destination: 'buyer_address'
+    }, mockSignedTransaction);
+
+    const [entry] = await log.getEntries();
+    expect(entry).toMatchObject({
+      kind: 'transfer',
+      txid: 'tx_1',
+      fee: 2500,
+      vsize: 250,
+      feeRate: 10,
+      inputs: ['utxo_txid_12345:0']
+    });
+  });
+
+  it('should keep failed broadcasts with the signed txid', async () => {
+    await log.record({ kind: 'listing', reason: 'List RAREPEPE @ 1 XCP', success: false, error: 'bad-txns' }, mockSignedTransaction);
+
+    const [entry] = await log.getEntries();
+    expect(entry.success).toBe(false);
+    expect(entry.txid).toBe(mockSignedTransaction.txid);
+  });
+
+  it('should filter by kind and time, newest first', async () => {
+    const spy = jest.spyOn(Date, 'now');
+    spy.mockReturnValue(1000);
+    await log.record({ kind: 'transfer', reason: 'first', success: true });
+    spy.mockReturnValue(2000);
+    await log.record({ kind: 'rbf', reason: 'second', success: true });
+    spy.mockReturnValue(3000);
+    await log.record({ kind: 'transfer', reason: 'third', success: true });
+    spy.mockRestore();
+
+    expect((await log.getEntries()).map(e => e.reason)).toEqual(['third', 'second', 'first']);
+    expect((await log.getEntries({ kind: 'transfer' })).map(e => e.reason)).toEqual(['third', 'first']);
+    expect((await log.getEntries({ since: 1500, until: 2500 })).map(e => e.reason)).toEqual(['second']);
+    expect(await log.getEntries({ limit: 1 })).toHaveLength(1);
+  });
+
+  it('should page back through the log and keep only the newest entries', async () => {
+    const storage = new MemoryStorage();
+    log = new BroadcastLogService(storage);
+    const lrange = jest.spyOn(storage, 'lrange');
+    for (let i = 0; i < BROADCAST_LOG.MAX_ENTRIES + 5; i++) {
+      await storage.rpush('xcpfolio:broadcast-log', JSON.stringify({ id: `id_${i}`, timestamp: i, kind: 'listing', reason: `${i}`, success: true }));
+    }
+    await log.record({ kind: 'transfer', reason: 'latest', success: true });
+
+    const page = await log.getPage({ limit: 2, offset: 1 });
+    expect(page.entries.map(e => e.reason)).toEqual([`${BROADCAST_LOG.MAX_ENTRIES + 4}`, `${BROADCAST_LOG.MAX_ENTRIES + 3}`]);
+    expect(page.nextOffset).toBe(3);
+    expect(lrange).toHaveBeenCalledTimes(1);
+
+    const all = await log.getEntries();
+    expect(all).toHaveLength(BROADCAST_LOG.MAX_ENTRIES);
+    expect(all[all.length - 1].reason).toBe('6');
+  });
+});
+
+describe('broadcastLogToCsv', () => {
+  it('should quote cells containing commas and quotes', () => {
+    const csv = broadcastLogToCsv([{
+      id: 'id_1',
+      timestamp: Date.UTC(2024, 0, 31),
+      kind: 'listing',
+      reason: 'List "PEPE", @ 1 XCP',
+      success: true,
+      inputs: ['a:0', 'b:1']
+    }]);
+    const [header, row] = csv.trim().split('\n');
+
+    expect(header.split(',')[0]).toBe('timestamp');
+    expect(row).toContain('2024-01-31T00:00:00.000Z,listing,true');
+    expect(row).toContain('a:0 b:1');
+    expect(row).toContain('"List ""PEPE"", @ 1 XCP"');
+  });
+});
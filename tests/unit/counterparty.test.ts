@@ -0,0 +1,181 @@
+/**
+ * Unit tests for Counterparty node selection and response normalization
+ */
+
+import * as http from 'http';
+import * as net from 'net';
+import { CounterpartyService } from '../../src/services/counterparty';
+import { CounterpartyNodePool, CounterpartyVersionError } from '../../src/services/counterparty-nodes';
+import { CounterpartyResponseError } from '../../src/services/counterparty-normalize';
+
+const ADDRESS = '1BoatSLRHtKNngkdXEeobR76b53LETtpyT';
+const BUYER = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+const txid = (n: number) => n.toString(16).padStart(64, '0');
+
+describe('CounterpartyService', () => {
+  let server: http.Server;
+  let url: string;
+  let unreachable: string;
+  let version: string;
+  let routes: Record<string, unknown>;
+  let served: Record<string, number>;
+
+  beforeAll(async () => {
+    // Local stand-in for a Counterparty v2 API: the root reports the version, other paths come from routes
+    // Under /old it's a node that was never upgraded
+    server = http.createServer((req, res) => {
+      const old = req.url!.startsWith('/old/');
+      const path = req.url!.replace(/^(\/old)?\/v2/, '').split('?')[0];
+      served[path] = (served[path] || 0) + 1;
+      const result = path === '/'
+        ? { server_ready: true, network: 'mainnet', version: old ? '9.61.0' : version, backend_height: 850000, counterparty_height: 850000 }
+        : routes[path];
+      res.writeHead(result === undefined ? 404 : 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(result === undefined ? { error: { message: 'Not found' } } : { result }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}/v2`;
+
+    // A port nothing listens on
+    const closed = net.createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    unreachable = `http://127.0.0.1:${(closed.address() as net.AddressInfo).port}/v2`;
+    await new Promise(resolve => closed.close(resolve));
+  });
+
+  beforeEach(() => {
+    version = '10.4.1';
+    routes = {};
+    served = {};
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should refuse a node running an unsupported version', async () => {
+    version = '9.61.0';
+    const nodes = new CounterpartyNodePool([url]);
+
+    await expect(nodes.check()).rejects.toThrow(CounterpartyVersionError);
+    await expect(new CounterpartyService(nodes).getCurrentBlock()).rejects.toThrow('runs version 9.61.0');
+  });
+
+  it('should keep running on the compatible nodes when a fallback is outdated', async () => {
+    const outdated = url.replace('/v2', '/old/v2');
+    const nodes = new CounterpartyNodePool([url, outdated]);
+
+    await nodes.check();
+    expect((await nodes.candidates()).map(n => n.url)).toEqual([url]);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining(`${outdated} runs unsupported version 9.61.0`));
+  });
+
+  it('should fail over to a fallback node while the primary is down', async () => {
+    routes['/blocks'] = [{ block_index: 850000, block_hash: '00ab', block_time: 1700000000 }];
+    const nodes = new CounterpartyNodePool([unreachable, url]);
+
+    expect((await new CounterpartyService(nodes).getCurrentBlock()).block_index).toBe(850000);
+    expect(nodes.getStatus().map(n => [n.role, n.healthy])).toEqual([['primary', false], ['fallback', true]]);
+    expect(nodes.activeUrl()).toBe(url);
+  });
+
+  it('should detect mempool transfers under older field names and encodings', async () => {
+    routes['/addresses/mempool'] = [{
+      event_name: 'ASSET_ISSUANCE',
+      tx_hash: txid(1),
+      bindings: JSON.stringify({ asset: 'RAREPEPE', quantity: '0', transfer: 1, issuer: BUYER })
+    }];
+    const counterparty = new CounterpartyService(new CounterpartyNodePool([url]));
+
+    expect(await counterparty.hasUnconfirmedTransfer('RAREPEPE', BUYER, ADDRESS)).toBe(true);
+  });
+
+  it('should fail rather than report no pending transfer when a mempool event is malformed', async () => {
+    routes['/addresses/mempool'] = [
+      { event: 'ASSET_ISSUANCE', tx_hash: txid(1), params: { asset: 'RAREPEPE', quantity: 0, transfer: true, issuer: 'not-an-address' } }
+    ];
+    const counterparty = new CounterpartyService(new CounterpartyNodePool([url]));
+
+    await expect(counterparty.hasUnconfirmedTransfer('RAREPEPE', BUYER, ADDRESS)).rejects.toThrow(CounterpartyResponseError);
+    await expect(counterparty.getMempoolTransfers(ADDRESS)).rejects.toThrow(CounterpartyResponseError);
+  });
+
+  it('should reject order matches missing the fields used to find the buyer', async () => {
+    routes[`/orders/${txid(1)}/matches`] = [{
+      id: `${txid(1)}_${txid(2)}`, tx0_hash: txid(1), tx1_hash: txid(2), tx0_address: ADDRESS,
+      buyer: BUYER, forward_asset: 'A1', forward_quantity: 1,
+      backward_asset: 'XCP', backward_quantity: 100000000, block_index: 850000, status: 'completed'
+    }];
+    const counterparty = new CounterpartyService(new CounterpartyNodePool([url]));
+
+    await expect(counterparty.getOrderMatches(txid(1))).rejects.toThrow(CounterpartyResponseError);
+  });
+
+  it('should reject an order match whose buyer is not an address', async () => {
+    routes[`/orders/${txid(1)}/matches`] = [{
+      id: `${txid(1)}_${txid(2)}`, tx0_hash: txid(1), tx1_hash: txid(2), tx0_address: ADDRESS,
+      tx1_address: 'XCPFOLIO.RAREPEPE', forward_asset: 'A1', forward_quantity: 1,
+      backward_asset: 'XCP', backward_quantity: 100000000, block_index: 850000, status: 'completed'
+    }];
+    const counterparty = new CounterpartyService(new CounterpartyNodePool([url]));
+
+    await expect(counterparty.getOrderMatches(txid(1))).rejects.toThrow(/tx1_address/);
+  });
+
+  it('should reuse reads within a run until a new block arrives', async () => {
+    const matches = `/orders/${txid(1)}/matches`;
+    routes[matches] = [];
+    routes['/addresses/mempool'] = [];
+    const counterparty = new CounterpartyService(new CounterpartyNodePool([url]));
+
+    counterparty.beginRun();
+    counterparty.observeBlockHeight(850000);
+    await Promise.all([counterparty.getOrderMatches(txid(1)), counterparty.getOrderMatches(txid(1))]);
+    await counterparty.getOrderMatches(txid(1));
+    await counterparty.getMempoolTransfers(ADDRESS);
+    await counterparty.getMempoolTransfers(ADDRESS);
+    expect(served[matches]).toBe(1);
+    expect(served['/addresses/mempool']).toBe(2);
+
+    counterparty.observeBlockHeight(850001);
+    await counterparty.getOrderMatches(txid(1));
+    expect(served[matches]).toBe(2);
+
+    expect(counterparty.endRun()).toEqual({ requests: 6, cached: 1, coalesced: 1, invalidations: 1 });
+    await counterparty.getOrderMatches(txid(1));
+    expect(served[matches]).toBe(3);
+  });
+
+  it('should find orders by the block they were filled in, not placed in', async () => {
+    const match = (order: number, block: number) => ({
+      event: 'ORDER_MATCH', tx_hash: txid(order + 100), block_index: block,
+      params: {
+        tx0_hash: txid(order), tx0_address: ADDRESS, tx1_hash: txid(order + 100), tx1_address: BUYER,
+        forward_asset: 'A1', forward_quantity: 1, backward_asset: 'XCP', backward_quantity: 100000000,
+        block_index: block, status: 'completed'
+      }
+    });
+    const order = (n: number) => ({
+      tx_hash: txid(n), block_index: 800000, source: ADDRESS, give_asset: 'A1', give_quantity: 1,
+      give_asset_info: { asset_longname: 'XCPFOLIO.RAREPEPE' }, get_asset: 'XCP', get_quantity: 100000000, status: 'filled'
+    });
+    routes['/addresses/events'] = [match(3, 850020), match(1, 850010), match(2, 849000)];
+    routes[`/orders/${txid(1)}`] = order(1);
+    routes[`/orders/${txid(2)}`] = order(2);
+    const counterparty = new CounterpartyService(new CounterpartyNodePool([url]));
+
+    // Order 3 can't be read: the others still come back, with its block to scan from again
+    const { orders, failedBlock } = await counterparty.getXCPFOLIOOrdersFilledSince(ADDRESS, 850000);
+
+    expect(orders.map(o => o.tx_hash)).toEqual([txid(1)]);
+    expect(failedBlock).toBe(850020);
+    expect(served[`/orders/${txid(2)}`]).toBeUndefined();
+  });
+});
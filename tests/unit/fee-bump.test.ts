@@ -0,0 +1,75 @@
+/**
+ * Unit tests for choosing between RBF and CPFP
+ */
+
+import { planFeeBump, cpfpChildVsize } from '../../src/services/fee-bump';
+import { MempoolPackage } from '../../src/services/bitcoin';
+
+const XCPFOLIO_ADDRESS = '1TestAddressDoNotUse';
+
+function mempoolPackage(overrides: Partial<MempoolPackage> = {}): MempoolPackage {
+  return {
+    txid: 'stuck_tx',
+    fee: 2500,     // 10 sat/vB
+    vsize: 250,
+    descendants: 0,
+    descendantFees: 0,
+    outputs: [
+      { vout: 0, address: 'buyer_address', value: 546 },
+      { vout: 2, address: XCPFOLIO_ADDRESS, value: 50000 }
+    ],
+    ...overrides
+  };
+}
+
+const options = {
+  address: XCPFOLIO_ADDRESS,
+  targetFeeRate: 20,
+  currentFeeRate: 10,
+  maxTotalFeeSats: 10000
+};
+
+describe('planFeeBump', () => {
+  it('should replace when both work and nothing depends on the transfer', () => {
+    const plan = planFeeBump(mempoolPackage(), options);
+
+    expect(plan).toMatchObject({ method: 'rbf', feeRate: 20, fee: 5000 });
+  });
+
+  it('should pay with a child rather than evict descendants', () => {
+    const plan = planFeeBump(mempoolPackage({ descendants: 2, descendantFees: 800 }), options);
+
+    expect(plan).toMatchObject({ method: 'cpfp', change: { vout: 2, value: 50000 } });
+    expect(plan.method && plan.fee).toBe(20 * (250 + cpfpChildVsize(XCPFOLIO_ADDRESS)) - 2500);
+    expect(plan.reason).toContain('evict 2 descendant(s)');
+  });
+
+  it('should pick whichever reaches the higher rate under the ceiling', () => {
+    // RBF can reach 4000 / 250 = 16 sat/vB; a 4000 sat child gets the package to 14.7
+    const capped = planFeeBump(mempoolPackage(), { ...options, maxTotalFeeSats: 4000 });
+    expect(capped).toMatchObject({ method: 'rbf', feeRate: 16 });
+
+    // A ceiling under the original fee blocks RBF entirely
+    const blocked = planFeeBump(mempoolPackage(), { ...options, maxTotalFeeSats: 2000 });
+    expect(blocked).toMatchObject({ method: 'cpfp', fee: 2000 });
+    expect(blocked.method && blocked.feeRate).toBeGreaterThan(10);
+  });
+
+  it('should only replace transfers that dropped out of the mempool', () => {
+    expect(planFeeBump(null, options)).toMatchObject({ method: 'rbf' });
+    expect(planFeeBump(null, { ...options, maxTotalFeeSats: 2000 })).toEqual({
+      method: null,
+      reason: expect.stringContaining('not in the mempool')
+    });
+  });
+
+  it('should give up when neither can bump the fee', () => {
+    const plan = planFeeBump(
+      mempoolPackage({ descendants: 24, descendantFees: 9000 }),
+      options
+    );
+
+    expect(plan.method).toBeNull();
+    expect(plan.reason).toMatch(/RBF: replacing 24 descendant\(s\) needs .*; CPFP: transfer already has 24 descendants/);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit tests for keeping composed transfers under the fee ceiling
+ */
+
+import { FulfillmentProcessor } from '../../src/services/fulfillment';
+import { MemoryStorage, setStorage } from '../../src/services/storage';
+import { mockRawTransaction } from '../mocks/mock-data';
+
+describe('FulfillmentProcessor fee ceiling', () => {
+  let processor: FulfillmentProcessor;
+  let counterparty: { composeTransfer: jest.Mock };
+  let vsize: jest.SpyInstance;
+
+  beforeEach(() => {
+    setStorage(new MemoryStorage());
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    processor = new FulfillmentProcessor({
+      xcpfolioAddress: '1TestAddressDoNotUse',
+      privateKey: 'cTestPrivateKeyDoNotUse',
+      network: 'testnet',
+      composeCooldown: 1,
+      maxTotalFeeSats: 10000
+    });
+    counterparty = { composeTransfer: jest.fn().mockResolvedValue(mockRawTransaction) };
+    (processor as any).counterparty = counterparty;
+    vsize = jest.spyOn(processor as any, 'estimateSignedVsize');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  const compose = (feeRate: number) => (processor as any).composeTransferWithinCeiling('RAREPEPE', 'buyer_address', feeRate, {
+    validate: true,
+    minFeeRate: 1
+  });
+
+  it('should re-compose at the highest rate the ceiling allows', async () => {
+    // 50 sat/vB * 250 vbytes is over the ceiling
+    vsize.mockReturnValue(250);
+
+    await expect(compose(50)).resolves.toMatchObject({ feeRate: 40, vsize: 250 });
+    expect(counterparty.composeTransfer).toHaveBeenLastCalledWith(
+      '1TestAddressDoNotUse', 'RAREPEPE', 'buyer_address', 40, 'auto', true, undefined, undefined
+    );
+  });
+
+  it('should refuse a capped re-composition that still exceeds the ceiling', async () => {
+    // The capped re-composition picks more inputs
+    vsize.mockReturnValueOnce(250).mockReturnValueOnce(400);
+
+    await expect(compose(50)).rejects.toThrow('still exceeds ceiling');
+    expect(counterparty.composeTransfer).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for event-driven fulfillment triggers
+ */
+
+import { FulfillmentEventWatcher, FulfillmentEvent } from '../../src/services/fulfillment-events';
+import { CounterpartyService } from '../../src/services/counterparty';
+
+const ADDRESS = '1BoatSLRHtKNngkdXEeobR76b53LETtpyT';
+
+describe('FulfillmentEventWatcher', () => {
+  let tip: number;
+  let counterparty: { getCurrentBlock: jest.Mock; getAddressEvents: jest.Mock };
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let i = 0; i < 200 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  beforeEach(() => {
+    tip = 850000;
+    counterparty = {
+      getCurrentBlock: jest.fn(async () => ({ block_index: tip })),
+      getAddressEvents: jest.fn().mockResolvedValue([])
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should report new blocks and our order events since the last block', async () => {
+    const watcher = new FulfillmentEventWatcher(ADDRESS, async () => {}, {}, counterparty as unknown as CounterpartyService);
+
+    expect(await watcher.poll()).toEqual([]);
+    expect(counterparty.getAddressEvents).not.toHaveBeenCalled();
+
+    tip = 850001;
+    counterparty.getAddressEvents.mockResolvedValue([
+      { event: 'ORDER_MATCH', tx_hash: 'match_tx', block_index: 850001, params: {} },
+      { event: 'ORDER_FILLED', tx_hash: 'fill_tx', block_index: 850001, params: { tx_hash: 'order_1' } },
+      { event: 'ORDER_MATCH', tx_hash: 'old_match', block_index: 850000, params: {} }
+    ]);
+
+    expect(await watcher.poll()).toEqual([
+      { type: 'block', blockIndex: 850001 },
+      { type: 'order_match', blockIndex: 850001, txHash: 'match_tx' },
+      { type: 'order_filled', blockIndex: 850001, txHash: 'order_1' }
+    ]);
+    expect(await watcher.poll()).toEqual([]);
+  });
+
+  it('should debounce bursts into one run and never overlap runs', async () => {
+    const runs: FulfillmentEvent[][] = [];
+    let release: () => void = () => {};
+    const watcher = new FulfillmentEventWatcher(ADDRESS, events => {
+      runs.push(events);
+      return new Promise<void>(resolve => { release = resolve; });
+    }, { pollIntervalMs: 5, debounceMs: 40 }, counterparty as unknown as CounterpartyService);
+
+    watcher.start();
+    await waitFor(() => counterparty.getCurrentBlock.mock.calls.length > 0);
+    tip = 850001;
+    await waitFor(() => watcher.getStatus().blockIndex === 850001);
+    tip = 850002;
+    await waitFor(() => runs.length === 1);
+
+    // Two blocks inside the debounce window: one run
+    expect(runs[0].map(event => event.blockIndex)).toEqual([850001, 850002]);
+
+    // A block during the run waits for it to finish
+    tip = 850003;
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(runs).toHaveLength(1);
+    release();
+    await waitFor(() => runs.length === 2);
+    watcher.stop();
+
+    expect(runs[1]).toEqual([{ type: 'block', blockIndex: 850003 }]);
+    expect(watcher.getStatus().triggers).toBe(2);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for asset inventory reconciliation
+ */
+
+import { InventoryReconciler, inventoryReportToCsv } from '../../src/services/inventory';
+import { MemoryStorage, setStorage } from '../../src/services/storage';
+import { NotificationService } from '../../src/services/notifications';
+import { PricingEngine } from '../../src/services/pricing-rules';
+import { mockFilledOrder } from '../mocks/mock-data';
+
+const XCPFOLIO_ADDRESS = '1TestAddressDoNotUse';
+
+function assetInfo(asset: string, overrides: Record<string, any> = {}) {
+  return {
+    asset,
+    asset_id: '1',
+    asset_longname: null,
+    issuer: XCPFOLIO_ADDRESS,
+    owner: XCPFOLIO_ADDRESS,
+    divisible: false,
+    locked: false,
+    supply: 1,
+    description: '',
+    description_locked: false,
+    ...overrides
+  };
+}
+
+describe('InventoryReconciler', () => {
+  let storage: MemoryStorage;
+  let counterparty: any;
+  let reconciler: InventoryReconciler;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    setStorage(storage);
+    jest.spyOn(NotificationService, 'sendOnce').mockResolvedValue(undefined);
+
+    counterparty = {
+      getXcpfolioBalances: jest.fn().mockResolvedValue(new Map([['HELDOK', 1], ['NOPRICE', 1]])),
+      getOpenOrderAssets: jest.fn().mockResolvedValue(new Set(['LISTEDOK', 'GIVENAWAY', 'LOCKED'])),
+      getFilledXCPFOLIOOrders: jest.fn().mockResolvedValue([
+        { ...mockFilledOrder, give_asset_info: { ...mockFilledOrder.give_asset_info!, asset_longname: 'XCPFOLIO.SOLDDONE' } },
+        { ...mockFilledOrder, give_asset_info: { ...mockFilledOrder.give_asset_info!, asset_longname: 'XCPFOLIO.SOLDSTUCK' } },
+        { ...mockFilledOrder, give_asset_info: { ...mockFilledOrder.give_asset_info!, asset_longname: 'XCPFOLIO.SOLDPENDING' } }
+      ]),
+      getMempoolTransfers: jest.fn().mockResolvedValue([{ params: { asset: 'SOLDPENDING' } }]),
+      getOwnedAssets: jest.fn().mockResolvedValue([
+        assetInfo('XCPFOLIO'),
+        assetInfo('A123', { asset_longname: 'XCPFOLIO.HELDOK' }),
+        assetInfo('HELDOK'),
+        assetInfo('NOPRICE'),
+        assetInfo('LISTEDOK'),
+        assetInfo('LOCKED', { locked: true }),
+        assetInfo('SOLDSTUCK'),
+        assetInfo('SOLDPENDING'),
+        assetInfo('ORPHAN')
+      ]),
+      getAssetInfo: jest.fn().mockResolvedValue(assetInfo('GIVENAWAY', { owner: 'someone_else' }))
+    };
+
+    const prices = new Map([['HELDOK', 5], ['LISTEDOK', 5], ['GIVENAWAY', 5], ['LOCKED', 5], ['UNSOLD', 5]]);
+    reconciler = new InventoryReconciler(XCPFOLIO_ADDRESS, prices, storage);
+    (reconciler as any).counterparty = counterparty;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  it('should flag each kind of inconsistency', async () => {
+    const report = await reconciler.reconcile();
+    const issues = report.issues.map(i => `${i.asset}:${i.type}:${i.severity}`).sort();
+
+    expect(issues).toEqual([
+      'GIVENAWAY:token_without_asset:critical',
+      'LOCKED:asset_locked:warning',
+      'NOPRICE:token_without_price:info',
+      'ORPHAN:asset_without_token:warning',
+      'SOLDSTUCK:sold_not_transferred:critical'
+    ]);
+    expect(report.items.find(i => i.asset === 'GIVENAWAY')!.owner).toBe('someone_else');
+    expect(report.items.some(i => i.asset === 'XCPFOLIO' || i.asset === 'A123')).toBe(false);
+    expect(report.summary).toMatchObject({ held: 2, listed: 3, critical: 2, warning: 2, info: 1 });
+  });
+
+  it('should store the report and alert on problems', async () => {
+    await reconciler.run();
+
+    expect(await reconciler.getLatestReport()).toMatchObject({ address: XCPFOLIO_ADDRESS });
+    expect(NotificationService.sendOnce).toHaveBeenCalledWith(
+      expect.stringMatching(/^inventory:/),
+      expect.any(Number),
+      expect.stringContaining('2 critical'),
+      'critical',
+      expect.any(Object)
+    );
+  });
+
+  it('should price listings by rule with their recorded listing ages', async () => {
+    const listedAt = Date.now() - 40 * 24 * 60 * 60 * 1000;
+    await storage.set('xcpfolio:maintenance:state', JSON.stringify({
+      lastRun: 0, activeOrders: {}, failedAssets: {}, listedSince: { LISTEDOK: listedAt }
+    }));
+    reconciler.setPricingEngine(new PricingEngine({
+      markdown: { afterDays: 30, percent: 10 }
+    }, new Map([['LISTEDOK', 5], ['HELDOK', 5]])));
+
+    const report = await reconciler.reconcile();
+
+    expect(report.items.find(i => i.asset === 'LISTEDOK')!.price).toBe(4.5);
+    expect(report.items.find(i => i.asset === 'HELDOK')!.price).toBe(5);
+  });
+
+  it('should export issues as CSV', async () => {
+    const csv = inventoryReportToCsv(await reconciler.reconcile());
+    const lines = csv.trim().split('\n');
+
+    expect(lines[0]).toBe('asset,type,severity,token,owner,locked,price,message');
+    expect(lines).toContainEqual(expect.stringMatching(/^GIVENAWAY,token_without_asset,critical,listed,someone_else,false,5,/));
+  });
+});
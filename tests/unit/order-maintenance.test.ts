@@ -0,0 +1,294 @@
+/**
+ * Unit tests for order maintenance listing, re-pricing and delisting
+ */
+
+import { OrderMaintenanceService } from '../../src/services/order-maintenance';
+import { MaintenanceStateManager } from '../../src/services/maintenance-state';
+import { MemoryStorage, setStorage } from '../../src/services/storage';
+import { WITHDRAWN_PRICE } from '../../src/services/prices';
+import { NotificationService } from '../../src/services/notifications';
+import { SignaturePendingError } from '../../src/services/signer';
+import { SpendLedger } from '../../src/services/spend-ledger';
+import { mockFilledOrder, mockSignedTransaction, mockUTXO } from '../mocks/mock-data';
+import { Order } from '../../src/types';
+
+const XCPFOLIO_ADDRESS = '1TestAddressDoNotUse';
+
+function openOrder(asset: string, priceXcp: number): Order {
+  return {
+    ...mockFilledOrder,
+    tx_hash: `open_${asset}`,
+    source: XCPFOLIO_ADDRESS,
+    give_asset: `XCPFOLIO.${asset}`,
+    give_remaining: 1,
+    get_quantity: Math.round(priceXcp * 100000000),
+    status: 'open',
+    give_asset_info: { ...mockFilledOrder.give_asset_info!, asset_longname: `XCPFOLIO.${asset}` }
+  };
+}
+
+describe('OrderMaintenanceService cancels', () => {
+  let storage: MemoryStorage;
+  let counterparty: any;
+  let bitcoin: any;
+
+  const defaultPrices = new Map([['RAREPEPE', 2], ['FAKEPEPE', 1], ['DANKPEPE', 3]]);
+
+  function createService(
+    config: { dryRun?: boolean; maxRepricesPerRun?: number; maxDelistsPerRun?: number; repriceEnabled?: boolean } = {},
+    prices: Map<string, number> = defaultPrices
+  ): OrderMaintenanceService {
+    const service = new OrderMaintenanceService({
+      xcpfolioAddress: XCPFOLIO_ADDRESS,
+      privateKey: 'cTestPrivateKeyDoNotUse',
+      network: 'testnet',
+      waitAfterBroadcast: 1,
+      ...config
+    });
+    (service as any).counterparty = counterparty;
+    (service as any).bitcoin = bitcoin;
+    (service as any).sleep = jest.fn().mockResolvedValue(undefined);
+    service.setPrices(prices);
+    return service;
+  }
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    setStorage(storage);
+
+    counterparty = {
+      getOpenXcpfolioOrders: jest.fn().mockResolvedValue(new Map([
+        ['RAREPEPE', openOrder('RAREPEPE', 1)],   // Price raised to 2
+        ['FAKEPEPE', openOrder('FAKEPEPE', 1)],   // Unchanged
+        ['DANKPEPE', openOrder('DANKPEPE', 5)]    // Price lowered to 3
+      ])),
+      composeCancel: jest.fn().mockResolvedValue('raw_cancel'),
+      getXcpfolioBalances: jest.fn().mockResolvedValue(new Map()),
+      getMempoolOrderAssets: jest.fn().mockResolvedValue(new Set())
+    };
+    bitcoin = {
+      getUnconfirmedTxCount: jest.fn().mockResolvedValue(0),
+      getActualMinimumFeeRate: jest.fn().mockResolvedValue(1),
+      // Each re-fetch sees the change output of the previous broadcast
+      fetchUTXOs: jest.fn().mockImplementation(async () => [{ ...mockUTXO, txid: `utxo_${bitcoin.fetchUTXOs.mock.calls.length}` }]),
+      signTransaction: jest.fn().mockResolvedValue(mockSignedTransaction),
+      broadcastTransaction: jest.fn().mockResolvedValue('cancel_txid')
+    };
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  it('should cancel only listings whose price changed', async () => {
+    const results = await createService().run();
+
+    expect(counterparty.composeCancel).toHaveBeenCalledTimes(2);
+    expect(counterparty.composeCancel).toHaveBeenCalledWith(XCPFOLIO_ADDRESS, 'open_RAREPEPE', 1, 'utxo_1:0');
+    expect(counterparty.composeCancel).toHaveBeenCalledWith(XCPFOLIO_ADDRESS, 'open_DANKPEPE', 1, 'utxo_2:0');
+    expect(results).toContainEqual(expect.objectContaining({
+      asset: 'DANKPEPE', action: 'reprice', previousPrice: 5, price: 3, success: true
+    }));
+
+    const pending = await new MaintenanceStateManager(storage).getPendingCancels();
+    expect(Object.keys(pending).sort()).toEqual(['DANKPEPE', 'RAREPEPE']);
+  });
+
+  it('should not cancel again while a cancel is pending', async () => {
+    await createService().run();
+    counterparty.composeCancel.mockClear();
+
+    await createService().run();
+
+    expect(counterparty.composeCancel).not.toHaveBeenCalled();
+  });
+
+  it('should clear pending cancels once the order leaves the open list', async () => {
+    await createService().run();
+    counterparty.getOpenXcpfolioOrders.mockResolvedValue(new Map([['FAKEPEPE', openOrder('FAKEPEPE', 1)]]));
+
+    await createService().run();
+
+    expect(await new MaintenanceStateManager(storage).getPendingCancels()).toEqual({});
+  });
+
+  it('should respect the per-run limit', async () => {
+    await createService({ maxRepricesPerRun: 1 }).run();
+
+    expect(counterparty.composeCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only report changes in dry run', async () => {
+    const results = await createService({ dryRun: true }).run();
+
+    expect(counterparty.composeCancel).not.toHaveBeenCalled();
+    expect(results.filter(r => r.action === 'reprice')).toHaveLength(2);
+  });
+
+  it('should delist assets that were removed or withdrawn', async () => {
+    const prices = new Map([['FAKEPEPE', 1], ['DANKPEPE', WITHDRAWN_PRICE]]); // RAREPEPE removed
+
+    const results = await createService({ repriceEnabled: false }, prices).run();
+
+    expect(counterparty.composeCancel).toHaveBeenCalledTimes(2);
+    expect(results).toContainEqual(expect.objectContaining({ asset: 'RAREPEPE', action: 'delist', price: 1, success: true }));
+    expect(results).toContainEqual(expect.objectContaining({ asset: 'DANKPEPE', action: 'delist', price: 5, success: true }));
+
+    const pending = await new MaintenanceStateManager(storage).getPendingCancels();
+    expect(pending.RAREPEPE.newPrice).toBeUndefined();
+  });
+
+  it('should respect the per-run delist limit', async () => {
+    await createService({ repriceEnabled: false, maxDelistsPerRun: 1 }, new Map([['FAKEPEPE', 1]])).run();
+
+    expect(counterparty.composeCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not delist anything when no prices are loaded', async () => {
+    await createService({}, new Map([['RAREPEPE', WITHDRAWN_PRICE]])).run();
+
+    expect(counterparty.composeCancel).not.toHaveBeenCalled();
+  });
+});
+
+describe('OrderMaintenanceService listing', () => {
+  let storage: MemoryStorage;
+  let counterparty: any;
+  let service: OrderMaintenanceService;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    setStorage(storage);
+    jest.spyOn(NotificationService, 'sendOnce').mockResolvedValue(undefined);
+
+    counterparty = {
+      getOpenXcpfolioOrders: jest.fn().mockResolvedValue(new Map()),
+      getXcpfolioBalances: jest.fn().mockResolvedValue(new Map([['RAREPEPE', 1], ['SOLDPEPE', 1], ['LOCKPEPE', 1]])),
+      getMempoolOrderAssets: jest.fn().mockResolvedValue(new Set()),
+      getAssetInfo: jest.fn().mockImplementation(async (asset: string) => ({
+        asset,
+        owner: asset === 'SOLDPEPE' ? 'someone_else' : XCPFOLIO_ADDRESS,
+        locked: asset === 'LOCKPEPE'
+      })),
+      composeOrder: jest.fn().mockResolvedValue('raw_order')
+    };
+
+    service = new OrderMaintenanceService({
+      xcpfolioAddress: XCPFOLIO_ADDRESS,
+      privateKey: 'cTestPrivateKeyDoNotUse',
+      network: 'testnet',
+      waitAfterBroadcast: 1
+    });
+    (service as any).counterparty = counterparty;
+    (service as any).bitcoin = {
+      getUnconfirmedTxCount: jest.fn().mockResolvedValue(0),
+      getActualMinimumFeeRate: jest.fn().mockResolvedValue(1),
+      getProjectedBlockFeeRates: jest.fn().mockResolvedValue([1]),
+      fetchUTXOs: jest.fn().mockImplementation(async () => [{ ...mockUTXO, txid: `utxo_${Math.random()}` }]),
+      signTransaction: jest.fn().mockResolvedValue(mockSignedTransaction),
+      broadcastTransaction: jest.fn().mockResolvedValue('order_txid')
+    };
+    (service as any).sleep = jest.fn().mockResolvedValue(undefined);
+    service.setPrices(new Map([['RAREPEPE', 2], ['SOLDPEPE', 1], ['LOCKPEPE', 3]]));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  it('should skip assets we cannot deliver and record why', async () => {
+    const results = await service.run();
+
+    expect(counterparty.composeOrder).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([expect.objectContaining({ asset: 'RAREPEPE', action: 'list', success: true })]);
+
+    const failed = await new MaintenanceStateManager(storage).getFailedAssets();
+    expect(failed.SOLDPEPE).toMatchObject({ reason: 'undeliverable', lastError: expect.stringContaining('someone_else') });
+    expect(failed.LOCKPEPE).toMatchObject({ reason: 'undeliverable', lastError: expect.stringContaining('locked') });
+    expect(failed.RAREPEPE).toBeUndefined();
+  });
+
+  it('should check deliverability without recording or alerting in dry run', async () => {
+    (service as any).config.dryRun = true;
+
+    const results = await service.run();
+
+    expect(results).toEqual([expect.objectContaining({ asset: 'RAREPEPE', action: 'list', txid: 'dry-run' })]);
+    expect(await new MaintenanceStateManager(storage).getFailedAssets()).toEqual({});
+    expect(NotificationService.sendOnce).not.toHaveBeenCalled();
+  });
+
+  it('should clear the failure once the asset is deliverable again', async () => {
+    await new MaintenanceStateManager(storage).trackFailure('RAREPEPE', 'old problem', 'undeliverable');
+
+    await service.run();
+
+    expect((await new MaintenanceStateManager(storage).getFailedAssets()).RAREPEPE).toBeUndefined();
+  });
+
+  it('should leave listings waiting for a signature unlisted without failing them', async () => {
+    const sign = jest.fn().mockRejectedValue(new SignaturePendingError('listing:RAREPEPE', 'Queued listing:RAREPEPE'));
+    (service as any).config.signer = { type: 'manual', sign };
+
+    const results = await service.run();
+
+    expect(sign).toHaveBeenCalledWith('raw_order', XCPFOLIO_ADDRESS, expect.objectContaining({ key: 'listing:RAREPEPE' }));
+    expect((service as any).bitcoin.broadcastTransaction).not.toHaveBeenCalled();
+    expect(results).toEqual([]);
+
+    const state = new MaintenanceStateManager(storage);
+    expect(await state.hasActiveOrderFresh('RAREPEPE')).toBe(false);
+    expect((await state.getFailedAssets()).RAREPEPE).toBeUndefined();
+  });
+
+  it('should stop listing once the fee budget is spent', async () => {
+    (service as any).spendLedger = new SpendLedger({ hourlyFeeSats: 1000 }, storage);
+
+    const results = await service.run();
+
+    expect((service as any).bitcoin.broadcastTransaction).not.toHaveBeenCalled();
+    expect(results).toEqual([]);
+    expect(NotificationService.sendOnce).toHaveBeenCalledWith(
+      'spend-budget:hourly', expect.any(Number), expect.any(String), 'critical', expect.any(Object)
+    );
+    expect(await new MaintenanceStateManager(storage).hasActiveOrderFresh('RAREPEPE')).toBe(false);
+  });
+
+  it('should defer listings while fees are high and list once they drop', async () => {
+    const bitcoin = (service as any).bitcoin;
+    bitcoin.getProjectedBlockFeeRates.mockResolvedValue([40, 20]);
+    (service as any).config.listingTargetFeeRate = 5;
+    const log = jest.spyOn(console, 'log');
+
+    expect(await service.run()).toEqual([]);
+    expect(counterparty.composeOrder).not.toHaveBeenCalled();
+    expect(log).toHaveBeenCalledWith('  Deferred: 3 (waiting for lower fees)');
+    expect(Object.keys(await new MaintenanceStateManager(storage).getDeferredListings()).sort())
+      .toEqual(['LOCKPEPE', 'RAREPEPE', 'SOLDPEPE']);
+
+    bitcoin.getProjectedBlockFeeRates.mockResolvedValue([3]);
+    const results = await service.run();
+
+    expect(results).toEqual([expect.objectContaining({ asset: 'RAREPEPE', success: true })]);
+    expect((await new MaintenanceStateManager(storage).getDeferredListings()).RAREPEPE).toBeUndefined();
+  });
+
+  it('should list a deferred asset anyway once its deadline passes', async () => {
+    (service as any).bitcoin.getProjectedBlockFeeRates.mockResolvedValue([40]);
+    (service as any).config.listingTargetFeeRate = 5;
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await service.run();
+    expect(counterparty.composeOrder).not.toHaveBeenCalled();
+
+    clock.mockReturnValue(now + 25 * 60 * 60 * 1000);
+    const results = await service.run();
+
+    expect(results).toEqual([expect.objectContaining({ asset: 'RAREPEPE', success: true })]);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for resolving the buyer of a filled order from its matches
+ */
+
+import { FulfillmentProcessor } from '../../src/services/fulfillment';
+import { MemoryStorage, setStorage } from '../../src/services/storage';
+import { OrderMatch } from '../../src/types';
+import { mockFilledOrder } from '../mocks/mock-data';
+
+const XCPFOLIO_ADDRESS = '1TestAddressDoNotUse';
+
+function createMatch(overrides: Partial<OrderMatch> = {}): OrderMatch {
+  return {
+    id: 'sell_hash_buy_hash',
+    tx0_index: 1,
+    tx0_hash: 'sell_hash',
+    tx0_address: XCPFOLIO_ADDRESS,
+    tx1_index: 2,
+    tx1_hash: 'buy_hash',
+    tx1_address: 'buyer_address',
+    forward_asset: mockFilledOrder.give_asset,
+    forward_quantity: mockFilledOrder.give_quantity,
+    backward_asset: 'XCP',
+    backward_quantity: mockFilledOrder.get_quantity,
+    tx0_block_index: 849990,
+    tx1_block_index: 850000,
+    block_index: 850000,
+    match_expire_index: 850020,
+    fee_paid: 0,
+    status: 'completed',
+    ...overrides
+  };
+}
+
+describe('FulfillmentProcessor order match resolution', () => {
+  let processor: FulfillmentProcessor;
+  let getOrderMatches: jest.Mock;
+
+  beforeEach(() => {
+    setStorage(new MemoryStorage());
+    processor = new FulfillmentProcessor({
+      xcpfolioAddress: XCPFOLIO_ADDRESS,
+      privateKey: 'cTestPrivateKeyDoNotUse',
+      network: 'testnet'
+    });
+    getOrderMatches = jest.fn();
+    (processor as any).counterparty = { getOrderMatches };
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  const resolve = () => (processor as any).resolveOrderMatches(mockFilledOrder);
+
+  it('should resolve the buyer from a single completed match', async () => {
+    getOrderMatches.mockResolvedValue([createMatch()]);
+
+    const resolution = await resolve();
+
+    expect(resolution.buyer).toBe('buyer_address');
+    expect(resolution.buyerOrderHash).toBe('buy_hash');
+    expect(resolution.reviewReason).toBeUndefined();
+  });
+
+  it('should ignore expired matches when a later match completed', async () => {
+    getOrderMatches.mockResolvedValue([
+      createMatch({ id: 'expired', tx1_address: 'first_buyer', status: 'expired' }),
+      createMatch({ id: 'completed', tx1_address: 'second_buyer', tx1_hash: 'second_buy' })
+    ]);
+
+    const resolution = await resolve();
+
+    expect(resolution.buyer).toBe('second_buyer');
+    expect(resolution.matches).toHaveLength(2);
+  });
+
+  it('should flag completed matches to different buyers for review', async () => {
+    getOrderMatches.mockResolvedValue([
+      createMatch({ id: 'a', tx1_address: 'buyer_a', forward_quantity: 1 }),
+      createMatch({ id: 'b', tx1_address: 'buyer_b', forward_quantity: 1 })
+    ]);
+
+    const resolution = await resolve();
+
+    expect(resolution.buyer).toBeUndefined();
+    expect(resolution.reviewReason).toContain('2 different buyers');
+  });
+
+  it('should flag partial fills for review', async () => {
+    getOrderMatches.mockResolvedValue([
+      createMatch({ forward_quantity: mockFilledOrder.give_quantity - 1 })
+    ]);
+
+    const resolution = await resolve();
+
+    expect(resolution.reviewReason).toContain('does not equal order quantity');
+  });
+
+  it('should flag orders without a completed match for review', async () => {
+    getOrderMatches.mockResolvedValue([createMatch({ status: 'pending' })]);
+
+    const resolution = await resolve();
+
+    expect(resolution.reviewReason).toContain('No completed match');
+  });
+
+  it('should throw when there are no matches at all', async () => {
+    getOrderMatches.mockResolvedValue([]);
+
+    await expect(resolve()).rejects.toThrow('No order matches found');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for rule-based listing prices
+ */
+
+import { PricingEngine, AssetMetadata } from '../../src/services/pricing-rules';
+import { WITHDRAWN_PRICE } from '../../src/services/prices';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2025-01-01T00:00:00Z');
+
+function meta(asset: string, category: string): [string, AssetMetadata] {
+  return [asset, { asset, length: asset.length, category }];
+}
+
+describe('PricingEngine', () => {
+  const fixedPrices = new Map([['ZTRADE', 5], ['LONGERNAME', 7], ['GONE', WITHDRAWN_PRICE]]);
+  const metadata = new Map([
+    meta('ZTRADE', 'Finance'),
+    meta('SATOSHI', 'Bitcoin'),
+    meta('LONGERNAME', 'Dictionary')
+  ]);
+
+  it('should apply overrides, then fixed prices, then category and length prices for unpriced assets', () => {
+    const engine = new PricingEngine({
+      lengthPrices: { '6': 10 },
+      categoryPrices: { bitcoin: 50, finance: 40 },
+      priceUnpricedAssets: true,
+      overrides: { LONGERNAME: 99 }
+    }, fixedPrices, metadata);
+
+    expect(engine.quote('LONGERNAME', undefined, NOW)).toMatchObject({ price: 99, source: 'override' });
+    expect(engine.quote('ZTRADE', undefined, NOW)).toMatchObject({ price: 5, source: 'fixed' });
+    expect(engine.quote('SATOSHI', undefined, NOW)).toMatchObject({ price: 50, source: 'category' });
+    expect(engine.quote('PEPEXX', undefined, NOW)).toMatchObject({ price: 10, source: 'length' });
+    expect(engine.quote('UNKNOWNASSET', undefined, NOW)).toBeNull();
+  });
+
+  it('should leave unpriced assets unpriced unless the rules opt in', () => {
+    const engine = new PricingEngine({ lengthPrices: { '7': 10 }, categoryPrices: { bitcoin: 50 } }, fixedPrices, metadata);
+
+    expect(engine.quote('SATOSHI', undefined, NOW)).toBeNull();
+    expect(engine.computePrices({}, NOW)).toEqual(new Map([['ZTRADE', 5], ['LONGERNAME', 7], ['GONE', WITHDRAWN_PRICE]]));
+  });
+
+  it('should prefer an exact length over the closest open-ended bucket', () => {
+    const engine = new PricingEngine({ lengthPrices: { '5+': 20, '8+': 8, '10': 3 }, priceUnpricedAssets: true });
+
+    expect(engine.quote('ABCDEFG', undefined, NOW)!.price).toBe(20);
+    expect(engine.quote('ABCDEFGHI', undefined, NOW)!.price).toBe(8);
+    expect(engine.quote('ABCDEFGHIJ', undefined, NOW)!.price).toBe(3);
+    expect(engine.quote('ABCD', undefined, NOW)).toBeNull();
+  });
+
+  it('should mark down long-unsold listings in steps up to the cap', () => {
+    const engine = new PricingEngine({
+      markdown: { afterDays: 30, percent: 10, everyDays: 30, maxPercent: 25 }
+    }, fixedPrices);
+
+    expect(engine.quote('ZTRADE', NOW - 29 * DAY, NOW)!.price).toBe(5);
+    expect(engine.quote('ZTRADE', NOW - 30 * DAY, NOW)).toMatchObject({ price: 4.5, basePrice: 5, markdownPercent: 10 });
+    expect(engine.quote('ZTRADE', NOW - 60 * DAY, NOW)!.price).toBe(4);
+    expect(engine.quote('ZTRADE', NOW - 365 * DAY, NOW)).toMatchObject({ price: 3.75, markdownPercent: 25 });
+  });
+
+  it('should not mark down below the floor or mark down overrides', () => {
+    const engine = new PricingEngine({
+      markdown: { afterDays: 1, percent: 90, maxPercent: 90, minPrice: 2 },
+      overrides: { LONGERNAME: 7 }
+    }, fixedPrices);
+
+    expect(engine.quote('ZTRADE', NOW - 10 * DAY, NOW)!.price).toBe(2);
+    expect(engine.quote('LONGERNAME', NOW - 10 * DAY, NOW)!.price).toBe(7);
+  });
+
+  it('should keep withdrawn assets withdrawn', () => {
+    const engine = new PricingEngine({
+      lengthPrices: { '4': 100 },
+      overrides: { ZTRADE: 'withdrawn' }
+    }, fixedPrices, metadata);
+
+    const prices = engine.computePrices({}, NOW);
+
+    expect(prices.get('GONE')).toBe(WITHDRAWN_PRICE);
+    expect(prices.get('ZTRADE')).toBe(WITHDRAWN_PRICE);
+    expect(prices.has('SATOSHI')).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit tests for following a transfer's BIP-125 replacement chain
+ */
+
+import { FulfillmentProcessor } from '../../src/services/fulfillment';
+import { OrderTransaction } from '../../src/services/state';
+import { MemoryStorage, setStorage } from '../../src/services/storage';
+import { NotificationService } from '../../src/services/notifications';
+import { mockRawTransaction, mockSignedTransaction } from '../mocks/mock-data';
+
+const XCPFOLIO_ADDRESS = '1TestAddressDoNotUse';
+
+function trackedTransfer(): OrderTransaction {
+  const version = (txid: string, feeRate: number) => ({
+    txid,
+    feeRate,
+    broadcastTime: Date.now() - 3600000,
+    broadcastBlock: 849990,
+    inputs: ['funding_tx:1']
+  });
+
+  return {
+    orderHash: 'order_1',
+    asset: 'RAREPEPE',
+    buyer: 'buyer_address',
+    txid: 'tx_2',
+    originalTxid: 'tx_1',
+    rbfHistory: ['tx_1', 'tx_2'],
+    broadcastTime: Date.now() - 1800000,
+    broadcastBlock: 849995,
+    feeRate: 15,
+    isRbf: true,
+    rbfCount: 1,
+    versions: [version('tx_1', 10), version('tx_2', 15)]
+  };
+}
+
+describe('FulfillmentProcessor replacement tracking', () => {
+  let processor: FulfillmentProcessor;
+  let bitcoin: any;
+  let tx: OrderTransaction;
+
+  beforeEach(async () => {
+    setStorage(new MemoryStorage());
+    jest.spyOn(NotificationService, 'success').mockResolvedValue(undefined);
+    jest.spyOn(NotificationService, 'critical').mockResolvedValue(undefined);
+
+    processor = new FulfillmentProcessor({
+      xcpfolioAddress: XCPFOLIO_ADDRESS,
+      privateKey: 'cTestPrivateKeyDoNotUse',
+      network: 'testnet'
+    });
+    bitcoin = {
+      isInMempool: jest.fn().mockResolvedValue(false),
+      getTransaction: jest.fn().mockRejectedValue(new Error('Transaction not found')),
+      getOutspend: jest.fn().mockResolvedValue({ spent: false })
+    };
+    (processor as any).bitcoin = bitcoin;
+
+    tx = trackedTransfer();
+    (processor as any).processingState.orderTransactions.set('order_1', tx);
+    await processor.orderHistory.upsertOrder({
+      orderHash: 'order_1',
+      asset: 'RAREPEPE',
+      price: 1,
+      buyer: 'buyer_address',
+      seller: XCPFOLIO_ADDRESS,
+      status: 'confirming',
+      purchasedAt: Date.now(),
+      txid: 'tx_2',
+      lastUpdated: Date.now()
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    setStorage(null);
+  });
+
+  const update = () => (processor as any).updateMempoolState();
+  const tracked = () => (processor as any).processingState.orderTransactions.get('order_1');
+
+  it('should record the earlier version when it confirms instead of the latest', async () => {
+    bitcoin.getTransaction.mockImplementation(async (txid: string) => {
+      if (txid === 'tx_1') return { status: { confirmed: true, block_height: 850000 } };
+      throw new Error('Transaction not found');
+    });
+
+    await update();
+
+    expect(tracked()).toBeUndefined();
+    expect((await processor.orderHistory.getOrder('order_1'))!.txid).toBe('tx_1');
+  });
+
+  it('should alert and hold the order when an input is spent by a transaction we did not send', async () => {
+    bitcoin.getOutspend.mockResolvedValue({ spent: true, txid: 'thief_tx', status: { confirmed: true } });
+
+    await update();
+
+    expect(tracked()).toBeUndefined();
+    expect(NotificationService.critical).toHaveBeenCalledWith(
+      expect.stringContaining('did not send'),
+      expect.objectContaining({ conflictingTxid: 'thief_tx', outpoint: 'funding_tx:1' })
+    );
+    expect((await processor.orderHistory.getOrder('order_1'))!.status).toBe('needs_review');
+  });
+
+  it('should re-send when our own broadcast spent the input', async () => {
+    await (processor as any).broadcastLog.record({ kind: 'listing', reason: 'List FOO', success: true, txid: 'listing_tx' });
+    bitcoin.getOutspend.mockResolvedValue({ spent: true, txid: 'listing_tx', status: { confirmed: true } });
+
+    await update();
+
+    expect(NotificationService.critical).not.toHaveBeenCalled();
+    expect(tracked()).toMatchObject({ droppedFromMempool: true, needsRbf: true });
+  });
+
+  describe('replacements', () => {
+    let counterparty: any;
+    let signer: any;
+
+    beforeEach(() => {
+      counterparty = { composeTransfer: jest.fn().mockResolvedValue(mockRawTransaction) };
+      signer = { sign: jest.fn() };
+      (processor as any).counterparty = counterparty;
+      (processor as any).config.signer = signer;
+      bitcoin.broadcastTransaction = jest.fn().mockResolvedValue('tx_3');
+    });
+
+    const bump = () => (processor as any).attemptRBF(tx, 850000, 25);
+
+    it('should compose the replacement from the previous version\'s inputs', async () => {
+      signer.sign.mockResolvedValue({ ...mockSignedTransaction, inputs: ['funding_tx:1'], fee: 6000 });
+
+      await bump();
+
+      expect(counterparty.composeTransfer).toHaveBeenCalledWith(
+        XCPFOLIO_ADDRESS, 'RAREPEPE', 'buyer_address', 25, 'auto', false, undefined, 'funding_tx:1'
+      );
+      expect(tracked()).toMatchObject({ txid: 'tx_3', rbfCount: 2 });
+    });
+
+    it('should not broadcast a replacement that spends none of the previous inputs', async () => {
+      signer.sign.mockResolvedValue({ ...mockSignedTransaction, inputs: ['unrelated_tx:0'], fee: 6000 });
+
+      expect(await bump()).toBeNull();
+
+      expect(bitcoin.broadcastTransaction).not.toHaveBeenCalled();
+      expect(tracked()).toMatchObject({ txid: 'tx_2', rbfCount: 1 });
+    });
+  });
+});
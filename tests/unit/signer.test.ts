@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the PSBT daemon and manual approval signers
+ */
+
+import axios from 'axios';
+import { BitcoinService } from '../../src/services/bitcoin';
+import {
+  ManualApprovalSigner,
+  PsbtDaemonSigner,
+  SignaturePendingError,
+  SigningQueue,
+  SigningRequest
+} from '../../src/services/signer';
+import { MemoryStorage } from '../../src/services/storage';
+import { UtxoManager } from '../../src/services/utxo-manager';
+import { NotificationService } from '../../src/services/notifications';
+import { mockSignedTransaction } from '../mocks/mock-data';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const ADDRESS = 'bc1qmockaddress';
+const UNSIGNED_PSBT = Buffer.from('unsigned').toString('base64');
+
+const request: SigningRequest = {
+  key: 'transfer:order123',
+  kind: 'transfer',
+  description: 'Transfer RAREPEPE to 1Buyer'
+};
+
+function mockBitcoin() {
+  return {
+    createPsbt: jest.fn().mockResolvedValue({ psbt: UNSIGNED_PSBT, fee: 1500, inputs: ['aa:0'] }),
+    finalizePsbt: jest.fn().mockReturnValue(mockSignedTransaction),
+    isSameSpend: jest.fn().mockReturnValue(true)
+  };
+}
+
+describe('ManualApprovalSigner', () => {
+  let bitcoin: ReturnType<typeof mockBitcoin>;
+  let queue: SigningQueue;
+  let signer: ManualApprovalSigner;
+
+  beforeEach(() => {
+    jest.spyOn(NotificationService, 'info').mockResolvedValue(undefined);
+    bitcoin = mockBitcoin();
+    queue = new SigningQueue(new MemoryStorage(), bitcoin as unknown as BitcoinService);
+    signer = new ManualApprovalSigner(bitcoin as unknown as BitcoinService, queue);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should queue the PSBT once and wait for a signature', async () => {
+    await expect(signer.sign('raw', ADDRESS, request)).rejects.toThrow(SignaturePendingError);
+    await expect(signer.sign('raw2', ADDRESS, request)).rejects.toThrow('Waiting for signature');
+
+    expect(NotificationService.info).toHaveBeenCalledTimes(1);
+    expect(await queue.list('pending')).toEqual([
+      expect.objectContaining({ key: 'transfer:order123', psbt: UNSIGNED_PSBT, fee: 1500, address: ADDRESS })
+    ]);
+  });
+
+  it('should return the signed transaction once and then forget it', async () => {
+    await expect(signer.sign('raw', ADDRESS, request)).rejects.toThrow(SignaturePendingError);
+
+    await queue.submit('transfer:order123', 'signedpsbt');
+    expect(bitcoin.finalizePsbt).toHaveBeenCalledWith('signedpsbt', UNSIGNED_PSBT);
+
+    await expect(signer.sign('raw', ADDRESS, request)).resolves.toEqual(mockSignedTransaction);
+    expect(await queue.get('transfer:order123')).toBeNull();
+  });
+
+  it('should queue again when the approved transaction no longer matches the composed one', async () => {
+    await expect(signer.sign('raw', ADDRESS, request)).rejects.toThrow(SignaturePendingError);
+    await queue.submit('transfer:order123', 'signedpsbt');
+
+    const recomposed = Buffer.from('recomposed').toString('base64');
+    bitcoin.createPsbt.mockResolvedValue({ psbt: recomposed, fee: 1800, inputs: ['bb:0'] });
+    bitcoin.isSameSpend.mockReturnValue(false);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(signer.sign('raw', ADDRESS, request)).rejects.toThrow('Queued transfer:order123');
+    expect(bitcoin.isSameSpend).toHaveBeenCalledWith(UNSIGNED_PSBT, recomposed, ADDRESS);
+    expect(await queue.list()).toEqual([expect.objectContaining({ status: 'pending', psbt: recomposed })]);
+  });
+
+  it('should drop removed requests from the index', async () => {
+    await expect(signer.sign('raw', ADDRESS, request)).rejects.toThrow(SignaturePendingError);
+    await queue.remove('transfer:order123');
+
+    expect(await (queue as any).storage.hgetall('xcpfolio:signer:index')).toBeNull();
+  });
+
+  it('should hold the queued inputs until the request is removed', async () => {
+    const utxos = new UtxoManager(ADDRESS, {}, (queue as any).storage);
+    await expect(signer.sign('raw', ADDRESS, request)).rejects.toThrow(SignaturePendingError);
+
+    // Maintenance reserving the input for itself doesn't shorten the hold
+    await utxos.reserve(['aa:0'], 'listing');
+    await expect(signer.sign('raw', ADDRESS, request)).rejects.toThrow('Waiting for signature');
+    expect(await utxos.getHeld('transfer:order123')).toEqual(['aa:0']);
+
+    await queue.remove('transfer:order123');
+    expect(await utxos.getExcludedOutpoints()).toEqual([]);
+  });
+
+  it('should reject a signed PSBT for a different transaction', async () => {
+    const realQueue = new SigningQueue(new MemoryStorage(), new BitcoinService());
+    await realQueue.enqueue({
+      ...request,
+      status: 'pending',
+      address: ADDRESS,
+      psbt: UNSIGNED_PSBT,
+      fee: 1500,
+      inputs: [],
+      createdAt: Date.now()
+    });
+
+    await expect(
+      realQueue.submit('transfer:order123', Buffer.from('other').toString('base64'))
+    ).rejects.toThrow('does not match');
+    expect((await realQueue.get('transfer:order123'))!.status).toBe('pending');
+  });
+});
+
+describe('PsbtDaemonSigner', () => {
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should send the PSBT to the daemon and finalize what comes back', async () => {
+    const bitcoin = mockBitcoin();
+    mockedAxios.post.mockResolvedValue({ data: { psbt: 'signedpsbt' } });
+    const signer = new PsbtDaemonSigner(bitcoin as unknown as BitcoinService, 'http://signer.local/', 'secret');
+
+    const signed = await signer.sign('raw', ADDRESS, request);
+
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'http://signer.local/sign',
+      expect.objectContaining({ psbt: UNSIGNED_PSBT, address: ADDRESS, key: 'transfer:order123' }),
+      expect.objectContaining({ headers: { Authorization: 'Bearer secret' } })
+    );
+    expect(bitcoin.finalizePsbt).toHaveBeenCalledWith('signedpsbt', UNSIGNED_PSBT);
+    expect(signed).toEqual(mockSignedTransaction);
+  });
+
+  it('should fail when the daemon returns no PSBT', async () => {
+    mockedAxios.post.mockResolvedValue({ data: {} });
+    const signer = new PsbtDaemonSigner(mockBitcoin() as unknown as BitcoinService, 'http://signer.local');
+
+    await expect(signer.sign('raw', ADDRESS, request)).rejects.toThrow('Signing daemon failed');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the fee spend ledger and budgets
+ */
+
+import { SpendLedger, SpendLimitError } from '../../src/services/spend-ledger';
+import { MemoryStorage } from '../../src/services/storage';
+import { NotificationService } from '../../src/services/notifications';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2025-01-02T00:30:00Z');
+
+describe('SpendLedger', () => {
+  let storage: MemoryStorage;
+  let clock: jest.SpyInstance;
+
+  const spendAt = async (ledger: SpendLedger, time: number, fee: number) => {
+    clock.mockReturnValue(time);
+    await ledger.commit(await ledger.reserve('listing', fee, 'listing of RAREPEPE'), 'listing_tx');
+  };
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    clock = jest.spyOn(Date, 'now');
+    jest.spyOn(NotificationService, 'sendOnce').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should total fees over the rolling hour and day, across UTC days', async () => {
+    const ledger = new SpendLedger({ hourlyFeeSats: 10000, dailyFeeSats: 50000 }, storage);
+    await spendAt(ledger, NOW - 25 * HOUR, 9000); // Aged out
+    await spendAt(ledger, NOW - 3 * HOUR, 4000);  // Previous UTC day
+    await spendAt(ledger, NOW - 10 * 60 * 1000, 1500);
+
+    expect(await ledger.getStatus(NOW)).toEqual({
+      hourSpent: 1500,
+      daySpent: 5500,
+      hourlyFeeSats: 10000,
+      dailyFeeSats: 50000
+    });
+  });
+
+  it('should refuse a transaction that would exceed a budget and alert', async () => {
+    const ledger = new SpendLedger({ hourlyFeeSats: 10000, dailyFeeSats: 12000 }, storage);
+    await spendAt(ledger, NOW - 2 * HOUR, 6000);
+    await spendAt(ledger, NOW - 60 * 1000, 5000);
+    clock.mockReturnValue(NOW);
+
+    const reservation = await ledger.reserve('transfer', 1000, 'transfer of RAREPEPE');
+    await ledger.release(reservation);
+
+    const error = await ledger.reserve('transfer', 1500, 'transfer of RAREPEPE').catch(e => e);
+    expect(error).toBeInstanceOf(SpendLimitError);
+    expect(error.window).toBe('daily');
+    expect(NotificationService.sendOnce).toHaveBeenCalledWith(
+      'spend-budget:daily',
+      expect.any(Number),
+      expect.stringContaining('budget exhausted'),
+      'critical',
+      expect.objectContaining({ spentSats: 11000, budgetSats: 12000, blockedFeeSats: 1500 })
+    );
+    expect((await ledger.getStatus(NOW)).daySpent).toBe(11000);
+  });
+
+  it('should not let concurrent reservations overshoot a budget together', async () => {
+    const ledger = new SpendLedger({ hourlyFeeSats: 10000 }, storage);
+    const other = new SpendLedger({ hourlyFeeSats: 10000 }, storage);
+    clock.mockReturnValue(NOW);
+
+    const results = await Promise.allSettled([
+      ledger.reserve('transfer', 6000, 'transfer of RAREPEPE'),
+      other.reserve('listing', 6000, 'listing of PEPECASH')
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled').length).toBeLessThanOrEqual(1);
+    expect((await ledger.getStatus(NOW)).hourSpent).toBeLessThanOrEqual(10000);
+  });
+
+  it('should keep a committed spend counted once, with its txid', async () => {
+    const ledger = new SpendLedger({}, storage);
+    clock.mockReturnValue(NOW);
+
+    await ledger.commit(await ledger.reserve('transfer', 2500, 'transfer of RAREPEPE'), 'transfer_tx');
+
+    const entries = await storage.lrange<{ txid?: string }>('xcpfolio:spend-ledger:2025-01-02', 0, -1);
+    expect(entries).toEqual([expect.objectContaining({ fee: 2500, txid: 'transfer_tx' })]);
+    expect((await ledger.getStatus(NOW)).hourSpent).toBe(2500);
+  });
+
+  it('should only count the fee increase of an RBF replacement', async () => {
+    const ledger = new SpendLedger({}, storage);
+    await spendAt(ledger, NOW - 20 * 60 * 1000, 2500);
+    clock.mockReturnValue(NOW - 10 * 60 * 1000);
+    await ledger.commit(await ledger.reserve('rbf', 4000 - 2500, 'RBF of RAREPEPE'), 'rbf_tx');
+
+    expect((await ledger.getStatus(NOW)).hourSpent).toBe(4000);
+  });
+
+  it('should not limit spending when budgets are 0', async () => {
+    const ledger = new SpendLedger({ hourlyFeeSats: 0, dailyFeeSats: 0 }, storage);
+    await spendAt(ledger, NOW - 60 * 1000, 1000000);
+    clock.mockReturnValue(NOW);
+
+    await expect(ledger.reserve('listing', 1000000, 'listing of RAREPEPE')).resolves.toBeDefined();
+  });
+});
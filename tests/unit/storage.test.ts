@@ -0,0 +1,216 @@
+/**
+ * Unit tests for storage backends and the state managers built on them
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryStorage, FileStorage, createStorage } from '../../src/services/storage';
+import { StateManager } from '../../src/services/state';
+import { MaintenanceStateManager } from '../../src/services/maintenance-state';
+import { OrderHistoryService } from '../../src/services/order-history';
+
+describe('MemoryStorage', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+  });
+
+  it('should round-trip JSON values like Upstash', async () => {
+    await storage.set('state', JSON.stringify({ lastBlock: 5, processed: ['a'] }));
+
+    expect(await storage.get('state')).toEqual({ lastBlock: 5, processed: ['a'] });
+  });
+
+  it('should return plain strings unchanged', async () => {
+    await storage.set('lock', '1700000000000-abc');
+
+    expect(await storage.get('lock')).toBe('1700000000000-abc');
+  });
+
+  it('should return null for missing keys', async () => {
+    expect(await storage.get('missing')).toBeNull();
+    expect(await storage.hgetall('missing')).toBeNull();
+  });
+
+  it('should only set nx keys once', async () => {
+    expect(await storage.set('lock', 'first', { nx: true })).toBe('OK');
+    expect(await storage.set('lock', 'second', { nx: true })).toBeNull();
+    expect(await storage.get('lock')).toBe('first');
+  });
+
+  it('should expire keys after their TTL', async () => {
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await storage.set('lock', 'held', { nx: true, ex: 60 });
+    spy.mockReturnValue(now + 61000);
+
+    expect(await storage.get('lock')).toBeNull();
+    expect(await storage.set('lock', 'again', { nx: true })).toBe('OK');
+    spy.mockRestore();
+  });
+
+  it('should merge hash fields', async () => {
+    await storage.hset('order:1', { asset: 'RAREPEPE', price: 1.5 });
+    await storage.hset('order:1', { status: 'confirmed' });
+
+    expect(await storage.hgetall('order:1')).toEqual({
+      asset: 'RAREPEPE',
+      price: 1.5,
+      status: 'confirmed'
+    });
+  });
+
+  it('should delete hash fields and drop an emptied hash', async () => {
+    await storage.hset('inflight', { order_1: { txid: 'a' }, order_2: { txid: 'b' } });
+    await storage.hdel('inflight', 'order_1');
+
+    expect(await storage.hgetall('inflight')).toEqual({ order_2: { txid: 'b' } });
+    await storage.hdel('inflight', 'order_2');
+    expect(await storage.hgetall('inflight')).toBeNull();
+  });
+
+  it('should append to lists and read ranges', async () => {
+    await storage.rpush('log', JSON.stringify({ n: 1 }));
+    await storage.rpush('log', JSON.stringify({ n: 2 }));
+    expect(await storage.rpush('log', JSON.stringify({ n: 3 }))).toBe(3);
+
+    expect(await storage.lrange('log', 0, -1)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+    expect(await storage.lrange('log', -2, -1)).toEqual([{ n: 2 }, { n: 3 }]);
+    expect(await storage.lrange('missing', 0, -1)).toEqual([]);
+
+    await storage.ltrim('log', -2, -1);
+    expect(await storage.lrange('log', 0, -1)).toEqual([{ n: 2 }, { n: 3 }]);
+    expect(await storage.lrange('log', -10, -3)).toEqual([]);
+
+    await storage.lrem('log', JSON.stringify({ n: 2 }));
+    expect(await storage.lrange('log', 0, -1)).toEqual([{ n: 3 }]);
+  });
+
+  it('should delete keys', async () => {
+    await storage.set('key', 'value');
+    await storage.del('key');
+
+    expect(await storage.get('key')).toBeNull();
+  });
+});
+
+describe('FileStorage', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xcpfolio-storage-'));
+    filePath = path.join(dir, 'state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist values across instances', async () => {
+    const first = new FileStorage(filePath);
+    await first.set('fulfillment-state', JSON.stringify({ lastBlock: 850000 }));
+    await first.hset('order:abc', { asset: 'RAREPEPE' });
+
+    const second = new FileStorage(filePath);
+    expect(await second.get('fulfillment-state')).toEqual({ lastBlock: 850000 });
+    expect(await second.hgetall('order:abc')).toEqual({ asset: 'RAREPEPE' });
+  });
+
+  it('should keep keys another instance wrote and let only one nx set win', async () => {
+    const first = new FileStorage(filePath);
+    const second = new FileStorage(filePath);
+    await first.get('anything');
+    await second.set('maintenance-lock', 'second', { nx: true });
+    await first.set('fulfillment-state', { lastBlock: 850000 });
+
+    expect(await first.set('maintenance-lock', 'first', { nx: true })).toBeNull();
+    expect(await new FileStorage(filePath).get('maintenance-lock')).toBe('second');
+    expect(fs.existsSync(`${filePath}.lock`)).toBe(false);
+  });
+
+  it('should take over a lock left by a crashed process', async () => {
+    const storage = new FileStorage(filePath);
+    fs.writeFileSync(`${filePath}.lock`, '');
+    const old = (Date.now() - 60000) / 1000;
+    fs.utimesSync(`${filePath}.lock`, old, old);
+
+    expect(await storage.set('key', 'value')).toBe('OK');
+  });
+
+  it('should treat a missing file as empty', async () => {
+    const storage = new FileStorage(filePath);
+
+    expect(await storage.get('anything')).toBeNull();
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+});
+
+describe('createStorage', () => {
+  it('should build the requested backend', () => {
+    expect(createStorage('memory')).toBeInstanceOf(MemoryStorage);
+  });
+
+  it('should refuse the file fallback on Vercel', () => {
+    const env = { ...process.env };
+    delete process.env.STORAGE_BACKEND;
+    delete process.env.KV_REST_API_URL;
+    process.env.VERCEL = '1';
+    try {
+      expect(() => createStorage()).toThrow('KV_REST_API_URL');
+      expect(createStorage('memory')).toBeInstanceOf(MemoryStorage);
+    } finally {
+      process.env = env;
+    }
+  });
+
+  it('should reject unknown backends', () => {
+    expect(() => createStorage('sqlite' as any)).toThrow('Unknown STORAGE_BACKEND');
+  });
+});
+
+describe('State managers on MemoryStorage', () => {
+  it('should track processed orders without Redis', async () => {
+    const state = new StateManager(undefined, new MemoryStorage());
+
+    await state.markOrderProcessed('order_1');
+
+    expect(await state.isOrderProcessed('order_1')).toBe(true);
+    expect(await state.isOrderProcessed('order_2')).toBe(false);
+  });
+
+  it('should hold the maintenance lock exclusively', async () => {
+    const storage = new MemoryStorage();
+    const first = new MaintenanceStateManager(storage);
+    const second = new MaintenanceStateManager(storage);
+
+    expect(await first.acquireLock(60)).toBe(true);
+    expect(await second.acquireLock(60)).toBe(false);
+
+    await first.releaseLock();
+    expect(await second.acquireLock(60)).toBe(true);
+  });
+
+  it('should store order history', async () => {
+    const history = new OrderHistoryService(undefined, 100, new MemoryStorage());
+
+    await history.upsertOrder({
+      orderHash: 'order_1',
+      asset: 'RAREPEPE',
+      price: 1,
+      buyer: 'buyer_address',
+      seller: 'seller_address',
+      status: 'processing',
+      purchasedAt: Date.now(),
+      lastUpdated: Date.now()
+    });
+    await history.updateOrderStatus('order_1', 'confirming', 'broadcast', 'tx_1');
+
+    const order = await history.getOrder('order_1');
+    expect(order?.status).toBe('confirming');
+    expect(order?.txid).toBe('tx_1');
+  });
+});
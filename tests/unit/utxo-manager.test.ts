@@ -0,0 +1,131 @@
+/**
+ * Unit tests for UTXO tracking, splits and dust consolidation
+ */
+
+import { UtxoManager } from '../../src/services/utxo-manager';
+import { UTXO } from '../../src/services/bitcoin';
+import { MemoryStorage } from '../../src/services/storage';
+import { mockUTXO } from '../mocks/mock-data';
+
+const XCPFOLIO_ADDRESS = '1TestAddressDoNotUse';
+
+function utxo(txid: string, value: number, confirmed = true): UTXO {
+  return { ...mockUTXO, txid, value, status: { ...mockUTXO.status, confirmed } };
+}
+
+describe('UtxoManager', () => {
+  let storage: MemoryStorage;
+  let manager: UtxoManager;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    manager = new UtxoManager(XCPFOLIO_ADDRESS, {}, storage);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should hide reserved and spent outpoints until mempool.space catches up', async () => {
+    const utxos = [utxo('a', 50000), utxo('b', 50000), utxo('c', 50000)];
+    await manager.reserve(['a:0'], 'listing');
+    await manager.markSpent(['b:0'], 'transfer', 'transfer_txid');
+
+    expect((await manager.filterAvailable(utxos)).map(u => u.txid)).toEqual(['c']);
+    expect((await manager.getExcludedOutpoints()).sort()).toEqual(['a:0', 'b:0']);
+
+    // b is gone from the fetched set, so its spend has caught up
+    await manager.release(['a:0']);
+    expect((await manager.filterAvailable([utxo('a', 50000), utxo('c', 50000)])).map(u => u.txid)).toEqual(['a', 'c']);
+    expect(await manager.getExcludedOutpoints()).toEqual([]);
+  });
+
+  it('should expire reservations', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    await manager.reserve(['a:0'], 'listing');
+
+    clock.mockReturnValue(now + 11 * 60 * 1000);
+    expect(await manager.filterAvailable([utxo('a', 50000)])).toHaveLength(1);
+  });
+
+  it('should hold a queued PSBT\'s inputs as long as its signing request, except from that request', async () => {
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+    await manager.markSpent(['b:0'], 'transfer', 'transfer_txid');
+    await manager.holdForSigning(['a:0', 'b:0'], 'transfer', 'transfer:order_1', now);
+
+    expect((await manager.getTracked())['b:0'].state).toBe('spent');
+    expect(await manager.getHeld('transfer:order_1')).toEqual(['a:0']);
+    expect(await manager.getExcludedOutpoints('transfer:order_1')).toEqual(['b:0']);
+
+    clock.mockReturnValue(now + 6 * 24 * 60 * 60 * 1000);
+    expect(await manager.filterAvailable([utxo('a', 50000)])).toHaveLength(0);
+
+    await manager.releaseSigning('transfer:order_1');
+    expect(await manager.filterAvailable([utxo('a', 50000)])).toHaveLength(1);
+  });
+
+  it('should keep concurrent updates from both services', async () => {
+    const maintenance = new UtxoManager(XCPFOLIO_ADDRESS, {}, storage);
+
+    await Promise.all([
+      manager.markSpent(['a:0'], 'transfer', 'transfer_txid'),
+      maintenance.reserve(['b:0'], 'listing')
+    ]);
+
+    expect((await manager.getExcludedOutpoints()).sort()).toEqual(['a:0', 'b:0']);
+  });
+
+  it('should take over outpoints tracked in the old single-key state', async () => {
+    await storage.set('xcpfolio:utxos:state', JSON.stringify({
+      outpoints: { 'a:0': { outpoint: 'a:0', state: 'spent', purpose: 'transfer', since: Date.now() } }
+    }));
+    await manager.reserve(['b:0'], 'listing');
+
+    expect((await manager.getExcludedOutpoints()).sort()).toEqual(['a:0', 'b:0']);
+    expect(await storage.get('xcpfolio:utxos:state')).toBeNull();
+  });
+
+  it('should split the largest confirmed UTXO into equal outputs', () => {
+    const plan = manager.planSplit([utxo('small', 30000), utxo('big', 1000000), utxo('pending', 5000000, false)], 2)!;
+
+    expect(plan.action).toBe('split');
+    expect(plan.inputs.map(u => u.txid)).toEqual(['big']);
+    expect(plan.outputs).toHaveLength(10);
+    expect(new Set(plan.outputs).size).toBe(1);
+    expect(plan.outputs[0] * 10 + plan.fee).toBe(1000000);
+  });
+
+  it('should split into fewer outputs when the UTXO is small, and not at all once there are enough', () => {
+    expect(manager.planSplit([utxo('big', 45000)], 1)!.outputs).toHaveLength(4);
+    expect(manager.planSplit([utxo('big', 15000)], 1)).toBeNull();
+
+    const enough = Array.from({ length: 10 }, (_, i) => utxo(`u${i}`, 20000));
+    expect(manager.planSplit(enough, 1)).toBeNull();
+  });
+
+  it('should consolidate confirmed dust only when fees are low', () => {
+    const utxos = [
+      ...Array.from({ length: 6 }, (_, i) => utxo(`dust${i}`, 1500)),
+      utxo('unconfirmed', 1000, false),
+      utxo('big', 100000)
+    ];
+
+    const plan = manager.planConsolidation(utxos, 1)!;
+    expect(plan.action).toBe('consolidate');
+    expect(plan.inputs).toHaveLength(6);
+    expect(plan.outputs).toEqual([9000 - plan.fee]);
+
+    expect(manager.planConsolidation(utxos, 5)).toBeNull();
+    expect(manager.planConsolidation(utxos.slice(2), 1)).toBeNull(); // Only 4 dust UTXOs
+  });
+
+  it('should report the UTXO set with tracked outpoints', async () => {
+    await manager.markSpent(['a:0'], 'listing', 'listing_txid');
+
+    const status = await manager.getStatus([utxo('a', 50000), utxo('b', 50000), utxo('c', 1000)]);
+    expect(status).toMatchObject({ total: 3, totalSats: 101000, confirmed: 3, spendable: 1, dust: 1 });
+    expect(status.tracked).toEqual([expect.objectContaining({ outpoint: 'a:0', state: 'spent', txid: 'listing_txid' })]);
+  });
+});